@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parseUiHierarchy } from "./uiTree.js";
+import { auditAccessibility } from "./accessibility.js";
+
+function node(attrs: Record<string, string>, children = ""): string {
+  const defaults: Record<string, string> = {
+    text: "", "resource-id": "", class: "android.view.View", "content-desc": "",
+    clickable: "false", focusable: "false", enabled: "true", bounds: "[0,0][1080,2400]",
+  };
+  const attributes = Object.entries({ ...defaults, ...attrs }).map(([k, v]) => `${k}="${v}"`).join(" ");
+  return children ? `<node ${attributes}>${children}</node>` : `<node ${attributes} />`;
+}
+
+const audit = (body: string, density?: number) =>
+  auditAccessibility(parseUiHierarchy(`<hierarchy rotation="0">${node({}, body)}</hierarchy>`), { density });
+
+const button = (attrs: Record<string, string>) =>
+  node({ class: "android.widget.Button", clickable: "true", focusable: "true", ...attrs });
+
+describe("auditAccessibility()", () => {
+  it("should flag controls without a label", () => {
+    const result = audit(
+      button({ "resource-id": "app:id/close", bounds: "[0,0][200,200]" }) +
+      node({ class: "android.widget.LinearLayout", clickable: "true", focusable: "true", bounds: "[0,300][1080,500]" },
+        node({ class: "android.widget.TextView", text: "Settings", bounds: "[40,300][400,500]" }))
+    );
+
+    expect(result.issues.map((i) => [i.rule, i.element.resourceId])).toEqual([["missing-label", "app:id/close"]]);
+    expect(result.summary).toEqual({ error: 1, warning: 0, info: 0 });
+    expect(result.interactiveElements).toBe(2);
+  });
+
+  it("should measure touch targets in dp", () => {
+    // 84px at 420dpi is 32dp
+    const small = audit(button({ text: "OK", bounds: "[0,0][84,200]" }), 420);
+    expect(small.issues[0]).toMatchObject({ rule: "small-touch-target", severity: "warning", message: expect.stringContaining("32x76dp") });
+
+    expect(audit(button({ text: "OK", bounds: "[0,0][84,200]" })).issues).toEqual([]);
+  });
+
+  it("should flag duplicate labels, unfocusable controls, images and focus jumps", () => {
+    const result = audit(
+      button({ text: "Delete", bounds: "[0,1000][500,1200]" }) +
+      button({ "content-desc": "delete", bounds: "[0,1200][500,1400]", focusable: "false" }) +
+      node({ class: "android.widget.ImageView", bounds: "[0,1500][300,1800]" }) +
+      button({ text: "Back", bounds: "[0,0][300,150]" })
+    );
+
+    expect(result.issues.map((i) => i.rule)).toEqual([
+      "duplicate-label",
+      "unreachable-focus",
+      "duplicate-label",
+      "image-without-description",
+      "focus-order",
+    ]);
+    expect(result.issues[0].message).toContain("2 interactive elements share the label 'Delete'");
+    expect(result.issues[4].element.text).toBe("Back");
+  });
+});
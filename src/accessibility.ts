@@ -0,0 +1,198 @@
+// Mobile Dev MCP - Accessibility Audit
+// Static checks over a parsed UI tree, modelled on Android's Accessibility
+// Scanner: missing labels, small touch targets, duplicate labels, images
+// without descriptions and focus problems.
+
+import { UiElement } from "./types.js";
+import { UiNode, parseBounds } from "./uiTree.js";
+
+export type AuditSeverity = "error" | "warning" | "info";
+
+export const AUDIT_SEVERITIES: AuditSeverity[] = ["error", "warning", "info"];
+
+export type AuditRule =
+  | "missing-label"
+  | "small-touch-target"
+  | "duplicate-label"
+  | "image-without-description"
+  | "unreachable-focus"
+  | "focus-order";
+
+// Material / Android minimum touch target
+export const MIN_TOUCH_TARGET_DP = 48;
+
+// Apple Human Interface Guidelines minimum touch target
+export const MIN_TOUCH_TARGET_PT = 44;
+
+// Issues listed per report; the summary still counts all of them
+export const MAX_AUDIT_ISSUES = 200;
+
+// Density that maps one pixel to one dp
+export const BASELINE_DENSITY = 160;
+
+export interface AccessibilityIssue {
+  rule: AuditRule;
+  severity: AuditSeverity;
+  message: string;
+  element: UiElement;
+}
+
+export interface AccessibilityAudit {
+  issues: AccessibilityIssue[];
+  summary: Record<AuditSeverity, number>;
+  /** Interactive (clickable, long-clickable or checkable) elements checked */
+  interactiveElements: number;
+}
+
+export interface AuditOptions {
+  /** Screen density in dpi (from `wm density`); touch targets are skipped without it */
+  density?: number;
+  /** Smallest touch target side (default: MIN_TOUCH_TARGET_DP) */
+  minTouchTarget?: number;
+  /** Unit of touch target sizes in messages (default: dp) */
+  unit?: "dp" | "pt";
+}
+
+export function isInteractive(el: UiElement): boolean {
+  return el.clickable || el.longClickable || el.checkable;
+}
+
+function isImage(el: UiElement): boolean {
+  return /Image(View|Button)?$/.test(el.className);
+}
+
+/**
+ * What TalkBack would announce: the element's own text or description,
+ * else the text of non-interactive descendants it groups together
+ */
+export function accessibleLabel(node: UiNode): string {
+  const own = (node.contentDescription || node.text).trim();
+  if (own) return own;
+
+  const parts: string[] = [];
+  const collect = (children: UiNode[]) => {
+    for (const child of children) {
+      if (isInteractive(child)) continue;
+      const label = (child.contentDescription || child.text).trim();
+      if (label) parts.push(label);
+      else collect(child.children);
+    }
+  };
+  collect(node.children);
+  return parts.join(" ");
+}
+
+function severityRank(severity: AuditSeverity): number {
+  return AUDIT_SEVERITIES.indexOf(severity);
+}
+
+export function auditAccessibility(roots: UiNode[], options: AuditOptions = {}): AccessibilityAudit {
+  const issues: AccessibilityIssue[] = [];
+  const minTarget = options.minTouchTarget ?? MIN_TOUCH_TARGET_DP;
+  const unit = options.unit ?? "dp";
+  const interactive: Array<{ node: UiNode; label: string }> = [];
+  const focusable: UiNode[] = [];
+
+  const visit = (nodes: UiNode[]) => {
+    for (const node of nodes) {
+      const rect = parseBounds(node.bounds);
+      const visible = !!rect && rect.right > rect.left && rect.bottom > rect.top;
+
+      if (visible && isInteractive(node) && node.enabled) {
+        const label = accessibleLabel(node);
+        interactive.push({ node, label });
+
+        if (!label) {
+          issues.push({
+            rule: "missing-label",
+            severity: "error",
+            message: "Interactive element has no text or content description; screen readers announce nothing useful",
+            element: node,
+          });
+        }
+
+        if (options.density && rect) {
+          const toDp = (px: number) => Math.round((px * BASELINE_DENSITY) / options.density!);
+          const width = toDp(rect.right - rect.left);
+          const height = toDp(rect.bottom - rect.top);
+          if (width < minTarget || height < minTarget) {
+            issues.push({
+              rule: "small-touch-target",
+              severity: "warning",
+              message: `Touch target is ${width}x${height}${unit}; at least ${minTarget}x${minTarget}${unit} is recommended`,
+              element: node,
+            });
+          }
+        }
+
+        if (!node.focusable) {
+          issues.push({
+            rule: "unreachable-focus",
+            severity: "warning",
+            message: "Element is clickable but not focusable; keyboard and switch access users cannot reach it",
+            element: node,
+          });
+        }
+      } else if (visible && isImage(node) && !node.contentDescription) {
+        issues.push({
+          rule: "image-without-description",
+          severity: "info",
+          message: "Image has no content description; describe it or mark it as decorative",
+          element: node,
+        });
+      }
+
+      if (visible && node.focusable && node.enabled) {
+        focusable.push(node);
+      }
+      visit(node.children);
+    }
+  };
+  visit(roots);
+
+  // Several targets announced the same way cannot be told apart
+  const byLabel = new Map<string, UiNode[]>();
+  for (const { node, label } of interactive) {
+    if (!label) continue;
+    const key = label.toLowerCase().replace(/\s+/g, " ");
+    byLabel.set(key, [...(byLabel.get(key) ?? []), node]);
+  }
+  for (const [, nodes] of byLabel) {
+    if (nodes.length < 2) continue;
+    for (const node of nodes) {
+      issues.push({
+        rule: "duplicate-label",
+        severity: "warning",
+        message: `${nodes.length} interactive elements share the label '${accessibleLabel(node)}'`,
+        element: node,
+      });
+    }
+  }
+
+  // Focus follows document order; flag jumps back up the screen
+  for (let i = 1; i < focusable.length; i++) {
+    const previous = parseBounds(focusable[i - 1].bounds)!;
+    const current = parseBounds(focusable[i].bounds)!;
+    if (current.bottom <= previous.top) {
+      issues.push({
+        rule: "focus-order",
+        severity: "info",
+        message: "Focus moves here from an element further down the screen; the reading order may be confusing",
+        element: focusable[i],
+      });
+    }
+  }
+
+  // Most severe first, then in document order
+  const order = new Map<UiElement, number>();
+  const number = (nodes: UiNode[]) => nodes.forEach((n) => { order.set(n, order.size); number(n.children); });
+  number(roots);
+  issues.sort((a, b) =>
+    severityRank(a.severity) - severityRank(b.severity) || order.get(a.element)! - order.get(b.element)!
+  );
+
+  const summary: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) summary[issue.severity]++;
+
+  return { issues, summary, interactiveElements: interactive.length };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import { parseUiHierarchy } from "./uiTree.js";
+import { analyzeScreenStructure } from "./screenAnalysis.js";
+import { rankElementsForGoal, suggestActionsForScreen, tokenize } from "./actionRanking.js";
+
+// Fixtures are `uiautomator dump` output for 1080x2400 screens
+const load = (fixture: string) =>
+  parseUiHierarchy(fs.readFileSync(new URL(`./__fixtures__/${fixture}.xml`, import.meta.url), "utf-8"));
+const rank = (fixture: string, goal: string, limit?: number) => rankElementsForGoal(load(fixture), goal, { limit });
+
+const top = (fixture: string, goal: string) => rank(fixture, goal)[0]?.suggestion.description;
+
+describe("tokenize()", () => {
+  it("should split camelCase, snake_case and punctuation", () => {
+    expect(tokenize("loginButton")).toEqual(["login", "button"]);
+    expect(tokenize("com_email_field")).toEqual(["com", "email", "field"]);
+    expect(tokenize("Don't allow")).toEqual(["dont", "allow"]);
+  });
+
+  it("should join phrases across articles and map synonyms", () => {
+    expect(tokenize("Sign in")).toEqual(["login"]);
+    expect(tokenize("create an account")).toEqual(["signup"]);
+    expect(tokenize("Try again")).toEqual(["retry"]);
+    expect(tokenize("E-mail settings")).toEqual(["email", "settings"]);
+    expect(tokenize("Preferences")).toEqual(["settings"]);
+  });
+});
+
+describe("rankElementsForGoal()", () => {
+  it.each([
+    ["login", "log in", 'Tap "Sign in"'],
+    ["login", "enter my email", 'Type into the "Email" field'],
+    ["login", "create an account", 'Tap "Create account"'],
+    ["list", "write a new email", 'Tap "Compose"'],
+    ["detail", "add to cart", 'Tap "Add to cart"'],
+    ["dialog", "cancel", 'Tap "CANCEL"'],
+    ["error", "try again", 'Tap "Retry"'],
+    ["list", "scroll down", "Scroll the RecyclerView"],
+  ])("should rank the best match first on %s for %j", (fixture, goal, description) => {
+    expect(top(fixture, goal)).toBe(description);
+  });
+
+  it("should return concrete suggestions with confidence and reasoning", () => {
+    const [best] = rank("login", "log in");
+    expect(best.confidence).toBeGreaterThan(0.8);
+    expect(best.suggestion).toMatchObject({
+      action: "tap",
+      target: { text: "Sign in", resourceId: "com.example.shop:id/sign_in_button" },
+      confidence: best.confidence,
+    });
+    expect(best.suggestion.reasoning).toContain("primary action");
+  });
+
+  it("should match input fields through their nearby labels", () => {
+    const ranked = rank("login", "type password");
+    expect(ranked[0].suggestion.action).toBe("input");
+    expect(ranked[0].suggestion.reasoning).toContain('field labelled "Password"');
+    // The link mentions the password too, but the goal asks to type
+    expect(ranked[1].suggestion.description).toBe('Tap "Forgot password?"');
+    expect(ranked[1].confidence).toBeLessThan(ranked[0].confidence);
+  });
+
+  it("should not name scroll containers after their contents", () => {
+    const ranked = rank("login", "enter my email");
+    expect(ranked.map((r) => r.suggestion.action)).not.toContain("scroll");
+  });
+
+  it("should prefer controls that do not negate the goal", () => {
+    expect(rank("permission", "allow camera").map((r) => r.suggestion.description)).not.toContain('Tap "Don\'t allow"');
+    expect(top("permission", "don't allow")).toBe('Tap "Don\'t allow"');
+  });
+
+  it("should fall back to system navigation", () => {
+    const back = rank("detail", "go back");
+    expect(back[0].suggestion.description).toBe('Tap "Navigate up"');
+    expect(back.find((r) => r.suggestion.action === "back")).toMatchObject({ confidence: 0.5 });
+
+    expect(rank("detail", "go home")).toEqual([
+      expect.objectContaining({ confidence: 0.4, suggestion: expect.objectContaining({ action: "home" }) }),
+    ]);
+  });
+
+  it("should return nothing for unrelated goals and respect the limit", () => {
+    expect(rank("login", "settings")).toEqual([]);
+    expect(rank("permission", "don't allow", 1)).toHaveLength(1);
+  });
+});
+
+describe("suggestActionsForScreen()", () => {
+  it("should suggest filling text fields, then the primary action", () => {
+    const suggestions = suggestActionsForScreen(analyzeScreenStructure(load("login")));
+    expect(suggestions.map((s) => s.description)).toEqual([
+      'Type into the "Email" field',
+      'Type into the "Password" field',
+      'Tap "Sign in"',
+    ]);
+    expect(suggestions[1].reasoning).toContain("password field");
+  });
+});
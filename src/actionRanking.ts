@@ -0,0 +1,367 @@
+// Mobile Dev MCP - Goal-to-Element Ranking
+// Ranks the elements of a UI tree against a free-text goal ("log in",
+// "enter my email", "open settings") for suggest_action. Goal words are
+// matched against each element's text, content description, resource-id
+// words, nearby labels and class, and the best matches become
+// SuggestedActions with a confidence score.
+
+import { UiElement, SuggestedAction } from "./types.js";
+import { UiNode, parseBounds } from "./uiTree.js";
+import { accessibleLabel } from "./accessibility.js";
+import { analyzeScreenStructure, ScreenStructure, INPUT_CLASS, LIST_CLASS } from "./screenAnalysis.js";
+
+export interface RankedElement {
+  /** Absent for system navigation (back, home) */
+  element?: UiElement;
+  /** 0-1 */
+  confidence: number;
+  suggestion: SuggestedAction;
+}
+
+export interface RankOptions {
+  /** Most suggestions returned (default: 5) */
+  limit?: number;
+}
+
+export const DEFAULT_SUGGESTION_LIMIT = 5;
+export const MAX_SUGGESTION_LIMIT = 20;
+export const MIN_SUGGESTION_CONFIDENCE = 0.25;
+
+// Multi-word phrases that mean one thing, joined before anything else
+const PHRASES: Array<[string[], string]> = [
+  [["sign", "in"], "login"],
+  [["log", "in"], "login"],
+  [["log", "on"], "login"],
+  [["sign", "up"], "signup"],
+  [["create", "account"], "signup"],
+  [["navigate", "up"], "back"],
+  [["go", "back"], "back"],
+  [["more", "options"], "menu"],
+  [["try", "again"], "retry"],
+  [["new", "message"], "compose"],
+  [["new", "email"], "compose"],
+];
+
+// Skipped when looking for phrases ("create an account")
+const ARTICLES = new Set(["a", "an", "the", "my", "your"]);
+
+// Words that flip a control's meaning ("Don't allow" is no match for "allow")
+const NEGATIONS = new Set(["dont", "not", "no", "never", "deny"]);
+
+// Words that mean the same thing on screen, mapped to one canonical word
+const SYNONYMS: Record<string, string> = {
+  signin: "login",
+  logon: "login",
+  register: "signup",
+  preference: "settings",
+  setting: "settings",
+  option: "settings",
+  gear: "settings",
+  find: "search",
+  lookup: "search",
+  magnifier: "search",
+  return: "back",
+  previous: "back",
+  dismiss: "close",
+  exit: "close",
+  remove: "delete",
+  trash: "delete",
+  discard: "delete",
+  plus: "add",
+  new: "add",
+  basket: "cart",
+  bag: "cart",
+  account: "profile",
+  avatar: "profile",
+  mail: "email",
+  pwd: "password",
+  passcode: "password",
+  chat: "message",
+  conversation: "message",
+  hamburger: "menu",
+  drawer: "menu",
+  reload: "retry",
+  proceed: "continue",
+  next: "continue",
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "to", "on", "in", "into", "at", "of", "for", "and", "with", "my", "i",
+  "want", "would", "like", "please", "go", "this", "that", "it", "app", "screen", "page", "some",
+]);
+
+// Verbs say what to do, not what to look for
+const INPUT_VERBS = new Set(["type", "enter", "fill", "input", "write"]);
+const SCROLL_VERBS = new Set(["scroll", "swipe"]);
+const TAP_VERBS = new Set(["tap", "click", "press", "select", "choose", "open", "hit", "use", "toggle", "check"]);
+
+// Words naming a kind of control, matched against the class instead
+const CLASS_HINTS: Record<string, RegExp> = {
+  button: /Button$/,
+  field: INPUT_CLASS,
+  box: /(EditText|CheckBox|XCUIElementTypeTextField)$/,
+  checkbox: /CheckBox$/,
+  switch: /(Switch|SwitchCompat|ToggleButton)$/,
+  image: /Image(View|Button)?$/,
+  icon: /(Image(View|Button)?|XCUIElementTypeIcon)$/,
+  tab: /Tab/,
+  list: LIST_CLASS,
+};
+
+// Resource-id words that say nothing about the element's purpose
+const ID_NOISE = new Set(["btn", "button", "view", "text", "txt", "tv", "iv", "et", "edit", "layout", "container", "id", "label", "lbl"]);
+
+const FIELD_WEIGHTS = {
+  text: 1,
+  contentDescription: 0.9,
+  label: 0.9,
+  resourceId: 0.7,
+} as const;
+
+type MatchField = keyof typeof FIELD_WEIGHTS;
+
+const FIELD_NAMES: Record<MatchField, string> = {
+  text: "text",
+  contentDescription: "content description",
+  label: "nearby label",
+  resourceId: "resource-id",
+};
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text, camelCase and snake_case into lowercase words, join known
+ * phrases and map synonyms to one canonical word
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/\be-mail/g, "email")
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !ARTICLES.has(w));
+
+  const joined: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const phrase = PHRASES.find(([parts]) => parts.every((part, j) => words[i + j] === part));
+    if (phrase) {
+      joined.push(phrase[1]);
+      i += phrase[0].length - 1;
+    } else {
+      joined.push(words[i]);
+    }
+  }
+  return joined.map((w) => SYNONYMS[stem(w)] ?? SYNONYMS[w] ?? stem(w));
+}
+
+function resourceIdWords(resourceId: string): string[] {
+  return tokenize(resourceId.split("/").pop() ?? "").filter((w) => !ID_NOISE.has(w));
+}
+
+interface Goal {
+  words: string[];
+  classHints: RegExp[];
+  intent: "tap" | "input" | "scroll" | null;
+  back: boolean;
+  home: boolean;
+  negated: boolean;
+}
+
+function parseGoal(goal: string): Goal {
+  const parsed: Goal = { words: [], classHints: [], intent: null, back: false, home: false, negated: false };
+  for (const word of tokenize(goal)) {
+    if (INPUT_VERBS.has(word)) parsed.intent = "input";
+    else if (SCROLL_VERBS.has(word)) parsed.intent = "scroll";
+    else if (TAP_VERBS.has(word)) parsed.intent = parsed.intent ?? "tap";
+    else if (CLASS_HINTS[word]) parsed.classHints.push(CLASS_HINTS[word]);
+    else if (NEGATIONS.has(word)) parsed.negated = true;
+    else if (!STOPWORDS.has(word)) {
+      if (word === "back") parsed.back = true;
+      if (word === "home") parsed.home = true;
+      if (!parsed.words.includes(word)) parsed.words.push(word);
+    }
+  }
+  return parsed;
+}
+
+function actionFor(node: UiNode): SuggestedAction["action"] {
+  if (INPUT_CLASS.test(node.className)) return "input";
+  if (node.scrollable && !node.clickable) return "scroll";
+  return "tap";
+}
+
+function describe(action: SuggestedAction["action"], label: string, el: UiElement): string {
+  const name = label || el.className.split(".").pop() || "element";
+  switch (action) {
+    case "input": return `Type into the "${name}" field`;
+    case "scroll": return `Scroll the ${name}`;
+    default: return `Tap "${name}"`;
+  }
+}
+
+function targetOf(el: UiElement): SuggestedAction["target"] {
+  return {
+    text: el.text || undefined,
+    resourceId: el.resourceId || undefined,
+    contentDescription: el.contentDescription || undefined,
+    bounds: el.bounds,
+  };
+}
+
+export function rankElementsForGoal(roots: UiNode[], goal: string, options: RankOptions = {}): RankedElement[] {
+  const parsed = parseGoal(goal);
+  const limit = options.limit ?? DEFAULT_SUGGESTION_LIMIT;
+
+  const structure = analyzeScreenStructure(roots);
+  const fieldLabels = new Map(structure.formFields.map((f) => [f.element, f.label]));
+  const primary = structure.primaryAction?.element;
+
+  const ranked: Array<RankedElement & { order: number }> = [];
+  let order = 0;
+  const visit = (nodes: UiNode[]) => {
+    for (const node of nodes) {
+      const position = order++;
+      visit(node.children);
+
+      const rect = parseBounds(node.bounds);
+      const actionable = node.clickable || node.longClickable || node.checkable || node.scrollable || fieldLabels.has(node);
+      if (!actionable || !node.enabled || !rect || rect.right <= rect.left || rect.bottom <= rect.top) continue;
+
+      // What this element is called, field by field. Scroll containers are
+      // not named after everything inside them.
+      const label = fieldLabels.get(node) ??
+        (node.clickable || node.longClickable ? accessibleLabel(node) : node.contentDescription || node.text);
+      const fields: Array<[MatchField, Set<string>]> = [
+        ["text", new Set(tokenize(node.text))],
+        ["contentDescription", new Set(tokenize(node.contentDescription))],
+        ["label", new Set(tokenize(label))],
+        ["resourceId", new Set(resourceIdWords(node.resourceId))],
+      ];
+
+      let matched = 0;
+      const matchedIn = new Set<MatchField>();
+      const matchedWords: string[] = [];
+      for (const word of parsed.words) {
+        let best = 0;
+        let bestField: MatchField | null = null;
+        for (const [field, words] of fields) {
+          let weight = 0;
+          if (words.has(word)) weight = FIELD_WEIGHTS[field];
+          else if (word.length >= 3 && [...words].some((w) => w.startsWith(word) || (w.length >= 3 && word.startsWith(w)))) {
+            weight = FIELD_WEIGHTS[field] * 0.6;
+          }
+          if (weight > best) {
+            best = weight;
+            bestField = field;
+          }
+        }
+        if (bestField) {
+          matched += best;
+          matchedIn.add(bestField);
+          matchedWords.push(word);
+        }
+      }
+
+      const action = actionFor(node);
+      // Leave room for the bonuses below to break ties between full matches
+      let confidence = parsed.words.length > 0 ? (matched / parsed.words.length) * 0.8 : 0;
+      const reasons: string[] = [];
+      if (matchedWords.length > 0) {
+        reasons.push(`"${matchedWords.join(" ")}" matches its ${[...matchedIn].map((f) => FIELD_NAMES[f]).join(", ")}`);
+      }
+      if (matchedIn.has("label") && fieldLabels.has(node)) {
+        reasons.push(`it is the field labelled "${label}"`);
+      }
+      const negated = fields.some(([, words]) => [...words].some((w) => NEGATIONS.has(w)));
+      if (negated && !parsed.negated) {
+        confidence *= 0.5;
+      }
+      if (parsed.classHints.some((hint) => hint.test(node.className))) {
+        confidence += 0.1;
+        reasons.push(`it is a ${node.className.split(".").pop()}`);
+      }
+      if (parsed.intent === "scroll" && action === "scroll") {
+        confidence = Math.max(confidence, 0.5);
+      }
+      if (parsed.intent && confidence > 0) {
+        if (parsed.intent === action) {
+          confidence += 0.1;
+          reasons.push(`the goal asks to ${parsed.intent}`);
+        } else if (parsed.intent !== "tap") {
+          confidence *= 0.8;
+        }
+      }
+      if (node === primary && confidence > 0) {
+        confidence += 0.05;
+        reasons.push("it is the screen's primary action");
+      }
+      confidence = Math.round(Math.min(1, confidence) * 100) / 100;
+      if (confidence < MIN_SUGGESTION_CONFIDENCE) continue;
+
+      ranked.push({
+        element: node,
+        confidence,
+        order: position,
+        suggestion: {
+          action,
+          description: describe(action, label, node),
+          target: targetOf(node),
+          reasoning: reasons.length > 0 ? `Suggested because ${reasons.join("; ")}` : "Partial match",
+          confidence,
+        },
+      });
+    }
+  };
+  visit(roots);
+
+  ranked.sort((a, b) => b.confidence - a.confidence || a.order - b.order);
+  const results: RankedElement[] = ranked.slice(0, limit).map(({ order: _order, ...r }) => r);
+
+  // System navigation, when no on-screen control does it better
+  const best = results[0]?.confidence ?? 0;
+  if (parsed.back && best < 0.9) {
+    const confidence = best >= 0.6 ? 0.5 : 0.7;
+    results.push({
+      confidence,
+      suggestion: { action: "back", description: "Press the system Back button", reasoning: "The goal asks to go back", confidence },
+    });
+  }
+  if (parsed.home && best < 0.9) {
+    const confidence = 0.4;
+    results.push({
+      confidence,
+      suggestion: { action: "home", description: "Press the system Home button", reasoning: "The goal mentions home", confidence },
+    });
+  }
+
+  return results.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
+
+/**
+ * Likely next steps on a screen without a goal: fill in its text fields,
+ * then use its primary action
+ */
+export function suggestActionsForScreen(structure: ScreenStructure): SuggestedAction[] {
+  const suggestions: SuggestedAction[] = structure.formFields
+    .filter((field) => field.kind === "text" || field.kind === "password")
+    .map((field) => ({
+      action: "input",
+      description: describe("input", field.label, field.element),
+      target: targetOf(field.element),
+      reasoning: `"${field.label}" is a ${field.kind === "password" ? "password" : "text"} field on this screen`,
+    }));
+  if (structure.primaryAction) {
+    suggestions.push({
+      action: "tap",
+      description: describe("tap", structure.primaryAction.label, structure.primaryAction.element),
+      target: targetOf(structure.primaryAction.element),
+      reasoning: "It is the screen's primary action",
+    });
+  }
+  return suggestions;
+}
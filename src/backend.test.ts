@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createFakeBackend, getBackend, setBackend } from "./backend.js";
+
+// ============================================================================
+// FAKE BACKEND TESTS
+// ============================================================================
+
+describe("Fake Backend", () => {
+  it("should default to a single device per platform", async () => {
+    const android = createFakeBackend("android");
+    const ios = createFakeBackend("ios");
+
+    expect(await android.listDevices()).toEqual([
+      { id: "emulator-5554", status: "device", type: "emulator" },
+    ]);
+    expect((await ios.listDevices())[0].type).toBe("simulator");
+  });
+
+  it("should replay UI dumps in order and repeat the last one", async () => {
+    const backend = createFakeBackend("android", { uiHierarchy: ["<first/>", "<second/>"] });
+
+    expect(await backend.dumpUiHierarchy()).toBe("<first/>");
+    expect(await backend.dumpUiHierarchy()).toBe("<second/>");
+    expect(await backend.dumpUiHierarchy()).toBe("<second/>");
+  });
+
+  it("should reject unknown devices", async () => {
+    const backend = createFakeBackend("android", { screenshot: "abc" });
+
+    await expect(backend.captureScreenshot("emulator-9999")).rejects.toThrow("not found");
+    await expect(backend.captureScreenshot("emulator-5554")).resolves.toBe("abc");
+  });
+
+  it("should fail when a capability is not scripted", async () => {
+    const backend = createFakeBackend("android");
+
+    await expect(backend.captureScreenshot()).rejects.toThrow("No screenshot scripted");
+    await expect(backend.getPackageDump("com.example.app")).rejects.toThrow("Unable to find package");
+  });
+
+  it("should limit logs to the requested number of lines", async () => {
+    const backend = createFakeBackend("android", { logs: "one\ntwo\nthree" });
+
+    expect(await backend.readLogs({ lines: 2 })).toBe("two\nthree");
+  });
+});
+
+// ============================================================================
+// BACKEND REGISTRY TESTS
+// ============================================================================
+
+describe("Backend Registry", () => {
+  afterEach(() => {
+    setBackend("android", null);
+  });
+
+  it("should return the overridden backend", () => {
+    const fake = createFakeBackend("android");
+    setBackend("android", fake);
+    expect(getBackend("android")).toBe(fake);
+  });
+
+  it("should fall back to the real backend after reset", () => {
+    setBackend("android", createFakeBackend("android"));
+    setBackend("android", null);
+    expect(getBackend("android").platform).toBe("android");
+  });
+});
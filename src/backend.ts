@@ -0,0 +1,534 @@
+// Mobile Dev MCP - Device Backends
+// Every tool talks to devices through a DeviceBackend so Android, iOS and a
+// scripted fake device (for CI) share the same tool code paths.
+
+import * as fs from "fs";
+import {
+  ADB,
+  XCRUN,
+  adbArgs,
+  runCommand,
+  CommandError,
+  startLineProcess,
+  LineProcess,
+  captureAndroidScreenshot,
+  captureIosScreenshot,
+  captureAndroidRecording,
+  captureIosRecording,
+  listConnectedDevices,
+  validateDeviceId,
+  validatePackageName,
+  validateUdid,
+} from "./utils.js";
+import { DeviceInfo, SimulatorDetails } from "./types.js";
+import { parsePidList } from "./logcat.js";
+import { DEVICE_PROPERTIES_SCRIPT, parseDeviceProperties, parseWmDensity } from "./deviceInfo.js";
+import { performanceScript } from "./performance.js";
+
+export type Platform = "android" | "ios";
+
+export interface LogQuery {
+  lines: number;
+  filter?: string;
+  /** Several tags at once; takes precedence over filter */
+  tags?: string[];
+  level?: string;
+  /** Logcat buffers to read (default: the device's default set) */
+  buffers?: LogBuffer[];
+}
+
+export type LogBuffer = "main" | "system" | "crash" | "events";
+
+const LOG_BUFFERS: LogBuffer[] = ["main", "system", "crash", "events"];
+
+export interface DeviceBackend {
+  readonly platform: Platform;
+  /** Whether this host can drive the platform at all (iOS needs macOS) */
+  isAvailable(): boolean;
+  listDevices(): Promise<DeviceInfo[]>;
+  /** DeviceDetails on Android, SimulatorDetails on iOS */
+  getDeviceDetails(device?: string): Promise<DeviceInfo>;
+  /** Raw DEVICE_PROPERTIES_SCRIPT output (Android only; see deviceInfo.ts) */
+  getDeviceProperties(device?: string): Promise<string>;
+  /** Screen density in dpi (the override, when one is set) */
+  getDisplayDensity(device?: string): Promise<number>;
+  /** Returns a base64-encoded PNG */
+  captureScreenshot(device?: string): Promise<string>;
+  /**
+   * Record the screen for a number of seconds into a local MP4 file,
+   * giving up on copying it over once `deadline` (epoch ms) passes
+   */
+  recordScreen(seconds: number, outputPath: string, device?: string, deadline?: number): Promise<void>;
+  /** Whether the soft keyboard is showing (it is not part of UI dumps) */
+  isKeyboardShown(device?: string): Promise<boolean>;
+  /**
+   * Returns the raw hierarchy: uiautomator XML on Android, `idb ui
+   * describe-all --json --nested` output on iOS (see iosHierarchy.ts)
+   */
+  dumpUiHierarchy(device?: string): Promise<string>;
+  readLogs(query: LogQuery, device?: string): Promise<string>;
+  /** Start a long-lived log process that follows new log lines */
+  startLogProcess(device?: string): LineProcess;
+  getPackageDump(packageName: string, device?: string): Promise<string>;
+  /** PIDs of the running processes for a package (empty when not running) */
+  getPids(packageName: string, device?: string): Promise<number[]>;
+  /** Raw performanceScript output for a running process (see performance.ts) */
+  getPerformanceStats(packageName: string, pid: number, device?: string): Promise<string>;
+}
+
+// ============================================================================
+// ANDROID (ADB)
+// ============================================================================
+
+function adb(device: string | undefined, ...args: string[]): string[] {
+  if (device && !validateDeviceId(device)) {
+    throw new Error("Invalid device ID format");
+  }
+  return adbArgs(device, ...args);
+}
+
+/** getprop and the other property sections in a single `adb shell` call */
+async function readAndroidProperties(device?: string): Promise<string> {
+  const { stdout } = await runCommand(ADB, adb(device, "shell", DEVICE_PROPERTIES_SCRIPT));
+  return stdout;
+}
+
+export function createAndroidBackend(): DeviceBackend {
+  return {
+    platform: "android",
+
+    isAvailable: () => true,
+
+    async listDevices() {
+      const devices = await listConnectedDevices();
+      return devices.map((d) => ({
+        ...d,
+        type: d.id.startsWith("emulator-") ? "emulator" : "device",
+      }));
+    },
+
+    async getDeviceDetails(device) {
+      return { ...parseDeviceProperties(await readAndroidProperties(device), device ?? "") };
+    },
+
+    getDeviceProperties: (device) => readAndroidProperties(device),
+
+    async getDisplayDensity(device) {
+      const { stdout } = await runCommand(ADB, adb(device, "shell", "wm", "density"));
+      return parseWmDensity(stdout);
+    },
+
+    captureScreenshot: (device) => captureAndroidScreenshot(device),
+
+    recordScreen: (seconds, outputPath, device, deadline) => captureAndroidRecording(seconds, outputPath, device, deadline),
+
+    async isKeyboardShown(device) {
+      const { stdout } = await runCommand(ADB, adb(device, "shell", "dumpsys", "input_method"));
+      return /\bmInputShown=true\b/.test(stdout);
+    },
+
+    async dumpUiHierarchy(device) {
+      const { stdout } = await runCommand(
+        ADB,
+        adb(device, "exec-out", "uiautomator", "dump", "/dev/tty"),
+        { timeout: 10000 }
+      );
+      return stdout;
+    },
+
+    async readLogs(query, device) {
+      const level = query.level || "I";
+      const tags = query.tags?.length ? query.tags : [query.filter || "*"];
+      const filterArgs = tags.includes("*") ? [`*:${level}`] : ["-s", ...tags.map((tag) => `${tag}:${level}`)];
+      const bufferArgs = (query.buffers ?? []).flatMap((buffer) => {
+        if (!LOG_BUFFERS.includes(buffer)) {
+          throw new Error(`Invalid log buffer: ${buffer}`);
+        }
+        return ["-b", buffer];
+      });
+      const { stdout } = await runCommand(
+        ADB,
+        adb(device, "logcat", "-d", ...bufferArgs, "-v", "threadtime", "-v", "UTC", "-v", "year", "-t", String(query.lines), ...filterArgs),
+        { timeout: 5000 }
+      );
+      return stdout;
+    },
+
+    startLogProcess(device) {
+      // -T 1 starts from the newest existing line instead of the whole
+      // backlog; UTC times with the year, as readLogs gives
+      return startLineProcess(ADB, adb(device, "logcat", "-v", "threadtime", "-v", "UTC", "-v", "year", "-T", "1"));
+    },
+
+    async getPackageDump(packageName, device) {
+      if (!validatePackageName(packageName)) {
+        throw new Error("Invalid package name format");
+      }
+      const { stdout } = await runCommand(ADB, adb(device, "shell", "dumpsys", "package", packageName));
+      return stdout;
+    },
+
+    async getPids(packageName, device) {
+      if (!validatePackageName(packageName)) {
+        throw new Error("Invalid package name format");
+      }
+      // pidof exits non-zero when nothing matches
+      const { stdout } = await runCommand(ADB, adb(device, "shell", "pidof", packageName), { allowNonZeroExit: true });
+      return parsePidList(stdout);
+    },
+
+    async getPerformanceStats(packageName, pid, device) {
+      if (!validatePackageName(packageName)) {
+        throw new Error("Invalid package name format");
+      }
+      if (!Number.isInteger(pid) || pid <= 0) {
+        throw new Error("Invalid process ID");
+      }
+      const { stdout } = await runCommand(ADB, adb(device, "shell", performanceScript(packageName, pid)));
+      return stdout;
+    },
+  };
+}
+
+// ============================================================================
+// iOS (xcrun simctl)
+// ============================================================================
+
+async function listSimctlDevices(): Promise<Array<Record<string, any> & { runtime: string }>> {
+  const { stdout } = await runCommand(XCRUN, ["simctl", "list", "devices", "--json"]);
+  const data = JSON.parse(stdout);
+  const result: Array<Record<string, any> & { runtime: string }> = [];
+  for (const [runtime, devices] of Object.entries(data.devices as Record<string, any[]>)) {
+    for (const device of devices) {
+      result.push({ ...device, runtime });
+    }
+  }
+  return result;
+}
+
+// idb (https://fbidb.io) reads the simulator's accessibility tree
+export const IDB = process.env.IDB_PATH || "idb";
+
+export function createIosBackend(): DeviceBackend {
+  return {
+    platform: "ios",
+
+    isAvailable: () => process.platform === "darwin",
+
+    async listDevices() {
+      const devices = await listSimctlDevices();
+      return devices.map((d) => ({
+        id: d.udid,
+        status: d.state,
+        type: "simulator",
+        name: d.name,
+        runtime: d.runtime,
+      }));
+    },
+
+    async getDeviceDetails(udid = "booted") {
+      if (!validateUdid(udid)) {
+        throw new Error("Invalid iOS Simulator UDID format");
+      }
+      const devices = await listSimctlDevices();
+      const found = devices.find((d) => d.udid === udid || (udid === "booted" && d.state === "Booted"));
+      if (!found) {
+        throw new Error("Simulator not found");
+      }
+      const details: SimulatorDetails = {
+        id: found.udid,
+        status: found.state,
+        type: "simulator",
+        name: found.name,
+        runtime: found.runtime,
+        ...(found.deviceTypeIdentifier && { deviceType: found.deviceTypeIdentifier }),
+        ...(typeof found.isAvailable === "boolean" && { isAvailable: found.isAvailable }),
+        ...(found.dataPath && { dataPath: found.dataPath }),
+        ...(found.logPath && { logPath: found.logPath }),
+      };
+      return details;
+    },
+
+    async getDeviceProperties() {
+      throw new Error("Device properties are not available for iOS Simulators");
+    },
+
+    async getDisplayDensity() {
+      throw new Error("Display density is not available for iOS Simulators");
+    },
+
+    captureScreenshot: (udid) => captureIosScreenshot(udid),
+
+    recordScreen: (seconds, outputPath, udid, deadline) => captureIosRecording(seconds, outputPath, udid, deadline),
+
+    async isKeyboardShown() {
+      throw new Error("Keyboard state is not available for iOS Simulators");
+    },
+
+    async dumpUiHierarchy(udid = "booted") {
+      if (!validateUdid(udid)) {
+        throw new Error("Invalid iOS Simulator UDID format");
+      }
+      // idb needs a real UDID
+      if (udid === "booted") {
+        const booted = (await listSimctlDevices()).find((d) => d.state === "Booted");
+        if (!booted) {
+          throw new Error("No booted iOS Simulator found");
+        }
+        udid = booted.udid as string;
+      }
+
+      try {
+        const { stdout } = await runCommand(
+          IDB,
+          ["ui", "describe-all", "--udid", udid, "--json", "--nested"],
+          { timeout: 30000, maxBuffer: 20 * 1024 * 1024 }
+        );
+        return stdout;
+      } catch (error: any) {
+        // Spawn failures carry no result
+        if (error instanceof CommandError && !error.result && error.message.includes("ENOENT")) {
+          throw new Error("idb is required for iOS UI inspection (https://fbidb.io; set IDB_PATH if it is not on PATH)");
+        }
+        throw error;
+      }
+    },
+
+    async readLogs(query) {
+      const { stdout } = await runCommand(
+        "log",
+        ["show", "--predicate", 'subsystem CONTAINS "com.apple.CoreSimulator"', "--last", "5m", "--style", "compact"],
+        { timeout: 10000 }
+      );
+      // Limit output lines in Node.js instead of shell tail
+      return stdout.split("\n").slice(-query.lines).join("\n");
+    },
+
+    startLogProcess(udid = "booted") {
+      if (!validateUdid(udid)) {
+        throw new Error("Invalid iOS Simulator UDID format");
+      }
+      return startLineProcess(XCRUN, ["simctl", "spawn", udid, "log", "stream", "--style", "compact"]);
+    },
+
+    async getPackageDump() {
+      throw new Error("Package inspection is not supported on iOS Simulators");
+    },
+
+    async getPids() {
+      throw new Error("Process lookup is not supported on iOS Simulators");
+    },
+
+    async getPerformanceStats() {
+      throw new Error("Performance stats are not supported on iOS Simulators");
+    },
+  };
+}
+
+// ============================================================================
+// FAKE (scripted, in-memory)
+// ============================================================================
+
+export interface FakeDeviceScript {
+  devices?: DeviceInfo[];
+  /** Fields getDeviceDetails adds to the device's DeviceInfo, keyed by device ID */
+  details?: Record<string, Record<string, unknown>>;
+  /** getDeviceProperties output keyed by device ID */
+  properties?: Record<string, string>;
+  /** Screen density in dpi (default: 160, one pixel per dp) */
+  density?: number;
+  /** Base64-encoded PNG */
+  screenshot?: string;
+  /** Base64-encoded MP4 written out by recordScreen */
+  recording?: string;
+  keyboardShown?: boolean;
+  /** Successive UI dumps; the last one repeats once the script runs out */
+  uiHierarchy?: string | string[];
+  logs?: string;
+  /** Lines emitted by startLogProcess, as if they arrived after it started */
+  liveLogs?: string[];
+  /** dumpsys package output keyed by package name */
+  packages?: Record<string, string>;
+  /** Running process IDs keyed by package name */
+  pids?: Record<string, number[]>;
+  /** getPerformanceStats output keyed by package name; a list is returned in turn, the last one repeating */
+  performance?: Record<string, string | string[]>;
+}
+
+export function createFakeBackend(platform: Platform, script: FakeDeviceScript = {}): DeviceBackend {
+  const devices = script.devices ?? [
+    { id: platform === "ios" ? "AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE" : "emulator-5554", status: platform === "ios" ? "Booted" : "device", type: platform === "ios" ? "simulator" : "emulator" },
+  ];
+  const dumps = Array.isArray(script.uiHierarchy) ? script.uiHierarchy : script.uiHierarchy !== undefined ? [script.uiHierarchy] : [];
+  let dumpIndex = 0;
+  const performanceCalls = new Map<string, number>();
+
+  const resolveDevice = (device?: string): DeviceInfo => {
+    const found = device && device !== "booted" ? devices.find((d) => d.id === device) : devices[0];
+    if (!found) {
+      throw new Error(device ? `Device '${device}' not found` : "No devices connected");
+    }
+    return found;
+  };
+
+  return {
+    platform,
+
+    isAvailable: () => true,
+
+    async listDevices() {
+      return devices.map((d) => ({ ...d }));
+    },
+
+    async getDeviceDetails(device) {
+      const found = resolveDevice(device);
+      return { ...found, ...script.details?.[found.id] };
+    },
+
+    async getDeviceProperties(device) {
+      const found = resolveDevice(device);
+      const properties = script.properties?.[found.id];
+      if (properties === undefined) {
+        throw new Error("No device properties scripted for fake device");
+      }
+      return properties;
+    },
+
+    async getDisplayDensity(device) {
+      resolveDevice(device);
+      return script.density ?? 160;
+    },
+
+    async captureScreenshot(device) {
+      resolveDevice(device);
+      if (script.screenshot === undefined) {
+        throw new Error("No screenshot scripted for fake device");
+      }
+      return script.screenshot;
+    },
+
+    async recordScreen(_seconds, outputPath, device) {
+      resolveDevice(device);
+      if (script.recording === undefined) {
+        throw new Error("No recording scripted for fake device");
+      }
+      fs.writeFileSync(outputPath, Buffer.from(script.recording, "base64"));
+    },
+
+    async isKeyboardShown(device) {
+      resolveDevice(device);
+      return script.keyboardShown ?? false;
+    },
+
+    async dumpUiHierarchy(device) {
+      resolveDevice(device);
+      if (dumps.length === 0) {
+        throw new Error("No UI hierarchy scripted for fake device");
+      }
+      const dump = dumps[Math.min(dumpIndex, dumps.length - 1)];
+      dumpIndex++;
+      return dump;
+    },
+
+    async readLogs(query, device) {
+      resolveDevice(device);
+      return (script.logs ?? "").split("\n").filter((l) => l).slice(-query.lines).join("\n");
+    },
+
+    startLogProcess(device) {
+      resolveDevice(device);
+      const lineListeners: Array<(line: string) => void> = [];
+      const exitListeners: Array<(error?: Error) => void> = [];
+      let stopped = false;
+
+      setImmediate(() => {
+        for (const line of script.liveLogs ?? []) {
+          if (stopped) return;
+          lineListeners.forEach((l) => l(line));
+        }
+      });
+
+      return {
+        onLine: (listener) => { lineListeners.push(listener); },
+        onExit: (listener) => { exitListeners.push(listener); },
+        stop: () => {
+          if (stopped) return;
+          stopped = true;
+          exitListeners.forEach((l) => l());
+        },
+      };
+    },
+
+    async getPackageDump(packageName, device) {
+      resolveDevice(device);
+      const dump = script.packages?.[packageName];
+      if (dump === undefined) {
+        throw new Error(`Unable to find package: ${packageName}`);
+      }
+      return dump;
+    },
+
+    async getPids(packageName, device) {
+      resolveDevice(device);
+      return [...(script.pids?.[packageName] ?? [])];
+    },
+
+    async getPerformanceStats(packageName, _pid, device) {
+      resolveDevice(device);
+      const stats = script.performance?.[packageName];
+      if (stats === undefined) {
+        throw new Error(`No performance stats scripted for ${packageName}`);
+      }
+      if (!Array.isArray(stats)) {
+        return stats;
+      }
+      const index = Math.min(performanceCalls.get(packageName) ?? 0, stats.length - 1);
+      performanceCalls.set(packageName, index + 1);
+      return stats[index];
+    },
+  };
+}
+
+// ============================================================================
+// BACKEND REGISTRY
+// ============================================================================
+
+const backends: Partial<Record<Platform, DeviceBackend>> = {};
+
+/**
+ * Load a fake device script from MOBILE_DEV_MCP_FAKE_DEVICE so the whole
+ * server can run against scripted devices (e.g. in CI without an emulator).
+ * The file holds `{ "android": FakeDeviceScript, "ios": FakeDeviceScript }`.
+ */
+function loadFakeScript(platform: Platform): FakeDeviceScript | null {
+  const scriptPath = process.env.MOBILE_DEV_MCP_FAKE_DEVICE;
+  if (!scriptPath) return null;
+
+  const scripts = JSON.parse(fs.readFileSync(scriptPath, "utf-8"));
+  return scripts[platform] ?? {};
+}
+
+export function getBackend(platform: Platform): DeviceBackend {
+  let backend = backends[platform];
+  if (!backend) {
+    const fakeScript = loadFakeScript(platform);
+    if (fakeScript) {
+      backend = createFakeBackend(platform, fakeScript);
+    } else {
+      backend = platform === "ios" ? createIosBackend() : createAndroidBackend();
+    }
+    backends[platform] = backend;
+  }
+  return backend;
+}
+
+/**
+ * Override the backend for a platform (pass null to restore the default)
+ */
+export function setBackend(platform: Platform, backend: DeviceBackend | null): void {
+  if (backend) {
+    backends[platform] = backend;
+  } else {
+    delete backends[platform];
+  }
+}
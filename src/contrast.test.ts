@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { createImage, RgbaImage } from "./png.js";
+import { contrastRatio, sampleTextColors, measureTextHeight, checkTextContrast, toHex } from "./contrast.js";
+import { UiElement } from "./types.js";
+
+const WHITE = { r: 255, g: 255, b: 255 };
+const BLACK = { r: 0, g: 0, b: 0 };
+
+function fill(image: RgbaImage, x0: number, y0: number, x1: number, y1: number, [r, g, b]: number[]) {
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      image.data.set([r, g, b, 255], (y * image.width + x) * 4);
+    }
+  }
+}
+
+const textElement = (text: string, bounds: string) => ({ text, bounds } as UiElement);
+
+describe("contrastRatio()", () => {
+  it("should match the WCAG reference values", () => {
+    expect(contrastRatio(BLACK, WHITE)).toBe(21);
+    expect(contrastRatio(WHITE, WHITE)).toBe(1);
+    expect(contrastRatio({ r: 0x76, g: 0x76, b: 0x76 }, WHITE)).toBeCloseTo(4.54, 2);
+  });
+});
+
+describe("sampleTextColors()", () => {
+  it("should take the dominant color as background and skip anti-aliasing", () => {
+    const image = createImage(100, 40);
+    fill(image, 0, 0, 100, 40, [255, 255, 255]);
+    fill(image, 10, 10, 60, 30, [20, 20, 120]);
+    // A thin grey fringe around the glyphs
+    fill(image, 60, 10, 62, 30, [150, 150, 190]);
+
+    const colors = sampleTextColors(image, { x: 0, y: 0, width: 100, height: 40 });
+    expect(toHex(colors!.background)).toBe("#ffffff");
+    expect(toHex(colors!.foreground)).toBe("#141478");
+  });
+
+  it("should give up on flat regions", () => {
+    const image = createImage(10, 10);
+    expect(sampleTextColors(image, { x: 0, y: 0, width: 10, height: 10 })).toBeNull();
+  });
+});
+
+describe("measureTextHeight()", () => {
+  it("should measure one line of glyphs", () => {
+    const image = createImage(100, 80);
+    fill(image, 0, 0, 100, 80, [255, 255, 255]);
+    fill(image, 10, 10, 60, 24, [0, 0, 0]);
+    // A second, shorter line below a gap
+    fill(image, 10, 30, 60, 40, [0, 0, 0]);
+    // Anti-aliased fringe nearer the background does not count
+    fill(image, 10, 24, 60, 26, [220, 220, 220]);
+
+    expect(measureTextHeight(image, { x: 0, y: 0, width: 100, height: 80 }, BLACK, WHITE)).toBe(14);
+  });
+});
+
+describe("checkTextContrast()", () => {
+  it("should judge large text by glyph height in dp", () => {
+    const image = createImage(400, 200);
+    fill(image, 0, 0, 400, 200, [255, 255, 255]);
+    // #949494 on white is about 3:1
+    fill(image, 10, 5, 200, 25, [0x94, 0x94, 0x94]);
+    fill(image, 10, 110, 200, 140, [0x94, 0x94, 0x94]);
+
+    const report = checkTextContrast(image, [
+      textElement("Small", "[0,0][400,30]"),
+      textElement("Large", "[0,100][400,200]"),
+      textElement("", "[0,0][10,10]"),
+      textElement("Off screen", "[500,500][600,600]"),
+    ], 160);
+
+    expect(report.results.map((r) => [r.element.text, r.largeText, r.passes.AA])).toEqual([
+      ["Small", false, false],
+      ["Large", true, true],
+    ]);
+    expect(report.results[0].ratio).toBeCloseTo(3.03, 2);
+    expect(report.undetermined.map((e) => e.text)).toEqual(["Off screen"]);
+  });
+
+  it("should scale point bounds into screenshot pixels", () => {
+    // A 3x screenshot of a 100x40pt element
+    const image = createImage(300, 120);
+    fill(image, 0, 0, 300, 120, [255, 255, 255]);
+    fill(image, 30, 20, 180, 100, [0, 0, 0]);
+
+    const report = checkTextContrast(image, [textElement("Title", "[0,0][100,40]")], 160 * 3, 3);
+    expect(report.results[0]).toMatchObject({ ratio: 21, largeText: true });
+  });
+
+  it("should judge text in a tall button as normal text", () => {
+    // A 48dp button with 14sp (about 13dp of glyphs) text at 3:1
+    const image = createImage(300, 48);
+    fill(image, 0, 0, 300, 48, [255, 255, 255]);
+    fill(image, 100, 17, 200, 30, [0x94, 0x94, 0x94]);
+
+    const report = checkTextContrast(image, [textElement("Continue", "[0,0][300,48]")], 160);
+    expect(report.results[0]).toMatchObject({ largeText: false, passes: { AA: false, AAA: false } });
+  });
+});
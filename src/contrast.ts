@@ -0,0 +1,198 @@
+// Mobile Dev MCP - Color Contrast
+// WCAG 2.x contrast ratios for text elements, with the text and background
+// colors sampled from screenshot pixels inside each element's bounds.
+
+import { UiElement } from "./types.js";
+import { RgbaImage } from "./png.js";
+import { Region, clipRegion } from "./imageOps.js";
+import { parseBounds } from "./uiTree.js";
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export type WcagLevel = "AA" | "AAA";
+
+export const WCAG_LEVELS: WcagLevel[] = ["AA", "AAA"];
+
+// Minimum ratios for normal and large text
+export const WCAG_THRESHOLDS: Record<WcagLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+// Glyphs this tall (ascender to descender, in dp) belong to text of at least
+// ~24sp, WCAG's 18pt "large text". Element bounds are no guide: padded
+// controls such as a 48dp button usually hold 14sp text.
+export const LARGE_TEXT_MIN_GLYPH_HEIGHT_DP = 22;
+
+// Elements listed per report
+export const MAX_CONTRAST_RESULTS = 200;
+
+// Pixels sampled per element at most; larger elements are strided
+const MAX_SAMPLES = 40000;
+
+// A foreground color must cover this share of the most common non-background color
+const MIN_FOREGROUND_SHARE = 0.1;
+
+export interface TextContrast {
+  element: UiElement;
+  foreground: Rgb;
+  background: Rgb;
+  ratio: number;
+  /** Estimated from the height of the text pixels; font sizes are not in the dump */
+  largeText: boolean;
+  passes: Record<WcagLevel, boolean>;
+}
+
+export interface ContrastReport {
+  results: TextContrast[];
+  /** Text elements whose colors could not be told apart (e.g. off screen) */
+  undetermined: UiElement[];
+}
+
+function linearize(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+export function relativeLuminance(color: Rgb): number {
+  return 0.2126 * linearize(color.r) + 0.7152 * linearize(color.g) + 0.0722 * linearize(color.b);
+}
+
+/**
+ * Ratio from 1 (same luminance) to 21 (black on white)
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export function toHex(color: Rgb): string {
+  return "#" + [color.r, color.g, color.b].map((c) => c.toString(16).padStart(2, "0")).join("");
+}
+
+function sampleStride(region: Region): number {
+  return Math.max(1, Math.ceil(Math.sqrt((region.width * region.height) / MAX_SAMPLES)));
+}
+
+function distanceSquared(r: number, g: number, b: number, color: Rgb): number {
+  return (r - color.r) ** 2 + (g - color.g) ** 2 + (b - color.b) ** 2;
+}
+
+/**
+ * Background is the most common color in the region; the text color is the
+ * highest-contrast color among the other common ones, so anti-aliased edge
+ * pixels do not count as the text color.
+ */
+export function sampleTextColors(image: RgbaImage, region: Region): { foreground: Rgb; background: Rgb } | null {
+  const clipped = clipRegion(region, image.width, image.height);
+  if (!clipped) return null;
+
+  const stride = sampleStride(clipped);
+  // Colors bucketed to 5 bits per channel: [count, r sum, g sum, b sum]
+  const buckets = new Map<number, [number, number, number, number]>();
+  for (let y = clipped.y; y < clipped.y + clipped.height; y += stride) {
+    for (let x = clipped.x; x < clipped.x + clipped.width; x += stride) {
+      const offset = (y * image.width + x) * 4;
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket[0]++;
+        bucket[1] += r;
+        bucket[2] += g;
+        bucket[3] += b;
+      } else {
+        buckets.set(key, [1, r, g, b]);
+      }
+    }
+  }
+
+  const colors = [...buckets.values()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([count, r, g, b]) => ({ count, color: { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) } }));
+  if (colors.length < 2) return null;
+
+  const background = colors[0].color;
+  const minCount = colors[1].count * MIN_FOREGROUND_SHARE;
+  let foreground = colors[1].color;
+  let best = contrastRatio(foreground, background);
+  for (const { count, color } of colors.slice(2)) {
+    if (count < minCount) break;
+    const ratio = contrastRatio(color, background);
+    if (ratio > best) {
+      best = ratio;
+      foreground = color;
+    }
+  }
+  return { foreground, background };
+}
+
+/**
+ * Height in pixels of the tallest unbroken run of rows holding pixels nearer
+ * the foreground than the background: one line of glyphs, from the top of
+ * its ascenders to the bottom of its descenders.
+ */
+export function measureTextHeight(image: RgbaImage, region: Region, foreground: Rgb, background: Rgb): number {
+  const clipped = clipRegion(region, image.width, image.height);
+  if (!clipped) return 0;
+
+  const stride = sampleStride(clipped);
+  let run = 0;
+  let longest = 0;
+  for (let y = clipped.y; y < clipped.y + clipped.height; y += stride) {
+    let ink = false;
+    for (let x = clipped.x; x < clipped.x + clipped.width && !ink; x += stride) {
+      const offset = (y * image.width + x) * 4;
+      const [r, g, b] = [image.data[offset], image.data[offset + 1], image.data[offset + 2]];
+      ink = distanceSquared(r, g, b, foreground) < distanceSquared(r, g, b, background);
+    }
+    run = ink ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest * stride;
+}
+
+/**
+ * Without a density every element is judged as normal (not large) text.
+ * `scale` is screenshot pixels per bounds unit (iOS bounds are in points).
+ */
+export function checkTextContrast(image: RgbaImage, elements: UiElement[], density?: number, scale = 1): ContrastReport {
+  const results: TextContrast[] = [];
+  const undetermined: UiElement[] = [];
+
+  for (const element of elements) {
+    if (!element.text.trim()) continue;
+    const bounds = parseBounds(element.bounds);
+    const region = bounds && {
+      x: Math.round(bounds.left * scale),
+      y: Math.round(bounds.top * scale),
+      width: Math.round(bounds.right * scale) - Math.round(bounds.left * scale),
+      height: Math.round(bounds.bottom * scale) - Math.round(bounds.top * scale),
+    };
+    const colors = region && sampleTextColors(image, region);
+    if (!region || !colors) {
+      undetermined.push(element);
+      continue;
+    }
+
+    // WCAG thresholds apply to the unrounded ratio
+    const ratio = contrastRatio(colors.foreground, colors.background);
+    const glyphHeightDp = density
+      ? (measureTextHeight(image, region, colors.foreground, colors.background) * 160) / density
+      : 0;
+    const largeText = glyphHeightDp >= LARGE_TEXT_MIN_GLYPH_HEIGHT_DP;
+    const passes = {} as Record<WcagLevel, boolean>;
+    for (const level of WCAG_LEVELS) {
+      passes[level] = ratio >= WCAG_THRESHOLDS[level][largeText ? "large" : "normal"];
+    }
+    results.push({ element, ...colors, ratio: Math.round(ratio * 100) / 100, largeText, passes });
+  }
+
+  return { results, undetermined };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { parseLogcat } from "./logcat.js";
+import { detectCrashes, filterCrashesByPackage, mapProcessStarts } from "./crashes.js";
+
+const NOW = new Date(Date.UTC(2026, 0, 15, 12, 0, 0));
+
+const JAVA_CRASH = [
+  "01-15 10:00:00.000  1000  1100 I ActivityManager: Start proc 4321:com.example.app/u0a190 for activity {com.example.app/com.example.app.MainActivity}",
+  "01-15 10:00:05.100  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main",
+  "01-15 10:00:05.100  4321  4321 E AndroidRuntime: Process: com.example.app, PID: 4321",
+  "01-15 10:00:05.100  4321  4321 E AndroidRuntime: java.lang.NullPointerException: Attempt to invoke virtual method on a null object reference",
+  "01-15 10:00:05.100   777   777 I OtherApp: interleaved line",
+  "01-15 10:00:05.100  4321  4321 E AndroidRuntime: \tat com.example.app.MainActivity.onCreate(MainActivity.java:42)",
+  "01-15 10:00:05.100  4321  4321 E AndroidRuntime: \tat android.app.Activity.performCreate(Activity.java:8000)",
+];
+
+const NATIVE_CRASH = [
+  "01-15 10:05:00.000  5555  5555 F libc    : Fatal signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0 in tid 5560 (RenderThread), pid 5555 (com.example.app)",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   : *** *** *** *** *** *** *** *** *** *** *** *** *** *** *** ***",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   : Build fingerprint: 'google/sdk_gphone64_x86_64/emu64xa:14/UE1A/1:userdebug/dev-keys'",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   : pid: 5555, tid: 5560, name: RenderThread  >>> com.example.app <<<",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   : signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0000000000000000",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   : backtrace:",
+  "01-15 10:05:00.200  5600  5600 F DEBUG   :       #00 pc 000000000004c3d0  /data/app/lib/x86_64/libnative.so (crash+16)",
+];
+
+const ANR = [
+  "01-15 10:10:00.000  1000  1200 E ActivityManager: ANR in com.example.app (com.example.app/.MainActivity)",
+  "01-15 10:10:00.000  1000  1200 E ActivityManager: PID: 6000",
+  "01-15 10:10:00.000  1000  1200 E ActivityManager: Reason: Input dispatching timed out (Waiting to send non-key event)",
+  "01-15 10:10:00.000  1000  1200 E ActivityManager: Load: 2.5 / 1.8 / 1.2",
+];
+
+const JS_ERROR = [
+  "01-15 10:15:00.000  6000  6050 E ReactNativeJS: TypeError: undefined is not an object (evaluating 'user.name')",
+  "01-15 10:15:00.000  6000  6050 E ReactNativeJS: ",
+  "01-15 10:15:00.000  6000  6050 E ReactNativeJS: This error is located at:",
+  "01-15 10:15:00.000  6000  6050 E ReactNativeJS:     in Profile (created by App)",
+  "01-15 10:15:02.000  6000  6050 I ReactNativeJS: unrelated info later",
+];
+
+const parse = (lines: string[]) => parseLogcat(lines.join("\n"), NOW);
+
+// ============================================================================
+// CRASH DETECTION TESTS
+// ============================================================================
+
+describe("detectCrashes()", () => {
+  it("should group a Java crash into one report", () => {
+    const [report] = detectCrashes(parse(JAVA_CRASH));
+    expect(report).toMatchObject({
+      type: "java_crash",
+      pid: 4321,
+      packageName: "com.example.app",
+      thread: "main",
+      summary: "java.lang.NullPointerException: Attempt to invoke virtual method on a null object reference",
+    });
+    expect(report.details).toHaveLength(2);
+    expect(report.details[0]).toContain("MainActivity.onCreate");
+  });
+
+  it("should parse native tombstones", () => {
+    const [report] = detectCrashes(parse(NATIVE_CRASH));
+    expect(report).toMatchObject({
+      type: "native_crash",
+      pid: 5555,
+      packageName: "com.example.app",
+      thread: "RenderThread",
+    });
+    expect(report.summary).toContain("SIGSEGV");
+    expect(report.details.some((l) => l.includes("#00 pc"))).toBe(true);
+  });
+
+  it("should parse ANRs", () => {
+    const [report] = detectCrashes(parse(ANR));
+    expect(report).toMatchObject({
+      type: "anr",
+      pid: 6000,
+      packageName: "com.example.app",
+      summary: "Reason: Input dispatching timed out (Waiting to send non-key event)",
+    });
+    expect(report.details).toEqual(["Load: 2.5 / 1.8 / 1.2"]);
+  });
+
+  it("should group React Native JS errors and resolve their package", () => {
+    const reports = detectCrashes(parse([...ANR, ...JS_ERROR]));
+    const jsError = reports.find((r) => r.type === "js_error")!;
+    expect(jsError.summary).toContain("TypeError");
+    expect(jsError.details).toContain("    in Profile (created by App)");
+    expect(jsError.details).not.toContain("unrelated info later");
+    expect(jsError.packageName).toBe("com.example.app");
+  });
+
+  it("should find every incident in a mixed log", () => {
+    const reports = detectCrashes(parse([...JAVA_CRASH, ...NATIVE_CRASH, ...ANR, ...JS_ERROR]));
+    expect(reports.map((r) => r.type)).toEqual(["java_crash", "native_crash", "anr", "js_error"]);
+  });
+
+  it("should not report duplicated buffer output twice", () => {
+    expect(detectCrashes(parse([...JAVA_CRASH, ...JAVA_CRASH]))).toHaveLength(1);
+  });
+});
+
+describe("filterCrashesByPackage()", () => {
+  it("should keep reports for the package or its known pids", () => {
+    const reports = detectCrashes(parse([...JAVA_CRASH, ...JS_ERROR]));
+    expect(filterCrashesByPackage(reports, "com.other.app")).toHaveLength(0);
+    expect(filterCrashesByPackage(reports, "com.example.app", [6000])).toHaveLength(2);
+  });
+});
+
+describe("mapProcessStarts()", () => {
+  it("should map pids to packages", () => {
+    expect(mapProcessStarts(parse(JAVA_CRASH)).get(4321)).toBe("com.example.app");
+  });
+});
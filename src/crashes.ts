@@ -0,0 +1,203 @@
+// Mobile Dev MCP - Crash and ANR Detection
+// Groups multi-line logcat output into one report per incident: Java crashes
+// (FATAL EXCEPTION), native tombstones, ANRs and React Native JS errors.
+
+import { LogcatEntry } from "./logcat.js";
+
+export type CrashType = "java_crash" | "native_crash" | "anr" | "js_error";
+
+export interface CrashReport {
+  type: CrashType;
+  timestamp: string;
+  pid: number;
+  packageName?: string;
+  thread?: string;
+  /** One-line summary, e.g. the exception or signal */
+  summary: string;
+  /** Remaining lines of the incident (stack frames, ANR details...) */
+  details: string[];
+}
+
+// Multi-line messages are split into entries with (almost) identical timestamps
+const CONTINUATION_WINDOW_MS = 1000;
+
+const START_PROC_REGEX = /^Start proc (\d+):([a-zA-Z0-9_.]+)(?::[^/\s]*)?\//;
+const JAVA_PROCESS_REGEX = /^Process: ([a-zA-Z0-9_.]+)(?::\S*)?, PID: (\d+)/;
+const NATIVE_HEADER_REGEX = /^pid: (\d+), tid: (\d+), name: (.*?)\s+>>> ([a-zA-Z0-9_.]+)(?::\S*)? <<</;
+const ANR_REGEX = /^ANR in ([a-zA-Z0-9_.]+)/;
+const JS_ERROR_REGEX = /(Error|Exception|Invariant Violation|Unhandled JS Exception|Unhandled promise rejection)/i;
+
+function timeOf(entry: LogcatEntry): number {
+  return new Date(entry.timestamp).getTime();
+}
+
+/**
+ * Collect entries that continue `start`: same tag and pid, arriving within the
+ * continuation window of the previous line. Returns the index after the group.
+ */
+function collectGroup(
+  entries: LogcatEntry[],
+  startIndex: number,
+  belongs: (entry: LogcatEntry) => boolean = () => true
+): number {
+  const start = entries[startIndex];
+  let lastTime = timeOf(start);
+  let i = startIndex + 1;
+  for (; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.tag !== start.tag || entry.pid !== start.pid) {
+      // Other processes interleave freely; keep scanning a little further
+      if (timeOf(entry) - lastTime <= CONTINUATION_WINDOW_MS) continue;
+      break;
+    }
+    if (timeOf(entry) - lastTime > CONTINUATION_WINDOW_MS || !belongs(entry)) break;
+    lastTime = timeOf(entry);
+  }
+  return i;
+}
+
+/**
+ * Entries of the group (same tag and pid as the start), marking them consumed
+ * so interleaved lines from other incidents are still scanned.
+ */
+function takeGroup(entries: LogcatEntry[], startIndex: number, endIndex: number, consumed: Set<number>): LogcatEntry[] {
+  const start = entries[startIndex];
+  const group: LogcatEntry[] = [];
+  for (let i = startIndex; i < endIndex; i++) {
+    if (entries[i].tag === start.tag && entries[i].pid === start.pid) {
+      consumed.add(i);
+      group.push(entries[i]);
+    }
+  }
+  return group;
+}
+
+/**
+ * Build a pid -> package map from ActivityManager "Start proc" lines
+ */
+export function mapProcessStarts(entries: LogcatEntry[]): Map<number, string> {
+  const pids = new Map<number, string>();
+  for (const entry of entries) {
+    const match = entry.message.match(START_PROC_REGEX);
+    if (match) pids.set(Number(match[1]), match[2]);
+  }
+  return pids;
+}
+
+export function detectCrashes(entries: LogcatEntry[]): CrashReport[] {
+  const pidPackages = mapProcessStarts(entries);
+  const reports: CrashReport[] = [];
+  // Logcat often repeats the crash buffer in main; skip identical incidents
+  const seen = new Set<string>();
+
+  const push = (report: CrashReport) => {
+    const key = `${report.type}|${report.pid}|${report.timestamp}|${report.summary}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    if (report.packageName) pidPackages.set(report.pid, report.packageName);
+    reports.push(report);
+  };
+
+  const consumed = new Set<number>();
+
+  for (let i = 0; i < entries.length; i++) {
+    if (consumed.has(i)) continue;
+    const entry = entries[i];
+
+    // Java crash: AndroidRuntime "FATAL EXCEPTION: <thread>"
+    if (entry.tag === "AndroidRuntime" && entry.message.startsWith("FATAL EXCEPTION")) {
+      const end = collectGroup(entries, i, (e) => !e.message.startsWith("FATAL EXCEPTION"));
+      const lines = takeGroup(entries, i, end, consumed).map((e) => e.message).slice(1);
+      const processLine = lines.findIndex((l) => JAVA_PROCESS_REGEX.test(l));
+      const processMatch = processLine >= 0 ? lines[processLine].match(JAVA_PROCESS_REGEX) : null;
+      const rest = processLine >= 0 ? lines.slice(processLine + 1) : lines;
+
+      push({
+        type: "java_crash",
+        timestamp: entry.timestamp,
+        pid: processMatch ? Number(processMatch[2]) : entry.pid,
+        packageName: processMatch?.[1] ?? pidPackages.get(entry.pid),
+        thread: entry.message.replace(/^FATAL EXCEPTION:\s*/, "") || undefined,
+        summary: rest[0] ?? entry.message,
+        details: rest.slice(1),
+      });
+      continue;
+    }
+
+    // Native crash: tombstone header written by debuggerd under the DEBUG tag
+    if ((entry.tag === "DEBUG" || entry.tag === "crash_dump64" || entry.tag === "crash_dump32") &&
+        entry.message.startsWith("*** *** ***")) {
+      const end = collectGroup(entries, i, (e) => !e.message.startsWith("*** *** ***"));
+      const lines = takeGroup(entries, i, end, consumed).map((e) => e.message).slice(1);
+      const header = lines.map((l) => l.match(NATIVE_HEADER_REGEX)).find(Boolean);
+      const signal = lines.find((l) => l.startsWith("signal ")) ?? "Native crash";
+
+      push({
+        type: "native_crash",
+        timestamp: entry.timestamp,
+        pid: header ? Number(header[1]) : entry.pid,
+        packageName: header?.[4] ?? pidPackages.get(entry.pid),
+        thread: header?.[3],
+        summary: signal,
+        details: lines.filter((l) => /^\s*(#\d+|backtrace:|Abort message|Cause:)/.test(l)),
+      });
+      continue;
+    }
+
+    // ANR: ActivityManager "ANR in <package>"
+    const anrMatch = entry.message.match(ANR_REGEX);
+    if (entry.tag === "ActivityManager" && anrMatch) {
+      const end = collectGroup(entries, i, (e) => !ANR_REGEX.test(e.message));
+      const lines = takeGroup(entries, i, end, consumed).map((e) => e.message).slice(1);
+      const pidLine = lines.find((l) => /^PID: \d+/.test(l));
+      const reason = lines.find((l) => l.startsWith("Reason:"));
+
+      push({
+        type: "anr",
+        timestamp: entry.timestamp,
+        pid: pidLine ? Number(pidLine.match(/\d+/)![0]) : entry.pid,
+        packageName: anrMatch[1],
+        summary: reason ?? entry.message,
+        details: lines.filter((l) => l !== reason && l !== pidLine),
+      });
+      continue;
+    }
+
+    // React Native red-box: JS errors reported by the ReactNativeJS tag
+    if (entry.tag === "ReactNativeJS" && (entry.level === "E" || entry.level === "F") &&
+        JS_ERROR_REGEX.test(entry.message)) {
+      const end = collectGroup(entries, i, (e) => e.level === "E" || e.level === "F");
+      const lines = takeGroup(entries, i, end, consumed).flatMap((e) => e.message.split("\n"));
+
+      push({
+        type: "js_error",
+        timestamp: entry.timestamp,
+        pid: entry.pid,
+        packageName: pidPackages.get(entry.pid),
+        summary: lines[0],
+        details: lines.slice(1),
+      });
+      continue;
+    }
+  }
+
+  // Resolve packages for reports that preceded the line naming their process
+  for (const report of reports) {
+    if (!report.packageName) {
+      report.packageName = pidPackages.get(report.pid);
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Keep reports for a package. Reports with an unknown package are kept when
+ * their pid is one of the package's known pids.
+ */
+export function filterCrashesByPackage(reports: CrashReport[], packageName: string, pids: number[] = []): CrashReport[] {
+  const knownPids = new Set(pids);
+  return reports.filter((r) =>
+    r.packageName === packageName || (!r.packageName && knownPids.has(r.pid))
+  );
+}
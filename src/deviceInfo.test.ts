@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import {
+  parseDeviceProperties,
+  parseGetprop,
+  parseBattery,
+  parseDf,
+  parseWmDensity,
+  isEmulator,
+  DEVICE_PROPERTIES_SCRIPT,
+} from "./deviceInfo.js";
+
+// Fixture is DEVICE_PROPERTIES_SCRIPT output for an API 34 emulator, with the getprop dump trimmed
+const EMULATOR_PROPS = fs.readFileSync(new URL("./__fixtures__/android-emulator-props.txt", import.meta.url), "utf-8");
+
+describe("parseDeviceProperties()", () => {
+  it("should build typed details from one batched dump", () => {
+    expect(parseDeviceProperties(EMULATOR_PROPS, "emulator-5554")).toEqual({
+      id: "emulator-5554",
+      status: "device",
+      type: "emulator",
+      name: "sdk_gphone64_x86_64",
+      manufacturer: "Google",
+      model: "sdk_gphone64_x86_64",
+      brand: "google",
+      product: "sdk_gphone64_x86_64",
+      androidVersion: "14",
+      apiLevel: 34,
+      securityPatch: "2023-10-05",
+      buildFingerprint: "google/sdk_gphone64_x86_64/emu64xa:14/UE1A.230829.036.A1/11228894:userdebug/dev-keys",
+      abi: "x86_64",
+      supportedAbis: ["x86_64", "arm64-v8a"],
+      isEmulator: true,
+      screen: { width: 1080, height: 2400, density: 480 },
+      locale: "en-US",
+      timezone: "America/Los_Angeles",
+      battery: { level: 85, status: "charging", plugged: "usb", temperatureC: 25 },
+      storage: { totalBytes: 6082316 * 1024, availableBytes: 3856608 * 1024 },
+      memory: { totalBytes: 2030040 * 1024, availableBytes: 1118896 * 1024 },
+      playServicesVersion: "23.33.16",
+    });
+  });
+
+  it("should leave out sections that produced no output", () => {
+    const details = parseDeviceProperties(
+      "[ro.product.model]: [Pixel 7]\n[ro.product.locale]: [de-DE]\n[ro.sf.lcd_density]: [420]\n" +
+        "@@mobile-dev-mcp:wm-size\nPhysical size: 1080x2400\n@@mobile-dev-mcp:battery\n@@mobile-dev-mcp:play-services\n",
+      "28161FDH2000ZA"
+    );
+    expect(details).toMatchObject({ type: "device", isEmulator: false, locale: "de-DE", apiLevel: null });
+    // Falls back to the build density without a wm density section
+    expect(details.screen).toEqual({ width: 1080, height: 2400, density: 420 });
+    expect(details.battery).toBeUndefined();
+    expect(details.playServicesVersion).toBeUndefined();
+  });
+
+  it("should reject output without properties", () => {
+    expect(() => parseDeviceProperties("/system/bin/sh: getprop: not found", "emulator-5554")).toThrow(
+      "No properties in getprop output"
+    );
+  });
+});
+
+describe("property section parsers", () => {
+  it("should keep empty and multi-line getprop values", () => {
+    expect(parseGetprop("[a]: []\n[b]: [first\nsecond]\n[c]: [x]")).toEqual({ a: "", b: "first\nsecond", c: "x" });
+  });
+
+  it("should detect emulators from qemu and hardware properties", () => {
+    expect(isEmulator({ "ro.kernel.qemu": "1" })).toBe(true);
+    expect(isEmulator({ "ro.hardware": "goldfish" })).toBe(true);
+    expect(isEmulator({ "ro.product.model": "Android SDK built for x86" })).toBe(true);
+    expect(isEmulator({ "ro.hardware": "panther", "ro.product.model": "Pixel 7" })).toBe(false);
+  });
+
+  it("should scale battery level and report unplugged devices", () => {
+    expect(parseBattery("  AC powered: false\n  status: 3\n  level: 40\n  scale: 50\n")).toEqual({
+      level: 80,
+      status: "discharging",
+      plugged: "none",
+      temperatureC: undefined,
+    });
+    expect(parseBattery("Can't find service: battery")).toBeUndefined();
+  });
+
+  it("should read df output with a wrapped filesystem name", () => {
+    expect(parseDf("Filesystem 1K-blocks Used Available Use% Mounted on\n/dev/block/by-name/userdata\n 100 40 60 40% /data")).toEqual({
+      totalBytes: 102400,
+      availableBytes: 61440,
+    });
+  });
+
+  it("should prefer the override density", () => {
+    expect(parseWmDensity("Physical density: 420\n")).toBe(420);
+    expect(parseWmDensity("Physical density: 420\nOverride density: 480\n")).toBe(480);
+  });
+
+  it("should reject unexpected wm density output", () => {
+    expect(() => parseWmDensity("error: no devices")).toThrow("Unexpected wm density output");
+  });
+
+  it("should run every section in one shell script", () => {
+    expect(DEVICE_PROPERTIES_SCRIPT.startsWith("getprop; ")).toBe(true);
+    expect(DEVICE_PROPERTIES_SCRIPT).toContain("echo @@mobile-dev-mcp:battery; dumpsys battery 2>/dev/null");
+  });
+});
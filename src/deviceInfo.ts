@@ -0,0 +1,201 @@
+// Mobile Dev MCP - Android Device Properties
+// get_device_info reads everything in one `adb shell` round trip: the full
+// getprop dump followed by marked sections from wm, dumpsys battery, df,
+// /proc/meminfo and the Play Services package. This module builds that
+// script and parses its output into DeviceDetails.
+
+import { DeviceDetails, BatteryInfo } from "./types.js";
+
+const SECTION_PREFIX = "@@mobile-dev-mcp:";
+
+const SECTIONS: Array<[string, string]> = [
+  ["wm-size", "wm size"],
+  ["wm-density", "wm density"],
+  ["battery", "dumpsys battery"],
+  ["storage", "df -k /data"],
+  ["meminfo", "cat /proc/meminfo"],
+  ["play-services", "dumpsys package com.google.android.gms | grep versionName"],
+];
+
+/**
+ * One shell command line that prints a marker line before the output of each
+ * command, so a single `adb shell` call can collect several dumps. Failing
+ * commands leave their section empty.
+ */
+export function sectionScript(sections: Array<[string, string]>): string {
+  return sections.map(([name, command]) => `echo ${SECTION_PREFIX}${name}; ${command} 2>/dev/null`).join("; ");
+}
+
+/** Shell script for `adb shell`: getprop first, then the marked sections */
+export const DEVICE_PROPERTIES_SCRIPT = `getprop; ${sectionScript(SECTIONS)}`;
+
+const BATTERY_STATUS: Record<string, BatteryInfo["status"]> = {
+  "1": "unknown",
+  "2": "charging",
+  "3": "discharging",
+  "4": "not charging",
+  "5": "full",
+};
+
+const EMULATOR_HARDWARE = new Set(["goldfish", "ranchu", "vbox86"]);
+
+/**
+ * Parse `getprop` output ("[key]: [value]" per line; values may span lines)
+ */
+export function parseGetprop(output: string): Record<string, string> {
+  const props: Record<string, string> = {};
+  const pattern = /^\[([^\]]+)\]: \[([\s\S]*?)\]$/gm;
+  for (const match of output.matchAll(pattern)) {
+    props[match[1]] = match[2];
+  }
+  return props;
+}
+
+/**
+ * Split sectionScript output by marker; output before the first marker is
+ * kept under `leading`
+ */
+export function splitSections(output: string, leading = ""): Record<string, string> {
+  const sections: Record<string, string> = {};
+  let name = leading;
+  let lines: string[] = [];
+  for (const line of output.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.startsWith(SECTION_PREFIX)) {
+      sections[name] = lines.join("\n");
+      name = line.slice(SECTION_PREFIX.length).trim();
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  sections[name] = lines.join("\n");
+  return sections;
+}
+
+function field(output: string, key: string): string | undefined {
+  const match = output.match(new RegExp(`^\\s*${key}:\\s*(.+)$`, "m"));
+  return match?.[1].trim();
+}
+
+/**
+ * Parse `dumpsys battery`
+ */
+export function parseBattery(output: string): BatteryInfo | undefined {
+  const level = Number(field(output, "level"));
+  if (!output.trim() || Number.isNaN(level)) return undefined;
+
+  const scale = Number(field(output, "scale")) || 100;
+  const plugged = (["AC", "USB", "Wireless", "Dock"] as const).find(
+    (source) => field(output, `${source} powered`) === "true"
+  );
+  const temperature = Number(field(output, "temperature"));
+  return {
+    level: Math.round((level / scale) * 100),
+    status: BATTERY_STATUS[field(output, "status") ?? ""] ?? "unknown",
+    plugged: plugged ? (plugged.toLowerCase() as BatteryInfo["plugged"]) : "none",
+    // Reported in tenths of a degree
+    temperatureC: Number.isNaN(temperature) ? undefined : temperature / 10,
+  };
+}
+
+/**
+ * Parse `df -k` for one filesystem (toybox prints one line per mount)
+ */
+export function parseDf(output: string): { totalBytes: number; availableBytes: number } | undefined {
+  const lines = output.trim().split("\n").filter((line) => !/^Filesystem/.test(line));
+  // Long device names may wrap the numbers onto the next line
+  const numbers = lines.join(" ").split(/\s+/).filter((token) => /^\d+$/.test(token)).map(Number);
+  if (numbers.length < 3) return undefined;
+  const [total, , available] = numbers;
+  return { totalBytes: total * 1024, availableBytes: available * 1024 };
+}
+
+/**
+ * Parse /proc/meminfo totals
+ */
+export function parseMeminfo(output: string): { totalBytes: number; availableBytes?: number } | undefined {
+  const kb = (key: string) => {
+    const match = output.match(new RegExp(`^${key}:\\s*(\\d+) kB`, "m"));
+    return match ? Number(match[1]) * 1024 : undefined;
+  };
+  const totalBytes = kb("MemTotal");
+  return totalBytes === undefined ? undefined : { totalBytes, availableBytes: kb("MemAvailable") };
+}
+
+/**
+ * Parse `wm density` ("Physical density: 420", plus "Override density: 480"
+ * when changed in developer options)
+ */
+export function parseWmDensity(output: string): number {
+  const override = output.match(/Override density:\s*(\d+)/);
+  const physical = output.match(/Physical density:\s*(\d+)/);
+  const density = Number((override ?? physical)?.[1]);
+  if (!density) {
+    throw new Error(`Unexpected wm density output: ${output.trim()}`);
+  }
+  return density;
+}
+
+/**
+ * Parse `wm size` ("Physical size: 1080x2400", plus "Override size" when changed)
+ */
+export function parseWmSize(output: string): { width: number; height: number } | undefined {
+  const match = output.match(/Override size:\s*(\d+)x(\d+)/) ?? output.match(/Physical size:\s*(\d+)x(\d+)/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : undefined;
+}
+
+export function isEmulator(props: Record<string, string>): boolean {
+  return props["ro.kernel.qemu"] === "1" ||
+    props["ro.boot.qemu"] === "1" ||
+    EMULATOR_HARDWARE.has(props["ro.hardware"] ?? "") ||
+    /^(sdk_g?phone|Android SDK built for)/.test(props["ro.product.model"] ?? "");
+}
+
+/**
+ * Build DeviceDetails from DEVICE_PROPERTIES_SCRIPT output
+ */
+export function parseDeviceProperties(output: string, id: string): DeviceDetails {
+  const sections = splitSections(output, "getprop");
+  const props = parseGetprop(sections.getprop ?? "");
+  if (Object.keys(props).length === 0) {
+    throw new Error("No properties in getprop output");
+  }
+
+  const emulator = isEmulator(props);
+  const size = parseWmSize(sections["wm-size"] ?? "");
+  let density: number | undefined;
+  try {
+    density = parseWmDensity(sections["wm-density"] ?? "");
+  } catch {
+    density = Number(props["ro.sf.lcd_density"]) || undefined;
+  }
+  const apiLevel = Number(props["ro.build.version.sdk"]);
+  const locale = props["persist.sys.locale"] || props["ro.product.locale"] ||
+    [props["ro.product.locale.language"], props["ro.product.locale.region"]].filter(Boolean).join("-");
+  const playServices = sections["play-services"]?.match(/versionName=(\S+)/)?.[1];
+
+  return {
+    id,
+    status: "device",
+    type: emulator ? "emulator" : "device",
+    name: props["ro.product.model"] || undefined,
+    manufacturer: props["ro.product.manufacturer"] ?? "",
+    model: props["ro.product.model"] ?? "",
+    brand: props["ro.product.brand"] ?? "",
+    product: props["ro.product.name"] ?? "",
+    androidVersion: props["ro.build.version.release"] ?? "",
+    apiLevel: Number.isNaN(apiLevel) ? null : apiLevel,
+    securityPatch: props["ro.build.version.security_patch"] || undefined,
+    buildFingerprint: props["ro.build.fingerprint"] ?? "",
+    abi: props["ro.product.cpu.abi"] ?? "",
+    supportedAbis: (props["ro.product.cpu.abilist"] || props["ro.product.cpu.abi"] || "").split(",").filter(Boolean),
+    isEmulator: emulator,
+    screen: size && { ...size, density: density ?? null },
+    locale: locale || undefined,
+    timezone: props["persist.sys.timezone"] || undefined,
+    battery: parseBattery(sections.battery ?? ""),
+    storage: parseDf(sections.storage ?? ""),
+    memory: parseMeminfo(sections.meminfo ?? ""),
+    playServicesVersion: playServices,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { huffmanCodeLengths, canonicalCodes } from "./huffman.js";
+
+// Sum of 2^-length over used symbols; 1 for a complete prefix code
+const kraft = (lengths: Uint8Array) =>
+  Array.from(lengths).reduce((sum, length) => sum + (length > 0 ? 2 ** -length : 0), 0);
+
+describe("huffmanCodeLengths()", () => {
+  it("should give frequent symbols shorter codes", () => {
+    const lengths = huffmanCodeLengths([50, 20, 0, 15, 10, 5], 15);
+    expect(Array.from(lengths)).toEqual([1, 2, 0, 3, 4, 4]);
+    expect(kraft(lengths)).toBe(1);
+  });
+
+  it("should respect the length limit with skewed counts", () => {
+    const fibonacci = [1, 1];
+    while (fibonacci.length < 30) fibonacci.push(fibonacci[fibonacci.length - 1] + fibonacci[fibonacci.length - 2]);
+
+    const lengths = huffmanCodeLengths(fibonacci, 7);
+    expect(Math.max(...lengths)).toBe(7);
+    expect(kraft(lengths)).toBe(1);
+  });
+
+  it("should handle a single used symbol", () => {
+    expect(Array.from(huffmanCodeLengths([0, 0, 9], 15))).toEqual([0, 0, 1]);
+  });
+});
+
+describe("canonicalCodes()", () => {
+  it("should assign consecutive codes by length, then symbol", () => {
+    expect(Array.from(canonicalCodes(Uint8Array.from([2, 1, 3, 3])))).toEqual([0b10, 0b0, 0b110, 0b111]);
+  });
+});
@@ -0,0 +1,90 @@
+// Mobile Dev MCP - Huffman Codes
+// Length-limited canonical Huffman codes shared by the JPEG and WebP encoders.
+
+/**
+ * Code length per symbol (0 for unused symbols), at most maxLength bits.
+ * A lone symbol gets length 1. When the optimal tree is too deep, rare
+ * symbols are given a higher floor count and the tree is rebuilt (the same
+ * approach libwebp uses).
+ */
+export function huffmanCodeLengths(counts: ArrayLike<number>, maxLength: number): Uint8Array {
+  const lengths = new Uint8Array(counts.length);
+  const used: number[] = [];
+  for (let symbol = 0; symbol < counts.length; symbol++) {
+    if (counts[symbol] > 0) used.push(symbol);
+  }
+  if (used.length === 0) return lengths;
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+    return lengths;
+  }
+  if (used.length > 2 ** maxLength) {
+    throw new Error(`Too many symbols for ${maxLength}-bit codes`);
+  }
+
+  for (let floor = 1; ; floor *= 2) {
+    const leaves = used
+      .map((symbol) => ({ symbol, weight: Math.max(counts[symbol], floor) }))
+      .sort((a, b) => a.weight - b.weight || a.symbol - b.symbol);
+
+    // Two-queue construction: leaves sorted by weight, internal nodes are
+    // created in non-decreasing weight order
+    const n = leaves.length;
+    const weight = new Float64Array(2 * n - 1);
+    const parent = new Int32Array(2 * n - 1);
+    leaves.forEach((leaf, i) => { weight[i] = leaf.weight; });
+
+    let nextLeaf = 0;
+    let nextInternal = n;
+    const takeSmallest = (created: number): number => {
+      if (nextLeaf < n && (nextInternal >= created || weight[nextLeaf] <= weight[nextInternal])) {
+        return nextLeaf++;
+      }
+      return nextInternal++;
+    };
+    for (let node = n; node < 2 * n - 1; node++) {
+      const a = takeSmallest(node);
+      const b = takeSmallest(node);
+      weight[node] = weight[a] + weight[b];
+      parent[a] = parent[b] = node;
+    }
+
+    // The root is created last, so parents always come after their children
+    const depth = new Uint8Array(2 * n - 1);
+    let maxDepth = 0;
+    for (let node = 2 * n - 3; node >= 0; node--) {
+      depth[node] = depth[parent[node]] + 1;
+      if (node < n) maxDepth = Math.max(maxDepth, depth[node]);
+    }
+
+    if (maxDepth <= maxLength) {
+      leaves.forEach((leaf, i) => { lengths[leaf.symbol] = depth[i]; });
+      return lengths;
+    }
+  }
+}
+
+/**
+ * Canonical codes for the given lengths: shorter codes first, ties broken by
+ * symbol order (as in DEFLATE, JPEG and WebP lossless)
+ */
+export function canonicalCodes(lengths: Uint8Array): Uint32Array {
+  const maxLength = Math.max(0, ...lengths);
+  const countPerLength = new Uint32Array(maxLength + 1);
+  for (const length of lengths) {
+    if (length > 0) countPerLength[length]++;
+  }
+
+  const nextCode = new Uint32Array(maxLength + 1);
+  let code = 0;
+  for (let length = 1; length <= maxLength; length++) {
+    code = (code + countPerLength[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+
+  const codes = new Uint32Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] > 0) codes[symbol] = nextCode[lengths[symbol]]++;
+  }
+  return codes;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import * as fs from "fs";
+import { createRequire } from "module";
+import * as jpegJs from "jpeg-js";
+import decodeWebp, { init as initWebpDecoder } from "@jsquash/webp/decode";
+import { createImage, decodePng, encodePng, RgbaImage } from "./png.js";
+import { encodeJpeg } from "./jpeg.js";
+import { encodeWebp } from "./webp.js";
+import {
+  cropImage,
+  resizeImage,
+  fitWithin,
+  drawNumberedBoxes,
+  processScreenshot,
+  hasScreenshotOptions,
+} from "./imageOps.js";
+
+function gradient(width: number, height: number): RgbaImage {
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.data.set([x * 10, y * 10, 100, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+// A gradient with flat bands and noise, so the encoders' prediction,
+// back-reference and entropy coding paths all get exercised
+function photo(width: number, height: number): RgbaImage {
+  const image = createImage(width, height);
+  let seed = 1;
+  const noise = () => (seed = (seed * 1103515245 + 12345) % 2147483648) % 24;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const band = Math.floor(y / 16) % 3 === 0;
+      image.data.set(band ? [240, 240, 240, 255] : [(x * 3 + noise()) % 256, (y * 2 + noise()) % 256, 128 + noise(), 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+const pixel = (image: RgbaImage, x: number, y: number) =>
+  Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+describe("cropImage()", () => {
+  it("should copy the region and clip it to the image", () => {
+    const cropped = cropImage(gradient(10, 10), { x: 8, y: 2, width: 5, height: 3 });
+    expect([cropped.width, cropped.height]).toEqual([2, 3]);
+    expect(pixel(cropped, 0, 0)).toEqual([80, 20, 100, 255]);
+  });
+
+  it("should reject regions outside the image", () => {
+    expect(() => cropImage(gradient(4, 4), { x: 10, y: 0, width: 5, height: 5 })).toThrow("outside");
+  });
+});
+
+describe("resizeImage()", () => {
+  it("should average the pixels each output pixel covers", () => {
+    const image = createImage(4, 2);
+    image.data.set([0, 0, 0, 255, 200, 0, 0, 255, 100, 100, 100, 255, 100, 100, 100, 255]);
+    image.data.set([0, 0, 0, 255, 200, 0, 0, 255, 100, 100, 100, 255, 100, 100, 100, 255], 16);
+
+    const resized = resizeImage(image, 2, 1);
+    expect(pixel(resized, 0, 0)).toEqual([100, 0, 0, 255]);
+    expect(pixel(resized, 1, 0)).toEqual([100, 100, 100, 255]);
+  });
+
+  it("should fit the longest side without upscaling", () => {
+    expect(fitWithin(1080, 2400, 1200)).toEqual({ width: 540, height: 1200 });
+    expect(fitWithin(300, 200, 1200)).toEqual({ width: 300, height: 200 });
+  });
+});
+
+describe("drawNumberedBoxes()", () => {
+  it("should outline the box and draw a label tag", () => {
+    const image = createImage(40, 40);
+    drawNumberedBoxes(image, [{ region: { x: 5, y: 5, width: 30, height: 30 }, label: "7" }], 2);
+
+    // Outline on the bottom edge, white digit pixel inside the tag, untouched centre
+    expect(pixel(image, 20, 34)).toEqual([230, 25, 75, 255]);
+    expect(pixel(image, 7, 7)).toEqual([255, 255, 255, 255]);
+    expect(pixel(image, 25, 25)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe("processScreenshot()", () => {
+  const png = encodePng(gradient(20, 40));
+
+  it("should crop, then downscale, and report the mapping", () => {
+    const result = processScreenshot(png, { crop: { x: 0, y: 20, width: 20, height: 20 }, maxDimension: 10 });
+    expect(result).toMatchObject({
+      mimeType: "image/png",
+      width: 10,
+      height: 10,
+      scale: 0.5,
+      region: { x: 0, y: 20, width: 20, height: 20 },
+    });
+    expect(decodePng(result.data).width).toBe(10);
+  });
+
+  it("should encode JPEG and WebP", () => {
+    const jpeg = processScreenshot(png, { format: "jpeg", quality: 50 });
+    expect(jpeg.mimeType).toBe("image/jpeg");
+    expect(jpeg.data.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+
+    const webp = processScreenshot(png, { format: "webp" });
+    expect(webp.mimeType).toBe("image/webp");
+    expect(webp.data.toString("ascii", 8, 16)).toBe("WEBPVP8L");
+  });
+
+  it("should only process when an option is set", () => {
+    expect(hasScreenshotOptions({})).toBe(false);
+    expect(hasScreenshotOptions({ format: "png" })).toBe(false);
+    expect(hasScreenshotOptions({ maxDimension: 512 })).toBe(true);
+  });
+});
+
+describe("encodeJpeg()", () => {
+  it("should round-trip through an independent decoder", () => {
+    const image = photo(67, 45);
+    const decoded = jpegJs.decode(encodeJpeg(image, 90), { useTArray: true, formatAsRGBA: true });
+    expect([decoded.width, decoded.height]).toEqual([67, 45]);
+
+    let error = 0;
+    for (let i = 0; i < image.data.length; i++) {
+      error += Math.abs(decoded.data[i] - image.data[i]);
+    }
+    expect(error / image.data.length).toBeLessThan(4);
+  });
+
+  it("should write frame dimensions and end with EOI", () => {
+    const jpeg = encodeJpeg(gradient(17, 33), 90);
+    const sof = jpeg.indexOf(Buffer.from([0xff, 0xc0]));
+    expect(jpeg.readUInt16BE(sof + 5)).toBe(33);
+    expect(jpeg.readUInt16BE(sof + 7)).toBe(17);
+    expect(jpeg.subarray(-2)).toEqual(Buffer.from([0xff, 0xd9]));
+  });
+
+  it("should get smaller at lower quality", () => {
+    const image = gradient(64, 64);
+    expect(encodeJpeg(image, 20).length).toBeLessThan(encodeJpeg(image, 95).length);
+  });
+});
+
+describe("encodeWebp()", () => {
+  beforeAll(async () => {
+    const wasm = fs.readFileSync(createRequire(import.meta.url).resolve("@jsquash/webp/codec/dec/webp_dec.wasm"));
+    await initWebpDecoder(await WebAssembly.compile(wasm));
+  });
+
+  it("should round-trip losslessly through an independent decoder", async () => {
+    const image = photo(67, 45);
+    const webp = encodeWebp(image);
+    const decoded = await decodeWebp(webp.buffer.slice(webp.byteOffset, webp.byteOffset + webp.length));
+    expect([decoded.width, decoded.height]).toEqual([67, 45]);
+    expect(Buffer.from(decoded.data).equals(Buffer.from(image.data))).toBe(true);
+  });
+
+  it("should write a RIFF container with the VP8L header", () => {
+    const webp = encodeWebp(gradient(17, 33));
+    expect(webp.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(webp.readUInt32LE(4)).toBe(webp.length - 8);
+    expect(webp[20]).toBe(0x2f);
+
+    // 14 bits width - 1, then 14 bits height - 1, LSB first
+    const bits = webp.readUInt32LE(21);
+    expect((bits & 0x3fff) + 1).toBe(17);
+    expect(((bits >>> 14) & 0x3fff) + 1).toBe(33);
+  });
+
+  it("should compress flat images to a few bytes", () => {
+    const flat = createImage(500, 500);
+    flat.data.fill(255);
+    expect(encodeWebp(flat).length).toBeLessThan(200);
+  });
+});
@@ -0,0 +1,260 @@
+// Mobile Dev MCP - Screenshot Post-Processing
+// Crop, downscale, annotate and re-encode screenshots so they cost less
+// model context.
+
+import { RgbaImage, createImage, decodePng, encodePng } from "./png.js";
+import { encodeJpeg, DEFAULT_JPEG_QUALITY } from "./jpeg.js";
+import { encodeWebp } from "./webp.js";
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+export const IMAGE_FORMATS: ImageFormat[] = ["png", "jpeg", "webp"];
+
+export const MIN_MAX_DIMENSION = 64;
+
+export const MAX_ANNOTATIONS = 200;
+
+/**
+ * Clip a region to the image. Returns null when nothing is left.
+ */
+export function clipRegion(region: Region, width: number, height: number): Region | null {
+  const x0 = Math.max(0, Math.floor(region.x));
+  const y0 = Math.max(0, Math.floor(region.y));
+  const x1 = Math.min(width, Math.floor(region.x + region.width));
+  const y1 = Math.min(height, Math.floor(region.y + region.height));
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+export function cropImage(image: RgbaImage, region: Region): RgbaImage {
+  const clipped = clipRegion(region, image.width, image.height);
+  if (!clipped) {
+    throw new Error(`Crop region is outside the ${image.width}x${image.height} image`);
+  }
+
+  const out = createImage(clipped.width, clipped.height);
+  for (let y = 0; y < clipped.height; y++) {
+    const start = ((clipped.y + y) * image.width + clipped.x) * 4;
+    out.data.set(image.data.subarray(start, start + clipped.width * 4), y * clipped.width * 4);
+  }
+  return out;
+}
+
+/**
+ * Size that fits within maxDimension on the longest side, keeping the
+ * aspect ratio. Never upscales.
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Source pixels and weights covering each destination pixel along one axis
+ */
+function areaWeights(source: number, target: number): Array<{ start: number; weights: number[] }> {
+  const ratio = source / target;
+  const spans: Array<{ start: number; weights: number[] }> = [];
+  for (let i = 0; i < target; i++) {
+    const from = i * ratio;
+    const to = Math.min(source, (i + 1) * ratio);
+    const start = Math.floor(from);
+    const weights: number[] = [];
+    for (let s = start; s < to; s++) {
+      weights.push((Math.min(s + 1, to) - Math.max(s, from)) / ratio);
+    }
+    spans.push({ start, weights });
+  }
+  return spans;
+}
+
+/**
+ * Downscale by area averaging (each output pixel is the mean of the source
+ * pixels it covers), which keeps small text legible
+ */
+export function resizeImage(image: RgbaImage, width: number, height: number): RgbaImage {
+  if (width === image.width && height === image.height) return image;
+
+  const out = createImage(width, height);
+  const columns = areaWeights(image.width, width);
+  const rows = areaWeights(image.height, height);
+
+  // Horizontal pass into a float buffer, then vertical pass
+  const temp = new Float32Array(width * image.height * 4);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      const o = (y * width + x) * 4;
+      for (let k = 0; k < weights.length; k++) {
+        const s = (y * image.width + start + k) * 4;
+        for (let c = 0; c < 4; c++) temp[o + c] += image.data[s + c] * weights[k];
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let k = 0; k < weights.length; k++) sum += temp[((start + k) * width + x) * 4 + c] * weights[k];
+        out.data[o + c] = Math.round(sum);
+      }
+    }
+  }
+
+  return out;
+}
+
+// ============================================================================
+// ANNOTATION
+// ============================================================================
+
+export interface AnnotationBox {
+  region: Region;
+  label: string;
+}
+
+// 3x5 digit glyphs, one row per 3 bits
+const DIGITS = [
+  [7, 5, 5, 5, 7], [2, 6, 2, 2, 7], [7, 1, 7, 4, 7], [7, 1, 7, 1, 7], [5, 5, 7, 1, 1],
+  [7, 4, 7, 1, 7], [7, 4, 7, 5, 7], [7, 1, 1, 1, 1], [7, 5, 7, 5, 7], [7, 5, 7, 1, 7],
+];
+
+// Distinct colors cycled across boxes so neighbours are easy to tell apart
+const BOX_COLORS: Array<[number, number, number]> = [
+  [230, 25, 75], [0, 130, 200], [60, 180, 75], [245, 130, 48], [145, 30, 180], [0, 128, 128],
+];
+
+function fillRect(image: RgbaImage, region: Region, color: [number, number, number]): void {
+  const clipped = clipRegion(region, image.width, image.height);
+  if (!clipped) return;
+  for (let y = clipped.y; y < clipped.y + clipped.height; y++) {
+    for (let x = clipped.x; x < clipped.x + clipped.width; x++) {
+      image.data.set([...color, 255], (y * image.width + x) * 4);
+    }
+  }
+}
+
+/**
+ * Draw each box outline with its label (digits only) in a filled tag at
+ * the top-left corner. `scale` is the size of one glyph pixel, so labels
+ * stay legible after downscaling. Modifies the image in place.
+ */
+export function drawNumberedBoxes(image: RgbaImage, boxes: AnnotationBox[], scale: number = 2): void {
+  const line = Math.max(2, Math.round(scale * 0.75));
+
+  boxes.forEach((box, i) => {
+    const color = BOX_COLORS[i % BOX_COLORS.length];
+    const { x, y, width, height } = box.region;
+
+    fillRect(image, { x, y, width, height: line }, color);
+    fillRect(image, { x, y: y + height - line, width, height: line }, color);
+    fillRect(image, { x, y, width: line, height }, color);
+    fillRect(image, { x: x + width - line, y, width: line, height }, color);
+
+    const digits = box.label.split("").map(Number).filter((d) => d >= 0 && d <= 9);
+    const pad = scale;
+    const tagWidth = digits.length * 4 * scale - scale + pad * 2;
+    const tagHeight = 5 * scale + pad * 2;
+    // Keep the tag on screen for boxes touching the edges
+    const tagX = Math.max(0, Math.min(x, image.width - tagWidth));
+    const tagY = Math.max(0, Math.min(y, image.height - tagHeight));
+    fillRect(image, { x: tagX, y: tagY, width: tagWidth, height: tagHeight }, color);
+
+    digits.forEach((digit, d) => {
+      const glyphX = tagX + pad + d * 4 * scale;
+      DIGITS[digit].forEach((rowBits, row) => {
+        for (let col = 0; col < 3; col++) {
+          if (rowBits & (4 >> col)) {
+            fillRect(image, { x: glyphX + col * scale, y: tagY + pad + row * scale, width: scale, height: scale }, [255, 255, 255]);
+          }
+        }
+      });
+    });
+  });
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+export interface ScreenshotOptions {
+  /** Region to keep, in screen pixels */
+  crop?: Region;
+  /** Longest side of the output, in pixels */
+  maxDimension?: number;
+  format?: ImageFormat;
+  /** JPEG quality, 1-100 */
+  quality?: number;
+  /** Boxes to draw, in screen pixels */
+  annotations?: AnnotationBox[];
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  /** Output pixels per screen pixel */
+  scale: number;
+  /** Screen area shown, in screen pixels */
+  region: Region;
+}
+
+export function hasScreenshotOptions(options: ScreenshotOptions): boolean {
+  return options.crop !== undefined ||
+    options.maxDimension !== undefined ||
+    (options.format !== undefined && options.format !== "png") ||
+    (options.annotations?.length ?? 0) > 0;
+}
+
+/**
+ * Annotate, crop, downscale and encode a PNG screenshot, in that order
+ */
+export function processScreenshot(png: Buffer, options: ScreenshotOptions): ProcessedImage {
+  let image = decodePng(png);
+  const region = options.crop
+    ? clipRegion(options.crop, image.width, image.height)
+    : { x: 0, y: 0, width: image.width, height: image.height };
+  if (!region) {
+    throw new Error(`Crop region is outside the ${image.width}x${image.height} screen`);
+  }
+
+  const size = options.maxDimension
+    ? fitWithin(region.width, region.height, options.maxDimension)
+    : { width: region.width, height: region.height };
+  const scale = size.width / region.width;
+
+  if (options.annotations?.length) {
+    // Digits about 10px tall in the final image
+    drawNumberedBoxes(image, options.annotations, Math.max(2, Math.round(2 / scale)));
+  }
+  if (options.crop) image = cropImage(image, region);
+  image = resizeImage(image, size.width, size.height);
+
+  const format = options.format ?? "png";
+  const data = format === "jpeg"
+    ? encodeJpeg(image, options.quality ?? DEFAULT_JPEG_QUALITY)
+    : format === "webp" ? encodeWebp(image) : encodePng(image);
+
+  return {
+    data,
+    mimeType: `image/${format}`,
+    width: image.width,
+    height: image.height,
+    scale: Math.round(scale * 10000) / 10000,
+    region,
+  };
+}
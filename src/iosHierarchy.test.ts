@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import { parseIosHierarchy, MAX_HIERARCHY_JSON_SIZE } from "./iosHierarchy.js";
+import { flattenUiTree } from "./uiTree.js";
+import { findElements } from "./selector.js";
+import { analyzeScreenStructure } from "./screenAnalysis.js";
+import { auditAccessibility, MIN_TOUCH_TARGET_PT } from "./accessibility.js";
+
+// Fixture is in the `idb ui describe-all --json --nested` format for a 390x844pt screen
+const roots = parseIosHierarchy(fs.readFileSync(new URL("./__fixtures__/ios-login.json", import.meta.url), "utf-8"));
+const byId = (id: string) => flattenUiTree(roots).find((el) => el.resourceId === id)!;
+
+describe("parseIosHierarchy()", () => {
+  it("should keep the nested tree with depths and paths", () => {
+    expect(roots).toHaveLength(1);
+    expect(roots[0]).toMatchObject({ className: "XCUIElementTypeApplication", contentDescription: "Shop", depth: 0, path: [0] });
+    expect(flattenUiTree(roots)).toHaveLength(15);
+    expect(byId("sign_in_button")).toMatchObject({ depth: 3, path: [0, 0, 1, 6], index: 6 });
+  });
+
+  it("should map labels, values and frames onto the UiElement fields", () => {
+    expect(byId("sign_in_button")).toMatchObject({
+      className: "XCUIElementTypeButton",
+      text: "Sign in",
+      contentDescription: "",
+      bounds: "[24,462][366,512]",
+      centerX: 195,
+      centerY: 487,
+      clickable: true,
+      enabled: true,
+    });
+    expect(byId("email_field")).toMatchObject({ text: "name@example.com", contentDescription: "Email", password: false });
+    expect(byId("password_field")).toMatchObject({ text: "", contentDescription: "Password", password: true });
+    expect(byId("remember_switch")).toMatchObject({ checkable: true, checked: true, clickable: true });
+    expect(byId("help_button").enabled).toBe(false);
+    // Fractional frames are rounded to whole points
+    expect(byId("email_label").bounds).toBe("[24,235][366,255]");
+  });
+
+  it("should accept a flat element list", () => {
+    const flat = parseIosHierarchy(JSON.stringify([
+      { type: "StaticText", AXLabel: "Hello", frame: { x: 0, y: 0, width: 100, height: 20 } },
+      { type: "Button", AXLabel: "OK", frame: { x: 0, y: 30, width: 100, height: 44 } },
+    ]));
+    expect(flat.map((n) => [n.text, n.path])).toEqual([["Hello", [0]], ["OK", [1]]]);
+  });
+
+  it("should reject malformed and oversized input", () => {
+    expect(() => parseIosHierarchy("{not json")).toThrow("Malformed hierarchy JSON");
+    expect(() => parseIosHierarchy("{}")).toThrow("expected an array of elements");
+    expect(() => parseIosHierarchy(" ".repeat(MAX_HIERARCHY_JSON_SIZE + 1))).toThrow("exceeds maximum size");
+  });
+});
+
+describe("iOS trees in the UI tools", () => {
+  it("should match selectors by full and short XCUITest class names", () => {
+    expect(findElements(roots, { className: "Button", match: "exact" })).toHaveLength(4);
+    expect(findElements(roots, { xpath: "//XCUIElementTypeButton[@text='Sign in']" })[0].resourceId).toBe("sign_in_button");
+  });
+
+  it("should analyze the screen like an Android one", () => {
+    const structure = analyzeScreenStructure(roots);
+    expect(structure.screenType).toBe("login");
+    expect(structure.formFields.map((f) => [f.kind, f.label])).toEqual([
+      ["text", "Email"],
+      ["password", "Password"],
+      ["toggle", "Remember me"],
+    ]);
+    expect(structure.primaryAction?.label).toBe("Sign in");
+  });
+
+  it("should audit touch targets in points", () => {
+    const audit = auditAccessibility(roots, { density: 160, minTouchTarget: MIN_TOUCH_TARGET_PT, unit: "pt" });
+    const small = audit.issues.filter((i) => i.rule === "small-touch-target");
+    expect(small.map((i) => i.element.resourceId)).toEqual(["remember_switch", "forgot_password_button", "create_account_button"]);
+    expect(small[0].message).toBe("Touch target is 51x31pt; at least 44x44pt is recommended");
+  });
+});
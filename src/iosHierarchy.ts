@@ -0,0 +1,145 @@
+// Mobile Dev MCP - iOS Accessibility Tree
+// Normalizes the accessibility tree of an iOS Simulator, as printed by
+// `idb ui describe-all --json --nested`, into the same UiNode model as
+// uiautomator dumps so every UI tool works on both platforms.
+//
+// Class names follow XCUITest ("XCUIElementTypeButton"). Bounds are in
+// points, not pixels.
+
+import { UiNode, MAX_ELEMENTS, MAX_DEPTH } from "./uiTree.js";
+
+export const MAX_HIERARCHY_JSON_SIZE = 10 * 1024 * 1024;
+
+export const IOS_CLASS_PREFIX = "XCUIElementType";
+
+/** One element of `idb ui describe-all --json` output */
+export interface IdbElement {
+  type?: string | null;
+  AXLabel?: string | null;
+  AXValue?: string | null;
+  AXUniqueId?: string | null;
+  frame?: { x: number; y: number; width: number; height: number } | null;
+  enabled?: boolean | null;
+  role?: string | null;
+  subrole?: string | null;
+  custom_actions?: string[] | null;
+  children?: IdbElement[] | null;
+}
+
+// Controls the user can activate
+const INTERACTIVE_TYPES = new Set([
+  "Button",
+  "Link",
+  "Cell",
+  "TextField",
+  "SecureTextField",
+  "SearchField",
+  "TextView",
+  "Switch",
+  "Toggle",
+  "Slider",
+  "Stepper",
+  "SegmentedControl",
+  "PickerWheel",
+  "Tab",
+  "MenuItem",
+  "Key",
+  "Icon",
+]);
+
+// The value is what the user typed, the label names the field
+const INPUT_TYPES = new Set(["TextField", "SecureTextField", "SearchField", "TextView"]);
+
+// Their label is what is shown on screen
+const TEXT_TYPES = new Set(["StaticText", "Button", "Link", "Cell", "Tab", "MenuItem", "Key", "Icon"]);
+
+const SCROLLABLE_TYPES = new Set(["ScrollView", "Table", "CollectionView", "TextView", "WebView"]);
+
+const TOGGLE_TYPES = new Set(["Switch", "Toggle", "CheckBox"]);
+
+function toBounds(frame: IdbElement["frame"]): string {
+  if (!frame) return "";
+  const left = Math.round(frame.x);
+  const top = Math.round(frame.y);
+  return `[${left},${top}][${Math.round(frame.x + frame.width)},${Math.round(frame.y + frame.height)}]`;
+}
+
+function createNode(element: IdbElement, path: number[]): UiNode {
+  const type = element.type || "Other";
+  const label = element.AXLabel ?? "";
+  const value = element.AXValue ?? "";
+  const interactive = INTERACTIVE_TYPES.has(type) || (element.custom_actions?.length ?? 0) > 0;
+  const toggle = TOGGLE_TYPES.has(type);
+
+  const node: UiNode = {
+    text: INPUT_TYPES.has(type) ? value : TEXT_TYPES.has(type) ? label : "",
+    resourceId: element.AXUniqueId ?? "",
+    className: IOS_CLASS_PREFIX + type,
+    packageName: "",
+    contentDescription: INPUT_TYPES.has(type) || !TEXT_TYPES.has(type) ? label : "",
+    bounds: toBounds(element.frame),
+    index: path[path.length - 1],
+    clickable: interactive,
+    longClickable: false,
+    checkable: toggle,
+    checked: toggle && value === "1",
+    enabled: element.enabled !== false,
+    // VoiceOver reaches every labelled or interactive element
+    focusable: interactive || label !== "",
+    focused: false,
+    scrollable: SCROLLABLE_TYPES.has(type),
+    selected: false,
+    password: type === "SecureTextField" || element.subrole === "AXSecureTextField",
+    depth: path.length - 1,
+    path,
+    children: [],
+  };
+
+  if (element.frame) {
+    node.centerX = Math.floor(element.frame.x + element.frame.width / 2);
+    node.centerY = Math.floor(element.frame.y + element.frame.height / 2);
+  }
+  return node;
+}
+
+/**
+ * Parse `idb ui describe-all --json` output. With --nested the tree keeps its
+ * shape; a flat list becomes top-level nodes. Parsing stops after
+ * MAX_ELEMENTS nodes.
+ */
+export function parseIosHierarchy(json: string): UiNode[] {
+  if (json.length > MAX_HIERARCHY_JSON_SIZE) {
+    throw new Error(`Hierarchy JSON exceeds maximum size (${MAX_HIERARCHY_JSON_SIZE} bytes)`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Malformed hierarchy JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Malformed hierarchy JSON: expected an array of elements");
+  }
+
+  let count = 0;
+  const build = (elements: IdbElement[], parentPath: number[]): UiNode[] => {
+    if (parentPath.length >= MAX_DEPTH) {
+      throw new Error(`UI hierarchy exceeds maximum depth (${MAX_DEPTH})`);
+    }
+    const nodes: UiNode[] = [];
+    for (const element of elements) {
+      if (count >= MAX_ELEMENTS) break;
+      if (!element || typeof element !== "object") continue;
+      count++;
+      const node = createNode(element, [...parentPath, nodes.length]);
+      nodes.push(node);
+      if (Array.isArray(element.children)) {
+        node.children = build(element.children, node.path);
+      }
+    }
+    return nodes;
+  };
+
+  return build(parsed as IdbElement[], []);
+}
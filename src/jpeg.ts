@@ -0,0 +1,316 @@
+// Mobile Dev MCP - JPEG Encoder
+// Baseline JPEG (JFIF) with 4:2:0 chroma subsampling and Huffman tables
+// optimized per image, which keeps screenshots small without native code.
+
+import { RgbaImage } from "./png.js";
+import { huffmanCodeLengths, canonicalCodes } from "./huffman.js";
+
+export const DEFAULT_JPEG_QUALITY = 80;
+
+// Natural-order index of each zigzag position
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Base quantization tables from the JPEG spec (Annex K), natural order
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// DCT basis: DCT_BASIS[u * 8 + x] = c(u)/2 * cos((2x + 1)uπ/16)
+const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      basis[u * 8 + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+/**
+ * Quantization table in zigzag order, scaled like libjpeg's quality setting
+ */
+function scaleQuantTable(base: number[], quality: number): Uint8Array {
+  const q = Math.max(1, Math.min(Math.round(quality), 100));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const table = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    table[i] = Math.max(1, Math.min(Math.floor((base[ZIGZAG[i]] * scale + 50) / 100), 255));
+  }
+  return table;
+}
+
+/**
+ * Forward DCT and quantization of one 8x8 block, written in zigzag order
+ */
+function transformBlock(block: Float64Array, quant: Uint8Array, out: Int16Array, offset: number, temp: Float64Array): void {
+  // Rows
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  // Columns
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += DCT_BASIS[v * 8 + y] * temp[y * 8 + u];
+      block[v * 8 + u] = sum;
+    }
+  }
+  for (let i = 0; i < 64; i++) {
+    out[offset + i] = Math.round(block[ZIGZAG[i]] / quant[i]);
+  }
+}
+
+function bitCategory(value: number): number {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+}
+
+/**
+ * Walk the Huffman symbols of every block: DC difference category, then
+ * AC (run << 4 | size) symbols with ZRL (0xF0) and EOB (0x00)
+ */
+function forEachSymbol(
+  coefficients: Int16Array,
+  blocksPerMcu: number,
+  emit: (table: number, isAc: boolean, symbol: number, extraBits: number, extraValue: number) => void
+): void {
+  const predictors = [0, 0, 0];
+  const blockCount = coefficients.length / 64;
+
+  for (let block = 0; block < blockCount; block++) {
+    const position = block % blocksPerMcu;
+    // Luma blocks come first in each MCU, then Cb and Cr
+    const component = position < blocksPerMcu - 2 ? 0 : position - (blocksPerMcu - 3);
+    const table = component === 0 ? 0 : 1;
+    const offset = block * 64;
+
+    const diff = coefficients[offset] - predictors[component];
+    predictors[component] = coefficients[offset];
+    const dcSize = bitCategory(diff);
+    emit(table, false, dcSize, dcSize, diff < 0 ? diff + (1 << dcSize) - 1 : diff);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const value = coefficients[offset + k];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        emit(table, true, 0xf0, 0, 0);
+        run -= 16;
+      }
+      const size = bitCategory(value);
+      emit(table, true, (run << 4) | size, size, value < 0 ? value + (1 << size) - 1 : value);
+      run = 0;
+    }
+    if (run > 0) emit(table, true, 0x00, 0, 0);
+  }
+}
+
+interface HuffmanTable {
+  lengths: Uint8Array;
+  codes: Uint32Array;
+}
+
+/**
+ * Optimal table limited to 16 bits. A reserved dummy symbol takes the
+ * all-ones code, which JPEG forbids, and is left out of the DHT segment.
+ */
+function buildTable(counts: Uint32Array): HuffmanTable {
+  const withDummy = new Uint32Array(257);
+  withDummy.set(counts);
+  withDummy[256] = 1;
+  const lengths = huffmanCodeLengths(withDummy, 16);
+
+  // The dummy must hold the longest length to end up with the all-ones code
+  const longest = Math.max(...lengths);
+  if (lengths[256] !== longest) {
+    const swap = lengths.indexOf(longest);
+    lengths[swap] = lengths[256];
+    lengths[256] = longest;
+  }
+
+  const codes = canonicalCodes(lengths);
+  return { lengths: lengths.slice(0, 256), codes: codes.slice(0, 256) };
+}
+
+function dhtPayload(tableClass: number, id: number, table: HuffmanTable): number[] {
+  const bits = new Array<number>(16).fill(0);
+  const symbols: number[] = [];
+  for (let length = 1; length <= 16; length++) {
+    for (let symbol = 0; symbol < 256; symbol++) {
+      if (table.lengths[symbol] === length) {
+        bits[length - 1]++;
+        symbols.push(symbol);
+      }
+    }
+  }
+  return [(tableClass << 4) | id, ...bits, ...symbols];
+}
+
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * Encode an RGBA image as a baseline JPEG. Transparent pixels are
+ * composited onto white.
+ */
+export function encodeJpeg(image: RgbaImage, quality: number = DEFAULT_JPEG_QUALITY): Buffer {
+  const { width, height, data } = image;
+  if (width > 65535 || height > 65535) {
+    throw new Error("Image too large for JPEG (max 65535 pixels per side)");
+  }
+
+  // Color conversion (JFIF YCbCr), level-shifted to center on zero
+  const pixels = width * height;
+  const yPlane = new Float32Array(pixels);
+  const cbPlane = new Float32Array(pixels);
+  const crPlane = new Float32Array(pixels);
+  for (let p = 0; p < pixels; p++) {
+    const alpha = data[p * 4 + 3] / 255;
+    const r = 255 + (data[p * 4] - 255) * alpha;
+    const g = 255 + (data[p * 4 + 1] - 255) * alpha;
+    const b = 255 + (data[p * 4 + 2] - 255) * alpha;
+    yPlane[p] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    cbPlane[p] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    crPlane[p] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  const lumaQuant = scaleQuantTable(LUMA_QUANT, quality);
+  const chromaQuant = scaleQuantTable(CHROMA_QUANT, quality);
+
+  // Pass 1: DCT and quantize every block. MCUs are 16x16: four luma blocks
+  // plus one 2x2-averaged block each for Cb and Cr. Edges repeat the last
+  // row/column.
+  const mcuColumns = Math.ceil(width / 16);
+  const mcuRows = Math.ceil(height / 16);
+  const blocksPerMcu = 6;
+  const coefficients = new Int16Array(mcuColumns * mcuRows * blocksPerMcu * 64);
+  const block = new Float64Array(64);
+  const temp = new Float64Array(64);
+  const at = (x: number, y: number) => Math.min(y, height - 1) * width + Math.min(x, width - 1);
+
+  let offset = 0;
+  for (let mcuY = 0; mcuY < mcuRows; mcuY++) {
+    for (let mcuX = 0; mcuX < mcuColumns; mcuX++) {
+      const x0 = mcuX * 16;
+      const y0 = mcuY * 16;
+
+      for (const [bx, by] of [[0, 0], [8, 0], [0, 8], [8, 8]]) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) block[y * 8 + x] = yPlane[at(x0 + bx + x, y0 + by + y)];
+        }
+        transformBlock(block, lumaQuant, coefficients, offset, temp);
+        offset += 64;
+      }
+
+      for (const plane of [cbPlane, crPlane]) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const sx = x0 + x * 2;
+            const sy = y0 + y * 2;
+            block[y * 8 + x] = (plane[at(sx, sy)] + plane[at(sx + 1, sy)] +
+              plane[at(sx, sy + 1)] + plane[at(sx + 1, sy + 1)]) / 4;
+          }
+        }
+        transformBlock(block, chromaQuant, coefficients, offset, temp);
+        offset += 64;
+      }
+    }
+  }
+
+  // Pass 2: symbol statistics for optimized Huffman tables
+  const counts = [0, 1, 2, 3].map(() => new Uint32Array(256));
+  forEachSymbol(coefficients, blocksPerMcu, (table, isAc, symbol) => {
+    counts[table * 2 + (isAc ? 1 : 0)][symbol]++;
+  });
+  const tables = counts.map(buildTable);
+
+  // Pass 3: entropy-coded scan, MSB first with 0xFF byte stuffing
+  let out = Buffer.alloc(Math.max(1024, coefficients.length >> 2));
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const pushByte = (byte: number) => {
+    if (length + 2 > out.length) {
+      const grown = Buffer.alloc(out.length * 2);
+      out.copy(grown, 0, 0, length);
+      out = grown;
+    }
+    out[length++] = byte;
+    if (byte === 0xff) out[length++] = 0x00;
+  };
+  const writeBits = (value: number, bits: number) => {
+    bitBuffer = (bitBuffer << bits) | (value & ((1 << bits) - 1));
+    bitCount += bits;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      pushByte((bitBuffer >> bitCount) & 0xff);
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+
+  forEachSymbol(coefficients, blocksPerMcu, (table, isAc, symbol, extraBits, extraValue) => {
+    const huffman = tables[table * 2 + (isAc ? 1 : 0)];
+    writeBits(huffman.codes[symbol], huffman.lengths[symbol]);
+    if (extraBits > 0) writeBits(extraValue, extraBits);
+  });
+  if (bitCount > 0) writeBits(0x7f, 8 - bitCount);
+
+  const header = [
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [0x00, ...lumaQuant, 0x01, ...chromaQuant]),
+    ...segment(0xc0, [
+      8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3,
+      1, 0x22, 0,
+      2, 0x11, 1,
+      3, 0x11, 1,
+    ]),
+    ...segment(0xc4, [
+      ...dhtPayload(0, 0, tables[0]),
+      ...dhtPayload(1, 0, tables[1]),
+      ...dhtPayload(0, 1, tables[2]),
+      ...dhtPayload(1, 1, tables[3]),
+    ]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]),
+  ];
+
+  return Buffer.concat([Buffer.from(header), out.subarray(0, length), Buffer.from([0xff, 0xd9])]);
+}
@@ -27,6 +27,11 @@ import {
   isAdvancedOnlyTool,
   getMaxLogLines,
   getMaxDevices,
+  getMaxRecordingSeconds,
+  getMaxSamplingSeconds,
+  getMaxPerformanceSamples,
+  getMaxRecordingFrames,
+  getLicenseStatus,
   MobileDevTier,
 } from "./license.js";
 
@@ -79,8 +84,8 @@ describe("Tool Classification", () => {
   });
 
   describe("ADVANCED_TOOLS constant", () => {
-    it("should have 21 total tools (8 free + 13 advanced-only)", () => {
-      expect(ADVANCED_TOOLS).toHaveLength(21);
+    it("should have 39 total tools (8 free + 31 advanced-only)", () => {
+      expect(ADVANCED_TOOLS).toHaveLength(39);
     });
 
     it("should include all free tools", () => {
@@ -95,6 +100,13 @@ describe("Tool Classification", () => {
       expect(ADVANCED_TOOLS).toContain("wait_for_element");
       expect(ADVANCED_TOOLS).toContain("get_element_property");
       expect(ADVANCED_TOOLS).toContain("assert_element");
+      expect(ADVANCED_TOOLS).toContain("get_ui_diff");
+    });
+
+    it("should include visual regression tools", () => {
+      expect(ADVANCED_TOOLS).toContain("save_screenshot_baseline");
+      expect(ADVANCED_TOOLS).toContain("compare_screenshot");
+      expect(ADVANCED_TOOLS).toContain("list_screenshot_baselines");
     });
 
     it("should include screen analysis tools", () => {
@@ -103,6 +115,41 @@ describe("Tool Classification", () => {
       expect(ADVANCED_TOOLS).toContain("get_screen_text");
     });
 
+    it("should include accessibility tools", () => {
+      expect(ADVANCED_TOOLS).toContain("audit_accessibility");
+      expect(ADVANCED_TOOLS).toContain("check_color_contrast");
+    });
+
+    it("should include screen recording tool", () => {
+      expect(ADVANCED_TOOLS).toContain("get_screen_recording");
+    });
+
+    it("should include performance tools", () => {
+      expect(ADVANCED_TOOLS).toContain("get_performance_snapshot");
+      expect(ADVANCED_TOOLS).toContain("get_performance_trend");
+    });
+
+    it("should include network capture tools", () => {
+      expect(ADVANCED_TOOLS).toContain("start_network_capture");
+      expect(ADVANCED_TOOLS).toContain("list_network_requests");
+      expect(ADVANCED_TOOLS).toContain("get_network_request");
+      expect(ADVANCED_TOOLS).toContain("stop_network_capture");
+    });
+
+    it("should include log capture tools", () => {
+      expect(ADVANCED_TOOLS).toContain("start_log_capture");
+      expect(ADVANCED_TOOLS).toContain("get_captured_logs");
+      expect(ADVANCED_TOOLS).toContain("stop_log_capture");
+    });
+
+    it("should include crash detection", () => {
+      expect(ADVANCED_TOOLS).toContain("get_crash_reports");
+    });
+
+    it("should include JS symbolication", () => {
+      expect(ADVANCED_TOOLS).toContain("get_symbolicated_stack");
+    });
+
     it("should include set_license_key", () => {
       expect(ADVANCED_TOOLS).toContain("set_license_key");
     });
@@ -247,6 +294,42 @@ describe("Tier Limits", () => {
       expect(getMaxDevices("unknown" as MobileDevTier)).toBe(1);
     });
   });
+
+  describe("getMaxRecordingSeconds() / getMaxRecordingFrames()", () => {
+    it("should return correct limits for each tier", () => {
+      expect(getMaxRecordingSeconds("free")).toBe(10);
+      expect(getMaxRecordingSeconds("advanced")).toBe(45);
+      expect(getMaxRecordingFrames("free")).toBe(3);
+      expect(getMaxRecordingFrames("advanced")).toBe(10);
+    });
+
+    it("should fall back to free limits for unknown tier", () => {
+      expect(getMaxRecordingSeconds("unknown" as MobileDevTier)).toBe(10);
+      expect(getMaxRecordingFrames("unknown" as MobileDevTier)).toBe(3);
+    });
+  });
+
+  describe("getMaxSamplingSeconds() / getMaxPerformanceSamples()", () => {
+    it("should return correct limits for each tier", () => {
+      expect(getMaxSamplingSeconds("free")).toBe(20);
+      expect(getMaxSamplingSeconds("advanced")).toBe(45);
+      expect(getMaxPerformanceSamples("free")).toBe(20);
+      expect(getMaxPerformanceSamples("advanced")).toBe(240);
+    });
+
+    it("should fall back to free limits for unknown tier", () => {
+      expect(getMaxSamplingSeconds("unknown" as MobileDevTier)).toBe(20);
+      expect(getMaxPerformanceSamples("unknown" as MobileDevTier)).toBe(20);
+    });
+  });
+
+  describe("getLicenseStatus()", () => {
+    it("should publish every tier limit", async () => {
+      const status = JSON.parse(await getLicenseStatus());
+      expect(status.tier).toBe("FREE");
+      expect(status.features).toMatchObject(TIER_LIMITS.free);
+    });
+  });
 });
 
 // ============================================================================
@@ -254,19 +337,19 @@ describe("Tier Limits", () => {
 // ============================================================================
 
 describe("Tool Counts (Documentation Alignment)", () => {
-  it("should have 21 total tools", () => {
-    expect(ADVANCED_TOOLS).toHaveLength(21);
+  it("should have 39 total tools", () => {
+    expect(ADVANCED_TOOLS).toHaveLength(39);
   });
 
   it("should have 8 free tools (Android only)", () => {
     expect(FREE_TOOLS).toHaveLength(8);
   });
 
-  it("should have 13 advanced-only tools", () => {
+  it("should have 31 advanced-only tools", () => {
     const advancedOnlyTools = ADVANCED_TOOLS.filter(
       (tool) => !FREE_TOOLS.includes(tool)
     );
-    expect(advancedOnlyTools).toHaveLength(13);
+    expect(advancedOnlyTools).toHaveLength(31);
   });
 
   it("free tools should be a subset of advanced tools", () => {
@@ -333,6 +416,9 @@ describe("Read-Only Tool Verification", () => {
       "assert",
       "suggest",
       "analyze",
+      "audit",
+      "log_capture", // Buffers device logs locally, never writes to the device
+      "network_capture", // Runs a local proxy; the device is left unchanged
       "set_license", // This modifies local config only, not the device
     ];
 
@@ -306,6 +306,22 @@ export function getMaxDevices(tier: MobileDevTier): number {
   return TIER_LIMITS[tier]?.maxDevices || 1;
 }
 
+export function getMaxRecordingSeconds(tier: MobileDevTier): number {
+  return TIER_LIMITS[tier]?.maxRecordingSeconds || 10;
+}
+
+export function getMaxRecordingFrames(tier: MobileDevTier): number {
+  return TIER_LIMITS[tier]?.maxRecordingFrames || 3;
+}
+
+export function getMaxSamplingSeconds(tier: MobileDevTier): number {
+  return TIER_LIMITS[tier]?.maxSamplingSeconds || 20;
+}
+
+export function getMaxPerformanceSamples(tier: MobileDevTier): number {
+  return TIER_LIMITS[tier]?.maxPerformanceSamples || 20;
+}
+
 // ============================================================================
 // LICENSE TOOLS (exposed via MCP)
 // ============================================================================
@@ -321,12 +337,16 @@ export async function getLicenseStatus(): Promise<string> {
     features: {
       maxLogLines: limits?.maxLogLines || 50,
       maxDevices: limits?.maxDevices || 1,
-      tools: license.tier === "advanced" ? 21 : 8,
+      maxRecordingSeconds: limits?.maxRecordingSeconds || 10,
+      maxRecordingFrames: limits?.maxRecordingFrames || 3,
+      maxSamplingSeconds: limits?.maxSamplingSeconds || 20,
+      maxPerformanceSamples: limits?.maxPerformanceSamples || 20,
+      tools: license.tier === "advanced" ? ADVANCED_TOOLS.length : FREE_TOOLS.length,
     },
     upgrade: license.tier === "free" ? {
       url: "https://codecontrol.ai/mcp",
       price: "$18/month",
-      features: ["UI inspection", "Screen analysis", "Multi-device support"],
+      features: ["UI inspection", "Screen analysis", "Log capture sessions", "Multi-device support"],
     } : null,
     attribution: {
       required: license.tier === "free",
@@ -355,7 +375,7 @@ export async function setLicenseKey(licenseKey: string): Promise<string> {
       success: true,
       tier: validated.tier.toUpperCase(),
       expiresAt: validated.expiresAt || "N/A",
-      message: `License activated! You now have ${validated.tier.toUpperCase()} tier access with all 21 tools.`,
+      message: `License activated! You now have ${validated.tier.toUpperCase()} tier access with all ${ADVANCED_TOOLS.length} tools.`,
     });
   }
 
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createFakeBackend, setBackend } from "./backend.js";
+import {
+  startLogSession,
+  readLogSession,
+  stopLogSession,
+  stopAllLogSessions,
+  decodeCursor,
+  encodeCursor,
+} from "./logSessions.js";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function useLiveLogs(lines: string[]) {
+  setBackend("android", createFakeBackend("android", { liveLogs: lines }));
+}
+
+// ============================================================================
+// LOG SESSION TESTS
+// ============================================================================
+
+describe("Log Capture Sessions", () => {
+  beforeEach(() => {
+    useLiveLogs(["line 1", "line 2", "line 3"]);
+  });
+
+  afterEach(() => {
+    stopAllLogSessions();
+    setBackend("android", null);
+  });
+
+  it("should buffer lines and continue after the last read", async () => {
+    const { session } = startLogSession("android");
+    await flush();
+
+    const first = readLogSession(session.id, 2);
+    expect(first.lines).toEqual(["line 1", "line 2"]);
+    expect(first.hasMore).toBe(true);
+
+    const second = readLogSession(session.id, 10);
+    expect(second.lines).toEqual(["line 3"]);
+    expect(second.hasMore).toBe(false);
+
+    const third = readLogSession(session.id, 10);
+    expect(third.lines).toEqual([]);
+  });
+
+  it("should re-read from an explicit cursor", async () => {
+    const { session } = startLogSession("android");
+    await flush();
+
+    const first = readLogSession(session.id, 1);
+    readLogSession(session.id, 10);
+
+    const replay = readLogSession(session.id, 10, first.cursor);
+    expect(replay.lines).toEqual(["line 2", "line 3"]);
+  });
+
+  it("should reuse the running session for the same device", () => {
+    const a = startLogSession("android", "emulator-5554");
+    const b = startLogSession("android", "emulator-5554");
+    expect(b.reused).toBe(true);
+    expect(b.session.id).toBe(a.session.id);
+  });
+
+  it("should report lines dropped from the ring buffer", async () => {
+    useLiveLogs(Array.from({ length: 150 }, (_, i) => `line ${i}`));
+    const { session } = startLogSession("android", undefined, 100);
+    await flush();
+
+    const result = readLogSession(session.id, 200);
+    expect(result.dropped).toBe(50);
+    expect(result.lines[0]).toBe("line 50");
+    expect(result.lines[99]).toBe("line 149");
+    expect(result.lines).toHaveLength(100);
+  });
+
+  it("should reject cursors from another session", () => {
+    const { session } = startLogSession("android");
+    expect(() => readLogSession(session.id, 10, encodeCursor("abcdef", 0))).toThrow("different session");
+  });
+
+  it("should reject cursors past the newest line without moving the read position", async () => {
+    const { session } = startLogSession("android");
+    await flush();
+
+    expect(() => readLogSession(session.id, 10, encodeCursor(session.id, 99))).toThrow("ahead of the session");
+    expect(readLogSession(session.id, 10).lines).toEqual(["line 1", "line 2", "line 3"]);
+    // The cursor after the newest line is still fine
+    expect(readLogSession(session.id, 10, encodeCursor(session.id, 3)).lines).toEqual([]);
+  });
+
+  it("should stop sessions and forget them", () => {
+    const { session } = startLogSession("android");
+    expect(stopLogSession(session.id)).toBe(true);
+    expect(stopLogSession(session.id)).toBe(false);
+    expect(() => readLogSession(session.id, 10)).toThrow("not found");
+  });
+});
+
+describe("Cursor tokens", () => {
+  it("should round-trip", () => {
+    expect(decodeCursor(encodeCursor("a1b2c3", 42))).toEqual({ sessionId: "a1b2c3", seq: 42 });
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor token");
+  });
+});
@@ -0,0 +1,180 @@
+// Mobile Dev MCP - Persistent Log Capture Sessions
+// One long-lived log process per device, buffered in a ring with cursor tokens
+// so callers can read "everything since my last read" without gaps.
+
+import * as crypto from "crypto";
+import { getBackend, Platform } from "./backend.js";
+
+export const DEFAULT_SESSION_BUFFER = 5000;
+export const MAX_SESSION_BUFFER = 20000;
+
+export interface LogSession {
+  id: string;
+  platform: Platform;
+  device?: string;
+  startedAt: number;
+  capacity: number;
+  /** Ring buffer of the most recent lines; line `seq` is at `seq % capacity` */
+  lines: string[];
+  /** Sequence number assigned to the next incoming line */
+  nextSeq: number;
+  /** Sequence number the next cursor-less read starts from */
+  readSeq: number;
+  running: boolean;
+  exitError?: string;
+  stop(): void;
+}
+
+export interface LogReadResult {
+  sessionId: string;
+  lines: string[];
+  /** Pass back to continue exactly after the returned lines */
+  cursor: string;
+  /** Lines that fell out of the ring buffer before they could be read */
+  dropped: number;
+  hasMore: boolean;
+  running: boolean;
+  exitError?: string;
+}
+
+const sessions = new Map<string, LogSession>();
+
+function sessionKey(platform: Platform, device?: string): string {
+  return `${platform}:${device || "default"}`;
+}
+
+export function encodeCursor(sessionId: string, seq: number): string {
+  return `${sessionId}.${seq}`;
+}
+
+export function decodeCursor(cursor: string): { sessionId: string; seq: number } {
+  const match = cursor.match(/^([a-f0-9]+)\.(\d+)$/);
+  if (!match) {
+    throw new Error("Invalid cursor token");
+  }
+  return { sessionId: match[1], seq: Number(match[2]) };
+}
+
+/**
+ * Start capturing logs for a device. Reuses the running session for the same
+ * device instead of spawning a second log process.
+ */
+export function startLogSession(
+  platform: Platform,
+  device?: string,
+  capacity: number = DEFAULT_SESSION_BUFFER
+): { session: LogSession; reused: boolean } {
+  const key = sessionKey(platform, device);
+  const existing = sessions.get(key);
+  if (existing && existing.running) {
+    return { session: existing, reused: true };
+  }
+
+  const logProcess = getBackend(platform).startLogProcess(device);
+  const session: LogSession = {
+    id: crypto.randomBytes(6).toString("hex"),
+    platform,
+    device,
+    startedAt: Date.now(),
+    capacity: Math.max(100, Math.min(Math.floor(capacity), MAX_SESSION_BUFFER)),
+    lines: [],
+    nextSeq: 0,
+    readSeq: 0,
+    running: true,
+    stop: () => logProcess.stop(),
+  };
+
+  logProcess.onLine((line) => {
+    if (!line) return;
+    session.lines[session.nextSeq % session.capacity] = line;
+    session.nextSeq++;
+  });
+
+  logProcess.onExit((error) => {
+    session.running = false;
+    if (error) {
+      session.exitError = error.message;
+    }
+  });
+
+  sessions.set(key, session);
+  return { session, reused: false };
+}
+
+export function getLogSession(sessionId: string): LogSession | undefined {
+  for (const session of sessions.values()) {
+    if (session.id === sessionId) return session;
+  }
+  return undefined;
+}
+
+export function listLogSessions(): LogSession[] {
+  return [...sessions.values()];
+}
+
+/**
+ * Read up to `limit` lines after the cursor (or after the previous read when
+ * no cursor is given) and advance the session's read position.
+ */
+export function readLogSession(sessionId: string, limit: number, cursor?: string): LogReadResult {
+  let fromSeq: number | undefined;
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (decoded.sessionId !== sessionId) {
+      throw new Error("Cursor belongs to a different session");
+    }
+    fromSeq = decoded.seq;
+  }
+
+  const session = getLogSession(sessionId);
+  if (!session) {
+    throw new Error(`Log session '${sessionId}' not found`);
+  }
+
+  if (fromSeq !== undefined && fromSeq > session.nextSeq) {
+    // Moving the read position there would skip lines that have not arrived yet
+    throw new Error("Cursor is ahead of the session");
+  }
+
+  const startSeq = fromSeq ?? session.readSeq;
+  const oldestSeq = Math.max(0, session.nextSeq - session.capacity);
+  const dropped = Math.max(0, oldestSeq - startSeq);
+
+  const firstSeq = Math.max(startSeq, oldestSeq);
+  const endSeq = Math.min(session.nextSeq, firstSeq + limit);
+  const lines: string[] = [];
+  for (let seq = firstSeq; seq < endSeq; seq++) {
+    lines.push(session.lines[seq % session.capacity]);
+  }
+
+  session.readSeq = endSeq;
+
+  return {
+    sessionId,
+    lines,
+    cursor: encodeCursor(sessionId, endSeq),
+    dropped,
+    hasMore: endSeq < session.nextSeq,
+    running: session.running,
+    exitError: session.exitError,
+  };
+}
+
+export function stopLogSession(sessionId: string): boolean {
+  for (const [key, session] of sessions) {
+    if (session.id === sessionId) {
+      session.stop();
+      session.running = false;
+      sessions.delete(key);
+      return true;
+    }
+  }
+  return false;
+}
+
+export function stopAllLogSessions(): void {
+  for (const session of sessions.values()) {
+    session.stop();
+  }
+  sessions.clear();
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseLogcatLine,
+  parseLogcat,
+  filterLogcatEntries,
+  parseTimeBound,
+  parsePidList,
+} from "./logcat.js";
+
+const NOW = new Date(Date.UTC(2026, 0, 15, 12, 0, 0));
+
+const SAMPLE = [
+  "--------- beginning of main",
+  "01-15 10:23:45.123  1234  1250 I ReactNativeJS: Running \"main\" with {\"rootTag\":1}",
+  "01-15 10:24:00.000  1234  1250 W ReactNativeJS: Possible Unhandled Promise Rejection: key: value",
+  "01-15 10:25:10.500  1234  1234 E AndroidRuntime: FATAL EXCEPTION: main",
+  "01-15 10:25:11.000   567   600 D OkHttp: --> GET https://api.example.com",
+].join("\n");
+
+// ============================================================================
+// PARSING TESTS
+// ============================================================================
+
+describe("parseLogcatLine()", () => {
+  it("should parse threadtime lines", () => {
+    const entry = parseLogcatLine("01-15 10:23:45.123  1234  1250 I ReactNativeJS: hello", NOW);
+    expect(entry).toMatchObject({ pid: 1234, tid: 1250, level: "I", tag: "ReactNativeJS", message: "hello" });
+    expect(entry!.timestamp).toBe("2026-01-15T10:23:45.123Z");
+  });
+
+  it("should read the year and offset when logcat prints them", () => {
+    expect(parseLogcatLine("2025-12-31 23:59:59.000  1  1 I Tag: late", NOW)?.timestamp).toBe("2025-12-31T23:59:59.000Z");
+    expect(parseLogcatLine("2026-01-15 02:23:45.123 -0800  1  1 I Tag: zoned", NOW)?.timestamp).toBe("2026-01-15T10:23:45.123Z");
+  });
+
+  it("should not depend on the host timezone", () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "America/Los_Angeles";
+    try {
+      const entry = parseLogcatLine("2026-01-15 10:23:45.123  1234  1250 I ReactNativeJS: hello", NOW);
+      expect(entry?.timestamp).toBe("2026-01-15T10:23:45.123Z");
+      // Sanity check that the host zone really is different here
+      expect(new Date(2026, 0, 15, 10).getTime()).not.toBe(Date.UTC(2026, 0, 15, 10));
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it("should keep colons inside the message", () => {
+    const entry = parseLogcatLine("01-15 10:24:00.000  1234  1250 W ReactNativeJS: a: b: c", NOW);
+    expect(entry?.message).toBe("a: b: c");
+  });
+
+  it("should handle tags padded with spaces", () => {
+    const entry = parseLogcatLine("01-15 10:24:00.000  1234  1250 D Tag     : padded", NOW);
+    expect(entry?.tag).toBe("Tag");
+    expect(entry?.message).toBe("padded");
+  });
+
+  it("should return null for headers", () => {
+    expect(parseLogcatLine("--------- beginning of crash", NOW)).toBeNull();
+  });
+
+  it("should assign last year to entries across the new year", () => {
+    const entry = parseLogcatLine("12-31 23:59:59.000  1  1 I Tag: late", NOW);
+    expect(entry!.timestamp).toBe("2025-12-31T23:59:59.000Z");
+  });
+});
+
+// ============================================================================
+// FILTER TESTS
+// ============================================================================
+
+describe("filterLogcatEntries()", () => {
+  const entries = parseLogcat(SAMPLE, NOW);
+
+  it("should skip unparseable lines", () => {
+    expect(entries).toHaveLength(4);
+  });
+
+  it("should filter by minimum level", () => {
+    expect(filterLogcatEntries(entries, { minLevel: "W" }).map((e) => e.level)).toEqual(["W", "E"]);
+  });
+
+  it("should filter by several tags", () => {
+    const result = filterLogcatEntries(entries, { tags: ["AndroidRuntime", "OkHttp"] });
+    expect(result.map((e) => e.tag)).toEqual(["AndroidRuntime", "OkHttp"]);
+  });
+
+  it("should treat '*' as all tags", () => {
+    expect(filterLogcatEntries(entries, { tags: ["*"] })).toHaveLength(4);
+  });
+
+  it("should filter by pid", () => {
+    expect(filterLogcatEntries(entries, { pids: [567] })).toHaveLength(1);
+  });
+
+  it("should filter by message pattern", () => {
+    expect(filterLogcatEntries(entries, { pattern: /unhandled promise/i })).toHaveLength(1);
+  });
+
+  it("should filter by time window", () => {
+    const result = filterLogcatEntries(entries, {
+      since: new Date(Date.UTC(2026, 0, 15, 10, 24, 0)),
+      until: new Date(Date.UTC(2026, 0, 15, 10, 25, 10, 500)),
+    });
+    expect(result.map((e) => e.tag)).toEqual(["ReactNativeJS", "AndroidRuntime"]);
+  });
+});
+
+// ============================================================================
+// HELPER TESTS
+// ============================================================================
+
+describe("parseTimeBound()", () => {
+  it("should parse relative durations", () => {
+    expect(parseTimeBound("5m", NOW)?.getTime()).toBe(NOW.getTime() - 5 * 60 * 1000);
+    expect(parseTimeBound("30s", NOW)?.getTime()).toBe(NOW.getTime() - 30 * 1000);
+  });
+
+  it("should parse ISO timestamps", () => {
+    expect(parseTimeBound("2026-01-15T10:00:00Z")?.toISOString()).toBe("2026-01-15T10:00:00.000Z");
+  });
+
+  it("should reject garbage", () => {
+    expect(parseTimeBound("yesterday-ish")).toBeNull();
+  });
+});
+
+describe("parsePidList()", () => {
+  it("should parse pidof output", () => {
+    expect(parsePidList("1234 5678\n")).toEqual([1234, 5678]);
+    expect(parsePidList("")).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+// Mobile Dev MCP - Logcat Parsing
+// Parses `logcat -v threadtime -v UTC -v year` output into structured entries
+// and filters them by level, tag, pid, message pattern and time window.
+// Times are read as UTC, so they do not depend on the device or host timezone.
+
+export type LogLevel = "V" | "D" | "I" | "W" | "E" | "F";
+
+export const LOG_LEVELS: LogLevel[] = ["V", "D", "I", "W", "E", "F"];
+
+export interface LogcatEntry {
+  /** ISO-8601 timestamp in UTC (the current year is assumed for lines without one) */
+  timestamp: string;
+  pid: number;
+  tid: number;
+  level: LogLevel;
+  tag: string;
+  message: string;
+  raw: string;
+}
+
+export interface LogcatFilter {
+  minLevel?: LogLevel;
+  /** Exact tag names; "*" matches everything */
+  tags?: string[];
+  pids?: number[];
+  pattern?: RegExp;
+  since?: Date;
+  until?: Date;
+}
+
+// 2026-01-15 10:23:45.123  1234  1250 E ReactNativeJS: message
+// The year is missing without `-v year`; `-v zone` appends an offset such as +0000
+const THREADTIME_REGEX = /^(?:(\d{4})-)?(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})\.(\d{3})(?:\s+([+-])(\d{2})(\d{2}))?\s+(\d+)\s+(\d+)\s+([VDIWEFS])\s+(.*?)\s*: ?(.*)$/;
+
+// Upper bound on lines pulled from the device when filtering happens in Node.js
+export const MAX_SCAN_LINES = 5000;
+
+/**
+ * Parse one threadtime line. Times without an offset are taken as UTC
+ * (`-v UTC`). Returns null for headers such as "--------- beginning of main"
+ * or lines in other formats.
+ */
+export function parseLogcatLine(line: string, now: Date = new Date()): LogcatEntry | null {
+  const match = line.match(THREADTIME_REGEX);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, ms, sign, offsetHours, offsetMinutes, pid, tid, level, tag, message] = match;
+  const offsetMs = sign ? (sign === "-" ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60 * 1000 : 0;
+  const utcTime = (y: number) =>
+    Date.UTC(y, Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Number(ms)) - offsetMs;
+
+  let time = utcTime(year ? Number(year) : now.getUTCFullYear());
+  // Without a year, entries "in the future" are from last year (Dec -> Jan wrap)
+  if (!year && time - now.getTime() > 24 * 60 * 60 * 1000) {
+    time = utcTime(now.getUTCFullYear() - 1);
+  }
+  const date = new Date(time);
+
+  return {
+    timestamp: date.toISOString(),
+    pid: Number(pid),
+    tid: Number(tid),
+    level: (level === "S" ? "F" : level) as LogLevel,
+    tag: tag.trim(),
+    message,
+    raw: line,
+  };
+}
+
+export function parseLogcat(output: string, now: Date = new Date()): LogcatEntry[] {
+  const entries: LogcatEntry[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const entry = parseLogcatLine(line, now);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+export function filterLogcatEntries(entries: LogcatEntry[], filter: LogcatFilter): LogcatEntry[] {
+  const minLevelIndex = filter.minLevel ? LOG_LEVELS.indexOf(filter.minLevel) : 0;
+  const tags = filter.tags && !filter.tags.includes("*") ? new Set(filter.tags) : null;
+  const pids = filter.pids ? new Set(filter.pids) : null;
+  const since = filter.since?.getTime();
+  const until = filter.until?.getTime();
+
+  return entries.filter((entry) => {
+    if (LOG_LEVELS.indexOf(entry.level) < minLevelIndex) return false;
+    if (tags && !tags.has(entry.tag)) return false;
+    if (pids && !pids.has(entry.pid)) return false;
+    if (since !== undefined || until !== undefined) {
+      const time = new Date(entry.timestamp).getTime();
+      if (since !== undefined && time < since) return false;
+      if (until !== undefined && time > until) return false;
+    }
+    if (filter.pattern && !filter.pattern.test(entry.message)) return false;
+    return true;
+  });
+}
+
+/**
+ * Parse a time bound: relative durations ("30s", "5m", "2h") count back from
+ * now, anything else must be an ISO-8601 date/time.
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date | null {
+  const relative = value.trim().match(/^(\d+)\s*(s|m|h)$/i);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[relative[2].toLowerCase() as "s" | "m" | "h"];
+    return new Date(now.getTime() - Number(relative[1]) * unitMs);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse `pidof` output ("1234 5678") into pids
+ */
+export function parsePidList(output: string): number[] {
+  return output
+    .trim()
+    .split(/\s+/)
+    .filter((p) => /^\d+$/.test(p))
+    .map(Number);
+}
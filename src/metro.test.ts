@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer, WebSocket } from "ws";
+import { AddressInfo } from "net";
+import { formatMetroEvent, getMetroLogs, closeMetroConnections } from "./metro.js";
+
+// ============================================================================
+// EVENT FORMATTING TESTS
+// ============================================================================
+
+describe("formatMetroEvent()", () => {
+  it("should format client console output", () => {
+    const entry = formatMetroEvent({ type: "client_log", level: "warn", data: ["Slow render", { ms: 120 }] });
+    expect(entry).toMatchObject({ level: "warn", message: 'Slow render {"ms":120}' });
+  });
+
+  it("should format bundling errors with location", () => {
+    const entry = formatMetroEvent({
+      type: "bundling_error",
+      error: { message: "Unable to resolve module ./Foo", filename: "App.tsx", lineNumber: 3 },
+    });
+    expect(entry).toMatchObject({ level: "error", message: "Unable to resolve module ./Foo (App.tsx:3)" });
+  });
+
+  it("should describe bundle builds", () => {
+    const entry = formatMetroEvent({
+      type: "bundle_build_started",
+      bundleDetails: { entryFile: "index.js", platform: "android" },
+    });
+    expect(entry?.message).toBe("Bundling index.js (android)");
+  });
+
+  it("should drop progress noise and malformed events", () => {
+    expect(formatMetroEvent({ type: "bundle_transform_progressed" })).toBeNull();
+    expect(formatMetroEvent({ foo: "bar" })).toBeNull();
+  });
+});
+
+// ============================================================================
+// WEBSOCKET CAPTURE TESTS
+// ============================================================================
+
+describe("getMetroLogs()", () => {
+  let server: WebSocketServer;
+  let port: number;
+  let clients: WebSocket[];
+
+  const broadcast = async (events: object[]) => {
+    for (const client of clients) {
+      for (const event of events) client.send(JSON.stringify(event));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  };
+
+  beforeEach(async () => {
+    clients = [];
+    server = new WebSocketServer({ port: 0, path: "/events" });
+    server.on("connection", (socket) => clients.push(socket));
+    await new Promise((resolve) => server.on("listening", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    closeMetroConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should connect on first call and capture events afterwards", async () => {
+    const first = await getMetroLogs(port, { lines: 50 });
+    expect(first.newConnection).toBe(true);
+    expect(first.entries).toHaveLength(0);
+
+    await broadcast([
+      { type: "client_log", level: "log", data: ["App mounted"] },
+      { type: "client_log", level: "error", data: ["TypeError: x is undefined"] },
+    ]);
+
+    const second = await getMetroLogs(port, { lines: 50 });
+    expect(second.newConnection).toBe(false);
+    expect(second.entries.map((e) => e.message)).toEqual(["App mounted", "TypeError: x is undefined"]);
+  });
+
+  it("should honor lines and filter", async () => {
+    await getMetroLogs(port, { lines: 50 });
+    await broadcast([
+      { type: "client_log", level: "warn", data: ["first warning"] },
+      { type: "client_log", level: "log", data: ["noise"] },
+      { type: "client_log", level: "warn", data: ["second warning"] },
+    ]);
+
+    const filtered = await getMetroLogs(port, { lines: 1, filter: "warning" });
+    expect(filtered.total).toBe(2);
+    expect(filtered.entries.map((e) => e.message)).toEqual(["second warning"]);
+  });
+
+  it("should match text that merely starts with a level name as text", async () => {
+    await getMetroLogs(port, { lines: 50 });
+    await broadcast([
+      { type: "client_log", level: "log", data: ["App mounted"] },
+      { type: "client_log", level: "info", data: ["Login screen shown"] },
+      { type: "client_log", level: "error", data: ["Request failed"] },
+    ]);
+
+    const login = await getMetroLogs(port, { lines: 50, filter: "login" });
+    expect(login.entries.map((e) => e.message)).toEqual(["Login screen shown"]);
+    const errors = await getMetroLogs(port, { lines: 50, filter: "errors" });
+    expect(errors.total).toBe(0);
+    const error = await getMetroLogs(port, { lines: 50, filter: "ERROR" });
+    expect(error.entries.map((e) => e.message)).toEqual(["Request failed"]);
+  });
+
+  it("should share one socket between concurrent first calls", async () => {
+    const [first, second] = await Promise.all([getMetroLogs(port, { lines: 50 }), getMetroLogs(port, { lines: 50 })]);
+    expect(first.newConnection).toBe(true);
+    expect(second.capturingSince).toBe(first.capturingSince);
+    expect(clients).toHaveLength(1);
+  });
+
+  it("should reject when Metro is not running", async () => {
+    closeMetroConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await expect(getMetroLogs(port, { lines: 10 })).rejects.toThrow();
+    server = new WebSocketServer({ port: 0 });
+  });
+});
@@ -0,0 +1,203 @@
+// Mobile Dev MCP - Metro Log Capture
+// Subscribes to Metro's /events websocket, which broadcasts reporter events
+// (bundle builds, bundling errors and client console.* output), and keeps the
+// most recent ones in a buffer per port.
+
+import WebSocket from "ws";
+
+export const MAX_METRO_EVENTS = 1000;
+const CONNECT_TIMEOUT_MS = 2000;
+
+const LEVELS: MetroLogEntry["level"][] = ["info", "warn", "error", "debug", "log"];
+// Other spellings accepted for a level filter
+const LEVEL_ALIASES: Record<string, MetroLogEntry["level"]> = { warning: "warn" };
+
+export interface MetroLogEntry {
+  time: number;
+  type: string;
+  level: "info" | "warn" | "error" | "debug" | "log";
+  message: string;
+}
+
+interface MetroConnection {
+  port: number;
+  socket: WebSocket;
+  connectedAt: number;
+  entries: MetroLogEntry[];
+}
+
+// Reporter events we format; other types are logged by name only
+interface MetroBundleDetails {
+  entryFile?: string;
+  platform?: string;
+}
+
+interface MetroError {
+  message?: string;
+  filename?: string;
+  lineNumber?: number;
+}
+
+type MetroEvent =
+  | { type: "client_log"; level?: string; data?: unknown }
+  | { type: "bundle_build_started"; bundleDetails?: MetroBundleDetails }
+  | { type: "bundle_build_done" | "bundle_build_failed" }
+  | { type: "bundle_transform_progressed" | "bundle_transform_progressed_throttled" }
+  | { type: "bundling_error" | "hmr_client_error" | "transformer_load_failed"; error?: MetroError };
+
+const connections = new Map<number, MetroConnection>();
+// Connects still in progress, so concurrent calls share one socket
+const pendingConnections = new Map<number, Promise<MetroConnection>>();
+
+function stringifyArg(arg: unknown): string {
+  if (typeof arg === "string") return arg;
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+function describeBundle(details: MetroBundleDetails | undefined): string {
+  if (!details) return "";
+  const platform = details.platform ? ` (${details.platform})` : "";
+  return `${details.entryFile || "bundle"}${platform}`;
+}
+
+/**
+ * Convert a Metro reporter event into a log entry. Returns null for
+ * high-frequency noise such as progress updates.
+ */
+export function formatMetroEvent(value: unknown, time: number = Date.now()): MetroLogEntry | null {
+  if (!value || typeof (value as { type?: unknown }).type !== "string") return null;
+  const type = (value as { type: string }).type;
+  const event = value as MetroEvent;
+
+  switch (event.type) {
+    case "client_log": {
+      const level = LEVELS.find((l) => l === event.level) ?? "log";
+      const data = Array.isArray(event.data) ? event.data : [event.data];
+      return { time, type: event.type, level, message: data.map(stringifyArg).join(" ") };
+    }
+    case "bundle_build_started":
+      return { time, type: event.type, level: "info", message: `Bundling ${describeBundle(event.bundleDetails)}` };
+    case "bundle_build_done":
+      return { time, type: event.type, level: "info", message: "Bundle build done" };
+    case "bundle_build_failed":
+      return { time, type: event.type, level: "error", message: "Bundle build failed" };
+    case "bundling_error": {
+      const error: MetroError = event.error || {};
+      const location = error.filename ? ` (${error.filename}${error.lineNumber ? `:${error.lineNumber}` : ""})` : "";
+      return { time, type: event.type, level: "error", message: `${error.message || "Bundling error"}${location}` };
+    }
+    case "hmr_client_error":
+      return { time, type: event.type, level: "error", message: `HMR error: ${event.error?.message || "unknown"}` };
+    case "transformer_load_failed":
+      return { time, type: event.type, level: "error", message: `Transformer failed to load: ${event.error?.message || "unknown"}` };
+    case "bundle_transform_progressed":
+    case "bundle_transform_progressed_throttled":
+      return null;
+    default:
+      return { time, type, level: "info", message: type };
+  }
+}
+
+function pushEntry(connection: MetroConnection, entry: MetroLogEntry): void {
+  connection.entries.push(entry);
+  if (connection.entries.length > MAX_METRO_EVENTS) {
+    connection.entries.shift();
+  }
+}
+
+/**
+ * Connect to Metro's events socket (or reuse the open connection).
+ * Resolves once the socket is open; rejects if Metro is not reachable.
+ */
+export function connectMetro(port: number, host: string = "localhost"): Promise<MetroConnection> {
+  const existing = connections.get(port);
+  if (existing && existing.socket.readyState === WebSocket.OPEN) {
+    return Promise.resolve(existing);
+  }
+  const pending = pendingConnections.get(port);
+  if (pending) return pending;
+
+  const connecting = new Promise<MetroConnection>((resolve, reject) => {
+    const socket = new WebSocket(`ws://${host}:${port}/events`);
+    const connection: MetroConnection = {
+      port,
+      socket,
+      connectedAt: Date.now(),
+      // Keep the buffer across reconnects so history isn't lost
+      entries: existing?.entries ?? [],
+    };
+
+    const timer = setTimeout(() => {
+      socket.terminate();
+      reject(new Error(`Timed out connecting to Metro on port ${port}`));
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.on("open", () => {
+      clearTimeout(timer);
+      connections.set(port, connection);
+      resolve(connection);
+    });
+
+    socket.on("message", (data) => {
+      try {
+        const entry = formatMetroEvent(JSON.parse(data.toString()));
+        if (entry) pushEntry(connection, entry);
+      } catch {
+        // Ignore non-JSON frames
+      }
+    });
+
+    socket.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  }).finally(() => pendingConnections.delete(port));
+
+  pendingConnections.set(port, connecting);
+  return connecting;
+}
+
+export interface MetroLogQuery {
+  lines: number;
+  filter?: string;
+}
+
+export async function getMetroLogs(
+  port: number,
+  query: MetroLogQuery
+): Promise<{ entries: MetroLogEntry[]; total: number; capturingSince: number; newConnection: boolean }> {
+  const wasOpen = connections.get(port)?.socket.readyState === WebSocket.OPEN;
+  const connection = await connectMetro(port);
+
+  // A filter naming a level selects that level; anything else matches message text
+  const filter = query.filter?.toLowerCase();
+  const level = filter && (LEVEL_ALIASES[filter] ?? LEVELS.find((l) => l === filter));
+  const matching = level
+    ? connection.entries.filter((e) => e.level === level)
+    : filter
+      ? connection.entries.filter((e) => e.message.toLowerCase().includes(filter))
+      : connection.entries;
+
+  return {
+    entries: matching.slice(-query.lines),
+    total: matching.length,
+    capturingSince: connection.connectedAt,
+    newConnection: !wasOpen,
+  };
+}
+
+export function formatMetroLogEntry(entry: MetroLogEntry): string {
+  const time = new Date(entry.time).toISOString().slice(11, 23);
+  return `${time} ${entry.level.toUpperCase().padEnd(5)} ${entry.message}`;
+}
+
+export function closeMetroConnections(): void {
+  for (const connection of connections.values()) {
+    connection.socket.terminate();
+  }
+  connections.clear();
+}
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as http from "http";
+import * as zlib from "zlib";
+import * as net from "net";
+import { AddressInfo } from "net";
+import {
+  startNetworkProxy,
+  stopNetworkProxy,
+  getNetworkProxy,
+  filterExchanges,
+  summarizeExchange,
+  captureBody,
+  isValidStatusFilter,
+  NetworkExchange,
+  MAX_BODY_BYTES,
+} from "./networkProxy.js";
+
+// Lets a test hold back the proxy's upstream connections
+const connectDelay = vi.hoisted(() => ({ ms: 0 }));
+vi.mock("net", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("net")>();
+  return {
+    ...actual,
+    connect: (port: number, host: string) => {
+      if (connectDelay.ms === 0) return actual.connect(port, host);
+      const socket = new actual.Socket();
+      setTimeout(() => socket.connect(port, host), connectDelay.ms);
+      return socket;
+    },
+  };
+});
+
+// ============================================================================
+// PROXY TESTS (LOCAL FAKE SERVER)
+// ============================================================================
+
+interface ProxyResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** Send a request through the proxy, the way an app with http_proxy set does */
+function viaProxy(proxyPort: number, url: string, options: { method?: string; body?: string } = {}): Promise<ProxyResponse> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port: proxyPort, path: url, method: options.method ?? "GET", agent: false },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks).toString() }));
+      }
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+/** Open a CONNECT tunnel and send one plain HTTP request through it */
+function viaTunnel(proxyPort: number, target: string): Promise<{ status: number; response: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: "127.0.0.1", port: proxyPort, method: "CONNECT", path: target, agent: false });
+    req.on("connect", (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        resolve({ status: res.statusCode!, response: "" });
+        return;
+      }
+      let response = "";
+      socket.on("data", (chunk) => (response += chunk));
+      socket.on("end", () => resolve({ status: 200, response }));
+      socket.write(`GET /tunnelled HTTP/1.1\r\nHost: ${target}\r\nConnection: close\r\n\r\n`);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+// Exchanges finish recording on the proxy's side of the socket
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe("network capture proxy", () => {
+  let upstream: http.Server;
+  let base: string;
+  let proxyPort: number;
+
+  beforeEach(async () => {
+    upstream = http.createServer((req, res) => {
+      if (req.url === "/users") {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify([{ id: 1, name: "Ada" }]));
+      } else if (req.url === "/gzip") {
+        res.writeHead(200, { "content-type": "text/plain", "content-encoding": "gzip" });
+        res.end(zlib.gzipSync("compressed hello"));
+      } else if (req.url === "/echo") {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.writeHead(201, { "content-type": "application/json" });
+          res.end(JSON.stringify({ received: JSON.parse(body) }));
+        });
+      } else if (req.url === "/large") {
+        res.writeHead(200, { "content-type": "text/plain" });
+        res.end("x".repeat(MAX_BODY_BYTES + 100));
+      } else {
+        res.writeHead(404, { "content-type": "text/plain" });
+        res.end("not found");
+      }
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+    proxyPort = (await startNetworkProxy(0)).proxy.port;
+  });
+
+  afterEach(async () => {
+    connectDelay.ms = 0;
+    stopNetworkProxy();
+    upstream.closeAllConnections();
+    await new Promise((resolve) => upstream.close(resolve));
+  });
+
+  it("should forward requests and record the exchange", async () => {
+    const response = await viaProxy(proxyPort, `${base}/users`);
+    expect(response).toMatchObject({ status: 200, body: '[{"id":1,"name":"Ada"}]' });
+    await settle();
+
+    const [exchange] = getNetworkProxy()!.exchanges;
+    expect(exchange).toMatchObject({
+      id: 1,
+      kind: "http",
+      method: "GET",
+      url: `${base}/users`,
+      state: "complete",
+      status: 200,
+      statusMessage: "OK",
+      responseHeaders: { "content-type": "application/json" },
+      responseBody: { size: 23, encoding: "utf8", data: '[{"id":1,"name":"Ada"}]', truncated: false },
+    });
+    expect(exchange.requestBody).toBeUndefined();
+    expect(exchange.ttfbMs).toBeGreaterThanOrEqual(0);
+    expect(exchange.durationMs).toBeGreaterThanOrEqual(exchange.ttfbMs!);
+  });
+
+  it("should record request bodies and decompress responses", async () => {
+    const posted = await viaProxy(proxyPort, `${base}/echo`, { method: "POST", body: '{"name":"Grace"}' });
+    expect(posted).toMatchObject({ status: 201, body: '{"received":{"name":"Grace"}}' });
+    // The app still receives the compressed bytes
+    const compressed = await viaProxy(proxyPort, `${base}/gzip`);
+    expect(compressed.headers["content-encoding"]).toBe("gzip");
+    await settle();
+
+    const [post, gzip] = getNetworkProxy()!.exchanges;
+    expect(post.requestBody).toMatchObject({ encoding: "utf8", data: '{"name":"Grace"}' });
+    expect(gzip.responseBody).toMatchObject({ encoding: "utf8", data: "compressed hello", truncated: false });
+    expect(gzip.responseBody!.size).toBeLessThan(40);
+  });
+
+  it("should keep only the start of large bodies", async () => {
+    const response = await viaProxy(proxyPort, `${base}/large`);
+    expect(response.body).toHaveLength(MAX_BODY_BYTES + 100);
+    await settle();
+
+    const body = getNetworkProxy()!.exchanges[0].responseBody!;
+    expect(body).toMatchObject({ size: MAX_BODY_BYTES + 100, truncated: true });
+    expect(body.data).toHaveLength(MAX_BODY_BYTES);
+  });
+
+  it("should answer 502 and record the failure when the server is unreachable", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const response = await viaProxy(proxyPort, `http://127.0.0.1:${port}/`);
+    expect(response.status).toBe(502);
+    expect(getNetworkProxy()!.exchanges[0]).toMatchObject({ state: "failed", error: expect.stringContaining("ECONNREFUSED") });
+  });
+
+  it("should reject requests that are not for a proxy", async () => {
+    const response = await viaProxy(proxyPort, "/users");
+    expect(response.status).toBe(400);
+    expect(getNetworkProxy()!.exchanges).toHaveLength(0);
+  });
+
+  it("should tunnel CONNECT requests and record only metadata", async () => {
+    const target = base.slice("http://".length);
+    const { status, response } = await viaTunnel(proxyPort, target);
+    expect(status).toBe(200);
+    expect(response).toContain("HTTP/1.1 404 Not Found");
+    await settle();
+
+    const [tunnel] = getNetworkProxy()!.exchanges;
+    expect(tunnel).toMatchObject({ kind: "tunnel", method: "CONNECT", host: target, state: "complete", status: 200 });
+    expect(tunnel.bytesSent).toBeGreaterThan(0);
+    expect(tunnel.bytesReceived).toBeGreaterThan(0);
+    expect(tunnel.responseBody).toBeUndefined();
+  });
+
+  it("should forward tunnel data sent before the tunnel is open", async () => {
+    const target = base.slice("http://".length);
+    const request = `GET /tunnelled HTTP/1.1\r\nHost: ${target}\r\nConnection: close\r\n\r\n`;
+    const socket = net.connect(proxyPort, "127.0.0.1");
+    await new Promise((resolve) => socket.on("connect", resolve));
+    connectDelay.ms = 100;
+    const response = await new Promise<string>((resolve, reject) => {
+      socket.write(`CONNECT ${target} HTTP/1.1\r\nHost: ${target}\r\n\r\n`);
+      // Like a TLS client hello sent without waiting for the 200
+      setTimeout(() => socket.write(request), 20);
+      let received = "";
+      socket.on("data", (chunk) => (received += chunk));
+      socket.on("end", () => resolve(received));
+      socket.on("error", reject);
+    });
+    expect(response).toContain("HTTP/1.1 200 Connection Established");
+    expect(response).toContain("HTTP/1.1 404 Not Found");
+    await settle();
+
+    expect(getNetworkProxy()!.exchanges[0].bytesSent).toBe(request.length);
+  });
+
+  it("should drop the oldest exchanges past the buffer size", async () => {
+    stopNetworkProxy();
+    proxyPort = (await startNetworkProxy(0, 10)).proxy.port;
+    for (let i = 0; i < 12; i++) {
+      await viaProxy(proxyPort, `${base}/users?page=${i}`);
+    }
+    const exchanges = getNetworkProxy()!.exchanges;
+    expect(exchanges.map((e) => e.id)).toEqual([3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it("should reuse the running proxy", async () => {
+    const again = await startNetworkProxy(0);
+    expect(again).toMatchObject({ reused: true, proxy: { port: proxyPort } });
+    expect(stopNetworkProxy()).toBe(true);
+    expect(stopNetworkProxy()).toBe(false);
+  });
+});
+
+// ============================================================================
+// FILTER AND BODY TESTS
+// ============================================================================
+
+describe("filterExchanges()", () => {
+  const exchange = (id: number, method: string, url: string, status?: number, state: NetworkExchange["state"] = "complete"): NetworkExchange => ({
+    id,
+    kind: "http",
+    method,
+    url,
+    host: new URL(url).host,
+    startedAt: 0,
+    state,
+    status,
+    requestHeaders: {},
+  });
+  const exchanges = [
+    exchange(1, "GET", "http://api.example.com/users", 200),
+    exchange(2, "POST", "http://api.example.com/login", 401),
+    exchange(3, "GET", "http://cdn.example.com/logo.png", 404),
+    exchange(4, "GET", "http://api.example.com/feed", undefined, "failed"),
+    exchange(5, "GET", "http://api.example.com/health", 503),
+  ];
+  const ids = (filter: Parameters<typeof filterExchanges>[1]) => filterExchanges(exchanges, filter).map((e) => e.id);
+
+  it("should filter by method, URL text and status", () => {
+    expect(ids({ method: "post" })).toEqual([2]);
+    expect(ids({ filter: "API.example" })).toEqual([1, 2, 4, 5]);
+    expect(ids({ status: "404" })).toEqual([3]);
+    expect(ids({ status: "4xx" })).toEqual([2, 3]);
+    expect(ids({ method: "GET", status: "5XX" })).toEqual([5]);
+  });
+
+  it("should find failed exchanges and error responses", () => {
+    expect(ids({ errorsOnly: true })).toEqual([2, 3, 4, 5]);
+  });
+
+  it("should accept status codes and classes only", () => {
+    expect(["200", "4xx", "5XX"].every(isValidStatusFilter)).toBe(true);
+    expect(["20", "600", "4x", "error"].some(isValidStatusFilter)).toBe(false);
+  });
+
+  it("should summarize an exchange for listing", () => {
+    expect(summarizeExchange({ ...exchanges[0], durationMs: 12, responseBody: { size: 42, encoding: "utf8", data: "", truncated: false } }))
+      .toEqual({ id: 1, kind: "http", method: "GET", url: "http://api.example.com/users", state: "complete", status: 200, durationMs: 12, responseSize: 42, error: undefined });
+  });
+});
+
+describe("captureBody()", () => {
+  it("should keep binary content as base64", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]);
+    expect(captureBody(png, png.length, { "content-type": "image/png" })).toEqual({
+      size: 6,
+      encoding: "base64",
+      data: png.toString("base64"),
+      truncated: false,
+    });
+  });
+
+  it("should decode text without a content type", () => {
+    expect(captureBody(Buffer.from("plain"), 5, {})).toMatchObject({ encoding: "utf8", data: "plain" });
+  });
+
+  it("should decode the kept start of a truncated compressed body", () => {
+    const text = "line of text\n".repeat(2000);
+    const gzipped = zlib.gzipSync(text);
+    const body = captureBody(gzipped.subarray(0, 100), gzipped.length, { "content-type": "text/plain", "content-encoding": "gzip" });
+    expect(body.truncated).toBe(true);
+    expect(body.encoding).toBe("utf8");
+    expect(text.startsWith(body.data)).toBe(true);
+    expect(body.data.length).toBeGreaterThan(100);
+  });
+
+  it("should stop decompressing at the body limit", () => {
+    const expanded = Buffer.alloc(5_000_000, "a");
+    const gzipped = zlib.gzipSync(expanded);
+    const body = captureBody(gzipped, gzipped.length, { "content-type": "text/plain", "content-encoding": "gzip" });
+    expect(body.truncated).toBe(true);
+    expect(body.data.length).toBeGreaterThan(MAX_BODY_BYTES / 2);
+    expect(body.data.length).toBeLessThanOrEqual(MAX_BODY_BYTES);
+    expect(body.data).toMatch(/^a+$/);
+
+    const brotli = zlib.brotliCompressSync(expanded);
+    expect(brotli.length).toBeLessThan(1000);
+    const brotliBody = captureBody(brotli, brotli.length, { "content-type": "text/plain", "content-encoding": "br" });
+    expect(brotliBody.truncated).toBe(true);
+    expect(brotliBody.data.length).toBeLessThanOrEqual(MAX_BODY_BYTES);
+  });
+});
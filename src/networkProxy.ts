@@ -0,0 +1,483 @@
+// Mobile Dev MCP - Network Capture
+// A local HTTP proxy for the app under debug. Plain HTTP exchanges are
+// recorded in full (headers, status, timings and bodies up to MAX_BODY_BYTES);
+// HTTPS goes through CONNECT tunnels, which are recorded as host, timing and
+// byte counts only since the traffic stays encrypted. Exchanges are kept in
+// a ring buffer until the capture is stopped.
+
+import * as http from "http";
+import * as net from "net";
+import * as zlib from "zlib";
+import { AddressInfo } from "net";
+
+export const DEFAULT_PROXY_PORT = 8899;
+export const DEFAULT_EXCHANGE_BUFFER = 200;
+export const MAX_EXCHANGE_BUFFER = 1000;
+/** Bytes kept of each request and response body */
+export const MAX_BODY_BYTES = 64 * 1024;
+
+// Connection-level headers that apply to one hop only (RFC 9110 7.6.1)
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|graphql|x-www-form-urlencoded/i;
+
+export interface CapturedBody {
+  /** Size on the wire, before decompression */
+  size: number;
+  /** UTF-8 text, or base64 for binary content */
+  encoding: "utf8" | "base64";
+  data: string;
+  /** Set when only the first MAX_BODY_BYTES were kept */
+  truncated: boolean;
+}
+
+export interface NetworkExchange {
+  id: number;
+  /** "tunnel" is an HTTPS CONNECT tunnel: no headers, status or bodies of the requests inside */
+  kind: "http" | "tunnel";
+  method: string;
+  url: string;
+  host: string;
+  /** Milliseconds since the epoch */
+  startedAt: number;
+  state: "pending" | "complete" | "failed";
+  status?: number;
+  statusMessage?: string;
+  /** Time until the response headers arrived (or the tunnel was open) */
+  ttfbMs?: number;
+  durationMs?: number;
+  requestHeaders: Record<string, string | string[]>;
+  responseHeaders?: Record<string, string | string[]>;
+  requestBody?: CapturedBody;
+  responseBody?: CapturedBody;
+  /** Tunnel traffic, app to server and back */
+  bytesSent?: number;
+  bytesReceived?: number;
+  error?: string;
+}
+
+/** One line of list_network_requests */
+export interface ExchangeSummary {
+  id: number;
+  kind: NetworkExchange["kind"];
+  method: string;
+  url: string;
+  state: NetworkExchange["state"];
+  status?: number;
+  durationMs?: number;
+  responseSize?: number;
+  error?: string;
+}
+
+export interface ExchangeFilter {
+  method?: string;
+  /** Case-insensitive substring of the URL */
+  filter?: string;
+  /** An exact code ("404") or a class ("4xx") */
+  status?: string;
+  /** Only failed exchanges and 4xx/5xx responses */
+  errorsOnly?: boolean;
+}
+
+export interface NetworkProxy {
+  port: number;
+  startedAt: number;
+  capacity: number;
+  /** Ring buffer of the most recent exchanges, oldest first */
+  exchanges: NetworkExchange[];
+  /** Id assigned to the next exchange */
+  nextId: number;
+}
+
+interface RunningProxy extends NetworkProxy {
+  server: http.Server;
+  sockets: Set<net.Socket>;
+}
+
+let current: RunningProxy | undefined;
+
+function stripHopByHop(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const connectionTokens = String(headers.connection ?? "").toLowerCase().split(",").map((t) => t.trim());
+  const result: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || HOP_BY_HOP_HEADERS.includes(name) || connectionTokens.includes(name)) continue;
+    result[name] = value;
+  }
+  return result;
+}
+
+function copyHeaders(headers: http.IncomingHttpHeaders): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) result[name] = value;
+  }
+  return result;
+}
+
+/** Keeps the first MAX_BODY_BYTES of a stream and counts the rest */
+function bodyCollector() {
+  const chunks: Buffer[] = [];
+  let kept = 0;
+  let size = 0;
+  return {
+    add(chunk: Buffer) {
+      size += chunk.length;
+      if (kept < MAX_BODY_BYTES) {
+        const part = chunk.subarray(0, MAX_BODY_BYTES - kept);
+        chunks.push(part);
+        kept += part.length;
+      }
+    },
+    finish(headers: http.IncomingHttpHeaders): CapturedBody | undefined {
+      if (size === 0) return undefined;
+      return captureBody(Buffer.concat(chunks), size, headers);
+    },
+  };
+}
+
+function inflate(data: Buffer, contentEncoding: string): Buffer {
+  // Flush what is there, so the kept prefix of a truncated body still decodes.
+  // Output stops at MAX_BODY_BYTES: a small body can expand to gigabytes.
+  switch (contentEncoding) {
+    case "gzip":
+      return zlib.gunzipSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_BODY_BYTES });
+    case "deflate":
+      return zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_BODY_BYTES });
+    case "br":
+      return zlib.brotliDecompressSync(data, { finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH, maxOutputLength: MAX_BODY_BYTES });
+    default:
+      return data;
+  }
+}
+
+function isOverflow(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ERR_BUFFER_TOO_LARGE";
+}
+
+/**
+ * Decompress up to MAX_BODY_BYTES. When the whole body expands past that, the
+ * longest prefix of the input that still fits is decoded instead, found by
+ * bisection so every attempt stays within the output limit. A brotli
+ * meta-block can expand past the limit on its own, leaving nothing to show.
+ */
+function decompress(data: Buffer, contentEncoding: string): { data: Buffer; overflowed: boolean } {
+  try {
+    return { data: inflate(data, contentEncoding), overflowed: false };
+  } catch (error) {
+    if (!isOverflow(error)) throw error;
+  }
+
+  let best: Buffer = Buffer.alloc(0);
+  let low = 0;
+  let high = data.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    try {
+      best = inflate(data.subarray(0, mid), contentEncoding);
+      low = mid + 1;
+    } catch (error) {
+      if (!isOverflow(error)) throw error;
+      high = mid - 1;
+    }
+  }
+  return { data: best, overflowed: true };
+}
+
+/**
+ * Decode a captured body for display: decompressed when the content encoding
+ * is known, as text for textual content types and base64 otherwise.
+ */
+export function captureBody(raw: Buffer, size: number, headers: http.IncomingHttpHeaders): CapturedBody {
+  let data = raw;
+  let overflowed = false;
+  const contentEncoding = String(headers["content-encoding"] ?? "").toLowerCase().trim();
+  try {
+    ({ data, overflowed } = decompress(raw, contentEncoding));
+  } catch {
+    // Keep the raw bytes
+  }
+
+  const truncated = overflowed || size > raw.length || data.length > MAX_BODY_BYTES;
+  data = data.subarray(0, MAX_BODY_BYTES);
+
+  const contentType = String(headers["content-type"] ?? "");
+  const isText = contentType ? TEXT_CONTENT_TYPE.test(contentType) : !data.includes(0);
+  return isText
+    ? { size, encoding: "utf8", data: data.toString("utf8"), truncated }
+    : { size, encoding: "base64", data: data.toString("base64"), truncated };
+}
+
+function record(proxy: RunningProxy, exchange: Omit<NetworkExchange, "id">): NetworkExchange {
+  const entry: NetworkExchange = { id: proxy.nextId++, ...exchange };
+  proxy.exchanges.push(entry);
+  if (proxy.exchanges.length > proxy.capacity) {
+    proxy.exchanges.shift();
+  }
+  return entry;
+}
+
+function handleRequest(proxy: RunningProxy, req: http.IncomingMessage, res: http.ServerResponse): void {
+  let target: URL;
+  try {
+    target = new URL(req.url ?? "");
+  } catch {
+    res.writeHead(400, { "content-type": "text/plain" });
+    res.end("This is an HTTP proxy: requests need an absolute http:// URL");
+    return;
+  }
+  if (target.protocol !== "http:") {
+    res.writeHead(400, { "content-type": "text/plain" });
+    res.end(`Unsupported protocol ${target.protocol}`);
+    return;
+  }
+
+  const started = Date.now();
+  const exchange = record(proxy, {
+    kind: "http",
+    method: req.method ?? "GET",
+    url: target.href,
+    host: target.host,
+    startedAt: started,
+    state: "pending",
+    requestHeaders: copyHeaders(req.headers),
+  });
+
+  const requestBody = bodyCollector();
+  req.on("data", (chunk: Buffer) => requestBody.add(chunk));
+  req.on("end", () => {
+    exchange.requestBody = requestBody.finish(req.headers);
+  });
+
+  const upstream = http.request(
+    {
+      hostname: target.hostname,
+      port: target.port || 80,
+      path: target.pathname + target.search,
+      method: req.method,
+      headers: stripHopByHop(req.headers),
+    },
+    (upstreamRes) => {
+      exchange.status = upstreamRes.statusCode;
+      exchange.statusMessage = upstreamRes.statusMessage;
+      exchange.ttfbMs = Date.now() - started;
+      exchange.responseHeaders = copyHeaders(upstreamRes.headers);
+      res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.statusMessage, stripHopByHop(upstreamRes.headers));
+
+      const responseBody = bodyCollector();
+      upstreamRes.on("data", (chunk: Buffer) => responseBody.add(chunk));
+      upstreamRes.on("end", () => {
+        exchange.responseBody = responseBody.finish(upstreamRes.headers);
+        exchange.durationMs = Date.now() - started;
+        exchange.state = "complete";
+      });
+      upstreamRes.on("error", (error) => {
+        exchange.state = "failed";
+        exchange.error = error.message;
+        res.destroy();
+      });
+      upstreamRes.pipe(res);
+    }
+  );
+
+  upstream.on("error", (error) => {
+    exchange.state = "failed";
+    exchange.error = error.message;
+    exchange.durationMs = Date.now() - started;
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.writeHead(502, { "content-type": "text/plain" });
+      res.end(`Proxy error: ${error.message}`);
+    }
+  });
+
+  req.pipe(upstream);
+}
+
+function handleConnect(proxy: RunningProxy, req: http.IncomingMessage, client: net.Socket, head: Buffer): void {
+  const authority = req.url ?? "";
+  const match = authority.match(/^\[?([^\]]+?)\]?:(\d+)$/);
+  if (!match) {
+    client.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const started = Date.now();
+  const exchange = record(proxy, {
+    kind: "tunnel",
+    method: "CONNECT",
+    url: match[2] === "443" ? `https://${match[1]}` : `https://${authority}`,
+    host: authority,
+    startedAt: started,
+    state: "pending",
+    requestHeaders: copyHeaders(req.headers),
+    bytesSent: 0,
+    bytesReceived: 0,
+  });
+
+  // Hold data the app sends before the tunnel is open, such as a TLS client hello
+  client.pause();
+  const upstream = net.connect(Number(match[2]), match[1]);
+  proxy.sockets.add(upstream);
+  let open = false;
+
+  upstream.on("connect", () => {
+    open = true;
+    exchange.status = 200;
+    exchange.ttfbMs = Date.now() - started;
+    client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+    if (head.length > 0) {
+      exchange.bytesSent! += head.length;
+      upstream.write(head);
+    }
+    client.on("data", (chunk: Buffer) => {
+      exchange.bytesSent! += chunk.length;
+    });
+    upstream.pipe(client);
+    client.pipe(upstream);
+  });
+  upstream.on("data", (chunk: Buffer) => {
+    exchange.bytesReceived! += chunk.length;
+  });
+
+  upstream.on("error", (error) => {
+    if (exchange.state === "pending") {
+      exchange.state = "failed";
+      exchange.error = error.message;
+    }
+    if (!open) {
+      client.end("HTTP/1.1 502 Bad Gateway\r\n\r\n");
+    } else {
+      client.destroy();
+    }
+  });
+  client.on("error", () => upstream.destroy());
+
+  const finish = () => {
+    if (exchange.durationMs === undefined) {
+      exchange.durationMs = Date.now() - started;
+    }
+    if (exchange.state === "pending") exchange.state = "complete";
+  };
+  upstream.on("close", () => {
+    proxy.sockets.delete(upstream);
+    finish();
+    client.end();
+  });
+  client.on("close", () => {
+    finish();
+    upstream.end();
+  });
+}
+
+/**
+ * Start the proxy on 127.0.0.1, or return the running one. Port 0 picks a
+ * free port.
+ */
+export async function startNetworkProxy(
+  port: number = DEFAULT_PROXY_PORT,
+  capacity: number = DEFAULT_EXCHANGE_BUFFER
+): Promise<{ proxy: NetworkProxy; reused: boolean }> {
+  if (current) {
+    return { proxy: current, reused: true };
+  }
+
+  const server = http.createServer();
+  const proxy: RunningProxy = {
+    port,
+    startedAt: Date.now(),
+    capacity: Math.max(10, Math.min(Math.floor(capacity), MAX_EXCHANGE_BUFFER)),
+    exchanges: [],
+    nextId: 1,
+    server,
+    sockets: new Set(),
+  };
+
+  server.on("connection", (socket) => {
+    proxy.sockets.add(socket);
+    socket.on("close", () => proxy.sockets.delete(socket));
+  });
+  server.on("request", (req, res) => handleRequest(proxy, req, res));
+  server.on("connect", (req, socket: net.Socket, head) => handleConnect(proxy, req, socket, head));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  proxy.port = (server.address() as AddressInfo).port;
+
+  current = proxy;
+  return { proxy, reused: false };
+}
+
+export function getNetworkProxy(): NetworkProxy | undefined {
+  return current;
+}
+
+/**
+ * Stop the proxy, close open connections and discard the buffer.
+ * Returns false when no proxy was running.
+ */
+export function stopNetworkProxy(): boolean {
+  if (!current) return false;
+  current.server.close();
+  for (const socket of current.sockets) {
+    socket.destroy();
+  }
+  current = undefined;
+  return true;
+}
+
+export function summarizeExchange(exchange: NetworkExchange): ExchangeSummary {
+  return {
+    id: exchange.id,
+    kind: exchange.kind,
+    method: exchange.method,
+    url: exchange.url,
+    state: exchange.state,
+    status: exchange.status,
+    durationMs: exchange.durationMs,
+    responseSize: exchange.kind === "tunnel" ? exchange.bytesReceived : exchange.responseBody?.size,
+    error: exchange.error,
+  };
+}
+
+/**
+ * Check a status filter: an exact code ("404") or a class ("4xx")
+ */
+export function isValidStatusFilter(status: string): boolean {
+  return /^[1-5](\d\d|xx)$/i.test(status);
+}
+
+export function filterExchanges(exchanges: NetworkExchange[], filter: ExchangeFilter): NetworkExchange[] {
+  const method = filter.method?.toUpperCase();
+  const text = filter.filter?.toLowerCase();
+  const status = filter.status?.toLowerCase();
+
+  return exchanges.filter((e) => {
+    if (method && e.method !== method) return false;
+    if (text && !e.url.toLowerCase().includes(text)) return false;
+    if (status) {
+      if (e.status === undefined) return false;
+      const matches = status.endsWith("xx")
+        ? Math.floor(e.status / 100) === Number(status[0])
+        : e.status === Number(status);
+      if (!matches) return false;
+    }
+    if (filter.errorsOnly && e.state !== "failed" && (e.status === undefined || e.status < 400)) return false;
+    return true;
+  });
+}
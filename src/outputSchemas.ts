@@ -0,0 +1,401 @@
+// Mobile Dev MCP - Output Schemas
+// JSON Schemas for tools that return structured content, published as each
+// tool's outputSchema. They describe the interfaces in types.ts; keep the two
+// in step.
+
+const DEVICE_INFO = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    status: { type: "string" },
+    type: { type: "string", enum: ["emulator", "device", "simulator"] },
+    name: { type: "string" },
+    runtime: { type: "string" },
+  },
+  required: ["id", "status", "type"],
+};
+
+const ELEMENT_REF = {
+  type: "object",
+  properties: {
+    text: { type: "string" },
+    contentDescription: { type: "string" },
+    resourceId: { type: "string" },
+    className: { type: "string" },
+    bounds: { type: "string" },
+    path: { type: "array", items: { type: "integer" } },
+  },
+  required: ["className", "bounds", "path"],
+};
+
+const SUGGESTED_ACTION = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["tap", "swipe", "input", "scroll", "back", "home"] },
+    description: { type: "string" },
+    target: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        resourceId: { type: "string" },
+        contentDescription: { type: "string" },
+        bounds: { type: "string" },
+      },
+    },
+    reasoning: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  },
+  required: ["action", "description", "reasoning"],
+};
+
+const LABELLED_ELEMENT = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    element: ELEMENT_REF,
+  },
+  required: ["label", "element"],
+};
+
+const STRING_LIST = { type: "array", items: { type: "string" } };
+
+const PACKAGE_SECTIONS = ["version", "install", "permissions", "components", "flags"];
+
+const SCREEN_TYPES = ["login", "list", "detail", "dialog", "error", "loading", "empty", "permission"];
+
+// DeviceList
+export const DEVICE_LIST_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    devices: { type: "array", items: DEVICE_INFO },
+    total: { type: "integer" },
+  },
+  required: ["devices", "total"],
+};
+
+// DeviceDetails
+export const DEVICE_DETAILS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    ...DEVICE_INFO.properties,
+    manufacturer: { type: "string" },
+    model: { type: "string" },
+    brand: { type: "string" },
+    product: { type: "string" },
+    androidVersion: { type: "string" },
+    apiLevel: { type: ["integer", "null"] },
+    securityPatch: { type: "string" },
+    buildFingerprint: { type: "string" },
+    abi: { type: "string" },
+    supportedAbis: { type: "array", items: { type: "string" } },
+    isEmulator: { type: "boolean" },
+    screen: {
+      type: "object",
+      properties: {
+        width: { type: "integer" },
+        height: { type: "integer" },
+        density: { type: ["integer", "null"] },
+      },
+      required: ["width", "height", "density"],
+    },
+    locale: { type: "string" },
+    timezone: { type: "string" },
+    battery: {
+      type: "object",
+      properties: {
+        level: { type: "integer", minimum: 0, maximum: 100 },
+        status: { type: "string", enum: ["unknown", "charging", "discharging", "not charging", "full"] },
+        plugged: { type: "string", enum: ["ac", "usb", "wireless", "dock", "none"] },
+        temperatureC: { type: "number" },
+      },
+      required: ["level", "status", "plugged"],
+    },
+    storage: {
+      type: "object",
+      properties: { totalBytes: { type: "integer" }, availableBytes: { type: "integer" } },
+      required: ["totalBytes", "availableBytes"],
+    },
+    memory: {
+      type: "object",
+      properties: { totalBytes: { type: "integer" }, availableBytes: { type: "integer" } },
+      required: ["totalBytes"],
+    },
+    playServicesVersion: { type: "string" },
+  },
+  required: [
+    ...DEVICE_INFO.required,
+    "manufacturer",
+    "model",
+    "brand",
+    "product",
+    "androidVersion",
+    "apiLevel",
+    "buildFingerprint",
+    "abi",
+    "supportedAbis",
+    "isEmulator",
+  ],
+};
+
+// SimulatorDetails
+export const SIMULATOR_DETAILS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    ...DEVICE_INFO.properties,
+    deviceType: { type: "string" },
+    isAvailable: { type: "boolean" },
+    dataPath: { type: "string" },
+    logPath: { type: "string" },
+  },
+  required: DEVICE_INFO.required,
+};
+
+// PackageInfo
+export const PACKAGE_INFO_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    packageName: { type: "string" },
+    sections: { type: "array", items: { type: "string", enum: PACKAGE_SECTIONS } },
+    versionName: { type: "string" },
+    versionCode: { type: "integer" },
+    minSdk: { type: "integer" },
+    targetSdk: { type: "integer" },
+    installerPackageName: { type: "string" },
+    firstInstallTime: { type: "string" },
+    lastUpdateTime: { type: "string" },
+    dataDir: { type: "string" },
+    codePath: { type: "string" },
+    requestedPermissions: STRING_LIST,
+    grantedPermissions: STRING_LIST,
+    deniedPermissions: STRING_LIST,
+    activities: STRING_LIST,
+    services: STRING_LIST,
+    receivers: STRING_LIST,
+    providers: STRING_LIST,
+    debuggable: { type: "boolean" },
+    flags: STRING_LIST,
+  },
+  required: ["packageName", "sections"],
+};
+
+const COUNTS = { type: "object", additionalProperties: { type: "integer" } };
+
+// PerformanceReport
+export const PERFORMANCE_REPORT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    packageName: { type: "string" },
+    pid: { type: "integer" },
+    cpu: {
+      type: "object",
+      properties: {
+        percent: { type: "number" },
+        userPercent: { type: "number" },
+        systemPercent: { type: "number" },
+        cores: { type: "integer" },
+        threads: { type: "integer" },
+        sampleMs: { type: "integer" },
+      },
+      required: ["percent", "userPercent", "systemPercent", "cores", "threads", "sampleMs"],
+    },
+    memory: {
+      type: "object",
+      properties: {
+        totalPssKb: { type: "integer" },
+        totalRssKb: { type: "integer" },
+        totalSwapPssKb: { type: "integer" },
+        summary: COUNTS,
+        categories: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              pssKb: { type: "integer" },
+              privateDirtyKb: { type: "integer" },
+              privateCleanKb: { type: "integer" },
+              swapPssKb: { type: "integer" },
+              rssKb: { type: "integer" },
+              heapSizeKb: { type: "integer" },
+              heapAllocKb: { type: "integer" },
+              heapFreeKb: { type: "integer" },
+            },
+            required: ["name", "pssKb"],
+          },
+        },
+        objects: COUNTS,
+      },
+      required: ["totalPssKb", "summary", "categories", "objects"],
+    },
+    frames: {
+      type: "object",
+      properties: {
+        totalFrames: { type: "integer" },
+        jankyFrames: { type: "integer" },
+        jankyPercent: { type: "number" },
+        percentiles: {
+          type: "object",
+          properties: {
+            p50: { type: "number" },
+            p90: { type: "number" },
+            p95: { type: "number" },
+            p99: { type: "number" },
+          },
+          required: ["p50", "p90", "p95", "p99"],
+        },
+        counters: COUNTS,
+      },
+      required: ["totalFrames", "jankyFrames", "jankyPercent", "percentiles", "counters"],
+    },
+  },
+  required: ["packageName", "pid"],
+};
+
+const METRIC_TREND = {
+  type: "object",
+  properties: {
+    samples: { type: "integer" },
+    min: { type: "number" },
+    max: { type: "number" },
+    mean: { type: "number" },
+    slopePerMinute: { type: "number" },
+    spikes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { timestamp: { type: "integer" }, value: { type: "number" } },
+        required: ["timestamp", "value"],
+      },
+    },
+  },
+  required: ["samples", "min", "max", "mean", "slopePerMinute", "spikes"],
+};
+
+// PerformanceTrend
+export const PERFORMANCE_TREND_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    packageName: { type: "string" },
+    pid: { type: "integer" },
+    sampleCount: { type: "integer" },
+    windowSeconds: { type: "integer" },
+    metrics: {
+      type: "object",
+      properties: {
+        pssMb: METRIC_TREND,
+        javaHeapMb: METRIC_TREND,
+        nativeHeapMb: METRIC_TREND,
+        cpuPercent: METRIC_TREND,
+        jankyPercent: METRIC_TREND,
+      },
+    },
+    samples: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          timestamp: { type: "integer" },
+          pid: { type: "integer" },
+          pssMb: { type: "number" },
+          javaHeapMb: { type: "number" },
+          nativeHeapMb: { type: "number" },
+          cpuPercent: { type: "number" },
+          framesRendered: { type: "integer" },
+          jankyPercent: { type: "number" },
+          activities: { type: "integer" },
+        },
+        required: ["timestamp", "pid"],
+      },
+    },
+    note: { type: "string" },
+  },
+  required: ["packageName", "pid", "sampleCount", "windowSeconds", "metrics", "samples"],
+};
+
+// ActionSuggestions
+export const ACTION_SUGGESTIONS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    snapshotId: { type: "string" },
+    goal: { type: "string" },
+    suggestions: { type: "array", items: SUGGESTED_ACTION },
+    message: { type: "string" },
+    clickableElementCount: { type: "integer" },
+    note: { type: "string" },
+  },
+  required: ["snapshotId", "goal", "suggestions", "clickableElementCount", "note"],
+};
+
+// ScreenAnalysis
+export const SCREEN_ANALYSIS_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    snapshotId: { type: "string" },
+    screenType: { type: "string", enum: [...SCREEN_TYPES, "unknown"] },
+    classifications: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: SCREEN_TYPES },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+          evidence: { type: "array", items: { type: "string" } },
+        },
+        required: ["type", "confidence", "evidence"],
+      },
+    },
+    screenDescription: { type: "string" },
+    keyboardVisible: { type: "boolean" },
+    formFields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string" },
+          labelSource: { type: "string", enum: ["contentDescription", "above", "left", "hint", "resourceId", "text"] },
+          kind: { type: "string", enum: ["text", "password", "toggle", "choice"] },
+          element: ELEMENT_REF,
+        },
+        required: ["label", "labelSource", "kind", "element"],
+      },
+    },
+    primaryAction: LABELLED_ELEMENT,
+    secondaryActions: { type: "array", items: LABELLED_ELEMENT },
+    suggestedActions: { type: "array", items: SUGGESTED_ACTION },
+    totalElements: { type: "integer" },
+    clickableElements: { type: "integer" },
+    textElements: { type: "integer" },
+    inputFields: { type: "integer" },
+    buttons: { type: "integer" },
+    visibleText: { type: "array", items: { type: "string" } },
+    interactiveElements: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          type: { type: "string" },
+          bounds: { type: "string" },
+        },
+        required: ["text", "type", "bounds"],
+      },
+    },
+  },
+  required: [
+    "snapshotId",
+    "screenType",
+    "classifications",
+    "screenDescription",
+    "keyboardVisible",
+    "formFields",
+    "secondaryActions",
+    "suggestedActions",
+    "totalElements",
+    "clickableElements",
+    "textElements",
+    "inputFields",
+    "buttons",
+    "visibleText",
+    "interactiveElements",
+  ],
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import { parsePackageDump } from "./packageInfo.js";
+
+// Fixture is in the `dumpsys package <name>` format of Android 14, with the dexopt and compiler sections trimmed
+const DUMP = fs.readFileSync(new URL("./__fixtures__/dumpsys-package.txt", import.meta.url), "utf-8");
+
+describe("parsePackageDump()", () => {
+  it("should parse every section by default", () => {
+    expect(parsePackageDump(DUMP, "com.example.shop")).toEqual({
+      packageName: "com.example.shop",
+      sections: ["version", "install", "permissions", "components", "flags"],
+      versionName: "2.3.1",
+      versionCode: 42,
+      minSdk: 24,
+      targetSdk: 34,
+      installerPackageName: "com.android.vending",
+      firstInstallTime: "2024-01-15 10:20:31",
+      lastUpdateTime: "2024-03-02 18:45:12",
+      dataDir: "/data/user/0/com.example.shop",
+      codePath: "/data/app/~~Xq2Lw9mB1nQe4rT7yU0iOg==/com.example.shop-Zk5Jh3gF6dS8aP1lM4nB7w==",
+      requestedPermissions: [
+        "android.permission.INTERNET",
+        "android.permission.ACCESS_NETWORK_STATE",
+        "android.permission.CAMERA",
+        "android.permission.POST_NOTIFICATIONS",
+        "android.permission.READ_EXTERNAL_STORAGE",
+        "android.permission.RECEIVE_BOOT_COMPLETED",
+      ],
+      grantedPermissions: ["android.permission.CAMERA"],
+      deniedPermissions: ["android.permission.POST_NOTIFICATIONS", "android.permission.READ_EXTERNAL_STORAGE"],
+      activities: ["com.example.shop.MainActivity", "com.example.shop.deeplink.DeepLinkActivity"],
+      services: ["com.example.shop.push.ShopMessagingService"],
+      receivers: ["com.google.firebase.iid.FirebaseInstanceIdReceiver", "com.example.shop.BootReceiver"],
+      providers: ["androidx.startup.InitializationProvider"],
+      debuggable: true,
+      flags: ["DEBUGGABLE", "HAS_CODE", "ALLOW_CLEAR_USER_DATA", "ALLOW_BACKUP"],
+    });
+  });
+
+  it("should keep only the requested sections", () => {
+    expect(parsePackageDump(DUMP, "com.example.shop", ["flags", "version"])).toEqual({
+      packageName: "com.example.shop",
+      sections: ["version", "flags"],
+      versionName: "2.3.1",
+      versionCode: 42,
+      minSdk: 24,
+      targetSdk: 34,
+      debuggable: true,
+      flags: ["DEBUGGABLE", "HAS_CODE", "ALLOW_CLEAR_USER_DATA", "ALLOW_BACKUP"],
+    });
+  });
+
+  it("should read older dumps with package-level install times and no runtime permissions", () => {
+    const info = parsePackageDump(
+      [
+        "Packages:",
+        "  Package [com.legacy] (1a2b3c):",
+        "    versionCode=7 targetSdk=22",
+        "    versionName=1.0",
+        "    firstInstallTime=2019-05-01 09:00:00",
+        "    installerPackageName=null",
+        "    pkgFlags=[ HAS_CODE ALLOW_BACKUP ]",
+        "    requested permissions:",
+        "      android.permission.INTERNET",
+      ].join("\n"),
+      "com.legacy"
+    );
+    expect(info).toMatchObject({
+      versionCode: 7,
+      targetSdk: 22,
+      firstInstallTime: "2019-05-01 09:00:00",
+      grantedPermissions: [],
+      debuggable: false,
+      activities: [],
+    });
+    expect(info.minSdk).toBeUndefined();
+    expect(info.installerPackageName).toBeUndefined();
+  });
+
+  it("should report packages missing from the dump", () => {
+    expect(() => parsePackageDump("Unable to find package: com.missing\n", "com.missing")).toThrow(
+      "Package 'com.missing' is not installed"
+    );
+  });
+});
@@ -0,0 +1,156 @@
+// Mobile Dev MCP - Package Info
+// Parses `dumpsys package <name>` into PackageInfo for get_app_info. The dump
+// starts with the intent resolver tables (where components show up) and
+// continues with the "Packages:" entry for the app itself.
+
+import { PackageInfo } from "./types.js";
+
+export type PackageSection = "version" | "install" | "permissions" | "components" | "flags";
+
+export const PACKAGE_SECTIONS: PackageSection[] = ["version", "install", "permissions", "components", "flags"];
+
+const COMPONENT_TABLES: Record<string, "activities" | "services" | "receivers" | "providers"> = {
+  "Activity Resolver Table:": "activities",
+  "Service Resolver Table:": "services",
+  "Receiver Resolver Table:": "receivers",
+  "Provider Resolver Table:": "providers",
+  "Registered ContentProviders:": "providers",
+};
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * The lines of the app's own "Package [name]" entry. Updated system apps
+ * have a second entry under "Hidden system packages:"; the first one is the
+ * active install.
+ */
+function packageBlock(lines: string[], packageName: string): string[] | undefined {
+  const start = lines.findIndex((line) => line.trim().startsWith(`Package [${packageName}]`));
+  if (start === -1) return undefined;
+  const indent = indentOf(lines[start]);
+  let end = start + 1;
+  while (end < lines.length && (lines[end].trim() === "" || indentOf(lines[end]) > indent)) {
+    end++;
+  }
+  return lines.slice(start + 1, end);
+}
+
+/** Indented entries under a header line such as "requested permissions:" */
+function listUnder(block: string[], header: string): string[] {
+  const start = block.findIndex((line) => line.trim() === header);
+  if (start === -1) return [];
+  const indent = indentOf(block[start]);
+  const items: string[] = [];
+  for (const line of block.slice(start + 1)) {
+    if (line.trim() === "") continue;
+    if (indentOf(line) <= indent) break;
+    items.push(line.trim());
+  }
+  return items;
+}
+
+function value(block: string[], key: string): string | undefined {
+  const pattern = new RegExp(`(?:^|\\s)${key}=(\\S+(?: \\d{2}:\\d{2}:\\d{2})?)`);
+  for (const line of block) {
+    const match = line.match(pattern);
+    if (match) return match[1] === "null" ? undefined : match[1];
+  }
+  return undefined;
+}
+
+function flagList(block: string[], key: string): string[] {
+  const line = block.find((l) => l.trim().startsWith(`${key}=[`));
+  return line?.match(/\[(.*)\]/)?.[1].trim().split(/\s+/).filter(Boolean) ?? [];
+}
+
+/**
+ * Components of the package found in the resolver tables. dumpsys only lists
+ * components that declare an intent filter (plus all content providers), so
+ * internal activities without one are missing.
+ */
+function components(lines: string[], packageName: string): Pick<PackageInfo, "activities" | "services" | "receivers" | "providers"> {
+  const found = { activities: new Set<string>(), services: new Set<string>(), receivers: new Set<string>(), providers: new Set<string>() };
+  const prefix = `${packageName}/`;
+  let table: keyof typeof found | undefined;
+
+  for (const line of lines) {
+    if (indentOf(line) === 0 && line.trim() !== "") {
+      table = COMPONENT_TABLES[line.trim()];
+      continue;
+    }
+    if (!table) continue;
+    // "3b3d1a9 com.example/.MainActivity filter 5a8c12e", "com.example/.Provider:"
+    // or "Provider{a1b2c3 com.example/.Provider}"
+    const name = line.trim().split(/\s+/).find((token) => token.startsWith(prefix))?.replace(/[:}]$/, "");
+    if (!name) continue;
+    const className = name.slice(prefix.length);
+    found[table].add(className.startsWith(".") ? packageName + className : className);
+  }
+
+  return {
+    activities: [...found.activities],
+    services: [...found.services],
+    receivers: [...found.receivers],
+    providers: [...found.providers],
+  };
+}
+
+/**
+ * Parse `dumpsys package` for one package, keeping only the requested sections
+ */
+export function parsePackageDump(
+  dump: string,
+  packageName: string,
+  sections: PackageSection[] = PACKAGE_SECTIONS
+): PackageInfo {
+  const lines = dump.replace(/\r\n/g, "\n").split("\n");
+  const block = packageBlock(lines, packageName);
+  if (!block) {
+    throw new Error(`Package '${packageName}' is not installed`);
+  }
+
+  const info: PackageInfo = { packageName, sections: PACKAGE_SECTIONS.filter((s) => sections.includes(s)) };
+  const number = (key: string) => {
+    const parsed = Number(value(block, key));
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+
+  if (sections.includes("version")) {
+    info.versionName = value(block, "versionName");
+    info.versionCode = number("versionCode");
+    info.minSdk = number("minSdk");
+    info.targetSdk = number("targetSdk");
+  }
+
+  if (sections.includes("install")) {
+    info.installerPackageName = value(block, "installerPackageName");
+    // Android 13+ prints firstInstallTime per user; it is the same value
+    info.firstInstallTime = value(block, "firstInstallTime");
+    info.lastUpdateTime = value(block, "lastUpdateTime");
+    info.dataDir = value(block, "dataDir");
+    info.codePath = value(block, "codePath");
+  }
+
+  if (sections.includes("permissions")) {
+    info.requestedPermissions = listUnder(block, "requested permissions:").map((p) => p.split(/[:,\s]/)[0]);
+    // Runtime permission state of the first user (usually user 0)
+    const runtime = listUnder(block, "runtime permissions:");
+    info.grantedPermissions = runtime.filter((p) => /granted=true/.test(p)).map((p) => p.split(":")[0]);
+    info.deniedPermissions = runtime.filter((p) => /granted=false/.test(p)).map((p) => p.split(":")[0]);
+  }
+
+  if (sections.includes("components")) {
+    Object.assign(info, components(lines, packageName));
+  }
+
+  if (sections.includes("flags")) {
+    // Older releases print only pkgFlags, newer ones both
+    const pkgFlags = flagList(block, "pkgFlags");
+    info.flags = pkgFlags.length > 0 ? pkgFlags : flagList(block, "flags");
+    info.debuggable = info.flags.includes("DEBUGGABLE");
+  }
+
+  return info;
+}
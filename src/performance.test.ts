@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import { parsePerformanceStats, computeCpuUsage, parseAppMeminfo, parseGfxinfo, performanceScript } from "./performance.js";
+
+// Fixture is performanceScript output for pid 4321 on an 8-core device, in the Android 14 dumpsys formats
+const STATS = fs.readFileSync(new URL("./__fixtures__/performance.txt", import.meta.url), "utf-8");
+
+describe("parsePerformanceStats()", () => {
+  const report = parsePerformanceStats(STATS, "com.example", 4321);
+
+  it("should compute per-core CPU use between the two samples", () => {
+    expect(report.cpu).toEqual({
+      percent: 42,
+      userPercent: 30,
+      systemPercent: 12,
+      cores: 8,
+      threads: 42,
+      sampleMs: 1000,
+    });
+  });
+
+  it("should parse the meminfo table, summary and objects", () => {
+    const memory = report.memory!;
+    expect(memory).toMatchObject({ totalPssKb: 71764, totalRssKb: 151896, totalSwapPssKb: 123 });
+    expect(memory.categories).toHaveLength(17);
+    expect(memory.categories[0]).toEqual({
+      name: "Native Heap",
+      pssKb: 20748,
+      privateDirtyKb: 20664,
+      privateCleanKb: 0,
+      swapPssKb: 23,
+      rssKb: 22348,
+      heapSizeKb: 31232,
+      heapAllocKb: 24523,
+      heapFreeKb: 2514,
+    });
+    expect(memory.categories[2]).toEqual({
+      name: "Dalvik Other",
+      pssKb: 1848,
+      privateDirtyKb: 1512,
+      privateCleanKb: 0,
+      swapPssKb: 1,
+      rssKb: 2616,
+    });
+    // "Unknown" only has an RSS value in the summary
+    expect(memory.summary).toEqual({
+      javaHeap: 10040,
+      nativeHeap: 20664,
+      code: 14064,
+      stack: 1084,
+      graphics: 16928,
+      privateOther: 2620,
+      system: 6344,
+    });
+    expect(memory.objects).toMatchObject({ views: 120, viewRootImpl: 1, activities: 1, appContexts: 5, webViews: 0 });
+  });
+
+  it("should parse frame stats", () => {
+    expect(report.frames).toEqual({
+      totalFrames: 1520,
+      jankyFrames: 87,
+      jankyPercent: 5.72,
+      percentiles: { p50: 8, p90: 14, p95: 19, p99: 42 },
+      counters: {
+        missedVsync: 12,
+        highInputLatency: 3,
+        slowUiThread: 40,
+        slowBitmapUploads: 1,
+        slowIssueDrawCommands: 15,
+        frameDeadlineMissed: 60,
+      },
+    });
+  });
+
+  it("should leave out sections that could not be read", () => {
+    const partial = parsePerformanceStats(
+      "@@mobile-dev-mcp:cpu-start\n@@mobile-dev-mcp:cpu-end\n@@mobile-dev-mcp:meminfo\nNo process found for: 4321\n" +
+        "@@mobile-dev-mcp:gfxinfo\nNo process found for: com.example\n",
+      "com.example",
+      4321
+    );
+    expect(partial).toEqual({ packageName: "com.example", pid: 4321, cpu: undefined, memory: undefined, frames: undefined });
+  });
+});
+
+describe("performance section parsers", () => {
+  it("should read process names with spaces and parentheses", () => {
+    const sample = (ticks: number, utime: number) =>
+      `cpu  ${ticks} 0 0 0 0 0 0 0 0 0\ncpu0 ${ticks} 0 0 0 0 0 0 0 0 0\n` +
+      `77 (odd (name) x) R 1 1 0 0 -1 0 0 0 0 0 ${utime} 0 0 0 20 0 3 0`;
+    expect(computeCpuUsage(sample(1000, 10), sample(1100, 60), 77)).toMatchObject({ percent: 50, cores: 1, threads: 3 });
+    expect(computeCpuUsage(sample(1000, 10), sample(1000, 10), 77)).toBeUndefined();
+  });
+
+  it("should read meminfo without an RSS column", () => {
+    const memory = parseAppMeminfo([
+      "** MEMINFO in pid 99 [com.legacy] **",
+      "                   Pss  Private  Private  SwapPss     Heap     Heap     Heap",
+      "                 Total    Dirty    Clean    Dirty     Size    Alloc     Free",
+      "                ------   ------   ------   ------   ------   ------   ------",
+      "  Native Heap     9000     8900        0        0    12000    10000     2000",
+      "        TOTAL    30000    20000     5000        0    20000    15000     5000",
+      "",
+      " App Summary",
+      "                       Pss(KB)",
+      "                        ------",
+      "           Java Heap:     4000",
+      "",
+      "                TOTAL:    30000       TOTAL SWAP PSS:        0",
+    ].join("\n"))!;
+    expect(memory.totalPssKb).toBe(30000);
+    expect(memory.totalRssKb).toBeUndefined();
+    expect(memory.categories[0]).toEqual({
+      name: "Native Heap",
+      pssKb: 9000,
+      privateDirtyKb: 8900,
+      privateCleanKb: 0,
+      swapPssKb: 0,
+      heapSizeKb: 12000,
+      heapAllocKb: 10000,
+      heapFreeKb: 2000,
+    });
+    expect(memory.summary).toEqual({ javaHeap: 4000 });
+  });
+
+  it("should report apps that have not rendered", () => {
+    expect(parseGfxinfo("No process found for: com.example")).toBeUndefined();
+    expect(parseGfxinfo("Total frames rendered: 0\nJanky frames: 0 (0.00%)")).toMatchObject({ totalFrames: 0, jankyPercent: 0 });
+  });
+
+  it("should sample CPU before the dumpsys calls", () => {
+    expect(performanceScript("com.example", 4321)).toBe(
+      "echo @@mobile-dev-mcp:cpu-start; cat /proc/stat /proc/4321/stat 2>/dev/null; " +
+        "echo @@mobile-dev-mcp:cpu-end; sleep 1; cat /proc/stat /proc/4321/stat 2>/dev/null; " +
+        "echo @@mobile-dev-mcp:meminfo; dumpsys meminfo 4321 2>/dev/null; " +
+        "echo @@mobile-dev-mcp:gfxinfo; dumpsys gfxinfo com.example 2>/dev/null"
+    );
+  });
+});
@@ -0,0 +1,227 @@
+// Mobile Dev MCP - App Performance Snapshot
+// get_performance_snapshot collects, in one `adb shell` call, two CPU samples
+// of /proc/stat and /proc/<pid>/stat a second apart, `dumpsys meminfo <pid>`
+// and `dumpsys gfxinfo <package>`, and parses them into PerformanceReport.
+
+import { PerformanceReport, CpuStats, AppMemory, MemoryCategory, FrameStats } from "./types.js";
+import { sectionScript, splitSections } from "./deviceInfo.js";
+
+/** Time between the two CPU samples */
+export const CPU_SAMPLE_SECONDS = 1;
+
+// Kernel clock ticks per second (USER_HZ is 100 on Android)
+const CLOCK_TICKS = 100;
+
+// meminfo table columns ("Pss" over "Total" and so on)
+const MEMINFO_COLUMNS: Record<string, keyof Omit<MemoryCategory, "name">> = {
+  "Pss Total": "pssKb",
+  "Private Dirty": "privateDirtyKb",
+  "Private Clean": "privateCleanKb",
+  "SwapPss Dirty": "swapPssKb",
+  "Rss Total": "rssKb",
+  "Heap Size": "heapSizeKb",
+  "Heap Alloc": "heapAllocKb",
+  "Heap Free": "heapFreeKb",
+};
+
+/**
+ * Shell script for `adb shell`. CPU is sampled before the dumpsys calls,
+ * which make the app itself do work.
+ */
+export function performanceScript(packageName: string, pid: number): string {
+  const cpu = `cat /proc/stat /proc/${pid}/stat`;
+  return sectionScript([
+    ["cpu-start", cpu],
+    ["cpu-end", `sleep ${CPU_SAMPLE_SECONDS}; ${cpu}`],
+    ["meminfo", `dumpsys meminfo ${pid}`],
+    ["gfxinfo", `dumpsys gfxinfo ${packageName}`],
+  ]);
+}
+
+/** "Java Heap" -> "javaHeap", "Slow UI thread" -> "slowUiThread" */
+function camelCase(label: string): string {
+  return label
+    .trim()
+    .split(/\s+/)
+    .map((word, i) => {
+      const normalized = word.length > 1 && word === word.toUpperCase() ? word.toLowerCase() : word;
+      return i === 0
+        ? normalized[0].toLowerCase() + normalized.slice(1)
+        : normalized[0].toUpperCase() + normalized.slice(1);
+    })
+    .join("");
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+interface CpuSample {
+  totalTicks: number;
+  cores: number;
+  userTicks: number;
+  systemTicks: number;
+  threads: number;
+}
+
+function parseCpuSample(output: string, pid: number): CpuSample | undefined {
+  const lines = output.split("\n");
+  const total = lines.find((line) => line.startsWith("cpu "));
+  const proc = lines.find((line) => line.startsWith(`${pid} (`));
+  if (!total || !proc) return undefined;
+
+  // user nice system idle iowait irq softirq steal (guest time is already in user)
+  const totalTicks = total.trim().split(/\s+/).slice(1, 9).map(Number).reduce((sum, n) => sum + n, 0);
+  // The process name may contain spaces and parentheses; fields resume after the last ")"
+  const fields = proc.slice(proc.lastIndexOf(")") + 2).split(/\s+/);
+  return {
+    totalTicks,
+    cores: lines.filter((line) => /^cpu\d+ /.test(line)).length || 1,
+    userTicks: Number(fields[11]),
+    systemTicks: Number(fields[12]),
+    threads: Number(fields[17]),
+  };
+}
+
+/**
+ * CPU use between two samples. Percentages are per core, like top: a
+ * process keeping two cores busy reports 200.
+ */
+export function computeCpuUsage(start: string, end: string, pid: number): CpuStats | undefined {
+  const a = parseCpuSample(start, pid);
+  const b = parseCpuSample(end, pid);
+  if (!a || !b || b.totalTicks <= a.totalTicks) return undefined;
+
+  // Elapsed ticks of a single core
+  const elapsed = (b.totalTicks - a.totalTicks) / b.cores;
+  const user = ((b.userTicks - a.userTicks) / elapsed) * 100;
+  const system = ((b.systemTicks - a.systemTicks) / elapsed) * 100;
+  return {
+    percent: round1(user + system),
+    userPercent: round1(user),
+    systemPercent: round1(system),
+    cores: b.cores,
+    threads: b.threads,
+    sampleMs: Math.round((elapsed / CLOCK_TICKS) * 1000),
+  };
+}
+
+/**
+ * Parse `dumpsys meminfo <pid>`: the per-category table, App Summary and
+ * Objects. Values are in KB.
+ */
+export function parseAppMeminfo(output: string): AppMemory | undefined {
+  const lines = output.replace(/\r\n/g, "\n").split("\n");
+  const start = lines.findIndex((line) => line.includes("** MEMINFO in pid"));
+  if (start === -1) return undefined;
+
+  // Two header rows, then a row of dashes
+  const [top, bottom] = lines.slice(start + 1, start + 3).map((line) => line.trim().split(/\s+/));
+  const columns = top.map((word, i) => MEMINFO_COLUMNS[`${word} ${bottom[i]}`]);
+
+  const categories: MemoryCategory[] = [];
+  let tablePss: number | undefined;
+  for (const line of lines.slice(start + 4)) {
+    const match = line.match(/^\s*(\S.*?)\s+(\d+(?:\s+\d+)*)\s*$/);
+    if (!match) break;
+    const values = match[2].split(/\s+/).map(Number);
+    if (match[1] === "TOTAL") {
+      tablePss = values[0];
+      break;
+    }
+    const category: MemoryCategory = { name: match[1], pssKb: values[0] };
+    values.forEach((value, i) => {
+      if (columns[i]) category[columns[i]] = value;
+    });
+    categories.push(category);
+  }
+
+  const text = lines.slice(start).join("\n");
+  const total = (label: string) => {
+    const match = text.match(new RegExp(`${label}:\\s+(\\d+)`));
+    return match ? Number(match[1]) : undefined;
+  };
+  const totalPssKb = total("TOTAL PSS") ?? total("TOTAL") ?? tablePss;
+  if (totalPssKb === undefined) return undefined;
+
+  return {
+    totalPssKb,
+    totalRssKb: total("TOTAL RSS"),
+    totalSwapPssKb: total("TOTAL SWAP PSS"),
+    summary: parseAppSummary(lines),
+    categories,
+    objects: parseObjects(lines),
+  };
+}
+
+/** App Summary PSS per kind; entries with only an RSS value are skipped */
+function parseAppSummary(lines: string[]): Record<string, number> {
+  const summary: Record<string, number> = {};
+  const start = lines.findIndex((line) => line.trim() === "App Summary");
+  if (start === -1) return summary;
+
+  const header = lines[start + 1] ?? "";
+  const rssColumn = header.includes("Rss(KB)") ? header.indexOf("Rss(KB)") : Infinity;
+  for (const line of lines.slice(start + 3)) {
+    if (line.trim() === "" || /^\s*TOTAL/.test(line)) continue;
+    const match = line.match(/^\s*([A-Za-z][A-Za-z ]*):(\s+)(\d+)/);
+    if (!match) break;
+    const end = match[0].length;
+    if (end <= rssColumn) summary[camelCase(match[1])] = Number(match[3]);
+  }
+  return summary;
+}
+
+/** Live object counts: views, activities, app contexts, binders... */
+function parseObjects(lines: string[]): Record<string, number> {
+  const objects: Record<string, number> = {};
+  const start = lines.findIndex((line) => line.trim() === "Objects");
+  if (start === -1) return objects;
+
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() === "") break;
+    for (const match of line.matchAll(/([A-Za-z][A-Za-z ]*?):\s+(\d+)/g)) {
+      objects[camelCase(match[1])] = Number(match[2]);
+    }
+  }
+  return objects;
+}
+
+/**
+ * Parse `dumpsys gfxinfo <package>`. Counts cover the process lifetime (or
+ * the last `gfxinfo reset`).
+ */
+export function parseGfxinfo(output: string): FrameStats | undefined {
+  const totalFrames = output.match(/^Total frames rendered: (\d+)/m);
+  if (!totalFrames) return undefined;
+
+  const janky = output.match(/^Janky frames: (\d+) \(([\d.]+)%\)/m);
+  const percentile = (n: number) => Number(output.match(new RegExp(`^${n}th percentile: (\\d+)ms`, "m"))?.[1] ?? 0);
+  const counters: Record<string, number> = {};
+  for (const match of output.matchAll(/^Number ([A-Za-z ]+): (\d+)/gm)) {
+    counters[camelCase(match[1])] = Number(match[2]);
+  }
+
+  return {
+    totalFrames: Number(totalFrames[1]),
+    jankyFrames: Number(janky?.[1] ?? 0),
+    jankyPercent: Number(janky?.[2] ?? 0),
+    percentiles: { p50: percentile(50), p90: percentile(90), p95: percentile(95), p99: percentile(99) },
+    counters,
+  };
+}
+
+/**
+ * Build the report from performanceScript output. A section that could not
+ * be read is left out.
+ */
+export function parsePerformanceStats(output: string, packageName: string, pid: number): PerformanceReport {
+  const sections = splitSections(output);
+  return {
+    packageName,
+    pid,
+    cpu: computeCpuUsage(sections["cpu-start"] ?? "", sections["cpu-end"] ?? "", pid),
+    memory: parseAppMeminfo(sections.meminfo ?? ""),
+    frames: parseGfxinfo(sections.gfxinfo ?? ""),
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  recordPerformanceSample,
+  summarizePerformanceSeries,
+  summarizeMetric,
+  clearPerformanceSeries,
+} from "./performanceTrend.js";
+import { PerformanceReport } from "./types.js";
+
+const T0 = Date.UTC(2026, 0, 15, 10, 0, 0);
+
+function report(pid: number, pssMb: number, frames?: { total: number; janky: number }, cpu = 10): PerformanceReport {
+  return {
+    packageName: "com.example",
+    pid,
+    cpu: { percent: cpu, userPercent: cpu, systemPercent: 0, cores: 8, threads: 40, sampleMs: 1000 },
+    memory: {
+      totalPssKb: pssMb * 1024,
+      summary: { javaHeap: 8 * 1024, nativeHeap: 16 * 1024 },
+      categories: [],
+      objects: { activities: 1 },
+    },
+    frames: frames && {
+      totalFrames: frames.total,
+      jankyFrames: frames.janky,
+      jankyPercent: 0,
+      percentiles: { p50: 8, p90: 14, p95: 19, p99: 42 },
+      counters: {},
+    },
+  };
+}
+
+afterEach(() => {
+  clearPerformanceSeries();
+});
+
+describe("summarizeMetric()", () => {
+  it("should report growth per minute from a least-squares fit", () => {
+    // +1MB every 30 seconds
+    const points = [0, 1, 2, 3, 4].map((i) => ({ timestamp: T0 + i * 30000, value: 100 + i }));
+    expect(summarizeMetric(points, 10)).toEqual({ samples: 5, min: 100, max: 104, mean: 102, slopePerMinute: 2, spikes: [] });
+  });
+
+  it("should flag values far above the median", () => {
+    const values = [20, 22, 21, 95, 20, 23];
+    const points = values.map((value, i) => ({ timestamp: T0 + i * 5000, value }));
+    expect(summarizeMetric(points, 20).spikes).toEqual([{ timestamp: T0 + 15000, value: 95 }]);
+    // Below the minimum delta, jitter is not a spike
+    expect(summarizeMetric(points.map((p, i) => ({ ...p, value: i === 3 ? 35 : p.value })), 20).spikes).toEqual([]);
+  });
+
+  it("should need a few samples before reporting spikes", () => {
+    const points = [10, 90, 10].map((value, i) => ({ timestamp: T0 + i * 5000, value }));
+    expect(summarizeMetric(points, 20).spikes).toEqual([]);
+    expect(summarizeMetric(points.slice(0, 1), 20).slopePerMinute).toBe(0);
+  });
+});
+
+describe("recordPerformanceSample()", () => {
+  it("should keep a series per device and summarize it", () => {
+    recordPerformanceSample("emulator-5554", report(4321, 100, { total: 1000, janky: 50 }), 10, { timestamp: T0 });
+    recordPerformanceSample("emulator-5554", report(4321, 103, { total: 1100, janky: 70 }), 10, { timestamp: T0 + 60000 });
+    recordPerformanceSample("emulator-5556", report(999, 50), 10, { timestamp: T0 });
+
+    const trend = summarizePerformanceSeries("emulator-5554", "com.example")!;
+    expect(trend).toMatchObject({ packageName: "com.example", pid: 4321, sampleCount: 2, windowSeconds: 60 });
+    expect(trend.metrics.pssMb).toMatchObject({ min: 100, max: 103, slopePerMinute: 3 });
+    // Frame stats are per interval, so the first sample has none
+    expect(trend.samples.map((s) => s.jankyPercent)).toEqual([undefined, 20]);
+    expect(trend.metrics.jankyPercent).toMatchObject({ samples: 1, mean: 20 });
+    expect(summarizePerformanceSeries("emulator-5556", "com.example")!.sampleCount).toBe(1);
+  });
+
+  it("should drop the oldest samples past the cap", () => {
+    for (let i = 0; i < 5; i++) {
+      recordPerformanceSample(undefined, report(4321, 100 + i), 3, { timestamp: T0 + i * 1000 });
+    }
+    expect(summarizePerformanceSeries(undefined, "com.example")!.samples.map((s) => s.pssMb)).toEqual([102, 103, 104]);
+  });
+
+  it("should start over after a restart or reset", () => {
+    recordPerformanceSample(undefined, report(4321, 100), 10, { timestamp: T0 });
+    expect(recordPerformanceSample(undefined, report(5000, 60), 10, { timestamp: T0 + 1000 })).toEqual({ restarted: true });
+    expect(summarizePerformanceSeries(undefined, "com.example")).toMatchObject({ pid: 5000, sampleCount: 1 });
+
+    recordPerformanceSample(undefined, report(5000, 61), 10, { timestamp: T0 + 2000 });
+    recordPerformanceSample(undefined, report(5000, 62), 10, { timestamp: T0 + 3000, reset: true });
+    expect(summarizePerformanceSeries(undefined, "com.example")!.samples.map((s) => s.pssMb)).toEqual([62]);
+  });
+});
@@ -0,0 +1,176 @@
+// Mobile Dev MCP - Performance Trends
+// get_performance_trend polls performance snapshots for a package and keeps
+// the series in memory per device and package, so several calls can build up
+// a longer series. Memory growth shows up as a positive slope; sudden jumps
+// are reported as spikes.
+
+import { PerformanceReport, PerformanceSample, MetricTrend, PerformanceTrend } from "./types.js";
+
+export const TREND_METRICS = ["pssMb", "javaHeapMb", "nativeHeapMb", "cpuPercent", "jankyPercent"] as const;
+
+export type TrendMetric = (typeof TREND_METRICS)[number];
+
+export const DEFAULT_SAMPLING_SECONDS = 20;
+export const DEFAULT_SAMPLE_INTERVAL_SECONDS = 5;
+export const MIN_SAMPLE_INTERVAL_SECONDS = 1;
+
+// A spike must also clear this much above the median, so steady series with
+// tiny jitter do not report one
+const MIN_SPIKE_DELTA: Record<TrendMetric, number> = {
+  pssMb: 10,
+  javaHeapMb: 5,
+  nativeHeapMb: 5,
+  cpuPercent: 20,
+  jankyPercent: 10,
+};
+
+// Median absolute deviations above the median that count as a spike
+const SPIKE_MADS = 3;
+
+// Spike detection needs a baseline
+const MIN_SPIKE_SAMPLES = 4;
+
+interface Series {
+  packageName: string;
+  pid: number;
+  samples: PerformanceSample[];
+  /** Cumulative gfxinfo counters at the last sample */
+  frames?: { total: number; janky: number };
+}
+
+const series = new Map<string, Series>();
+
+function seriesKey(device: string | undefined, packageName: string): string {
+  return `${device ?? ""}/${packageName}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Add a snapshot to the series for this device and package. The series starts
+ * over when the app was restarted (new pid) or `reset` is set, and keeps at
+ * most `maxSamples` samples (oldest dropped).
+ *
+ * @returns whether the series started over because the pid changed
+ */
+export function recordPerformanceSample(
+  device: string | undefined,
+  report: PerformanceReport,
+  maxSamples: number,
+  options: { reset?: boolean; timestamp?: number } = {}
+): { restarted: boolean } {
+  const key = seriesKey(device, report.packageName);
+  let current = series.get(key);
+  const restarted = !!current && current.pid !== report.pid;
+  if (!current || restarted || options.reset) {
+    current = { packageName: report.packageName, pid: report.pid, samples: [] };
+    series.set(key, current);
+  }
+
+  const sample: PerformanceSample = { timestamp: options.timestamp ?? Date.now(), pid: report.pid };
+  if (report.memory) {
+    sample.pssMb = round2(report.memory.totalPssKb / 1024);
+    if (report.memory.summary.javaHeap !== undefined) sample.javaHeapMb = round2(report.memory.summary.javaHeap / 1024);
+    if (report.memory.summary.nativeHeap !== undefined) sample.nativeHeapMb = round2(report.memory.summary.nativeHeap / 1024);
+    sample.activities = report.memory.objects.activities;
+  }
+  if (report.cpu) {
+    sample.cpuPercent = report.cpu.percent;
+  }
+  if (report.frames) {
+    // gfxinfo counts are cumulative; a sample covers the frames since the last one
+    const previous = current.frames;
+    if (previous && report.frames.totalFrames >= previous.total) {
+      sample.framesRendered = report.frames.totalFrames - previous.total;
+      if (sample.framesRendered > 0) {
+        sample.jankyPercent = round2(((report.frames.jankyFrames - previous.janky) / sample.framesRendered) * 100);
+      }
+    }
+    current.frames = { total: report.frames.totalFrames, janky: report.frames.jankyFrames };
+  }
+
+  current.samples.push(sample);
+  if (current.samples.length > maxSamples) {
+    current.samples.splice(0, current.samples.length - maxSamples);
+  }
+  return { restarted };
+}
+
+/** Forget all series (for tests) */
+export function clearPerformanceSeries(): void {
+  series.clear();
+}
+
+/**
+ * Min/max/mean, least-squares slope per minute and spikes for one metric.
+ * A spike is a value more than SPIKE_MADS median absolute deviations (and
+ * at least minSpikeDelta) above the median.
+ */
+export function summarizeMetric(points: Array<{ timestamp: number; value: number }>, minSpikeDelta: number): MetricTrend {
+  const values = points.map((p) => p.value);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const t0 = points[0].timestamp;
+  const minutes = points.map((p) => (p.timestamp - t0) / 60000);
+  const meanT = minutes.reduce((sum, t) => sum + t, 0) / minutes.length;
+  let covariance = 0;
+  let variance = 0;
+  minutes.forEach((t, i) => {
+    covariance += (t - meanT) * (values[i] - mean);
+    variance += (t - meanT) ** 2;
+  });
+
+  let spikes: MetricTrend["spikes"] = [];
+  if (points.length >= MIN_SPIKE_SAMPLES) {
+    const mid = median(values);
+    // 1.4826 scales the MAD to a standard deviation for normal data
+    const mad = median(values.map((v) => Math.abs(v - mid))) * 1.4826;
+    const threshold = mid + Math.max(SPIKE_MADS * mad, minSpikeDelta);
+    spikes = points.filter((p) => p.value > threshold).map((p) => ({ timestamp: p.timestamp, value: p.value }));
+  }
+
+  return {
+    samples: points.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: round2(mean),
+    slopePerMinute: variance > 0 ? round2(covariance / variance) : 0,
+    spikes,
+  };
+}
+
+/**
+ * Summarize the stored series for a device and package
+ */
+export function summarizePerformanceSeries(device: string | undefined, packageName: string): PerformanceTrend | undefined {
+  const current = series.get(seriesKey(device, packageName));
+  if (!current || current.samples.length === 0) return undefined;
+
+  const metrics: PerformanceTrend["metrics"] = {};
+  for (const metric of TREND_METRICS) {
+    const points = current.samples
+      .filter((s) => s[metric] !== undefined)
+      .map((s) => ({ timestamp: s.timestamp, value: s[metric]! }));
+    if (points.length > 0) {
+      metrics[metric] = summarizeMetric(points, MIN_SPIKE_DELTA[metric]);
+    }
+  }
+
+  const samples = current.samples;
+  return {
+    packageName,
+    pid: current.pid,
+    sampleCount: samples.length,
+    windowSeconds: Math.round((samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000),
+    metrics,
+    samples: [...samples],
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import * as zlib from "zlib";
+import { crc32, createImage, decodePng, encodePng, readPngSize } from "./png.js";
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Hand-built PNG from unfiltered scanlines
+ */
+function buildPng(width: number, height: number, bitDepth: number, colorType: number, rows: number[][], extra: Buffer[] = []): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+  const raw = Buffer.concat(rows.map((row) => Buffer.from([0, ...row])));
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk("IHDR", ihdr),
+    ...extra,
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("crc32()", () => {
+  it("should match the standard check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("encodePng() / decodePng()", () => {
+  it("should round-trip RGBA pixels", () => {
+    const image = createImage(5, 4);
+    for (let i = 0; i < image.data.length; i++) {
+      image.data[i] = (i * 37) % 256;
+    }
+
+    const png = encodePng(image);
+    expect(readPngSize(png)).toEqual({ width: 5, height: 4 });
+    expect(decodePng(png)).toEqual(image);
+  });
+
+  it("should decode palette images with transparency", () => {
+    const plte = chunk("PLTE", Buffer.from([255, 0, 0, 0, 0, 255]));
+    const trns = chunk("tRNS", Buffer.from([128]));
+    // 2-bit indices: 0, 1, 1, 0
+    const png = buildPng(4, 1, 2, 3, [[0b00010100]], [plte, trns]);
+
+    expect(Array.from(decodePng(png).data)).toEqual([
+      255, 0, 0, 128,
+      0, 0, 255, 255,
+      0, 0, 255, 255,
+      255, 0, 0, 128,
+    ]);
+  });
+
+  it("should scale low bit-depth grayscale to 8 bits", () => {
+    // 1-bit: black, white
+    const png = buildPng(2, 1, 1, 0, [[0b01000000]]);
+    expect(Array.from(decodePng(png).data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it("should keep the high byte of 16-bit samples", () => {
+    const png = buildPng(1, 1, 16, 2, [[0x12, 0x34, 0xab, 0xcd, 0xff, 0x00]]);
+    expect(Array.from(decodePng(png).data)).toEqual([0x12, 0xab, 0xff, 255]);
+  });
+
+  it("should reject non-PNG and truncated data", () => {
+    expect(() => decodePng(Buffer.from("not a png at all, just some text"))).toThrow("Not a PNG");
+
+    const png = buildPng(2, 2, 8, 0, [[1, 2], [3, 4]]);
+    const ihdr = png.subarray(0, 33);
+    expect(() => decodePng(ihdr)).toThrow("no image data");
+  });
+
+  it("should reject images over the pixel limit", () => {
+    expect(() => createImage(100000, 100000)).toThrow("maximum size");
+  });
+});
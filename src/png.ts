@@ -0,0 +1,318 @@
+// Mobile Dev MCP - PNG Codec
+// Pure TypeScript PNG decoding and encoding on top of Node's zlib, so image
+// processing works without native dependencies. Decodes every non-interlaced
+// color type and bit depth to 8-bit RGBA; encodes 8-bit RGBA.
+
+import * as zlib from "zlib";
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes, row-major RGBA */
+  data: Uint8Array;
+}
+
+// Security: bound memory use for decoded images (~128MB of RGBA)
+export const MAX_IMAGE_PIXELS = 32 * 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Channels per color type: gray, -, RGB, palette, gray+alpha, -, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+export function createImage(width: number, height: number): RgbaImage {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid image size ${width}x${height}`);
+  }
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new Error(`Image exceeds maximum size (${MAX_IMAGE_PIXELS} pixels)`);
+  }
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+function readHeader(buffer: Buffer): PngHeader {
+  if (buffer.length < 33 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG image");
+  }
+  if (buffer.toString("ascii", 12, 16) !== "IHDR") {
+    throw new Error("Invalid PNG: missing IHDR chunk");
+  }
+  return {
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    bitDepth: buffer[24],
+    colorType: buffer[25],
+    interlace: buffer[28],
+  };
+}
+
+/**
+ * Image dimensions from the PNG header, without decoding pixels
+ */
+export function readPngSize(buffer: Buffer): { width: number; height: number } {
+  const { width, height } = readHeader(buffer);
+  return { width, height };
+}
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  const header = readHeader(buffer);
+  const { width, height, bitDepth, colorType } = header;
+
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+  }
+  if (header.interlace !== 0) {
+    throw new Error("Interlaced PNGs are not supported");
+  }
+
+  const image = createImage(width, height);
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let pos = 8;
+  while (pos + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("ascii", pos + 4, pos + 8);
+    const data = buffer.subarray(pos + 8, pos + 8 + length);
+    if (data.length !== length) throw new Error(`Invalid PNG: truncated ${type} chunk`);
+
+    if (type === "PLTE") palette = data;
+    else if (type === "tRNS") transparency = data;
+    else if (type === "IDAT") idat.push(data);
+    else if (type === "IEND") break;
+
+    pos += 12 + length;
+  }
+
+  if (idat.length === 0) throw new Error("Invalid PNG: no image data");
+  if (colorType === 3 && !palette) throw new Error("Invalid PNG: missing palette");
+
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const expected = height * (rowBytes + 1);
+
+  let raw: Buffer;
+  try {
+    raw = zlib.inflateSync(Buffer.concat(idat), { maxOutputLength: expected });
+  } catch (error: any) {
+    throw new Error(`Invalid PNG image data: ${error.message}`);
+  }
+  if (raw.length < expected) throw new Error("Invalid PNG: image data is truncated");
+
+  // Undo the per-row filters in place
+  let previous: Uint8Array = new Uint8Array(rowBytes);
+  const rows: Uint8Array[] = [];
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowBytes + 1)];
+    const row = raw.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1));
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: row[i] = (row[i] + left) & 0xff; break;
+        case 2: row[i] = (row[i] + up) & 0xff; break;
+        case 3: row[i] = (row[i] + ((left + up) >> 1)) & 0xff; break;
+        case 4: row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff; break;
+        default: throw new Error(`Invalid PNG: unknown filter type ${filter}`);
+      }
+    }
+
+    rows.push(row);
+    previous = row;
+  }
+
+  // Expand samples to 8-bit RGBA
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return row[index * 2];
+    const bitOffset = index * bitDepth;
+    const value = (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxSample;
+    // Palette indices stay as-is; gray levels are scaled to 0-255
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+  const rawSample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+    if (bitDepth === 8) return row[index];
+    const bitOffset = index * bitDepth;
+    return (row[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & maxSample;
+  };
+
+  // tRNS for gray/RGB names one fully transparent color (in raw sample units)
+  const transparentGray = transparency && colorType === 0 ? transparency.readUInt16BE(0) : -1;
+  const transparentRgb = transparency && colorType === 2
+    ? [transparency.readUInt16BE(0), transparency.readUInt16BE(2), transparency.readUInt16BE(4)]
+    : null;
+
+  const out = image.data;
+  for (let y = 0; y < height; y++) {
+    const row = rows[y];
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      switch (colorType) {
+        case 0: {
+          const gray = sample(row, s);
+          out[o] = out[o + 1] = out[o + 2] = gray;
+          out[o + 3] = rawSample(row, s) === transparentGray ? 0 : 255;
+          break;
+        }
+        case 2:
+          out[o] = sample(row, s);
+          out[o + 1] = sample(row, s + 1);
+          out[o + 2] = sample(row, s + 2);
+          out[o + 3] = transparentRgb &&
+            rawSample(row, s) === transparentRgb[0] &&
+            rawSample(row, s + 1) === transparentRgb[1] &&
+            rawSample(row, s + 2) === transparentRgb[2] ? 0 : 255;
+          break;
+        case 3: {
+          const index = sample(row, s);
+          if (index * 3 + 2 >= palette!.length) throw new Error("Invalid PNG: palette index out of range");
+          out[o] = palette![index * 3];
+          out[o + 1] = palette![index * 3 + 1];
+          out[o + 2] = palette![index * 3 + 2];
+          out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4:
+          out[o] = out[o + 1] = out[o + 2] = sample(row, s);
+          out[o + 3] = sample(row, s + 1);
+          break;
+        case 6:
+          out[o] = sample(row, s);
+          out[o + 1] = sample(row, s + 1);
+          out[o + 2] = sample(row, s + 2);
+          out[o + 3] = sample(row, s + 3);
+          break;
+      }
+    }
+  }
+
+  return image;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(data, crc32(header.subarray(4))), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode 8-bit RGBA. Each row uses the filter with the smallest sum of
+ * absolute residuals (the heuristic recommended by the PNG spec).
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const rowBytes = width * 4;
+  const filtered = Buffer.alloc(height * (rowBytes + 1));
+  const candidate = new Uint8Array(rowBytes);
+  const best = new Uint8Array(rowBytes);
+
+  for (let y = 0; y < height; y++) {
+    const row = data.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const above = y > 0 ? data.subarray((y - 1) * rowBytes, y * rowBytes) : null;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= 4 ? row[i - 4] : 0;
+        const up = above ? above[i] : 0;
+        const upLeft = above && i >= 4 ? above[i - 4] : 0;
+        let value: number;
+        switch (filter) {
+          case 0: value = row[i]; break;
+          case 1: value = row[i] - left; break;
+          case 2: value = row[i] - up; break;
+          case 3: value = row[i] - ((left + up) >> 1); break;
+          default: value = row[i] - paeth(left, up, upLeft); break;
+        }
+        value &= 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+        if (score >= bestScore) break;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best.set(candidate);
+      }
+    }
+
+    const offset = y * (rowBytes + 1);
+    filtered[offset] = bestFilter;
+    filtered.set(best, offset + 1);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;   // bit depth
+  ihdr[9] = 6;   // RGBA
+  ihdr[10] = 0;  // deflate
+  ihdr[11] = 0;  // adaptive filtering
+  ihdr[12] = 0;  // no interlace
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", ihdr),
+    chunk("IDAT", zlib.deflateSync(filtered)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { frameTimestamps, newRecordingPath, pruneRecordings } from "./recording.js";
+
+describe("frameTimestamps()", () => {
+  it("should sample the middle of equal slices", () => {
+    expect(frameTimestamps(6, 3)).toEqual([1, 3, 5]);
+    expect(frameTimestamps(5, 1)).toEqual([2.5]);
+  });
+});
+
+describe("recording storage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "recordings-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create unique paths in the directory", () => {
+    const nested = path.join(dir, "nested");
+    const first = newRecordingPath(nested);
+    expect(path.dirname(first)).toBe(nested);
+    expect(first).toMatch(/recording-.*\.mp4$/);
+    expect(newRecordingPath(nested)).not.toBe(first);
+  });
+
+  it("should delete the oldest recordings beyond the limit", () => {
+    const files = ["recording-a.mp4", "recording-b.mp4", "recording-c.mp4"].map((name, i) => {
+      const file = path.join(dir, name);
+      fs.writeFileSync(file, "x");
+      fs.utimesSync(file, 1000 + i, 1000 + i);
+      return file;
+    });
+    fs.writeFileSync(path.join(dir, "notes.txt"), "keep");
+
+    expect(pruneRecordings(dir, 2)).toEqual([files[0]]);
+    expect(fs.readdirSync(dir).sort()).toEqual(["notes.txt", "recording-b.mp4", "recording-c.mp4"]);
+  });
+});
@@ -0,0 +1,85 @@
+// Mobile Dev MCP - Screen Recordings
+// Recordings are kept under ~/.mobile-dev-mcp/recordings (newest few only);
+// key frames are pulled out of them with ffmpeg.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runCommand, CommandError } from "./utils.js";
+
+export const RECORDING_DIR = path.join(os.homedir(), ".mobile-dev-mcp", "recordings");
+
+// Older recordings are deleted once there are more than this many
+export const MAX_RECORDINGS = 10;
+
+export const DEFAULT_RECORDING_SECONDS = 5;
+export const DEFAULT_FRAME_COUNT = 3;
+
+export const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+
+// No new frames are extracted this long after a recording call starts, so the
+// call answers within the 60 s default MCP request timeout
+export const RECORDING_CALL_BUDGET_MS = 50000;
+
+const FRAME_TIMEOUT_MS = 30000;
+
+/**
+ * Reserve a new, unique MP4 path in the recordings directory
+ */
+export function newRecordingPath(dir: string = RECORDING_DIR): string {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join(dir, `recording-${stamp}-${crypto.randomBytes(4).toString("hex")}.mp4`);
+}
+
+/**
+ * Delete the oldest recordings so at most `keep` remain
+ */
+export function pruneRecordings(dir: string = RECORDING_DIR, keep: number = MAX_RECORDINGS): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const recordings = fs.readdirSync(dir)
+    .filter((file) => file.startsWith("recording-") && file.endsWith(".mp4"))
+    .map((file) => ({ file: path.join(dir, file), mtime: fs.statSync(path.join(dir, file)).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime || b.file.localeCompare(a.file));
+
+  const removed = recordings.slice(keep).map((r) => r.file);
+  for (const file of removed) {
+    fs.rmSync(file, { force: true });
+  }
+  return removed;
+}
+
+/**
+ * Evenly spaced sample times, each in the middle of its slice of the
+ * recording so the first and last frames avoid start-up and shutdown
+ */
+export function frameTimestamps(durationSeconds: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.round(((i + 0.5) * durationSeconds / count) * 1000) / 1000);
+}
+
+/**
+ * Decode a single frame at `seconds` into the video as a PNG
+ */
+export async function extractFrame(videoPath: string, seconds: number, timeoutMs: number = FRAME_TIMEOUT_MS): Promise<Buffer> {
+  try {
+    const { stdout } = await runCommand(
+      FFMPEG,
+      ["-v", "error", "-ss", String(seconds), "-i", videoPath, "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "-"],
+      { encoding: "buffer", maxBuffer: 50 * 1024 * 1024, timeout: Math.min(timeoutMs, FRAME_TIMEOUT_MS) }
+    );
+    if (stdout.length === 0) {
+      throw new Error(`No frame at ${seconds}s`);
+    }
+    return stdout;
+  } catch (error: any) {
+    // Spawn failures carry no result
+    if (error instanceof CommandError && !error.result && error.message.includes("ENOENT")) {
+      throw new Error(`ffmpeg is required to extract frames (set FFMPEG_PATH). The recording is saved at ${videoPath}`);
+    }
+    throw error;
+  }
+}
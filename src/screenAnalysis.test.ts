@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import { parseUiHierarchy } from "./uiTree.js";
+import { analyzeScreenStructure, describeScreen } from "./screenAnalysis.js";
+
+// Fixtures are `uiautomator dump` output for 1080x2400 screens
+const analyze = (fixture: string, context = {}) =>
+  analyzeScreenStructure(
+    parseUiHierarchy(fs.readFileSync(new URL(`./__fixtures__/${fixture}.xml`, import.meta.url), "utf-8")),
+    context
+  );
+
+describe("analyzeScreenStructure()", () => {
+  it.each([
+    ["login", "login"],
+    ["list", "list"],
+    ["detail", "detail"],
+    ["dialog", "dialog"],
+    ["error", "error"],
+    ["loading", "loading"],
+    ["empty", "empty"],
+    ["permission", "permission"],
+  ])("should classify the %s fixture as %s", (fixture, type) => {
+    const structure = analyze(fixture);
+    expect(structure.screenType).toBe(type);
+    expect(structure.classifications[0].evidence.length).toBeGreaterThan(0);
+  });
+
+  it("should pair login fields with their labels and find the primary action", () => {
+    const structure = analyze("login");
+
+    expect(structure.formFields.map((f) => [f.kind, f.label, f.labelSource])).toEqual([
+      ["text", "Email", "above"],
+      ["password", "Password", "above"],
+      ["toggle", "Remember me", "text"],
+    ]);
+    expect(structure.formFields[0].labelElement?.resourceId).toBe("com.example.shop:id/email_label");
+    expect(structure.primaryAction?.label).toBe("Sign in");
+    expect(structure.secondaryActions.map((a) => a.label)).toEqual(["Forgot password?", "Create account"]);
+  });
+
+  it("should rank the positive dialog button as primary", () => {
+    const structure = analyze("dialog");
+    expect(structure.primaryAction?.element.resourceId).toBe("android:id/button1");
+    expect(structure.secondaryActions.map((a) => a.label)).toEqual(["CANCEL"]);
+  });
+
+  it("should not treat list rows as actions", () => {
+    const structure = analyze("list");
+    expect(structure.primaryAction?.label).toBe("Compose");
+    expect(structure.secondaryActions.map((a) => a.label)).toEqual(["Search"]);
+  });
+
+  it("should report unknown without enough evidence", () => {
+    const structure = analyzeScreenStructure(parseUiHierarchy(
+      '<hierarchy rotation="0"><node class="android.widget.FrameLayout" bounds="[0,0][1080,2400]" /></hierarchy>'
+    ));
+    expect(structure.screenType).toBe("unknown");
+    expect(structure.classifications).toEqual([]);
+    expect(structure.primaryAction).toBeUndefined();
+  });
+
+  it("should take keyboard visibility from the caller when known", () => {
+    expect(analyze("login").keyboardVisible).toBe(false);
+    expect(analyze("login", { keyboardVisible: true }).keyboardVisible).toBe(true);
+  });
+
+  it("should describe the screen in one line", () => {
+    expect(describeScreen(analyze("login"))).toBe(
+      'Login screen with 3 form fields (Email, Password, Remember me); primary action "Sign in"'
+    );
+    expect(describeScreen(analyze("loading", { keyboardVisible: true }))).toBe("Loading screen; keyboard open");
+  });
+});
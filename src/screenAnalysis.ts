@@ -0,0 +1,402 @@
+// Mobile Dev MCP - Screen Understanding
+// Classifies what kind of screen a UI tree shows, pairs form fields with
+// their labels and ranks the screen's actions. Each screen type collects
+// weighted signals (combined as 1 - Π(1 - weight)), so every
+// classification comes with the evidence behind it.
+
+import { UiElement } from "./types.js";
+import { UiNode, parseBounds } from "./uiTree.js";
+import { accessibleLabel, isInteractive } from "./accessibility.js";
+
+export type ScreenType =
+  | "login"
+  | "list"
+  | "detail"
+  | "dialog"
+  | "error"
+  | "loading"
+  | "empty"
+  | "permission";
+
+export interface ScreenClassification {
+  type: ScreenType;
+  /** 0-1 */
+  confidence: number;
+  evidence: string[];
+}
+
+export type FieldKind = "text" | "password" | "toggle" | "choice";
+
+export type LabelSource = "contentDescription" | "above" | "left" | "hint" | "resourceId" | "text";
+
+export interface FormField {
+  element: UiElement;
+  kind: FieldKind;
+  label: string;
+  labelSource: LabelSource;
+  /** The label element, when the label comes from a neighbouring text */
+  labelElement?: UiElement;
+}
+
+export interface ScreenAction {
+  element: UiElement;
+  label: string;
+  role: "primary" | "secondary";
+}
+
+export interface ScreenStructure {
+  /** Most likely type, or "unknown" when nothing reaches MIN_CONFIDENCE */
+  screenType: ScreenType | "unknown";
+  /** Every type with some evidence, most confident first */
+  classifications: ScreenClassification[];
+  keyboardVisible: boolean;
+  formFields: FormField[];
+  primaryAction?: ScreenAction;
+  secondaryActions: ScreenAction[];
+}
+
+export interface ScreenContext {
+  /** From the input method service; otherwise guessed from the dump */
+  keyboardVisible?: boolean;
+}
+
+export const MIN_CONFIDENCE = 0.5;
+export const MAX_SECONDARY_ACTIONS = 10;
+
+const PERMISSION_PACKAGES = new Set([
+  "com.google.android.permissioncontroller",
+  "com.android.permissioncontroller",
+  "com.android.packageinstaller",
+]);
+const DIALOG_IDS = new Set(["android:id/alertTitle", "android:id/parentPanel", "android:id/button1", "android:id/button2"]);
+// Android widgets and their XCUIElementType counterparts
+export const LIST_CLASS = /(RecyclerView|ListView|GridView|XCUIElementTypeTable|XCUIElementTypeCollectionView)$/;
+export const INPUT_CLASS = /(EditText|AutoCompleteTextView|XCUIElementType(Secure)?TextField|XCUIElementTypeSearchField|XCUIElementTypeTextView)$/;
+const CHOICE_CLASS = /(Spinner|XCUIElementTypePicker(Wheel)?)$/;
+const PROGRESS_CLASS = /(ProgressBar|XCUIElementTypeActivityIndicator|XCUIElementTypeProgressIndicator)$/;
+const IMAGE_CLASS = /(ImageView|XCUIElementTypeImage)$/;
+
+const PERMISSION_BUTTONS = /^(allow|deny|don['’]t allow|while using the app|only this time|allow all the time)$/i;
+const LOGIN_WORDS = /\b(sign[ -]?in|log[ -]?in)\b/i;
+const FORGOT_PASSWORD = /forgot.*password/i;
+const ERROR_WORDS = /\b(error|failed|went wrong|unable to|couldn['’]t|can['’]t connect|no (internet|connection)|offline|not found)\b/i;
+const RETRY_WORDS = /^(retry|try again|reload)$/i;
+const EMPTY_WORDS = /\b(no (results|items|messages|data|matches|notifications)|nothing (here|to show|yet)|is empty|you don['’]t have any)\b/i;
+const LOADING_WORDS = /\b(loading|please wait)\b/i;
+
+const AFFIRMATIVE = /^(sign[ -]?in|log[ -]?in|sign[ -]?up|register|continue|next|submit|save|done|ok|okay|confirm|allow|send|create|buy|pay|apply|get started|accept|agree|yes|retry|try again)\b/i;
+const NEGATIVE = /^(cancel|skip|not now|later|back|close|dismiss|deny|don['’]t allow|no|forgot|navigate up)\b/i;
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface VisibleNode {
+  node: UiNode;
+  rect: Rect;
+  /** Inside a list container, i.e. a row or part of one */
+  inList: boolean;
+}
+
+/**
+ * Noisy-OR accumulator: independent signals each add their weight
+ */
+function createScores() {
+  const scores = new Map<ScreenType, ScreenClassification>();
+  return {
+    add(type: ScreenType, weight: number, evidence: string) {
+      const current = scores.get(type) ?? { type, confidence: 0, evidence: [] };
+      current.confidence = 1 - (1 - current.confidence) * (1 - weight);
+      current.evidence.push(evidence);
+      scores.set(type, current);
+    },
+    has: (type: ScreenType) => (scores.get(type)?.confidence ?? 0) >= MIN_CONFIDENCE,
+    list: () => [...scores.values()]
+      .map((s) => ({ ...s, confidence: Math.round(s.confidence * 100) / 100 }))
+      .sort((a, b) => b.confidence - a.confidence),
+  };
+}
+
+function words(resourceId: string): string {
+  const name = resourceId.split("/").pop() ?? "";
+  return name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_\-.]+/g, " ").trim().toLowerCase();
+}
+
+function overlap(a0: number, a1: number, b0: number, b1: number): number {
+  return Math.max(0, Math.min(a1, b1) - Math.max(a0, b0));
+}
+
+function fieldKind(node: UiNode): FieldKind | null {
+  if (node.password) return "password";
+  if (INPUT_CLASS.test(node.className)) return "text";
+  if (CHOICE_CLASS.test(node.className)) return "choice";
+  if (node.checkable) return "toggle";
+  return null;
+}
+
+/**
+ * The closest text directly above the field, or on its left in the same row
+ */
+function neighbourLabel(field: VisibleNode, texts: VisibleNode[]): { source: "above" | "left"; label: VisibleNode } | null {
+  const height = field.rect.bottom - field.rect.top;
+  let best: { source: "above" | "left"; label: VisibleNode; distance: number } | null = null;
+
+  for (const text of texts) {
+    const above = field.rect.top - text.rect.bottom;
+    const horizontal = overlap(field.rect.left, field.rect.right, text.rect.left, text.rect.right);
+    if (above >= 0 && above <= height && horizontal > 0) {
+      if (!best || above < best.distance) best = { source: "above", label: text, distance: above };
+      continue;
+    }
+    const left = field.rect.left - text.rect.right;
+    const vertical = overlap(field.rect.top, field.rect.bottom, text.rect.top, text.rect.bottom);
+    if (left >= 0 && left <= height * 3 && vertical >= (text.rect.bottom - text.rect.top) / 2) {
+      if (!best || left < best.distance) best = { source: "left", label: text, distance: left };
+    }
+  }
+  return best && { source: best.source, label: best.label };
+}
+
+function labelField(field: VisibleNode, texts: VisibleNode[]): Omit<FormField, "element" | "kind"> {
+  const { node } = field;
+  if (node.checkable && node.text) {
+    return { label: node.text, labelSource: "text" };
+  }
+  if (node.contentDescription) {
+    return { label: node.contentDescription, labelSource: "contentDescription" };
+  }
+  const neighbour = neighbourLabel(field, texts);
+  if (neighbour) {
+    return { label: neighbour.label.node.text, labelSource: neighbour.source, labelElement: neighbour.label.node };
+  }
+  // Empty text fields report their hint as text
+  if (node.text) {
+    return { label: node.text, labelSource: "hint" };
+  }
+  return { label: words(node.resourceId), labelSource: "resourceId" };
+}
+
+function actionScore(action: VisibleNode, label: string, screen: Rect): number {
+  const { node, rect } = action;
+  let score = 0;
+  if (/Button$/.test(node.className)) score += 1;
+  if (node.resourceId === "android:id/button1") score += 2;
+  if (node.resourceId === "android:id/button2") score -= 1;
+  if (AFFIRMATIVE.test(label)) score += 2;
+  if (NEGATIVE.test(label)) score -= 2;
+  const screenWidth = screen.right - screen.left;
+  if (screenWidth > 0 && (rect.right - rect.left) >= screenWidth * 0.6) score += 1;
+  if (rect.top >= (screen.top + screen.bottom) / 2) score += 0.5;
+  return score;
+}
+
+export function analyzeScreenStructure(roots: UiNode[], context: ScreenContext = {}): ScreenStructure {
+  const scores = createScores();
+
+  // Visible nodes in document order
+  const visible: VisibleNode[] = [];
+  const collect = (nodes: UiNode[], inList: boolean) => {
+    for (const node of nodes) {
+      const rect = parseBounds(node.bounds);
+      if (rect && rect.right > rect.left && rect.bottom > rect.top) {
+        visible.push({ node, rect, inList });
+      }
+      collect(node.children, inList || LIST_CLASS.test(node.className));
+    }
+  };
+  collect(roots, false);
+
+  const screen = visible.reduce<Rect>(
+    (s, { rect }) => ({
+      left: Math.min(s.left, rect.left),
+      top: Math.min(s.top, rect.top),
+      right: Math.max(s.right, rect.right),
+      bottom: Math.max(s.bottom, rect.bottom),
+    }),
+    { left: Infinity, top: Infinity, right: 0, bottom: 0 }
+  );
+  const texts = visible.filter((v) => v.node.text && !isInteractive(v.node) && !fieldKind(v.node));
+  const clickable = visible.filter((v) => v.node.clickable && v.node.enabled);
+
+  // Permission prompt
+  if (visible.some((v) => PERMISSION_PACKAGES.has(v.node.packageName))) {
+    scores.add("permission", 0.9, "Window belongs to the permission controller");
+  }
+  if (visible.some((v) => /permission_(allow|deny)/.test(v.node.resourceId))) {
+    scores.add("permission", 0.8, "Permission allow/deny buttons");
+  }
+  const permissionButtons = clickable.filter((v) => PERMISSION_BUTTONS.test(accessibleLabel(v.node)));
+  if (permissionButtons.length >= 2) {
+    scores.add("permission", 0.5, `Buttons: ${permissionButtons.map((v) => accessibleLabel(v.node)).join(", ")}`);
+  }
+
+  // Dialog
+  const dialogIds = visible.filter((v) => DIALOG_IDS.has(v.node.resourceId));
+  if (dialogIds.length > 0) {
+    scores.add("dialog", 0.7, `Alert dialog views: ${dialogIds.map((v) => v.node.resourceId).join(", ")}`);
+  }
+  if (visible.some((v) => /XCUIElementType(Alert|Sheet)$/.test(v.node.className))) {
+    scores.add("dialog", 0.7, "iOS alert or action sheet");
+  }
+  const window = roots.length > 0 ? parseBounds(roots[0].bounds) : null;
+  if (window && window.left > 0 && window.top > 0) {
+    scores.add("dialog", 0.6, `Window is inset from the screen edges at ${roots[0].bounds}`);
+  }
+
+  // Loading
+  const spinners = visible.filter((v) => PROGRESS_CLASS.test(v.node.className));
+  if (spinners.length > 0) {
+    scores.add("loading", 0.6, `${spinners.length} progress indicator(s) visible`);
+    if (clickable.length <= 2 && texts.length <= 3) {
+      scores.add("loading", 0.4, "Little else on screen");
+    }
+  }
+  const loadingText = texts.find((v) => LOADING_WORDS.test(v.node.text));
+  if (loadingText) {
+    scores.add("loading", 0.4, `Text: "${loadingText.node.text}"`);
+  }
+
+  // Error state
+  const errorText = texts.find((v) => ERROR_WORDS.test(v.node.text));
+  if (errorText) {
+    scores.add("error", 0.5, `Text: "${errorText.node.text}"`);
+  }
+  const retry = clickable.find((v) => RETRY_WORDS.test(accessibleLabel(v.node)));
+  if (retry) {
+    scores.add("error", 0.4, `Retry action: "${accessibleLabel(retry.node)}"`);
+  }
+
+  // Empty state
+  const emptyText = texts.find((v) => EMPTY_WORDS.test(v.node.text));
+  if (emptyText) {
+    scores.add("empty", 0.6, `Text: "${emptyText.node.text}"`);
+  }
+  const lists = visible.filter((v) => LIST_CLASS.test(v.node.className));
+  const emptyList = lists.find((v) => v.node.children.length === 0);
+  if (emptyList) {
+    scores.add("empty", 0.3, `${emptyList.node.className.split(".").pop()} has no rows`);
+  }
+
+  // List: a container whose rows share a layout
+  for (const list of lists) {
+    const classes = new Map<string, number>();
+    for (const child of list.node.children) {
+      classes.set(child.className, (classes.get(child.className) ?? 0) + 1);
+    }
+    const rows = Math.max(0, ...classes.values());
+    if (rows >= 3) {
+      scores.add("list", Math.min(0.9, 0.5 + 0.05 * rows), `${list.node.className.split(".").pop()} with ${rows} similar rows`);
+    }
+  }
+
+  // Login form
+  const fields = visible.filter((v) => fieldKind(v.node) && !v.inList);
+  const passwordFields = fields.filter((v) => v.node.password);
+  if (passwordFields.length > 0) {
+    scores.add("login", 0.6, "Password field");
+    if (fields.some((v) => fieldKind(v.node) === "text" && !v.node.password)) {
+      scores.add("login", 0.15, "Username or email field");
+    }
+  }
+  const loginAction = clickable.find((v) => LOGIN_WORDS.test(accessibleLabel(v.node)));
+  if (loginAction) {
+    scores.add("login", 0.3, `Action: "${accessibleLabel(loginAction.node)}"`);
+  }
+  if (visible.some((v) => FORGOT_PASSWORD.test(v.node.text || v.node.contentDescription))) {
+    scores.add("login", 0.3, "Forgot password link");
+  }
+
+  // Detail: reading content rather than choosing or filling in
+  if (!scores.has("list") && fields.length === 0) {
+    const longText = texts.find((v) => v.node.text.length >= 80);
+    if (longText) {
+      scores.add("detail", 0.4, "Long body text");
+    }
+    const screenArea = (screen.right - screen.left) * (screen.bottom - screen.top);
+    const hero = visible.find((v) =>
+      IMAGE_CLASS.test(v.node.className) &&
+      (v.rect.right - v.rect.left) * (v.rect.bottom - v.rect.top) >= screenArea * 0.15
+    );
+    if (hero) {
+      scores.add("detail", 0.3, "Large image");
+    }
+    if (visible.some((v) => /navigate up/i.test(v.node.contentDescription))) {
+      scores.add("detail", 0.2, "Up navigation");
+    }
+    if (visible.some((v) => v.node.scrollable && /ScrollView$/.test(v.node.className))) {
+      scores.add("detail", 0.2, "Scrollable content");
+    }
+  }
+
+  const classifications = scores.list();
+  const screenType = classifications[0] && classifications[0].confidence >= MIN_CONFIDENCE
+    ? classifications[0].type
+    : "unknown";
+
+  // The keyboard is a separate window on Android; only IME nodes in the dump
+  // betray it. iOS lists it in the tree.
+  const keyboardVisible = context.keyboardVisible ??
+    visible.some((v) => /inputmethod|keyboard/i.test(v.node.packageName) || /XCUIElementTypeKeyboard$/.test(v.node.className));
+
+  const formFields: FormField[] = fields.map((field) => ({
+    element: field.node,
+    kind: fieldKind(field.node)!,
+    ...labelField(field, texts),
+  }));
+
+  // Actions: labelled, clickable controls outside lists and form fields
+  const actions = clickable
+    .filter((v) => !v.inList && !fieldKind(v.node))
+    .map((v) => ({ v, label: accessibleLabel(v.node) }))
+    .filter(({ label }) => label)
+    .map(({ v, label }) => ({ v, label, score: actionScore(v, label, screen) }));
+  const best = actions.reduce<typeof actions[number] | undefined>(
+    (top, action) => (!top || action.score > top.score ? action : top),
+    undefined
+  );
+  const primary = best && best.score >= 1 ? best : undefined;
+
+  return {
+    screenType,
+    classifications,
+    keyboardVisible,
+    formFields,
+    primaryAction: primary && { element: primary.v.node, label: primary.label, role: "primary" },
+    secondaryActions: actions
+      .filter((a) => a !== primary)
+      .slice(0, MAX_SECONDARY_ACTIONS)
+      .map((a) => ({ element: a.v.node, label: a.label, role: "secondary" })),
+  };
+}
+
+const SCREEN_NAMES: Record<ScreenType, string> = {
+  login: "Login screen",
+  list: "List screen",
+  detail: "Detail screen",
+  dialog: "Dialog",
+  error: "Error screen",
+  loading: "Loading screen",
+  empty: "Empty state",
+  permission: "Permission prompt",
+};
+
+/**
+ * One-line summary, e.g. 'Login screen with 2 form fields (Email, Password); primary action "Sign in"'
+ */
+export function describeScreen(structure: ScreenStructure): string {
+  const parts = [structure.screenType === "unknown" ? "Unrecognised screen" : SCREEN_NAMES[structure.screenType]];
+  const fields = structure.formFields.length;
+  if (fields > 0) {
+    parts[0] += ` with ${fields} form field${fields === 1 ? "" : "s"} (${structure.formFields.map((f) => f.label).join(", ")})`;
+  }
+  if (structure.primaryAction) {
+    parts.push(`primary action "${structure.primaryAction.label}"`);
+  }
+  if (structure.keyboardVisible) {
+    parts.push("keyboard open");
+  }
+  return parts.join("; ");
+}
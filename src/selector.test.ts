@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { parseUiHierarchy } from "./uiTree.js";
+import { findElements, findElement, parseSelectorArgs, parseSelectorString, isEmptySelector, Selector } from "./selector.js";
+
+const DUMP = `<hierarchy rotation="0">
+<node index="0" text="" resource-id="" class="android.widget.FrameLayout" package="com.example" bounds="[0,0][1080,2400]">
+<node index="0" text="" resource-id="com.example:id/login_form" class="android.widget.LinearLayout" package="com.example" bounds="[0,200][1080,1200]">
+<node index="0" text="Email" resource-id="com.example:id/email" class="android.widget.EditText" package="com.example" clickable="true" enabled="true" bounds="[60,400][1020,520]" />
+<node index="1" text="Password" resource-id="com.example:id/password" class="android.widget.EditText" package="com.example" clickable="true" enabled="true" password="true" bounds="[60,560][1020,680]" />
+<node index="2" text="Remember me" resource-id="com.example:id/remember" class="android.widget.CheckBox" package="com.example" clickable="true" enabled="true" checkable="true" checked="false" bounds="[60,700][1020,800]" />
+<node index="3" text="Sign in" resource-id="com.example:id/login_button" class="android.widget.Button" package="com.example" clickable="true" enabled="false" bounds="[60,900][1020,1020]" />
+</node>
+<node index="1" text="Sign up" resource-id="com.example:id/signup_button" class="android.widget.Button" package="com.example" clickable="true" enabled="true" bounds="[60,1300][1020,1420]" />
+</node>
+</hierarchy>`;
+
+const roots = parseUiHierarchy(DUMP);
+const texts = (selector: Selector) => findElements(roots, selector).map((el) => el.text);
+const xpath = (selector: string) => texts({ xpath: selector });
+
+// ============================================================================
+// STRUCTURED SELECTOR TESTS
+// ============================================================================
+
+describe("structured selectors", () => {
+  it("should AND fields together", () => {
+    expect(texts({ text: "sign", className: "Button" })).toEqual(["Sign in", "Sign up"]);
+    expect(texts({ text: "sign", resourceId: "signup" })).toEqual(["Sign up"]);
+    expect(texts({ text: "Email", resourceId: "password" })).toEqual([]);
+  });
+
+  it("should OR alternatives with anyOf", () => {
+    expect(texts({ anyOf: [{ text: "Email" }, { text: "Sign up" }] })).toEqual(["Email", "Sign up"]);
+    expect(texts({ className: "EditText", anyOf: [{ text: "Email" }, { text: "Sign up" }] })).toEqual(["Email"]);
+  });
+
+  it("should support exact, contains and regex matching", () => {
+    expect(texts({ text: "Sign", match: "exact" })).toEqual([]);
+    expect(texts({ text: "sign in", match: "contains" })).toEqual(["Sign in"]);
+    expect(texts({ text: "^sign (in|up)$", match: "regex" })).toEqual(["Sign in", "Sign up"]);
+    expect(texts({ className: "Button", match: "exact" })).toEqual(["Sign in", "Sign up"]);
+    expect(() => findElements(roots, { text: "(", match: "regex" })).toThrow("Invalid selector regex");
+    expect(() => findElements(roots, { text: "a".repeat(257), match: "regex" })).toThrow("at most 256 chars");
+    expect(() => xpath(`//*[matches(@text, '${"a".repeat(257)}')]`)).toThrow("at most 256 chars");
+  });
+
+  it("should filter on state predicates", () => {
+    expect(texts({ className: "Button", enabled: false })).toEqual(["Sign in"]);
+    expect(texts({ password: true })).toEqual(["Password"]);
+    expect(texts({ checkable: true, checked: false })).toEqual(["Remember me"]);
+  });
+
+  it("should match ancestor and descendant relations", () => {
+    expect(texts({ className: "Button", ancestor: { resourceId: "login_form" } })).toEqual(["Sign in"]);
+    expect(findElements(roots, { descendant: { password: true } }).map((el) => el.resourceId))
+      .toEqual(["", "com.example:id/login_form"]);
+  });
+
+  it("should check descendants of every element in one pass over the tree", () => {
+    const depth = 400;
+    const deep = parseUiHierarchy(
+      `<hierarchy>${'<node class="android.widget.FrameLayout" bounds="[0,0][10,10]">'.repeat(depth)}` +
+      `<node text="Leaf" class="android.widget.Button" bounds="[0,0][10,10]" />${"</node>".repeat(depth)}</hierarchy>`
+    );
+    let reads = 0;
+    for (let level = deep; level.length > 0; level = level[0].children) {
+      const node = level[0];
+      const text = node.text;
+      Object.defineProperty(node, "text", { get: () => (reads++, text) });
+    }
+
+
+    expect(findElements(deep, { descendant: { text: "Leaf" } })).toHaveLength(depth);
+    expect(findElements(deep, { xpath: "//FrameLayout[.//*[@text='Leaf']]" })).toHaveLength(depth);
+    expect(reads).toBeLessThan(depth * 4);
+  });
+
+  it("should pick the nth match", () => {
+    expect(texts({ className: "EditText", nth: 1 })).toEqual(["Password"]);
+    expect(texts({ className: "EditText", nth: 5 })).toEqual([]);
+    expect(findElement(roots, { clickable: true })?.text).toBe("Email");
+  });
+});
+
+// ============================================================================
+// STRING FORM TESTS
+// ============================================================================
+
+describe("XPath-like selectors", () => {
+  it("should match class names and attributes", () => {
+    expect(xpath("//Button")).toEqual(["Sign in", "Sign up"]);
+    expect(xpath("//android.widget.Button[@text='Sign up']")).toEqual(["Sign up"]);
+    expect(xpath(`//*[@resource-id="com.example:id/email"]`)).toEqual(["Email"]);
+  });
+
+  it("should combine predicates with and/or/not", () => {
+    expect(xpath("//*[@clickable='true' and @enabled='false']")).toEqual(["Sign in"]);
+    expect(xpath("//*[@text='Email' or @text='Sign up']")).toEqual(["Email", "Sign up"]);
+    expect(xpath("//Button[not(@enabled='false')]")).toEqual(["Sign up"]);
+    expect(xpath("//EditText[@password!='true']")).toEqual(["Email"]);
+  });
+
+  it("should support contains, starts-with and matches", () => {
+    expect(xpath("//*[contains(@text,'SIGN')]")).toEqual(["Sign in", "Sign up"]);
+    expect(xpath("//*[starts-with(@resource-id,'com.example:id/sign')]")).toEqual(["Sign up"]);
+    expect(xpath("//*[matches(@content-desc,'.+')]")).toEqual([]);
+  });
+
+  it("should follow child and descendant steps", () => {
+    expect(xpath("//LinearLayout/Button")).toEqual(["Sign in"]);
+    expect(xpath("/FrameLayout/Button")).toEqual(["Sign up"]);
+    expect(xpath("//FrameLayout//EditText")).toEqual(["Email", "Password"]);
+    expect(findElements(roots, { xpath: "//*[.//CheckBox]" }).map((el) => el.className))
+      .toEqual(["android.widget.FrameLayout", "android.widget.LinearLayout"]);
+    expect(findElements(roots, { xpath: "//*[./CheckBox]" }).map((el) => el.className))
+      .toEqual(["android.widget.LinearLayout"]);
+  });
+
+  it("should treat a trailing [n] as a 1-based match position", () => {
+    expect(xpath("//EditText[2]")).toEqual(["Password"]);
+    expect(parseSelectorString("//EditText[2]").nth).toBe(1);
+  });
+
+  it("should reject malformed selectors", () => {
+    expect(() => parseSelectorString("Button")).toThrow("expected '/' or '//'");
+    expect(() => parseSelectorString("//Button[@text=]")).toThrow("quoted string");
+    expect(() => parseSelectorString("//Button[@nope='x']")).toThrow("unknown attribute");
+    expect(() => parseSelectorString("//A[1]//B")).toThrow("only supported on the last step");
+    expect(() => parseSelectorString("//" + "A/".repeat(300))).toThrow("too long");
+  });
+});
+
+// ============================================================================
+// TOOL ARGUMENT TESTS
+// ============================================================================
+
+describe("parseSelectorArgs()", () => {
+  it("should build nested selectors from tool arguments", () => {
+    const selector = parseSelectorArgs({
+      text: "Sign",
+      match: "contains",
+      enabled: true,
+      ancestor: { resourceId: "login_form" },
+      anyOf: [{ className: "Button" }],
+      selector: "//*",
+      device: "emulator-5554",
+    });
+    expect(selector).toEqual({
+      text: "Sign",
+      match: "contains",
+      enabled: true,
+      ancestor: { resourceId: "login_form" },
+      anyOf: [{ className: "Button" }],
+      xpath: "//*",
+    });
+  });
+
+  it("should reject invalid argument types", () => {
+    expect(() => parseSelectorArgs({ text: 42 })).toThrow("'text' must be a string");
+    expect(() => parseSelectorArgs({ enabled: "yes" })).toThrow("'enabled' must be a boolean");
+    expect(() => parseSelectorArgs({ match: "fuzzy" })).toThrow("'match' must be one of");
+    expect(() => parseSelectorArgs({ nth: -1 })).toThrow("non-negative integer");
+    expect(() => parseSelectorArgs({ anyOf: "x" })).toThrow("'anyOf' must be an array");
+  });
+
+  it("should limit nesting depth", () => {
+    let nested: Record<string, unknown> = { text: "x" };
+    for (let i = 0; i < 10; i++) nested = { ancestor: nested };
+    expect(() => parseSelectorArgs(nested)).toThrow("maximum depth");
+  });
+
+  it("should detect empty selectors", () => {
+    expect(isEmptySelector(parseSelectorArgs({ device: "emulator-5554", all: true }))).toBe(true);
+    expect(isEmptySelector({ enabled: false })).toBe(false);
+  });
+});
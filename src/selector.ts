@@ -0,0 +1,563 @@
+// Mobile Dev MCP - UI Element Selectors
+// Matches elements in the parsed UI tree. Selectors are either structured
+// objects (fields are ANDed, `anyOf` gives OR) or an XPath-like string such as
+// //LinearLayout[@resource-id='form']//EditText[@enabled='true'][1].
+
+import { UiNode } from "./uiTree.js";
+
+export type MatchMode = "exact" | "contains" | "regex";
+
+export const MATCH_MODES: MatchMode[] = ["exact", "contains", "regex"];
+
+export const STATE_PREDICATES = [
+  "enabled",
+  "checked",
+  "checkable",
+  "selected",
+  "focused",
+  "focusable",
+  "clickable",
+  "longClickable",
+  "scrollable",
+  "password",
+] as const;
+
+export type StatePredicate = typeof STATE_PREDICATES[number];
+
+const TEXT_FIELDS = ["text", "resourceId", "contentDescription", "className", "packageName"] as const;
+
+export interface Selector extends Partial<Record<StatePredicate, boolean>> {
+  text?: string;
+  resourceId?: string;
+  contentDescription?: string;
+  /** Full ("android.widget.Button", "XCUIElementTypeButton") or short ("Button") class name */
+  className?: string;
+  packageName?: string;
+  /** How string fields are compared (default: contains) */
+  match?: MatchMode;
+  /** Element must be inside an element matching this selector */
+  ancestor?: Selector;
+  /** Element must contain an element matching this selector */
+  descendant?: Selector;
+  /** Element must match at least one of these (combined with the fields above) */
+  anyOf?: Selector[];
+  /** XPath-like selector string, ANDed with the fields above */
+  xpath?: string;
+  /** Pick the nth match (0-based) */
+  nth?: number;
+}
+
+// Limits for selectors coming from tool arguments (prevent DoS)
+export const MAX_SELECTOR_LENGTH = 500;
+const MAX_SELECTOR_DEPTH = 5;
+const MAX_ALTERNATIVES = 20;
+export const MAX_SELECTOR_REGEX_LENGTH = 256;
+
+/** A node with its position in the tree, so relations can walk upwards */
+export interface TreeEntry {
+  node: UiNode;
+  parent: TreeEntry | null;
+}
+
+type Predicate = (entry: TreeEntry) => boolean;
+
+interface CompiledSelector {
+  predicate: Predicate;
+  nth?: number;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function stringMatcher(expected: string, mode: MatchMode): (value: string) => boolean {
+  switch (mode) {
+    case "exact":
+      return (value) => value === expected;
+    case "regex": {
+      if (expected.length > MAX_SELECTOR_REGEX_LENGTH) {
+        throw new Error(`Selector regex must be at most ${MAX_SELECTOR_REGEX_LENGTH} chars`);
+      }
+      let regex: RegExp;
+      try {
+        regex = new RegExp(expected, "i");
+      } catch (error: any) {
+        throw new Error(`Invalid selector regex '${expected}': ${error.message}`);
+      }
+      return (value) => regex.test(value);
+    }
+    default: {
+      const needle = expected.toLowerCase();
+      return (value) => value.toLowerCase().includes(needle);
+    }
+  }
+}
+
+function shortClassName(className: string): string {
+  return className.slice(className.lastIndexOf(".") + 1).replace(/^XCUIElementType/, "");
+}
+
+function classMatcher(expected: string, mode: MatchMode): (value: string) => boolean {
+  const matches = stringMatcher(expected, mode);
+  // "Button" should match exactly android.widget.Button and XCUIElementTypeButton
+  return mode === "exact" && !expected.includes(".")
+    ? (value) => matches(shortClassName(value)) || matches(value)
+    : matches;
+}
+
+/**
+ * Whether any descendant matches. Answers are kept per node and filled in
+ * bottom-up, so checking every element of a tree walks it once instead of
+ * once per element.
+ */
+function descendantMatcher(predicate: Predicate): Predicate {
+  const memo = new WeakMap<UiNode, boolean>();
+  return (entry) => {
+    if (!memo.has(entry.node)) {
+      // Children come after their parent in `order`
+      const order: TreeEntry[] = [];
+      const stack: TreeEntry[] = [entry];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        order.push(current);
+        for (const child of current.node.children) {
+          if (!memo.has(child)) stack.push({ node: child, parent: current });
+        }
+      }
+      for (let i = order.length - 1; i >= 0; i--) {
+        const current = order[i];
+        memo.set(current.node, current.node.children.some(
+          (child) => memo.get(child) || predicate({ node: child, parent: current })
+        ));
+      }
+    }
+    return memo.get(entry.node)!;
+  };
+}
+
+function hasAncestor(entry: TreeEntry, predicate: Predicate): boolean {
+  for (let parent = entry.parent; parent; parent = parent.parent) {
+    if (predicate(parent)) return true;
+  }
+  return false;
+}
+
+function compileStructured(selector: Selector, depth: number): CompiledSelector {
+  if (depth > MAX_SELECTOR_DEPTH) {
+    throw new Error(`Selector nesting exceeds maximum depth (${MAX_SELECTOR_DEPTH})`);
+  }
+
+  const mode = selector.match ?? "contains";
+  const checks: Predicate[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    const expected = selector[field];
+    if (expected === undefined || expected === "") continue;
+    const matches = field === "className" ? classMatcher(expected, mode) : stringMatcher(expected, mode);
+    checks.push((entry) => matches(entry.node[field]));
+  }
+
+  for (const state of STATE_PREDICATES) {
+    const expected = selector[state];
+    if (expected !== undefined) {
+      checks.push((entry) => entry.node[state] === expected);
+    }
+  }
+
+  if (selector.ancestor) {
+    const ancestor = compileStructured(selector.ancestor, depth + 1).predicate;
+    checks.push((entry) => hasAncestor(entry, ancestor));
+  }
+
+  if (selector.descendant) {
+    checks.push(descendantMatcher(compileStructured(selector.descendant, depth + 1).predicate));
+  }
+
+  if (selector.anyOf && selector.anyOf.length > 0) {
+    const alternatives = selector.anyOf.map((alternative) => compileStructured(alternative, depth + 1).predicate);
+    checks.push((entry) => alternatives.some((alternative) => alternative(entry)));
+  }
+
+  let nth = selector.nth;
+  if (selector.xpath) {
+    const compiled = parseSelectorString(selector.xpath);
+    checks.push(compiled.predicate);
+    nth = nth ?? compiled.nth;
+  }
+
+  return { predicate: (entry) => checks.every((check) => check(entry)), nth };
+}
+
+export function compileSelector(selector: Selector): CompiledSelector {
+  return compileStructured(selector, 0);
+}
+
+/**
+ * Index the tree in document order
+ */
+export function indexTree(roots: UiNode[]): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  const stack: TreeEntry[] = roots.map((node) => ({ node, parent: null })).reverse();
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    entries.push(entry);
+    for (let i = entry.node.children.length - 1; i >= 0; i--) {
+      stack.push({ node: entry.node.children[i], parent: entry });
+    }
+  }
+  return entries;
+}
+
+/**
+ * All elements matching the selector, in document order. With `nth`, at most
+ * the one element at that position.
+ */
+export function findElements(roots: UiNode[], selector: Selector): UiNode[] {
+  const { predicate, nth } = compileSelector(selector);
+  const matches = indexTree(roots).filter(predicate).map((entry) => entry.node);
+  if (nth === undefined) return matches;
+  return nth >= 0 && nth < matches.length ? [matches[nth]] : [];
+}
+
+export function findElement(roots: UiNode[], selector: Selector): UiNode | null {
+  return findElements(roots, selector)[0] ?? null;
+}
+
+export function isEmptySelector(selector: Selector): boolean {
+  return TEXT_FIELDS.every((field) => !selector[field]) &&
+    STATE_PREDICATES.every((state) => selector[state] === undefined) &&
+    !selector.ancestor && !selector.descendant && !selector.anyOf?.length && !selector.xpath;
+}
+
+// ============================================================================
+// STRING FORM
+// ============================================================================
+// path      := ('//' | '/') step (('//' | '/') step)*
+// step      := ('*' | ClassName) ('[' (number | expr) ']')*
+// expr      := and ('or' and)*
+// and       := unary ('and' unary)*
+// unary     := 'not' '(' expr ')' | '(' expr ')' | './/' step | './' step | comparison | function
+// comparison:= '@'attr ('=' | '!=') literal
+// function  := ('contains' | 'starts-with' | 'matches') '(' '@'attr ',' literal ')'
+
+// uiautomator attribute names plus the camelCase field names
+const ATTRIBUTES: Record<string, (node: UiNode) => string> = {
+  "text": (n) => n.text,
+  "resource-id": (n) => n.resourceId,
+  "resourceId": (n) => n.resourceId,
+  "content-desc": (n) => n.contentDescription,
+  "contentDescription": (n) => n.contentDescription,
+  "class": (n) => n.className,
+  "className": (n) => n.className,
+  "package": (n) => n.packageName,
+  "packageName": (n) => n.packageName,
+  "bounds": (n) => n.bounds,
+  "index": (n) => String(n.index),
+  "clickable": (n) => String(n.clickable),
+  "long-clickable": (n) => String(n.longClickable),
+  "longClickable": (n) => String(n.longClickable),
+  "checkable": (n) => String(n.checkable),
+  "checked": (n) => String(n.checked),
+  "enabled": (n) => String(n.enabled),
+  "focusable": (n) => String(n.focusable),
+  "focused": (n) => String(n.focused),
+  "scrollable": (n) => String(n.scrollable),
+  "selected": (n) => String(n.selected),
+  "password": (n) => String(n.password),
+};
+
+type Token =
+  | { kind: "punct"; value: string }
+  | { kind: "name"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string };
+
+const TOKEN_REGEX = /\s*(?:(\/\/|\.\/\/|\.\/|!=|[\/\[\]()@=,*])|([A-Za-z_][\w.$:-]*)|(\d+)|'([^']*)'|"([^"]*)")/y;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const trimmed = input.trim();
+  TOKEN_REGEX.lastIndex = 0;
+  while (TOKEN_REGEX.lastIndex < trimmed.length) {
+    const start = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid selector at position ${start}: '${trimmed.slice(start, start + 10)}'`);
+    }
+    if (match[1] !== undefined) tokens.push({ kind: "punct", value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ kind: "name", value: match[2] });
+    else if (match[3] !== undefined) tokens.push({ kind: "number", value: Number(match[3]) });
+    else tokens.push({ kind: "string", value: match[4] ?? match[5] });
+  }
+  return tokens;
+}
+
+/**
+ * Combine a path step with the steps before it: '/' requires the previous
+ * steps to match the parent, '//' any ancestor.
+ */
+function chainStep(previous: Predicate | null, axis: string, test: Predicate): Predicate {
+  if (!previous) {
+    return axis === "/" ? (e) => e.parent === null && test(e) : test;
+  }
+  if (axis === "/") {
+    return (e) => test(e) && e.parent !== null && previous(e.parent);
+  }
+  return (e) => test(e) && hasAncestor(e, previous);
+}
+
+/**
+ * Recursive-descent parser over the token list (grammar above)
+ */
+function parseTokens(tokens: Token[]): CompiledSelector {
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+
+  const next = (): Token => {
+    const token = tokens[pos++];
+    if (!token) throw new Error("Invalid selector: unexpected end");
+    return token;
+  };
+
+  const isPunct = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === "punct" && token.value === value;
+  };
+
+  const isName = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === "name" && token.value === value;
+  };
+
+  const expect = (value: string): void => {
+    const token = next();
+    if (token.kind !== "punct" || token.value !== value) {
+      throw new Error(`Invalid selector: expected '${value}'`);
+    }
+  };
+
+  const literal = (): string => {
+    const token = next();
+    if (token.kind !== "string") throw new Error("Invalid selector: expected a quoted string");
+    return token.value;
+  };
+
+  const attribute = (): ((node: UiNode) => string) => {
+    expect("@");
+    const token = next();
+    const getter = token.kind === "name" ? ATTRIBUTES[token.value] : undefined;
+    if (!getter) {
+      throw new Error(`Invalid selector: unknown attribute '@${token.kind === "name" ? token.value : ""}'`);
+    }
+    return getter;
+  };
+
+  const step = (): { predicate: Predicate; position?: number } => {
+    const token = next();
+    const checks: Predicate[] = [];
+    let position: number | undefined;
+
+    if (token.kind === "name") {
+      const matches = classMatcher(token.value, "exact");
+      checks.push((e) => matches(e.node.className));
+    } else if (token.kind !== "punct" || token.value !== "*") {
+      throw new Error("Invalid selector: expected a class name or '*'");
+    }
+
+    while (isPunct("[")) {
+      next();
+      const inner = peek();
+      if (inner?.kind === "number") {
+        next();
+        if (inner.value < 1) throw new Error("Invalid selector: positions start at 1");
+        position = inner.value;
+      } else {
+        checks.push(orExpression());
+      }
+      expect("]");
+    }
+
+    return { predicate: (e) => checks.every((check) => check(e)), position };
+  };
+
+  const unary = (): Predicate => {
+    if (isName("not")) {
+      next();
+      expect("(");
+      const inner = orExpression();
+      expect(")");
+      return (e) => !inner(e);
+    }
+
+    if (isPunct("(")) {
+      next();
+      const inner = orExpression();
+      expect(")");
+      return inner;
+    }
+
+    if (isPunct(".//") || isPunct("./")) {
+      const axis = next().value;
+      const relative = step();
+      if (relative.position !== undefined) {
+        throw new Error("Invalid selector: positions are not supported inside predicates");
+      }
+      return axis === ".//"
+        ? descendantMatcher(relative.predicate)
+        : (e) => e.node.children.some((child) => relative.predicate({ node: child, parent: e }));
+    }
+
+    const token = peek();
+    if (token?.kind === "name" && ["contains", "starts-with", "matches"].includes(token.value)) {
+      next();
+      expect("(");
+      const getter = attribute();
+      expect(",");
+      const value = literal();
+      expect(")");
+
+      if (token.value === "starts-with") {
+        return (e) => getter(e.node).startsWith(value);
+      }
+      const matches = stringMatcher(value, token.value === "matches" ? "regex" : "contains");
+      return (e) => matches(getter(e.node));
+    }
+
+    const getter = attribute();
+    const operator = next();
+    if (operator.kind !== "punct" || (operator.value !== "=" && operator.value !== "!=")) {
+      throw new Error("Invalid selector: expected '=' or '!='");
+    }
+    const value = literal();
+    return operator.value === "="
+      ? (e) => getter(e.node) === value
+      : (e) => getter(e.node) !== value;
+  };
+
+  const andExpression = (): Predicate => {
+    const terms = [unary()];
+    while (isName("and")) {
+      next();
+      terms.push(unary());
+    }
+    return terms.length === 1 ? terms[0] : (e) => terms.every((p) => p(e));
+  };
+
+  function orExpression(): Predicate {
+    const alternatives = [andExpression()];
+    while (isName("or")) {
+      next();
+      alternatives.push(andExpression());
+    }
+    return alternatives.length === 1 ? alternatives[0] : (e) => alternatives.some((p) => p(e));
+  }
+
+  let predicate: Predicate | null = null;
+  let nth: number | undefined;
+
+  while (pos < tokens.length) {
+    const axis = next();
+    if (axis.kind !== "punct" || (axis.value !== "/" && axis.value !== "//")) {
+      throw new Error("Invalid selector: expected '/' or '//' before each step");
+    }
+    const current = step();
+    if (current.position !== undefined) {
+      if (pos < tokens.length) {
+        throw new Error("Invalid selector: a position [n] is only supported on the last step");
+      }
+      nth = current.position - 1;
+    }
+
+    predicate = chainStep(predicate, axis.value, current.predicate);
+  }
+
+  if (!predicate) throw new Error("Invalid selector: empty selector");
+  return { predicate, nth };
+}
+
+/**
+ * Compile an XPath-like selector string. A trailing [n] (1-based) picks the
+ * nth match overall.
+ */
+export function parseSelectorString(input: string): CompiledSelector {
+  if (input.length > MAX_SELECTOR_LENGTH) {
+    throw new Error(`Selector too long (max ${MAX_SELECTOR_LENGTH} chars)`);
+  }
+  return parseTokens(tokenize(input));
+}
+
+// ============================================================================
+// TOOL ARGUMENTS
+// ============================================================================
+
+/**
+ * Build a selector from tool arguments, validating types and lengths.
+ * The string form is taken from `selector`.
+ */
+export function parseSelectorArgs(args: Record<string, unknown>, depth: number = 0): Selector {
+  if (depth > MAX_SELECTOR_DEPTH) {
+    throw new Error(`Selector nesting exceeds maximum depth (${MAX_SELECTOR_DEPTH})`);
+  }
+
+  const selector: Selector = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = args[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || value.length > MAX_SELECTOR_LENGTH) {
+      throw new Error(`Invalid selector: '${field}' must be a string of at most ${MAX_SELECTOR_LENGTH} chars`);
+    }
+    selector[field] = value;
+  }
+
+  for (const state of STATE_PREDICATES) {
+    const value = args[state];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      throw new Error(`Invalid selector: '${state}' must be a boolean`);
+    }
+    selector[state] = value;
+  }
+
+  if (args.match !== undefined) {
+    if (!MATCH_MODES.includes(args.match as MatchMode)) {
+      throw new Error(`Invalid selector: 'match' must be one of ${MATCH_MODES.join(", ")}`);
+    }
+    selector.match = args.match as MatchMode;
+  }
+
+  if (args.nth !== undefined) {
+    if (typeof args.nth !== "number" || !Number.isInteger(args.nth) || args.nth < 0) {
+      throw new Error("Invalid selector: 'nth' must be a non-negative integer");
+    }
+    selector.nth = args.nth;
+  }
+
+  const selectorString = args.selector ?? args.xpath;
+  if (selectorString !== undefined) {
+    if (typeof selectorString !== "string" || selectorString.length > MAX_SELECTOR_LENGTH) {
+      throw new Error(`Invalid selector: string form must be at most ${MAX_SELECTOR_LENGTH} chars`);
+    }
+    selector.xpath = selectorString;
+  }
+
+  for (const relation of ["ancestor", "descendant"] as const) {
+    const value = args[relation];
+    if (value === undefined) continue;
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Invalid selector: '${relation}' must be an object`);
+    }
+    selector[relation] = parseSelectorArgs(value as Record<string, unknown>, depth + 1);
+  }
+
+  if (args.anyOf !== undefined) {
+    if (!Array.isArray(args.anyOf) || args.anyOf.length > MAX_ALTERNATIVES ||
+        !args.anyOf.every((a) => typeof a === "object" && a !== null)) {
+      throw new Error(`Invalid selector: 'anyOf' must be an array of at most ${MAX_ALTERNATIVES} selectors`);
+    }
+    selector.anyOf = args.anyOf.map((a) => parseSelectorArgs(a as Record<string, unknown>, depth + 1));
+  }
+
+  return selector;
+}
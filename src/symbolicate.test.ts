@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  parseJsStack,
+  decodeVlq,
+  parseSourceMap,
+  originalPositionFor,
+  symbolicateWithSourceMap,
+  symbolicateWithMetro,
+} from "./symbolicate.js";
+
+const BUNDLE = "http://10.0.2.2:8081/index.bundle?platform=android&dev=true";
+
+// Line 1: col 0 -> App.tsx 1:0, col 10 -> App.tsx 3:4 (handlePress); line 2: col 0 -> App.tsx 4:4
+const SOURCE_MAP = JSON.stringify({
+  version: 3,
+  sources: ["src/App.tsx"],
+  names: ["handlePress"],
+  mappings: "AAAA,UAEIA;AACA",
+});
+
+// ============================================================================
+// STACK PARSING TESTS
+// ============================================================================
+
+describe("parseJsStack()", () => {
+  it("should parse Hermes frames", () => {
+    const frames = parseJsStack([
+      "TypeError: undefined is not a function",
+      `    at handlePress (${BUNDLE}:1:13)`,
+      "    at anonymous (address at index.android.bundle:1:2345)",
+    ].join("\n"));
+
+    expect(frames).toEqual([
+      { methodName: "handlePress", file: BUNDLE, lineNumber: 1, column: 13 },
+      { methodName: "anonymous", file: "index.android.bundle", lineNumber: 1, column: 2345 },
+    ]);
+  });
+
+  it("should parse JSC frames and anonymous frames", () => {
+    const frames = parseJsStack(`render@${BUNDLE}:2:1\n    at ${BUNDLE}:5:9`);
+    expect(frames[0]).toEqual({ methodName: "render", file: BUNDLE, lineNumber: 2, column: 1 });
+    expect(frames[1]).toMatchObject({ methodName: "<anonymous>", lineNumber: 5, column: 9 });
+  });
+
+  it("should skip non-frame lines", () => {
+    expect(parseJsStack("Error: boom\nThis error is located at:\n    in App")).toEqual([]);
+  });
+});
+
+// ============================================================================
+// SOURCE MAP TESTS
+// ============================================================================
+
+describe("decodeVlq()", () => {
+  it("should decode positive, negative and multi-digit values", () => {
+    expect(decodeVlq("UAEIA")).toEqual([10, 0, 2, 4, 0]);
+    expect(decodeVlq("D")).toEqual([-1]);
+    expect(decodeVlq("gB")).toEqual([16]);
+  });
+
+  it("should reject invalid characters", () => {
+    expect(() => decodeVlq("A!")).toThrow("Invalid VLQ character");
+  });
+});
+
+describe("source map lookup", () => {
+  const map = parseSourceMap(SOURCE_MAP);
+
+  it("should find the closest mapping at or before the column", () => {
+    expect(originalPositionFor(map, 1, 12)).toEqual({ source: "src/App.tsx", line: 3, column: 4, name: "handlePress" });
+    expect(originalPositionFor(map, 1, 5)).toMatchObject({ line: 1, column: 0 });
+    expect(originalPositionFor(map, 2, 0)).toMatchObject({ line: 4, column: 4 });
+  });
+
+  it("should return null for unmapped lines", () => {
+    expect(originalPositionFor(map, 9, 0)).toBeNull();
+  });
+
+  it("should reject unsupported maps", () => {
+    expect(() => parseSourceMap(JSON.stringify({ version: 2, mappings: "" }))).toThrow("Unsupported source map");
+  });
+
+  it("should symbolicate frames with 1-based columns", () => {
+    const frames = symbolicateWithSourceMap(
+      [
+        { methodName: "a", file: BUNDLE, lineNumber: 1, column: 13 },
+        { methodName: "b", file: BUNDLE, lineNumber: 7, column: 1 },
+      ],
+      map
+    );
+    expect(frames[0]).toEqual({ methodName: "handlePress", file: "src/App.tsx", lineNumber: 3, column: 4, symbolicated: true });
+    expect(frames[1]).toEqual({ methodName: "b", file: BUNDLE, lineNumber: 7, column: 1, symbolicated: false });
+  });
+});
+
+// ============================================================================
+// METRO TESTS
+// ============================================================================
+
+describe("symbolicateWithMetro()", () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  const startServer = (handler: http.RequestListener): Promise<number> => {
+    server = http.createServer(handler);
+    return new Promise((resolve) => server!.listen(0, "127.0.0.1", () => resolve((server!.address() as AddressInfo).port)));
+  };
+
+  it("should post frames and return Metro's original positions", async () => {
+    let received: any;
+    const port = await startServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received = { method: req.method, url: req.url, body: JSON.parse(body) };
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({
+          stack: [{ methodName: "handlePress", file: "/app/src/App.tsx", lineNumber: 3, column: 4 }],
+          codeFrame: { content: "> 3 |     handlePress()" },
+        }));
+      });
+    });
+
+    const frame = { methodName: "a", file: BUNDLE, lineNumber: 1, column: 13 };
+    const result = await symbolicateWithMetro([frame], port, "127.0.0.1");
+
+    expect(received).toEqual({ method: "POST", url: "/symbolicate", body: { stack: [frame] } });
+    expect(result.frames).toEqual([
+      { methodName: "handlePress", file: "/app/src/App.tsx", lineNumber: 3, column: 4, symbolicated: true },
+    ]);
+    expect(result.codeFrame).toBe("> 3 |     handlePress()");
+  });
+
+  it("should reject on HTTP errors", async () => {
+    const port = await startServer((_req, res) => {
+      res.writeHead(500);
+      res.end();
+    });
+
+    await expect(symbolicateWithMetro([], port, "127.0.0.1")).rejects.toThrow("HTTP 500");
+  });
+});
@@ -0,0 +1,279 @@
+// Mobile Dev MCP - React Native Stack Symbolication
+// Maps bundle positions in JS stack traces back to original sources, using
+// Metro's /symbolicate endpoint or, offline, a source map file.
+
+import * as fs from "fs";
+import * as http from "http";
+
+export interface StackFrame {
+  methodName: string;
+  file: string;
+  /** 1-based line, as printed by the JS engine */
+  lineNumber: number;
+  /** Column as printed by the JS engine (1-based) */
+  column: number;
+}
+
+// Body of Metro's POST /symbolicate response
+interface MetroSymbolicateResponse {
+  stack?: Array<Partial<StackFrame>>;
+  codeFrame?: { content?: string };
+}
+
+export interface SymbolicatedFrame extends StackFrame {
+  /** False when no mapping was found and the bundle position is returned as-is */
+  symbolicated: boolean;
+}
+
+// Hermes/V8: "at fn (http://host:8081/index.bundle?...:12:34)", "at fn (address at index.android.bundle:1:234)"
+const AT_FRAME_REGEX = /^\s*at\s+(?:(.*?)\s+\()?(?:address at\s+)?(.+?):(\d+):(\d+)\)?\s*$/;
+// JSC: "fn@http://host:8081/index.bundle?...:12:34"
+const AT_SIGN_FRAME_REGEX = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+export const MAX_SOURCE_MAP_SIZE = 100 * 1024 * 1024;  // 100MB
+export const MAX_STACK_FRAMES = 100;
+
+/**
+ * Extract frames from a raw JS stack (Hermes, V8 or JSC formats).
+ * Lines that are not frames (the error message, "This error is located at") are skipped.
+ */
+export function parseJsStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const line of stack.split(/\r?\n/)) {
+    const match = line.match(AT_FRAME_REGEX) ?? line.match(AT_SIGN_FRAME_REGEX);
+    if (!match) continue;
+    const [, methodName, file, lineNumber, column] = match;
+    if (!file || file.includes(" ")) continue;
+    frames.push({
+      methodName: methodName?.trim() || "<anonymous>",
+      file,
+      lineNumber: Number(lineNumber),
+      column: Number(column),
+    });
+    if (frames.length >= MAX_STACK_FRAMES) break;
+  }
+  return frames;
+}
+
+// ============================================================================
+// METRO
+// ============================================================================
+
+/**
+ * POST frames to Metro's /symbolicate endpoint (same payload the RN runtime sends)
+ */
+export function symbolicateWithMetro(
+  frames: StackFrame[],
+  port: number,
+  host: string = "localhost",
+  timeoutMs: number = 5000
+): Promise<{ frames: SymbolicatedFrame[]; codeFrame?: string }> {
+  const body = JSON.stringify({ stack: frames });
+
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host,
+        port,
+        path: "/symbolicate",
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+      },
+      (res) => {
+        let data = "";
+        const MAX_RESPONSE_SIZE = 10 * 1024 * 1024;
+        res.setEncoding("utf-8");
+        res.on("data", (chunk) => {
+          data += chunk;
+          if (data.length > MAX_RESPONSE_SIZE) {
+            req.destroy(new Error("Metro symbolication response too large"));
+          }
+        });
+        res.on("end", () => {
+          if (res.statusCode !== 200) {
+            reject(new Error(`Metro returned HTTP ${res.statusCode}`));
+            return;
+          }
+          try {
+            const response: MetroSymbolicateResponse = JSON.parse(data);
+            const symbolicated: SymbolicatedFrame[] = (response.stack || []).map((frame, i) => {
+              const original = frames[i];
+              return {
+                methodName: frame.methodName ?? original?.methodName ?? "<anonymous>",
+                file: frame.file ?? original?.file ?? "",
+                lineNumber: frame.lineNumber ?? original?.lineNumber ?? 0,
+                column: frame.column ?? original?.column ?? 0,
+                symbolicated: !!frame.file && frame.file !== original?.file,
+              };
+            });
+            resolve({ frames: symbolicated, codeFrame: response.codeFrame?.content });
+          } catch (error: any) {
+            reject(new Error(`Invalid symbolication response: ${error.message}`));
+          }
+        });
+      }
+    );
+
+    req.on("error", reject);
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`Metro did not respond within ${timeoutMs}ms`)));
+    req.write(body);
+    req.end();
+  });
+}
+
+// ============================================================================
+// SOURCE MAPS (offline fallback)
+// ============================================================================
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((c, i) => [c, i]));
+
+/**
+ * Decode one Base64 VLQ segment ("AAgBC") into its numeric fields
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid VLQ character '${char}'`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+interface Mapping {
+  generatedColumn: number;
+  source: number;
+  originalLine: number;
+  originalColumn: number;
+  name?: number;
+}
+
+export interface SourceMap {
+  sources: string[];
+  names: string[];
+  /** Mappings per generated line (0-based), sorted by generated column */
+  lines: Mapping[][];
+}
+
+export function parseSourceMap(json: string): SourceMap {
+  const raw = JSON.parse(json);
+  if (raw.version !== 3 || typeof raw.mappings !== "string") {
+    throw new Error("Unsupported source map (expected version 3 with mappings)");
+  }
+
+  const sourceRoot = raw.sourceRoot ? String(raw.sourceRoot).replace(/\/?$/, "/") : "";
+  const sources: string[] = (raw.sources || []).map((s: string) => sourceRoot + s);
+  const lines: Mapping[][] = [];
+
+  // Source, original line/column and name are deltas across the whole map
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  for (const lineText of raw.mappings.split(";")) {
+    const segments: Mapping[] = [];
+    let generatedColumn = 0;
+
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) continue;
+      const fields = decodeVlq(segmentText);
+      generatedColumn += fields[0];
+      if (fields.length < 4) continue;  // Segment without an original position
+
+      source += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      const mapping: Mapping = { generatedColumn, source, originalLine, originalColumn };
+      if (fields.length >= 5) {
+        name += fields[4];
+        mapping.name = name;
+      }
+      segments.push(mapping);
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+
+  return { sources, names: raw.names || [], lines };
+}
+
+export function loadSourceMap(filePath: string): SourceMap {
+  const stats = fs.statSync(filePath);
+  if (!stats.isFile()) {
+    throw new Error("Source map path is not a file");
+  }
+  if (stats.size > MAX_SOURCE_MAP_SIZE) {
+    throw new Error(`Source map exceeds maximum size (${MAX_SOURCE_MAP_SIZE} bytes)`);
+  }
+  return parseSourceMap(fs.readFileSync(filePath, "utf-8"));
+}
+
+/**
+ * Find the original position for a generated position (1-based line, 0-based column):
+ * the closest mapping at or before the column on that line.
+ */
+export function originalPositionFor(
+  map: SourceMap,
+  line: number,
+  column: number
+): { source: string; line: number; column: number; name?: string } | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) return null;
+
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].generatedColumn <= column) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (found < 0) return null;
+
+  const mapping = segments[found];
+  return {
+    source: map.sources[mapping.source] ?? "",
+    line: mapping.originalLine + 1,
+    column: mapping.originalColumn,
+    name: mapping.name !== undefined ? map.names[mapping.name] : undefined,
+  };
+}
+
+export function symbolicateWithSourceMap(frames: StackFrame[], map: SourceMap): SymbolicatedFrame[] {
+  return frames.map((frame) => {
+    // Engines print 1-based columns; source maps use 0-based columns
+    const position = originalPositionFor(map, frame.lineNumber, Math.max(0, frame.column - 1));
+    if (!position) {
+      return { ...frame, symbolicated: false };
+    }
+    return {
+      methodName: position.name ?? frame.methodName,
+      file: position.source,
+      lineNumber: position.line,
+      column: position.column,
+      symbolicated: true,
+    };
+  });
+}
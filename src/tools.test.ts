@@ -1,10 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import { handleTool, tools } from "./tools.js";
+import { createFakeBackend, setBackend, getBackend } from "./backend.js";
+import { clearUiSnapshots } from "./uiSnapshots.js";
+import { clearPerformanceSeries } from "./performanceTrend.js";
+import { stopNetworkProxy } from "./networkProxy.js";
+import { createImage, encodePng } from "./png.js";
+import { PerformanceTrend } from "./types.js";
 
 /**
  * Tool Implementation Tests
  *
- * These tests verify the tool definitions and input schemas
- * without executing actual ADB commands.
+ * These tests verify the tool definitions and input schemas, and run the
+ * handlers against a scripted fake backend instead of real ADB commands.
  */
 
 // ============================================================================
@@ -16,7 +27,7 @@ describe("Tool Input Schemas", () => {
   const freeToolSchemas = {
     screenshot_emulator: {
       requiredParams: [],
-      optionalParams: ["device"],
+      optionalParams: ["device", "maxDimension", "format", "quality", "crop", "cropToElement", "annotate"],
     },
     list_devices: {
       requiredParams: [],
@@ -28,11 +39,11 @@ describe("Tool Input Schemas", () => {
     },
     get_app_info: {
       requiredParams: ["packageName"],
-      optionalParams: [],
+      optionalParams: ["sections"],
     },
     get_adb_logs: {
       requiredParams: [],
-      optionalParams: ["lines", "filter", "level"],
+      optionalParams: ["lines", "filter", "tags", "level", "packageName", "pattern", "since", "until", "format"],
     },
     get_metro_logs: {
       requiredParams: [],
@@ -48,12 +59,12 @@ describe("Tool Input Schemas", () => {
     },
   };
 
-  // Advanced tier tools - iOS + UI inspection + analysis (13 tools)
+  // Advanced tier tools - iOS + recording + log capture + UI inspection + analysis (31 tools)
   const advancedToolSchemas = {
     // iOS Support (4 tools)
     screenshot_ios_simulator: {
       requiredParams: [],
-      optionalParams: ["udid"],
+      optionalParams: ["udid", "maxDimension", "format", "quality", "crop"],
     },
     list_ios_simulators: {
       requiredParams: [],
@@ -67,40 +78,120 @@ describe("Tool Input Schemas", () => {
       requiredParams: [],
       optionalParams: ["lines", "filter"],
     },
-    // UI Inspection (5 tools)
+    // Screen Recording (1 tool)
+    get_screen_recording: {
+      requiredParams: [],
+      optionalParams: ["platform", "device", "udid", "duration", "output", "frameCount", "maxDimension", "format", "quality", "crop"],
+    },
+    // Log Capture (3 tools)
+    start_log_capture: {
+      requiredParams: [],
+      optionalParams: ["platform", "device", "udid", "bufferSize"],
+    },
+    get_captured_logs: {
+      requiredParams: ["sessionId"],
+      optionalParams: ["cursor", "lines"],
+    },
+    stop_log_capture: {
+      requiredParams: ["sessionId"],
+      optionalParams: [],
+    },
+    // Crash Detection (1 tool)
+    get_crash_reports: {
+      requiredParams: [],
+      optionalParams: ["packageName", "types", "since", "limit", "device"],
+    },
+    // JS Symbolication (1 tool)
+    get_symbolicated_stack: {
+      requiredParams: [],
+      optionalParams: ["stack", "packageName", "sourceMapPath", "device"],
+    },
+    // UI Inspection (6 tools)
     get_ui_tree: {
       requiredParams: [],
-      optionalParams: ["device"],
+      optionalParams: ["device", "compressed", "hierarchical", "udid"],
     },
     find_element: {
       requiredParams: [],
-      optionalParams: ["text", "resourceId", "contentDescription", "className", "device"],
+      optionalParams: ["selector", "text", "resourceId", "contentDescription", "className", "match", "nth", "all", "device", "udid"],
     },
     wait_for_element: {
       requiredParams: [],
-      optionalParams: ["text", "resourceId", "contentDescription", "className", "timeout", "pollInterval", "device"],
+      optionalParams: ["selector", "text", "resourceId", "contentDescription", "className", "match", "nth", "all", "timeout", "device", "udid"],
     },
     get_element_property: {
       requiredParams: ["property"],
-      optionalParams: ["text", "resourceId", "contentDescription", "className", "device"],
+      optionalParams: ["selector", "text", "resourceId", "contentDescription", "className", "match", "nth", "all", "device", "udid"],
     },
     assert_element: {
-      requiredParams: ["assertion"],
-      optionalParams: ["text", "resourceId", "contentDescription", "className", "device"],
+      requiredParams: [],
+      optionalParams: ["selector", "text", "resourceId", "contentDescription", "className", "match", "nth", "all", "shouldExist", "isEnabled", "isChecked", "device", "udid"],
+    },
+    get_ui_diff: {
+      requiredParams: ["fromSnapshotId"],
+      optionalParams: ["toSnapshotId", "includeLayout", "device", "udid"],
+    },
+    // Visual Regression (3 tools)
+    save_screenshot_baseline: {
+      requiredParams: ["name"],
+      optionalParams: ["platform", "device", "udid", "overwrite"],
+    },
+    compare_screenshot: {
+      requiredParams: ["name"],
+      optionalParams: ["platform", "device", "udid", "threshold", "maxDiffPercent", "ignoreRegions"],
+    },
+    list_screenshot_baselines: {
+      requiredParams: [],
+      optionalParams: [],
     },
     // Screen Analysis (3 tools)
     suggest_action: {
-      requiredParams: [],
-      optionalParams: ["context", "device"],
+      requiredParams: ["goal"],
+      optionalParams: ["snapshotId", "refresh", "limit", "device", "udid"],
     },
     analyze_screen: {
       requiredParams: [],
-      optionalParams: ["device"],
+      optionalParams: ["device", "udid"],
     },
     get_screen_text: {
       requiredParams: [],
+      optionalParams: ["device", "udid"],
+    },
+    // Accessibility (2 tools)
+    audit_accessibility: {
+      requiredParams: [],
+      optionalParams: ["snapshotId", "refresh", "device", "minSeverity", "udid"],
+    },
+    check_color_contrast: {
+      requiredParams: [],
+      optionalParams: ["device", "level", "includePassing", "refresh", "udid"],
+    },
+    // Performance (2 tools)
+    get_performance_snapshot: {
+      requiredParams: ["packageName"],
       optionalParams: ["device"],
     },
+    get_performance_trend: {
+      requiredParams: ["packageName"],
+      optionalParams: ["duration", "interval", "reset", "device"],
+    },
+    // Network Capture (4 tools)
+    start_network_capture: {
+      requiredParams: [],
+      optionalParams: ["port", "bufferSize", "device"],
+    },
+    list_network_requests: {
+      requiredParams: [],
+      optionalParams: ["method", "filter", "status", "errorsOnly", "limit"],
+    },
+    get_network_request: {
+      requiredParams: ["id"],
+      optionalParams: [],
+    },
+    stop_network_capture: {
+      requiredParams: [],
+      optionalParams: [],
+    },
     // License (1 tool)
     set_license_key: {
       requiredParams: ["licenseKey"],
@@ -139,8 +230,8 @@ describe("Tool Input Schemas", () => {
       });
     });
 
-    it("should have 13 advanced-only tools", () => {
-      expect(Object.keys(advancedToolSchemas)).toHaveLength(13);
+    it("should have 31 advanced-only tools", () => {
+      expect(Object.keys(advancedToolSchemas)).toHaveLength(31);
     });
   });
 });
@@ -374,6 +465,7 @@ describe("Read-Only Tool Verification", () => {
     const allToolNames = [
       "screenshot_emulator",
       "screenshot_ios_simulator",
+      "get_screen_recording",
       "list_devices",
       "list_ios_simulators",
       "get_device_info",
@@ -384,14 +476,31 @@ describe("Read-Only Tool Verification", () => {
       "get_ios_simulator_logs",
       "check_metro_status",
       "get_license_status",
+      "start_log_capture",
+      "get_captured_logs",
+      "stop_log_capture",
+      "get_crash_reports",
+      "get_symbolicated_stack",
       "get_ui_tree",
       "find_element",
       "wait_for_element",
       "get_element_property",
       "assert_element",
+      "get_ui_diff",
+      "save_screenshot_baseline",
+      "compare_screenshot",
+      "list_screenshot_baselines",
       "suggest_action",
       "analyze_screen",
       "get_screen_text",
+      "audit_accessibility",
+      "check_color_contrast",
+      "get_performance_snapshot",
+      "get_performance_trend",
+      "start_network_capture",
+      "list_network_requests",
+      "get_network_request",
+      "stop_network_capture",
       "set_license_key", // This is acceptable - modifies local config only
     ];
 
@@ -409,11 +518,12 @@ describe("Read-Only Tool Verification", () => {
     });
   });
 
-  it("should have exactly 21 total tools", () => {
+  it("should have exactly 39 total tools", () => {
     const allTools = [
-      // Free (12)
+      // Free (13)
       "screenshot_emulator",
       "screenshot_ios_simulator",
+      "get_screen_recording",
       "list_devices",
       "list_ios_simulators",
       "get_device_info",
@@ -424,18 +534,610 @@ describe("Read-Only Tool Verification", () => {
       "get_ios_simulator_logs",
       "check_metro_status",
       "get_license_status",
-      // Advanced-only (9)
+      // Advanced-only (24)
+      "start_log_capture",
+      "get_captured_logs",
+      "stop_log_capture",
+      "get_crash_reports",
+      "get_symbolicated_stack",
       "get_ui_tree",
       "find_element",
       "wait_for_element",
       "get_element_property",
       "assert_element",
+      "get_ui_diff",
+      "save_screenshot_baseline",
+      "compare_screenshot",
+      "list_screenshot_baselines",
       "suggest_action",
       "analyze_screen",
       "get_screen_text",
+      "audit_accessibility",
+      "check_color_contrast",
+      "get_performance_snapshot",
+      "get_performance_trend",
+      "start_network_capture",
+      "list_network_requests",
+      "get_network_request",
+      "stop_network_capture",
       "set_license_key",
     ];
 
-    expect(allTools).toHaveLength(21);
+    expect(allTools).toHaveLength(39);
+  });
+});
+
+// ============================================================================
+// TOOL HANDLERS (FAKE BACKEND)
+// ============================================================================
+
+const LOGIN_SCREEN_XML = `<?xml version='1.0' encoding='UTF-8' standalone='yes' ?>
+<hierarchy rotation="0">
+<node index="0" text="" resource-id="" class="android.widget.FrameLayout" content-desc="" clickable="false" enabled="true" focused="false" selected="false" checked="false" scrollable="false" bounds="[0,0][1080,2400]">
+<node index="0" text="Email" resource-id="com.example:id/email" class="android.widget.EditText" content-desc="" clickable="true" enabled="true" focused="true" selected="false" checked="false" scrollable="false" bounds="[60,400][1020,520]" />
+<node index="1" text="Sign in" resource-id="com.example:id/login_button" class="android.widget.Button" content-desc="" clickable="true" enabled="true" focused="false" selected="false" checked="false" scrollable="false" bounds="[60,700][1020,820]" />
+</node>
+</hierarchy>`;
+
+describe("Tool Handlers (fake backend)", () => {
+  beforeEach(() => {
+    setBackend("android", createFakeBackend("android", {
+      devices: [{ id: "emulator-5554", status: "device", type: "emulator" }],
+      properties: {
+        "emulator-5554": fs.readFileSync(new URL("./__fixtures__/android-emulator-props.txt", import.meta.url), "utf-8"),
+      },
+      screenshot: "iVBORw0KGgo=",
+      uiHierarchy: LOGIN_SCREEN_XML,
+      logs: [
+        "01-15 10:23:45.100  4321  4350 I ReactNativeJS: Running \"main\"",
+        "01-15 10:23:46.200  4321  4350 E ReactNativeJS: TypeError: undefined is not a function",
+        "01-15 10:23:46.300  999  999 E ReactNativeJS: from another app",
+        "01-15 10:23:47.000  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main",
+      ].join("\n"),
+      pids: { "com.example": [4321] },
+      packages: { "com.example": "Package [com.example]\n  versionName=1.2.3" },
+      performance: { "com.example": fs.readFileSync(new URL("./__fixtures__/performance.txt", import.meta.url), "utf-8") },
+    }));
+    setBackend("ios", createFakeBackend("ios", {
+      devices: [{ id: "AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE", status: "Booted", type: "simulator", name: "iPhone 15", runtime: "iOS-17-2" }],
+      details: {
+        "AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE": { deviceType: "com.apple.CoreSimulator.SimDeviceType.iPhone-15", isAvailable: true },
+      },
+      screenshot: "iVBORw0KGgo=",
+    }));
+  });
+
+  afterEach(() => {
+    setBackend("android", null);
+    setBackend("ios", null);
+    clearUiSnapshots();
+    clearPerformanceSeries();
+    stopNetworkProxy();
+  });
+
+  it("should return the fake screenshot as an image", async () => {
+    const result = await handleTool("screenshot_emulator", {}, "free");
+    expect(result.content[1]).toEqual({ type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" });
+  });
+
+  it("should downscale, crop and annotate screenshots", async () => {
+    setBackend("android", createFakeBackend("android", {
+      devices: [{ id: "emulator-5554", status: "device", type: "emulator" }],
+      screenshot: encodePng(createImage(1080, 2400)).toString("base64"),
+      uiHierarchy: LOGIN_SCREEN_XML,
+    }));
+
+    const resized = await handleTool("screenshot_emulator", { maxDimension: 600, format: "jpeg" }, "free");
+    expect(JSON.parse(resized.content[0].text!.split("\n").slice(1).join("\n"))).toMatchObject({
+      width: 270,
+      height: 600,
+      mimeType: "image/jpeg",
+      scale: 0.25,
+    });
+    expect(resized.content[1].mimeType).toBe("image/jpeg");
+
+    const cropped = await handleTool("screenshot_emulator", { cropToElement: "//Button[@text='Sign in']", annotate: true }, "free");
+    const details = JSON.parse(cropped.content[0].text!.split("\n").slice(1).join("\n"));
+    expect(details.region).toEqual({ x: 60, y: 700, width: 960, height: 120 });
+    expect(details.elements).toEqual([expect.objectContaining({ number: 1, text: "Sign in" })]);
+    expect(details.snapshotId).toBeDefined();
+
+    const missing = await handleTool("screenshot_emulator", { cropToElement: "//Switch" }, "free");
+    expect(missing.content[0].text).toContain("No element matches");
+
+    const invalid = await handleTool("screenshot_emulator", { format: "gif" }, "free");
+    expect(invalid.content[0].text).toContain("format must be one of png, jpeg, webp");
+
+    const lossyWebp = await handleTool("screenshot_emulator", { format: "webp", quality: 50 }, "free");
+    expect(lossyWebp.content[0].text).toContain("quality does not apply to webp");
+  });
+
+  it("should list fake devices", async () => {
+    const result = await handleTool("list_devices", {}, "free");
+    expect(result.content[0].text).toContain("emulator-5554 - device");
+  });
+
+  it("should report device details", async () => {
+    const result = await handleTool("get_device_info", {}, "free");
+    expect(JSON.parse(result.content[0].text!)).toEqual(result.structuredContent);
+    expect(result.structuredContent).toMatchObject({
+      id: "emulator-5554",
+      apiLevel: 34,
+      isEmulator: true,
+      screen: { width: 1080, height: 2400, density: 480 },
+    });
+  });
+
+  it("should surface unknown devices as errors", async () => {
+    const result = await handleTool("get_device_info", { device: "emulator-9999" }, "free");
+    expect(result.content[0].text).toContain("Device 'emulator-9999' not found");
+  });
+
+  it("should read app info", async () => {
+    const result = await handleTool("get_app_info", { packageName: "com.example" }, "free");
+    expect(JSON.parse(result.content[0].text!)).toMatchObject({ packageName: "com.example", versionName: "1.2.3" });
+
+    const version = await handleTool("get_app_info", { packageName: "com.example", sections: ["version"] }, "free");
+    expect(version.structuredContent).toEqual({ packageName: "com.example", sections: ["version"], versionName: "1.2.3" });
+
+    const invalid = await handleTool("get_app_info", { packageName: "com.example", sections: ["secrets"] }, "free");
+    expect(invalid.content[0].text).toBe("sections must be a list of version, install, permissions, components, flags");
+    expect(invalid.isError).toBe(true);
+  });
+
+  it("should report app performance", async () => {
+    const result = await handleTool("get_performance_snapshot", { packageName: "com.example" }, "advanced");
+    expect(JSON.parse(result.content[0].text!)).toEqual(result.structuredContent);
+    expect(result.structuredContent).toMatchObject({
+      pid: 4321,
+      cpu: { percent: 42 },
+      memory: { totalPssKb: 71764 },
+      frames: { jankyPercent: 5.72 },
+    });
+
+    const stopped = await handleTool("get_performance_snapshot", { packageName: "com.stopped" }, "advanced");
+    expect(stopped.content[0].text).toBe("com.stopped is not running (no process found)");
+  });
+
+  it("should sample a performance trend within the tier limits", async () => {
+    const stats = fs.readFileSync(new URL("./__fixtures__/performance.txt", import.meta.url), "utf-8");
+    setBackend("android", createFakeBackend("android", {
+      pids: { "com.example": [4321] },
+      performance: { "com.example": [stats, stats.replace("TOTAL PSS:    71764", "TOTAL PSS:    81004")] },
+    }));
+
+    const result = await handleTool("get_performance_trend", { packageName: "com.example", duration: 1, interval: 1 }, "advanced");
+    expect(JSON.parse(result.content[0].text!)).toEqual(result.structuredContent);
+    const trend = result.structuredContent as PerformanceTrend;
+    expect(trend.sampleCount).toBe(2);
+    expect(trend.samples.map((s) => s.pssMb)).toEqual([70.08, 79.11]);
+    expect(trend.metrics.pssMb!.slopePerMinute).toBeGreaterThan(0);
+
+    // The series carries over to the next call
+    const next = await handleTool("get_performance_trend", { packageName: "com.example", duration: 0 }, "advanced");
+    expect(next.structuredContent!.sampleCount).toBe(3);
+
+    const tooLong = await handleTool("get_performance_trend", { packageName: "com.example", duration: 46 }, "advanced");
+    expect(tooLong.content[0].text).toBe("duration must be a whole number of seconds from 0 to 45 on the ADVANCED tier");
+    const stopped = await handleTool("get_performance_trend", { packageName: "com.stopped", duration: 0 }, "advanced");
+    expect(stopped.content[0].text).toBe("com.stopped is not running (no process found)");
+  });
+
+  it("should stop sampling a performance trend at the duration when samples are slow", async () => {
+    const stats = fs.readFileSync(new URL("./__fixtures__/performance.txt", import.meta.url), "utf-8");
+    const backend = createFakeBackend("android", {
+      pids: { "com.example": [4321] },
+      performance: { "com.example": stats },
+    });
+    const getPerformanceStats = backend.getPerformanceStats.bind(backend);
+    backend.getPerformanceStats = async (...params) => {
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+      return getPerformanceStats(...params);
+    };
+    setBackend("android", backend);
+
+    vi.useFakeTimers();
+    try {
+      const start = Date.now();
+      const pending = handleTool("get_performance_trend", { packageName: "com.example", duration: 10, interval: 1 }, "advanced");
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      expect(result.structuredContent!.sampleCount).toBe(4);
+      expect(Date.now() - start).toBeLessThanOrEqual(12_500);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should capture network requests through the proxy", async () => {
+    const notRunning = await handleTool("list_network_requests", {}, "advanced");
+    expect(notRunning.content[0].text).toBe("Network capture is not running. Start it with start_network_capture.");
+
+    const upstream = http.createServer((req, res) => {
+      res.writeHead(req.url === "/missing" ? 404 : 200, { "content-type": "application/json" });
+      res.end('{"ok":true}');
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+    try {
+      const started = await handleTool("start_network_capture", { port: 0, device: "emulator-5554" }, "advanced");
+      const info = JSON.parse(started.content[0].text!);
+      const port = Number(info.proxy.split(":")[1]);
+      expect(info.setup).toEqual([
+        `adb -s emulator-5554 reverse tcp:${port} tcp:${port}`,
+        `adb -s emulator-5554 shell settings put global http_proxy 127.0.0.1:${port}`,
+      ]);
+
+      for (const path of ["/items", "/missing"]) {
+        await new Promise<void>((resolve, reject) => {
+          http.get({ host: "127.0.0.1", port, path: `${base}${path}`, agent: false }, (res) => {
+            res.resume();
+            res.on("end", resolve);
+          }).on("error", reject);
+        });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const listed = JSON.parse((await handleTool("list_network_requests", { status: "4xx" }, "advanced")).content[0].text!);
+      expect(listed).toMatchObject({ recorded: 2, matched: 1, requests: [{ id: 2, method: "GET", url: `${base}/missing`, status: 404, responseSize: 11 }] });
+
+      const exchange = JSON.parse((await handleTool("get_network_request", { id: 1 }, "advanced")).content[0].text!);
+      expect(exchange).toMatchObject({ status: 200, responseBody: { encoding: "utf8", data: '{"ok":true}' } });
+
+      const missing = await handleTool("get_network_request", { id: 9 }, "advanced");
+      expect(missing.content[0].text).toBe("Request 9 not found (it may have dropped out of the buffer)");
+      const badStatus = await handleTool("list_network_requests", { status: "error" }, "advanced");
+      expect(badStatus.content[0].text).toBe("status must be a code like '404' or a class like '5xx'");
+
+      expect((await handleTool("stop_network_capture", {}, "advanced")).content[0].text).toBe("Network capture stopped");
+    } finally {
+      upstream.closeAllConnections();
+      await new Promise((resolve) => upstream.close(resolve));
+    }
+  });
+
+  it("should read logs", async () => {
+    const result = await handleTool("get_adb_logs", {}, "free");
+    expect(result.content[0].text).toContain("TypeError");
+    expect(result.content[0].text).not.toContain("AndroidRuntime");
+  });
+
+  it("should return structured logs filtered by package, tags and pattern", async () => {
+    const result = await handleTool("get_adb_logs", {
+      packageName: "com.example",
+      tags: ["ReactNativeJS", "AndroidRuntime"],
+      level: "E",
+      pattern: "fatal|typeerror",
+      format: "json",
+    }, "free");
+    const parsed = JSON.parse(result.content[0].text!);
+    expect(parsed.count).toBe(2);
+    expect(parsed.entries[0]).toMatchObject({ pid: 4321, tid: 4350, level: "E", tag: "ReactNativeJS" });
+    expect(parsed.entries[1].tag).toBe("AndroidRuntime");
+  });
+
+  it("should reject invalid log patterns", async () => {
+    const result = await handleTool("get_adb_logs", { pattern: "(" }, "free");
+    expect(result.content[0].text).toContain("Invalid pattern");
+  });
+
+  it("should find elements in the fake UI hierarchy", async () => {
+    const result = await handleTool("find_element", { text: "sign in" }, "advanced");
+    const parsed = JSON.parse(result.content[0].text!);
+    expect(parsed.found).toBe(true);
+    expect(parsed.element.center).toEqual({ x: 540, y: 760 });
+  });
+
+  it("should return the UI hierarchy as a tree", async () => {
+    const result = await handleTool("get_ui_tree", { hierarchical: true }, "advanced");
+    const parsed = JSON.parse(result.content[0].text!);
+    expect(parsed.elementCount).toBe(3);
+    expect(parsed.nodes[0].className).toBe("FrameLayout");
+    expect(parsed.nodes[0].children.map((c: any) => c.text)).toEqual(["Email", "Sign in"]);
+  });
+
+  it("should AND selector fields instead of widening the search", async () => {
+    const result = await handleTool("find_element", { text: "Sign in", resourceId: "email" }, "advanced");
+    expect(JSON.parse(result.content[0].text!).found).toBe(false);
+  });
+
+  it("should return all matches of an XPath-like selector", async () => {
+    const result = await handleTool("find_element", {
+      selector: "//FrameLayout//*[@clickable='true']",
+      all: true,
+    }, "advanced");
+    const parsed = JSON.parse(result.content[0].text!);
+    expect(parsed.count).toBe(2);
+    expect(parsed.elements.map((e: any) => e.text)).toEqual(["Email", "Sign in"]);
+  });
+
+  it("should reject invalid or empty selectors", async () => {
+    const invalid = await handleTool("find_element", { selector: "//Button[@text=" }, "advanced");
+    expect(invalid.content[0].text).toContain("Invalid selector");
+
+    const empty = await handleTool("find_element", {}, "advanced");
+    expect(empty.content[0].text).toContain("Provide a selector");
+  });
+
+  it("should read properties and assert state through selectors", async () => {
+    const property = await handleTool("get_element_property", {
+      className: "EditText",
+      match: "exact",
+      property: "focused",
+    }, "advanced");
+    expect(JSON.parse(property.content[0].text!)).toMatchObject({ focused: true });
+
+    const assertion = await handleTool("assert_element", {
+      anyOf: [{ text: "Sign in" }, { text: "Log in" }],
+      isEnabled: false,
+    }, "advanced");
+    const parsed = JSON.parse(assertion.content[0].text!);
+    expect(parsed.exists).toBe(true);
+    expect(parsed.passed).toBe(false);
+    expect(parsed.stateMismatches[0]).toMatchObject({ property: "enabled", expected: false, actual: true });
+  });
+
+  it("should share one UI dump across tools and resolve snapshot ids", async () => {
+    const dumps = vi.spyOn(getBackend("android"), "dumpUiHierarchy");
+
+    const tree = JSON.parse((await handleTool("get_ui_tree", {}, "advanced")).content[0].text!);
+    const text = JSON.parse((await handleTool("get_screen_text", {}, "advanced")).content[0].text!);
+    expect(text.snapshotId).toBe(tree.snapshotId);
+    expect(dumps).toHaveBeenCalledTimes(1);
+
+    const refreshed = JSON.parse((await handleTool("find_element", { text: "Email", refresh: true }, "advanced")).content[0].text!);
+    expect(refreshed.snapshotId).not.toBe(tree.snapshotId);
+    expect(dumps).toHaveBeenCalledTimes(2);
+
+    const pinned = JSON.parse((await handleTool("analyze_screen", { snapshotId: tree.snapshotId }, "advanced")).content[0].text!);
+    expect(pinned.snapshotId).toBe(tree.snapshotId);
+    expect(dumps).toHaveBeenCalledTimes(2);
+
+    const missing = await handleTool("get_ui_tree", { snapshotId: "0123456789ab" }, "advanced");
+    expect(missing.content[0].text).toContain("not found or expired");
+  });
+
+  it("should diff a snapshot against the current screen", async () => {
+    const before = JSON.parse((await handleTool("get_ui_tree", {}, "advanced")).content[0].text!);
+    setBackend("android", createFakeBackend("android", {
+      devices: [{ id: "emulator-5554", status: "device", type: "emulator" }],
+      uiHierarchy: LOGIN_SCREEN_XML.replace(
+        `text="Sign in" resource-id="com.example:id/login_button" class="android.widget.Button" content-desc="" clickable="true" enabled="true"`,
+        `text="Sign in" resource-id="com.example:id/login_button" class="android.widget.Button" content-desc="" clickable="true" enabled="false"`
+      ),
+    }));
+
+    const result = await handleTool("get_ui_diff", { fromSnapshotId: before.snapshotId }, "advanced");
+    const parsed = JSON.parse(result.content[0].text!);
+    expect(parsed.changed).toBe(true);
+    expect(parsed.toSnapshotId).not.toBe(before.snapshotId);
+    expect(parsed.summary).toEqual([`Button "Sign in" (login_button) became disabled`]);
+
+    const missing = await handleTool("get_ui_diff", { fromSnapshotId: "0123456789ab" }, "advanced");
+    expect(missing.content[0].text).toContain("not found or expired");
+  });
+
+  it("should validate compare_screenshot options before capturing", async () => {
+    const capture = vi.spyOn(getBackend("android"), "captureScreenshot");
+
+    const threshold = await handleTool("compare_screenshot", { name: "home", threshold: 2 }, "advanced");
+    expect(threshold.content[0].text).toContain("threshold must be a number between 0 and 1");
+
+    const regions = await handleTool("compare_screenshot", { name: "home", ignoreRegions: [{ x: 0, y: 0 }] }, "advanced");
+    expect(regions.content[0].text).toContain("ignoreRegions must be an array");
+
+    const name = await handleTool("compare_screenshot", { name: "../home" }, "advanced");
+    expect(name.content[0].text).toContain("Invalid baseline name");
+    expect(capture).not.toHaveBeenCalled();
+  });
+
+  it("should enforce tier recording limits before recording", async () => {
+    const record = vi.spyOn(getBackend("android"), "recordScreen");
+
+    const long = await handleTool("get_screen_recording", { duration: 46 }, "advanced");
+    expect(long.content[0].text).toContain("from 1 to 45 on the ADVANCED tier");
+
+    const frames = await handleTool("get_screen_recording", { duration: 30, frameCount: 11 }, "advanced");
+    expect(frames.content[0].text).toContain("frameCount must be from 1 to 10");
+
+    const free = await handleTool("get_screen_recording", {}, "free");
+    expect(free.content[0].text).toContain("requires ADVANCED tier");
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("should still report the recording when no time is left for frames", async () => {
+    const backend = createFakeBackend("android", { recording: Buffer.from("mp4").toString("base64") });
+    const recordScreen = backend.recordScreen.bind(backend);
+    const record = vi.fn(async (...params: Parameters<typeof recordScreen>) => {
+      await new Promise((resolve) => setTimeout(resolve, 60_000));
+      return recordScreen(...params);
+    });
+    backend.recordScreen = record;
+    setBackend("android", backend);
+
+    vi.useFakeTimers();
+    try {
+      const pending = handleTool("get_screen_recording", { duration: 45 }, "advanced");
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      expect(record.mock.calls[0][3]).toEqual(expect.any(Number));
+      expect(result.content[0].text).toContain("no time was left to extract frames");
+      const { path: videoPath } = JSON.parse(result.content[0].text!.split("\n").slice(1).join("\n"));
+      expect(fs.existsSync(videoPath)).toBe(true);
+      fs.rmSync(videoPath);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should rank elements against the goal in suggest_action", async () => {
+    const result = JSON.parse((await handleTool("suggest_action", { goal: "sign in" }, "advanced")).content[0].text!);
+    expect(result.suggestions[0]).toMatchObject({
+      action: "tap",
+      target: { text: "Sign in", resourceId: "com.example:id/login_button" },
+    });
+    expect(result.suggestions[0].confidence).toBeGreaterThan(0.8);
+    expect(result.clickableElementCount).toBe(2);
+
+    const none = JSON.parse((await handleTool("suggest_action", { goal: "open settings" }, "advanced")).content[0].text!);
+    expect(none.suggestions).toEqual([]);
+    expect(none.message).toContain('Nothing on screen matches "open settings"');
+
+    const limit = await handleTool("suggest_action", { goal: "sign in", limit: 0 }, "advanced");
+    expect(limit.content[0].text).toContain("limit must be an integer from 1 to 20");
+  });
+
+  it("should return structured content that matches each output schema", async () => {
+    const validator = new AjvJsonSchemaValidator();
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ["list_devices", {}],
+      ["get_device_info", {}],
+      ["get_ios_simulator_info", {}],
+      ["get_app_info", { packageName: "com.example" }],
+      ["get_performance_snapshot", { packageName: "com.example" }],
+      ["get_performance_trend", { packageName: "com.example", duration: 0 }],
+      ["suggest_action", { goal: "sign in" }],
+      ["suggest_action", { goal: "open settings" }],
+      ["analyze_screen", {}],
+    ];
+    for (const [name, args] of calls) {
+      const tool = tools.find((t) => t.name === name)!;
+      const result = await handleTool(name, args, "advanced");
+      const validation = validator.getValidator(tool.outputSchema!)(result.structuredContent);
+      expect(validation.errorMessage).toBeUndefined();
+      expect(result.isError).toBeUndefined();
+    }
+
+    const analysis = (await handleTool("analyze_screen", {}, "advanced")).structuredContent!;
+    expect(analysis.screenDescription).toBe('Unrecognised screen with 1 form field (Email); primary action "Sign in"');
+    expect(analysis.suggestedActions).toEqual([
+      expect.objectContaining({ action: "input", description: 'Type into the "Email" field' }),
+      expect.objectContaining({ action: "tap", description: 'Tap "Sign in"' }),
+    ]);
+
+    const simulator = await handleTool("get_ios_simulator_info", {}, "advanced");
+    expect(simulator.structuredContent).toEqual({
+      id: "AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE",
+      status: "Booted",
+      type: "simulator",
+      name: "iPhone 15",
+      runtime: "iOS-17-2",
+      deviceType: "com.apple.CoreSimulator.SimDeviceType.iPhone-15",
+      isAvailable: true,
+    });
+
+    const devices = await handleTool("list_devices", {}, "free");
+    expect(devices.structuredContent).toEqual({
+      devices: [{ id: "emulator-5554", status: "device", type: "emulator" }],
+      total: 1,
+    });
+  });
+
+  it("should flag failures from structured tools as errors", async () => {
+    const missing = await handleTool("analyze_screen", { snapshotId: "0123456789ab" }, "advanced");
+    expect(missing.isError).toBe(true);
+    expect(missing.structuredContent).toBeUndefined();
+
+    const gated = await handleTool("suggest_action", { goal: "sign in" }, "free");
+    expect(gated.isError).toBe(true);
+
+    // Tools without an output schema keep reporting failures as plain text
+    const unstructured = await handleTool("get_ui_tree", { snapshotId: "0123456789ab" }, "advanced");
+    expect(unstructured.isError).toBeUndefined();
+  });
+
+  it("should inspect an iOS Simulator when given a udid", async () => {
+    const udid = "AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE";
+    setBackend("ios", createFakeBackend("ios", {
+      devices: [{ id: udid, status: "Booted", type: "simulator" }],
+      uiHierarchy: fs.readFileSync(new URL("./__fixtures__/ios-login.json", import.meta.url), "utf-8"),
+    }));
+    const androidDump = vi.spyOn(getBackend("android"), "dumpUiHierarchy");
+
+    const found = JSON.parse((await handleTool("find_element", { udid, className: "Button", text: "Sign in" }, "advanced")).content[0].text!);
+    expect(found.element).toMatchObject({ resourceId: "sign_in_button", className: "XCUIElementTypeButton", center: { x: 195, y: 487 } });
+
+    const analysis = (await handleTool("analyze_screen", { udid: "booted" }, "advanced")).structuredContent!;
+    expect(analysis).toMatchObject({ screenType: "login", primaryAction: { label: "Sign in" } });
+
+    const audit = JSON.parse((await handleTool("audit_accessibility", { udid, minSeverity: "warning" }, "advanced")).content[0].text!);
+    expect(audit.issues[0].message).toContain("at least 44x44pt");
+    expect(androidDump).not.toHaveBeenCalled();
+
+    const invalid = await handleTool("get_ui_tree", { udid: "not-a-udid" }, "advanced");
+    expect(invalid.content[0].text).toContain("Invalid iOS Simulator UDID format");
+  });
+
+  it("should classify the screen in analyze_screen", async () => {
+    const analysis = JSON.parse((await handleTool("analyze_screen", {}, "advanced")).content[0].text!);
+    expect(analysis).toMatchObject({
+      keyboardVisible: false,
+      formFields: [{ label: "Email", kind: "text" }],
+      primaryAction: { label: "Sign in", element: { resourceId: "com.example:id/login_button" } },
+      buttons: 1,
+    });
+    expect(analysis.classifications[0]).toMatchObject({ type: "login" });
+  });
+
+  it("should audit accessibility with a severity filter", async () => {
+    const audit = JSON.parse((await handleTool("audit_accessibility", {}, "advanced")).content[0].text!);
+    expect(audit).toMatchObject({ density: 160, touchTargetsChecked: true, interactiveElements: 2 });
+    // The login fixture's controls are not focusable
+    expect(audit.issues.map((i: { rule: string }) => i.rule)).toEqual(["unreachable-focus", "unreachable-focus"]);
+    expect(audit.issues[0].element).toMatchObject({ text: "Email", bounds: "[60,400][1020,520]" });
+
+    const errors = JSON.parse((await handleTool("audit_accessibility", { minSeverity: "error" }, "advanced")).content[0].text!);
+    expect(errors.issues).toEqual([]);
+    expect(errors.summary).toEqual({ error: 0, warning: 2, info: 0 });
+
+    const invalid = await handleTool("audit_accessibility", { minSeverity: "fatal" }, "advanced");
+    expect(invalid.content[0].text).toContain("minSeverity must be one of error, warning, info");
+  });
+
+  it("should audit a cached snapshot with its own device's density", async () => {
+    const tree = JSON.parse((await handleTool("get_ui_tree", { device: "emulator-5554" }, "advanced")).content[0].text!);
+    const density = vi.spyOn(getBackend("android"), "getDisplayDensity");
+
+    await handleTool("audit_accessibility", { snapshotId: tree.snapshotId }, "advanced");
+    expect(density).toHaveBeenCalledWith("emulator-5554");
+  });
+
+  it("should flag low-contrast text from screenshot pixels", async () => {
+    const screen = createImage(1080, 2400);
+    screen.data.fill(255);
+    // Light grey "Email" text, black "Sign in" text
+    for (const [top, value] of [[440, 0xbb], [740, 0x00]]) {
+      for (let y = top; y < top + 40; y++) screen.data.fill(value, (y * 1080 + 100) * 4, (y * 1080 + 400) * 4);
+    }
+    setBackend("android", createFakeBackend("android", {
+      screenshot: encodePng(screen).toString("base64"),
+      uiHierarchy: LOGIN_SCREEN_XML,
+      density: 420,
+    }));
+
+    const result = JSON.parse((await handleTool("check_color_contrast", {}, "advanced")).content[0].text!);
+    expect(result).toMatchObject({ level: "AA", checked: 2, failing: 1 });
+    expect(result.results).toEqual([expect.objectContaining({
+      text: "Email",
+      bounds: "[60,400][1020,520]",
+      foreground: "#bbbbbb",
+      background: "#ffffff",
+      AA: "fail",
+    })]);
+
+    const all = JSON.parse((await handleTool("check_color_contrast", { level: "AAA", includePassing: true }, "advanced")).content[0].text!);
+    expect(all.results.map((r: { text: string; AAA: string }) => [r.text, r.AAA])).toEqual([["Email", "fail"], ["Sign in", "pass"]]);
+  });
+
+  it("should list iOS simulators grouped by runtime", async () => {
+    const result = await handleTool("list_ios_simulators", {}, "advanced");
+    expect(result.content[0].text).toContain("iOS-17-2:");
+    expect(result.content[0].text).toContain("iPhone 15 (AAAAAAAA-BBBB-CCCC-DDDD-EEEEEEEEEEEE) - Booted");
+  });
+
+  it("should gate advanced tools for free tier", async () => {
+    const result = await handleTool("get_ui_tree", {}, "free");
+    expect(result.content[0].text).toContain("requires ADVANCED tier");
   });
 });
@@ -0,0 +1,2739 @@
+// Mobile Dev MCP - Tool Definitions and Handlers
+// All device access goes through the platform backends in backend.ts
+
+import * as fs from "fs";
+import * as path from "path";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+import {
+  runCommand,
+  sleep,
+  loadConfig,
+  validateDeviceId,
+  validatePackageName,
+  validateUdid,
+  validateLogFilter,
+  validateLogLevel,
+} from "./utils.js";
+
+import { UiElement, ElementRef, ScreenAnalysis, ActionSuggestions, DeviceList, SimulatorDetails } from "./types.js";
+import { getBackend, Platform } from "./backend.js";
+import { pruneUiTree, countUiNodes, parseBounds, UiNode } from "./uiTree.js";
+import { getUiSnapshot, getUiSnapshotById, UiSnapshot } from "./uiSnapshots.js";
+import { diffUiTrees, summarizeUiDiff } from "./uiDiff.js";
+import { decodePng, encodePng } from "./png.js";
+import {
+  processScreenshot,
+  hasScreenshotOptions,
+  Region,
+  ImageFormat,
+  ScreenshotOptions,
+  AnnotationBox,
+  IMAGE_FORMATS,
+  MIN_MAX_DIMENSION,
+  MAX_ANNOTATIONS,
+} from "./imageOps.js";
+import {
+  compareImages,
+  saveBaseline,
+  loadBaseline,
+  listBaselines,
+  MAX_IGNORE_REGIONS,
+} from "./visualDiff.js";
+import {
+  parseSelectorArgs,
+  compileSelector,
+  findElement,
+  findElements,
+  isEmptySelector,
+  Selector,
+  MAX_SELECTOR_LENGTH,
+} from "./selector.js";
+import { getMetroLogs, formatMetroLogEntry } from "./metro.js";
+import { parseLogcat, filterLogcatEntries, parseTimeBound, LogLevel, MAX_SCAN_LINES } from "./logcat.js";
+import { detectCrashes, filterCrashesByPackage, CrashType, CrashReport } from "./crashes.js";
+import {
+  parseJsStack,
+  symbolicateWithMetro,
+  symbolicateWithSourceMap,
+  loadSourceMap,
+  SymbolicatedFrame,
+} from "./symbolicate.js";
+import { startLogSession, readLogSession, stopLogSession, encodeCursor } from "./logSessions.js";
+import { analyzeScreenStructure, describeScreen, INPUT_CLASS } from "./screenAnalysis.js";
+import {
+  rankElementsForGoal,
+  suggestActionsForScreen,
+  DEFAULT_SUGGESTION_LIMIT,
+  MAX_SUGGESTION_LIMIT,
+} from "./actionRanking.js";
+import {
+  DEVICE_LIST_SCHEMA,
+  DEVICE_DETAILS_SCHEMA,
+  SIMULATOR_DETAILS_SCHEMA,
+  PACKAGE_INFO_SCHEMA,
+  PERFORMANCE_REPORT_SCHEMA,
+  PERFORMANCE_TREND_SCHEMA,
+  ACTION_SUGGESTIONS_SCHEMA,
+  SCREEN_ANALYSIS_SCHEMA,
+} from "./outputSchemas.js";
+import { parseDeviceProperties } from "./deviceInfo.js";
+import { parsePackageDump, PACKAGE_SECTIONS, PackageSection } from "./packageInfo.js";
+import { parsePerformanceStats } from "./performance.js";
+import {
+  recordPerformanceSample,
+  summarizePerformanceSeries,
+  DEFAULT_SAMPLING_SECONDS,
+  DEFAULT_SAMPLE_INTERVAL_SECONDS,
+  MIN_SAMPLE_INTERVAL_SECONDS,
+} from "./performanceTrend.js";
+import {
+  startNetworkProxy,
+  getNetworkProxy,
+  stopNetworkProxy,
+  filterExchanges,
+  summarizeExchange,
+  isValidStatusFilter,
+  DEFAULT_PROXY_PORT,
+  DEFAULT_EXCHANGE_BUFFER,
+  MAX_EXCHANGE_BUFFER,
+} from "./networkProxy.js";
+import {
+  auditAccessibility,
+  AuditSeverity,
+  AUDIT_SEVERITIES,
+  MAX_AUDIT_ISSUES,
+  MIN_TOUCH_TARGET_PT,
+  BASELINE_DENSITY,
+} from "./accessibility.js";
+import { checkTextContrast, toHex, WcagLevel, WCAG_LEVELS, WCAG_THRESHOLDS, MAX_CONTRAST_RESULTS } from "./contrast.js";
+import {
+  newRecordingPath,
+  pruneRecordings,
+  frameTimestamps,
+  extractFrame,
+  DEFAULT_RECORDING_SECONDS,
+  DEFAULT_FRAME_COUNT,
+  RECORDING_CALL_BUDGET_MS,
+} from "./recording.js";
+
+import {
+  canAccessTool,
+  getMaxLogLines,
+  getMaxDevices,
+  getMaxRecordingSeconds,
+  getMaxSamplingSeconds,
+  getMaxPerformanceSamples,
+  getMaxRecordingFrames,
+  getLicenseStatus,
+  setLicenseKey,
+  MobileDevTier,
+} from "./license.js";
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const userConfig = loadConfig();
+const CONFIG = {
+  metroPort: userConfig.metroPort || 8081,
+  screenshotDir: process.env.TEMP || "/tmp",
+};
+
+// Snapshot fields shared by the UI tools; see uiSnapshots.ts
+const SNAPSHOT_PROPERTIES = {
+  snapshotId: {
+    type: "string",
+    description: "Inspect a previous UI snapshot (returned by UI tools) instead of the current screen",
+  },
+  refresh: {
+    type: "boolean",
+    description: "Take a new UI dump instead of reusing one from the last 2 seconds (default: false)",
+    default: false,
+  },
+};
+
+// Lets the UI tools inspect an iOS Simulator; see iosHierarchy.ts
+const UI_UDID_PROPERTY = {
+  udid: {
+    type: "string",
+    description: "Inspect this iOS Simulator (UDID or 'booted') instead of an Android device. Needs idb (https://fbidb.io).",
+  },
+};
+
+// Selector fields shared by the element tools; see selector.ts
+const ELEMENT_SELECTOR_SCHEMA = {
+  type: "object",
+  description: "Nested selector with the same fields (text, resourceId, className, states...)",
+};
+
+const SELECTOR_PROPERTIES = {
+  selector: {
+    type: "string",
+    description: "XPath-like selector, e.g. //LinearLayout[@resource-id='com.app:id/form']//EditText[@enabled='true'][1]. Supports @attr='v', contains(), starts-with(), matches(), and/or/not(), .//Child and [n].",
+  },
+  text: { type: "string", description: "Element text" },
+  resourceId: { type: "string", description: "Resource ID" },
+  contentDescription: { type: "string", description: "Accessibility label" },
+  className: { type: "string", description: "Class name, full or short (e.g., 'Button')" },
+  packageName: { type: "string", description: "Package that owns the element" },
+  match: {
+    type: "string",
+    enum: ["contains", "exact", "regex"],
+    description: "How text fields are compared: contains and regex ignore case (default: contains)",
+    default: "contains",
+  },
+  enabled: { type: "boolean", description: "Only elements with this enabled state" },
+  checked: { type: "boolean", description: "Only elements with this checked state" },
+  selected: { type: "boolean", description: "Only elements with this selected state" },
+  focused: { type: "boolean", description: "Only elements with this focused state" },
+  clickable: { type: "boolean", description: "Only elements with this clickable state" },
+  scrollable: { type: "boolean", description: "Only elements with this scrollable state" },
+  ancestor: { ...ELEMENT_SELECTOR_SCHEMA, description: "Element must be inside an element matching this selector" },
+  descendant: { ...ELEMENT_SELECTOR_SCHEMA, description: "Element must contain an element matching this selector" },
+  anyOf: {
+    type: "array",
+    items: ELEMENT_SELECTOR_SCHEMA,
+    description: "Element must match at least one of these selectors (OR); other fields still apply (AND)",
+  },
+  nth: { type: "number", description: "Pick the nth match, 0-based" },
+};
+
+const REGION_SCHEMA = {
+  type: "object",
+  properties: {
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number" },
+    height: { type: "number" },
+  },
+  required: ["x", "y", "width", "height"],
+};
+
+// Recording frames are downscaled JPEGs unless asked otherwise
+const FRAME_MAX_DIMENSION = 720;
+
+// Post-processing fields shared by the screenshot tools; see imageOps.ts
+const SCREENSHOT_PROPERTIES = {
+  maxDimension: {
+    type: "number",
+    description: "Downscale so the longest side is at most this many pixels (e.g. 1024). Saves context.",
+  },
+  format: {
+    type: "string",
+    enum: IMAGE_FORMATS,
+    description: "Image format: png, jpeg (smallest, lossy) or webp (lossless) (default: png)",
+    default: "png",
+  },
+  quality: {
+    type: "number",
+    description: "JPEG quality, 1-100 (default: 80). Not accepted with webp, which is always lossless.",
+    default: 80,
+  },
+  crop: { ...REGION_SCHEMA, description: "Only keep this region, in screen pixels" },
+};
+
+// ============================================================================
+// TOOL DEFINITIONS (39 tools)
+// ============================================================================
+
+export const tools: Tool[] = [
+  // === FREE TIER - Screenshots (2 tools) ===
+  {
+    name: "screenshot_emulator",
+    description: "Capture a screenshot from the currently running Android emulator. Returns base64-encoded PNG image. Can downscale, crop to a region or element, convert to JPEG/WebP, and number the clickable elements.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        device: {
+          type: "string",
+          description: "Specific device ID. Leave empty for default device.",
+        },
+        ...SCREENSHOT_PROPERTIES,
+        cropToElement: {
+          type: "string",
+          description: "Crop to the bounds of the first element matching this XPath-like selector, e.g. //Button[@text='Sign in']",
+        },
+        annotate: {
+          type: "boolean",
+          description: "Draw numbered boxes over clickable elements and list what each number is (default: false)",
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: "screenshot_ios_simulator",
+    description: "Capture a screenshot from an iOS Simulator. Returns base64-encoded PNG image. Can downscale, crop to a region and convert to JPEG/WebP.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          description: "Simulator UDID. Leave empty for booted simulator.",
+        },
+        ...SCREENSHOT_PROPERTIES,
+      },
+    },
+  },
+
+  // === FREE TIER - Device Info (5 tools) ===
+  {
+    name: "list_devices",
+    description: "List all connected Android devices and emulators via ADB.",
+    inputSchema: { type: "object", properties: {} },
+    outputSchema: DEVICE_LIST_SCHEMA,
+  },
+  {
+    name: "list_ios_simulators",
+    description: "List all available iOS Simulators with state and iOS version.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        onlyBooted: {
+          type: "boolean",
+          description: "Only show booted simulators (default: false)",
+          default: false,
+        },
+      },
+    },
+    outputSchema: DEVICE_LIST_SCHEMA,
+  },
+  {
+    name: "get_device_info",
+    description: "Get detailed information about a connected Android device as JSON: model, Android version and API level, ABIs, screen size and density, locale, timezone, battery, storage, memory, emulator detection and Play Services version.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        device: {
+          type: "string",
+          description: "Specific device ID. Leave empty for default.",
+        },
+      },
+    },
+    outputSchema: DEVICE_DETAILS_SCHEMA,
+  },
+  {
+    name: "get_ios_simulator_info",
+    description: "Get information about an iOS Simulator as JSON: UDID, state, name, runtime, device type, availability and data/log paths.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          description: "Simulator UDID. Leave empty for booted simulator.",
+        },
+      },
+    },
+    outputSchema: SIMULATOR_DETAILS_SCHEMA,
+  },
+  {
+    name: "get_app_info",
+    description: "Get information about an installed app on Android device as JSON: version, SDK levels, install times, installer, runtime permissions, components with intent filters and flags.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        packageName: {
+          type: "string",
+          description: "The app package name (e.g., 'com.myapp')",
+        },
+        sections: {
+          type: "array",
+          items: { type: "string", enum: PACKAGE_SECTIONS },
+          description: "Only include these sections (default: all)",
+        },
+      },
+      required: ["packageName"],
+    },
+    outputSchema: PACKAGE_INFO_SCHEMA,
+  },
+
+  // === FREE TIER - Logs (4 tools) ===
+  {
+    name: "get_metro_logs",
+    description: "Get recent logs from Metro bundler (build events, bundling errors and app console output). Capture starts on the first call and continues in the background.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        lines: {
+          type: "number",
+          description: "Number of lines (default: 50, limit varies by tier)",
+          default: 50,
+        },
+        filter: {
+          type: "string",
+          description: "Optional filter: level ('error', 'warning') or text to match",
+        },
+      },
+    },
+  },
+  {
+    name: "get_adb_logs",
+    description: "Get logs from Android device via ADB logcat. Filters for React Native by default.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        lines: {
+          type: "number",
+          description: "Number of lines (default: 50, limit varies by tier)",
+          default: 50,
+        },
+        filter: {
+          type: "string",
+          description: "Tag filter (default: 'ReactNativeJS'). Use '*' for all.",
+          default: "ReactNativeJS",
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Several tags at once (e.g., ['ReactNativeJS', 'AndroidRuntime']). Overrides filter.",
+        },
+        level: {
+          type: "string",
+          enum: ["V", "D", "I", "W", "E", "F"],
+          description: "Minimum log level",
+          default: "I",
+        },
+        packageName: {
+          type: "string",
+          description: "Only show logs from this app's processes (resolved to PIDs). Defaults the tag filter to '*'.",
+        },
+        pattern: {
+          type: "string",
+          description: "Case-insensitive regex the message must match",
+        },
+        since: {
+          type: "string",
+          description: "Start of time window: duration ago ('30s', '5m', '1h') or ISO-8601 timestamp",
+        },
+        until: {
+          type: "string",
+          description: "End of time window: duration ago or ISO-8601 timestamp",
+        },
+        format: {
+          type: "string",
+          enum: ["text", "json"],
+          description: "Raw logcat lines or structured entries (timestamp, pid, tid, level, tag, message)",
+          default: "text",
+        },
+      },
+    },
+  },
+  {
+    name: "get_ios_simulator_logs",
+    description: "Get recent logs from iOS Simulator.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        lines: {
+          type: "number",
+          description: "Number of lines (default: 50)",
+          default: 50,
+        },
+        filter: {
+          type: "string",
+          description: "Filter logs by subsystem or content",
+        },
+        udid: {
+          type: "string",
+          description: "Simulator UDID. Leave empty for booted simulator.",
+        },
+      },
+    },
+  },
+  {
+    name: "check_metro_status",
+    description: "Check if Metro bundler is running and get its status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        port: {
+          type: "number",
+          description: "Metro port (default: 8081)",
+          default: 8081,
+        },
+      },
+    },
+  },
+
+  // === FREE TIER - License (1 tool) ===
+  {
+    name: "get_license_status",
+    description: "Get your current license tier and available features.",
+    inputSchema: { type: "object", properties: {} },
+  },
+
+  // === ADVANCED TIER - Screen Recording (1 tool) ===
+  {
+    name: "get_screen_recording",
+    description: "[ADVANCED] Record the screen of an Android device or iOS Simulator for a few seconds to catch animations and transient states. Returns evenly spaced key frames as images, or the path of the saved MP4.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["android", "ios"],
+          description: "Platform to record (default: android)",
+          default: "android",
+        },
+        device: {
+          type: "string",
+          description: "Android device ID. Leave empty for default device.",
+        },
+        udid: {
+          type: "string",
+          description: "iOS Simulator UDID. Leave empty for booted simulator.",
+        },
+        duration: {
+          type: "number",
+          description: `Seconds to record (default: ${DEFAULT_RECORDING_SECONDS}, limit varies by tier)`,
+          default: DEFAULT_RECORDING_SECONDS,
+        },
+        output: {
+          type: "string",
+          enum: ["frames", "video"],
+          description: "Return key frames as images (needs ffmpeg) or just the video path (default: frames)",
+          default: "frames",
+        },
+        frameCount: {
+          type: "number",
+          description: `Number of key frames (default: ${DEFAULT_FRAME_COUNT}, limit varies by tier)`,
+          default: DEFAULT_FRAME_COUNT,
+        },
+        ...SCREENSHOT_PROPERTIES,
+        maxDimension: {
+          ...SCREENSHOT_PROPERTIES.maxDimension,
+          description: `${SCREENSHOT_PROPERTIES.maxDimension.description} (default for frames: ${FRAME_MAX_DIMENSION})`,
+        },
+        format: {
+          ...SCREENSHOT_PROPERTIES.format,
+          description: "Frame format: png, jpeg or webp (default for frames: jpeg)",
+          default: "jpeg",
+        },
+      },
+    },
+  },
+
+  // === ADVANCED TIER - Crash Detection (1 tool) ===
+  {
+    name: "get_crash_reports",
+    description: "[ADVANCED] Find recent app crashes on Android: Java FATAL EXCEPTIONs, native tombstones, ANRs and React Native JS errors. Multi-line stack traces are grouped into one report per incident.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        packageName: {
+          type: "string",
+          description: "Only report incidents for this app (e.g., 'com.myapp')",
+        },
+        types: {
+          type: "array",
+          items: { type: "string", enum: ["java_crash", "native_crash", "anr", "js_error"] },
+          description: "Incident types to include (default: all)",
+        },
+        since: {
+          type: "string",
+          description: "Only incidents after this time: duration ago ('10m', '1h') or ISO-8601 timestamp",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum reports to return, newest first (default: 5)",
+          default: 5,
+        },
+        device: { type: "string", description: "Specific device ID (optional)" },
+      },
+    },
+  },
+
+  // === ADVANCED TIER - JS Symbolication (1 tool) ===
+  {
+    name: "get_symbolicated_stack",
+    description: "[ADVANCED] Map a React Native JS stack trace from bundle positions back to original source files, lines and function names. Uses Metro's /symbolicate endpoint, falling back to a source map file when Metro is not running. Without a stack, symbolicates the most recent JS error found in logcat.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        stack: {
+          type: "string",
+          description: "Raw JS stack trace (Hermes or JSC format). Leave empty to use the latest JS error from device logs.",
+        },
+        packageName: {
+          type: "string",
+          description: "When reading from logs, only consider JS errors from this app",
+        },
+        sourceMapPath: {
+          type: "string",
+          description: "Path to the bundle's source map, used when Metro is unreachable (e.g., release builds)",
+        },
+        device: { type: "string", description: "Specific device ID (optional)" },
+      },
+    },
+  },
+
+  // === ADVANCED TIER - UI Inspection (6 tools) ===
+  {
+    name: "get_ui_tree",
+    description: "[ADVANCED] Get the current UI hierarchy from an Android device or iOS Simulator. Returns all visible elements with text, bounds, and properties.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        device: {
+          type: "string",
+          description: "Specific device ID (optional)",
+        },
+        ...UI_UDID_PROPERTY,
+        compressed: {
+          type: "boolean",
+          description: "Return only interactive elements (default: true)",
+          default: true,
+        },
+        hierarchical: {
+          type: "boolean",
+          description: "Return the parent/child tree instead of a flat list (default: false)",
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: "find_element",
+    description: "[ADVANCED] Find UI elements matching a selector. All given fields must match (AND); use anyOf for OR, or an XPath-like selector string.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        ...SELECTOR_PROPERTIES,
+        all: { type: "boolean", description: "Return every match instead of the first (default: false)", default: false },
+        device: { type: "string", description: "Specific device ID (optional)" },
+        ...UI_UDID_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "wait_for_element",
+    description: "[ADVANCED] Wait for a UI element matching a selector to appear on screen.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SELECTOR_PROPERTIES,
+        all: { type: "boolean", description: "Return every match once found (default: false)", default: false },
+        timeout: {
+          type: "number",
+          description: "Maximum wait time in ms (default: 5000)",
+          default: 5000,
+        },
+        device: { type: "string", description: "Specific device ID (optional)" },
+        ...UI_UDID_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "get_element_property",
+    description: "[ADVANCED] Get a specific property of the UI element matching a selector.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        ...SELECTOR_PROPERTIES,
+        property: {
+          type: "string",
+          enum: [
+            "text", "resourceId", "className", "contentDescription", "packageName", "bounds", "index",
+            "enabled", "checked", "checkable", "selected", "focused", "focusable",
+            "clickable", "longClickable", "scrollable", "password",
+          ],
+          description: "Property to retrieve",
+        },
+        all: { type: "boolean", description: "Return the property for every match (default: false)", default: false },
+        device: { type: "string", description: "Specific device ID (optional)" },
+        ...UI_UDID_PROPERTY,
+      },
+      required: ["property"],
+    },
+  },
+  {
+    name: "assert_element",
+    description: "[ADVANCED] Verify a UI element matching a selector exists or has expected state.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        ...SELECTOR_PROPERTIES,
+        all: { type: "boolean", description: "Check the expected state on every match (default: false)", default: false },
+        shouldExist: {
+          type: "boolean",
+          description: "Whether element should exist (default: true)",
+          default: true,
+        },
+        isEnabled: { type: "boolean", description: "Expected enabled state" },
+        isChecked: { type: "boolean", description: "Expected checked state" },
+        device: { type: "string", description: "Specific device ID (optional)" },
+        ...UI_UDID_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "get_ui_diff",
+    description: "[ADVANCED] Compare two UI snapshots (e.g. before and after an action) and report elements that appeared, disappeared or changed (text, enabled/checked/selected/focused state, bounds).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        fromSnapshotId: { type: "string", description: "Snapshot ID of the earlier screen (returned by UI tools)" },
+        toSnapshotId: { type: "string", description: "Snapshot ID of the later screen (default: take a new dump now)" },
+        includeLayout: {
+          type: "boolean",
+          description: "Also report plain layout containers without id, text or interactivity (default: false)",
+          default: false,
+        },
+        device: { type: "string", description: "Specific device ID (optional)" },
+        ...UI_UDID_PROPERTY,
+      },
+      required: ["fromSnapshotId"],
+    },
+  },
+
+  // === ADVANCED TIER - Visual Regression (3 tools) ===
+  {
+    name: "save_screenshot_baseline",
+    description: "[ADVANCED] Capture a screenshot and store it as a named baseline for later visual comparison.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Baseline name (letters, digits, '.', '-', '_'), e.g. 'login-screen'" },
+        platform: {
+          type: "string",
+          enum: ["android", "ios"],
+          description: "Device platform (default: android)",
+          default: "android",
+        },
+        device: { type: "string", description: "Android device ID (optional)" },
+        udid: { type: "string", description: "iOS Simulator UDID (optional, default: booted)" },
+        overwrite: { type: "boolean", description: "Replace an existing baseline (default: false)", default: false },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "compare_screenshot",
+    description: "[ADVANCED] Capture a screenshot and compare it with a saved baseline. Returns mismatch stats, pass/fail and a diff image (mismatches in red, ignored regions in blue).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Baseline name from save_screenshot_baseline" },
+        platform: {
+          type: "string",
+          enum: ["android", "ios"],
+          description: "Device platform (default: android)",
+          default: "android",
+        },
+        device: { type: "string", description: "Android device ID (optional)" },
+        udid: { type: "string", description: "iOS Simulator UDID (optional, default: booted)" },
+        threshold: {
+          type: "number",
+          description: "Per-pixel color tolerance from 0 (exact) to 1 (default: 0.1)",
+          default: 0.1,
+        },
+        maxDiffPercent: {
+          type: "number",
+          description: "Percentage of mismatched pixels still considered a pass (default: 0)",
+          default: 0,
+        },
+        ignoreRegions: {
+          type: "array",
+          items: REGION_SCHEMA,
+          description: "Areas to skip, in screen pixels (e.g. the status bar clock)",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "list_screenshot_baselines",
+    description: "[ADVANCED] List saved screenshot baselines with their dimensions and save times.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+
+  // === ADVANCED TIER - Log Capture (3 tools) ===
+  {
+    name: "start_log_capture",
+    description: "[ADVANCED] Start a persistent log capture session for a device. Logs are buffered in the background so nothing is missed between reads. Returns a session ID and cursor.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        platform: {
+          type: "string",
+          enum: ["android", "ios"],
+          description: "Device platform (default: android)",
+          default: "android",
+        },
+        device: { type: "string", description: "Android device ID (optional)" },
+        udid: { type: "string", description: "iOS Simulator UDID (optional, default: booted)" },
+        bufferSize: {
+          type: "number",
+          description: "Lines kept in the ring buffer (default: 5000, max: 20000)",
+          default: 5000,
+        },
+      },
+    },
+  },
+  {
+    name: "get_captured_logs",
+    description: "[ADVANCED] Read log lines captured by a session since the last read (or since a given cursor). Returns a new cursor to continue from.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: { type: "string", description: "Session ID from start_log_capture" },
+        cursor: { type: "string", description: "Cursor from a previous read. Omit to continue after the last read." },
+        lines: {
+          type: "number",
+          description: "Maximum lines to return (default: 50, limit varies by tier)",
+          default: 50,
+        },
+      },
+      required: ["sessionId"],
+    },
+  },
+  {
+    name: "stop_log_capture",
+    description: "[ADVANCED] Stop a log capture session and discard its buffer.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sessionId: { type: "string", description: "Session ID from start_log_capture" },
+      },
+      required: ["sessionId"],
+    },
+  },
+
+  // === ADVANCED TIER - Screen Analysis (3 tools) ===
+  {
+    name: "suggest_action",
+    description: "[ADVANCED] Rank the elements on screen against a goal and suggest what to tap, type into or scroll, with a confidence score per suggestion. Matches text, content descriptions, resource-id words, field labels and control types. Returns suggestions without executing.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        goal: {
+          type: "string",
+          description: "What you're trying to accomplish (e.g., 'login', 'send message', 'navigate to settings')",
+        },
+        limit: {
+          type: "number",
+          description: `Most suggestions to return (default: ${DEFAULT_SUGGESTION_LIMIT}, max: ${MAX_SUGGESTION_LIMIT})`,
+        },
+        device: { type: "string", description: "Specific device ID" },
+        ...UI_UDID_PROPERTY,
+      },
+      required: ["goal"],
+    },
+    outputSchema: ACTION_SUGGESTIONS_SCHEMA,
+  },
+  {
+    name: "analyze_screen",
+    description: "[ADVANCED] Get a detailed analysis of what's currently on the screen: screen type (login, list, detail, dialog, error, loading, empty, permission prompt) with evidence, a one-line description, keyboard visibility, form fields with their labels, primary/secondary actions, suggested next steps and element counts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        device: { type: "string", description: "Specific device ID" },
+        ...UI_UDID_PROPERTY,
+      },
+    },
+    outputSchema: SCREEN_ANALYSIS_SCHEMA,
+  },
+  {
+    name: "get_screen_text",
+    description: "[ADVANCED] Extract all visible text from the current screen.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        device: { type: "string", description: "Specific device ID" },
+        ...UI_UDID_PROPERTY,
+      },
+    },
+  },
+
+  // === ADVANCED TIER - Accessibility (2 tools) ===
+  {
+    name: "audit_accessibility",
+    description: "[ADVANCED] Audit the current screen for accessibility problems: unlabeled controls, touch targets under 48dp, duplicate labels, images without descriptions and focus order. Each issue has a severity and the element's bounds.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...SNAPSHOT_PROPERTIES,
+        device: { type: "string", description: "Specific device ID" },
+        ...UI_UDID_PROPERTY,
+        minSeverity: {
+          type: "string",
+          enum: AUDIT_SEVERITIES,
+          description: "Only report issues at least this severe (default: info)",
+          default: "info",
+        },
+      },
+    },
+  },
+  {
+    name: "check_color_contrast",
+    description: "[ADVANCED] Check WCAG contrast of every text element on the screen of an Android device or iOS Simulator. Samples text and background colors from a screenshot within each element's bounds and reports ratios, with AA/AAA failures and their coordinates.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        device: { type: "string", description: "Specific device ID" },
+        ...UI_UDID_PROPERTY,
+        level: {
+          type: "string",
+          enum: WCAG_LEVELS,
+          description: "WCAG level to flag failures against (default: AA)",
+          default: "AA",
+        },
+        includePassing: {
+          type: "boolean",
+          description: "Also list text that passes (default: false)",
+          default: false,
+        },
+        refresh: SNAPSHOT_PROPERTIES.refresh,
+      },
+    },
+  },
+
+  // === ADVANCED TIER - Performance (2 tools) ===
+  {
+    name: "get_performance_snapshot",
+    description: "[ADVANCED] Performance report for a running Android app: CPU use over a one-second sample, memory from dumpsys meminfo (PSS and heap by category, live object counts such as activities and views) and frame stats from dumpsys gfxinfo (janky frame percentage, frame time percentiles). Frame stats cover the whole process lifetime.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        packageName: {
+          type: "string",
+          description: "The app package name (e.g., 'com.myapp')",
+        },
+        device: {
+          type: "string",
+          description: "Specific device ID. Leave empty for default.",
+        },
+      },
+      required: ["packageName"],
+    },
+    outputSchema: PERFORMANCE_REPORT_SCHEMA,
+  },
+  {
+    name: "get_performance_trend",
+    description: "[ADVANCED] Sample memory, CPU and frame stats of a running Android app at an interval and summarize the series: min/max/mean, growth per minute (e.g. MB per minute for a leak) and spikes. The series is kept per device and package, so repeated calls extend it; it starts over when the app restarts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        packageName: {
+          type: "string",
+          description: "The app package name (e.g., 'com.myapp')",
+        },
+        duration: {
+          type: "number",
+          description: `Seconds to sample for; 0 takes a single sample (default: ${DEFAULT_SAMPLING_SECONDS}, limit varies by tier)`,
+          default: DEFAULT_SAMPLING_SECONDS,
+        },
+        interval: {
+          type: "number",
+          description: `Seconds between samples (default: ${DEFAULT_SAMPLE_INTERVAL_SECONDS}, min: ${MIN_SAMPLE_INTERVAL_SECONDS}). Each sample takes a second or more; sampling stops once the duration has passed, so slow samples yield fewer of them.`,
+          default: DEFAULT_SAMPLE_INTERVAL_SECONDS,
+        },
+        reset: {
+          type: "boolean",
+          description: "Discard the stored series before sampling (default: false)",
+          default: false,
+        },
+        device: {
+          type: "string",
+          description: "Specific device ID. Leave empty for default.",
+        },
+      },
+      required: ["packageName"],
+    },
+    outputSchema: PERFORMANCE_TREND_SCHEMA,
+  },
+
+  // === ADVANCED TIER - Network Capture (4 tools) ===
+  {
+    name: "start_network_capture",
+    description: "[ADVANCED] Start a local HTTP proxy on 127.0.0.1 that records the app's network traffic. Returns the adb commands that route a device or emulator through it; the device is not changed by this tool. HTTP exchanges are recorded with headers, status, timings and bodies; HTTPS is tunnelled, so only host, timing and byte counts are recorded.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        port: {
+          type: "number",
+          description: `Proxy port (default: ${DEFAULT_PROXY_PORT}, 0 picks a free port)`,
+          default: DEFAULT_PROXY_PORT,
+        },
+        bufferSize: {
+          type: "number",
+          description: `Exchanges kept in the ring buffer (default: ${DEFAULT_EXCHANGE_BUFFER}, max: ${MAX_EXCHANGE_BUFFER})`,
+          default: DEFAULT_EXCHANGE_BUFFER,
+        },
+        device: {
+          type: "string",
+          description: "Android device ID to use in the setup commands (optional)",
+        },
+      },
+    },
+  },
+  {
+    name: "list_network_requests",
+    description: "[ADVANCED] List recorded network exchanges, oldest first: method, URL, status, duration and response size. Filter by method, URL text, status code or class, or errors only.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        method: { type: "string", description: "HTTP method, e.g. 'POST'" },
+        filter: { type: "string", description: "Text the URL must contain (case-insensitive)" },
+        status: { type: "string", description: "Status code ('404') or class ('5xx')" },
+        errorsOnly: {
+          type: "boolean",
+          description: "Only failed exchanges and 4xx/5xx responses (default: false)",
+          default: false,
+        },
+        limit: {
+          type: "number",
+          description: `Most recent matches to return (default: 50, max: ${MAX_EXCHANGE_BUFFER})`,
+          default: 50,
+        },
+      },
+    },
+  },
+  {
+    name: "get_network_request",
+    description: "[ADVANCED] Full record of one network exchange: request and response headers, bodies (text, or base64 for binary; up to 64 KB each), status and timings.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "number", description: "Exchange id from list_network_requests" },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "stop_network_capture",
+    description: "[ADVANCED] Stop the network capture proxy and discard the recorded exchanges.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+
+  // === ADVANCED TIER - License (1 tool) ===
+  {
+    name: "set_license_key",
+    description: "Activate a license key to unlock premium features.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        licenseKey: {
+          type: "string",
+          description: "Your license key from codecontrol.ai/mcp",
+        },
+      },
+      required: ["licenseKey"],
+    },
+  },
+];
+
+// ============================================================================
+// TOOL IMPLEMENTATIONS
+// ============================================================================
+
+export type ToolResult = {
+  content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
+  /** The same result as typed JSON, for tools with an outputSchema */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+interface UiNodeSummary {
+  text?: string;
+  resourceId?: string;
+  className: string;
+  contentDescription?: string;
+  bounds: string;
+  clickable?: boolean;
+  children?: UiNodeSummary[];
+}
+
+function describeElement(el: UiElement) {
+  return {
+    text: el.text,
+    resourceId: el.resourceId,
+    className: el.className,
+    contentDescription: el.contentDescription,
+    bounds: el.bounds,
+    center: { x: el.centerX, y: el.centerY },
+    clickable: el.clickable,
+    enabled: el.enabled,
+    path: el.path,
+  };
+}
+
+/**
+ * Just enough to recognise and locate an element in a report
+ */
+function briefElement(el: UiElement): ElementRef {
+  return {
+    text: el.text || undefined,
+    contentDescription: el.contentDescription || undefined,
+    resourceId: el.resourceId || undefined,
+    className: el.className,
+    bounds: el.bounds,
+    path: el.path,
+  };
+}
+
+function summarizeUiNode(node: UiNode): UiNodeSummary {
+  return {
+    text: node.text || undefined,
+    resourceId: node.resourceId || undefined,
+    className: node.className.split(".").pop() || node.className,
+    contentDescription: node.contentDescription || undefined,
+    bounds: node.bounds,
+    clickable: node.clickable || undefined,
+    children: node.children.length > 0 ? node.children.map(summarizeUiNode) : undefined,
+  };
+}
+
+function isRegion(value: unknown): value is Region {
+  if (value === null || typeof value !== "object") return false;
+  const r = value as Region;
+  return [r.x, r.y, r.width, r.height].every((v) => typeof v === "number" && Number.isFinite(v));
+}
+
+/**
+ * Validate the shared screenshot post-processing arguments
+ */
+function parseScreenshotOptions(args: Record<string, unknown>): ScreenshotOptions {
+  const options: ScreenshotOptions = {};
+
+  if (args.maxDimension !== undefined) {
+    if (typeof args.maxDimension !== "number" || !Number.isInteger(args.maxDimension) || args.maxDimension < MIN_MAX_DIMENSION) {
+      throw new Error(`maxDimension must be an integer of at least ${MIN_MAX_DIMENSION}`);
+    }
+    options.maxDimension = args.maxDimension;
+  }
+  if (args.format !== undefined) {
+    if (!IMAGE_FORMATS.includes(args.format as ImageFormat)) {
+      throw new Error(`format must be one of ${IMAGE_FORMATS.join(", ")}`);
+    }
+    options.format = args.format as ImageFormat;
+  }
+  if (args.quality !== undefined) {
+    if (typeof args.quality !== "number" || args.quality < 1 || args.quality > 100) {
+      throw new Error("quality must be a number between 1 and 100");
+    }
+    if (options.format === "webp") {
+      throw new Error("quality does not apply to webp, which is always lossless; use jpeg for lossy output");
+    }
+    options.quality = args.quality;
+  }
+  if (args.crop !== undefined) {
+    if (!isRegion(args.crop)) {
+      throw new Error("crop must be an {x, y, width, height} object");
+    }
+    options.crop = args.crop;
+  }
+
+  return options;
+}
+
+/**
+ * Numbered boxes for clickable elements (inside the crop, if any), in
+ * document order
+ */
+function clickableAnnotations(elements: UiElement[], crop?: Region): Array<{ box: AnnotationBox; element: UiElement }> {
+  const annotated: Array<{ box: AnnotationBox; element: UiElement }> = [];
+  for (const element of elements) {
+    if (!element.clickable) continue;
+    const rect = parseBounds(element.bounds);
+    if (!rect || rect.right <= rect.left || rect.bottom <= rect.top) continue;
+    const region = { x: rect.left, y: rect.top, width: rect.right - rect.left, height: rect.bottom - rect.top };
+    const outsideCrop = crop && (
+      region.x >= crop.x + crop.width || region.x + region.width <= crop.x ||
+      region.y >= crop.y + crop.height || region.y + region.height <= crop.y
+    );
+    if (outsideCrop) continue;
+
+    annotated.push({ box: { region, label: String(annotated.length + 1) }, element });
+    if (annotated.length >= MAX_ANNOTATIONS) break;
+  }
+  return annotated;
+}
+
+// Tools that publish an outputSchema; their results carry structuredContent
+const STRUCTURED_TOOLS = new Set(tools.filter((tool) => tool.outputSchema).map((tool) => tool.name));
+
+export async function handleTool(
+  name: string,
+  args: Record<string, unknown>,
+  tier: MobileDevTier
+): Promise<ToolResult> {
+  const result = await runTool(name, args, tier);
+  // Clients validate structured results against the schema; anything else from these tools is an error
+  if (STRUCTURED_TOOLS.has(name) && !result.structuredContent) {
+    return { ...result, isError: true };
+  }
+  return result;
+}
+
+async function runTool(
+  name: string,
+  args: Record<string, unknown>,
+  tier: MobileDevTier
+): Promise<ToolResult> {
+
+  // Check tool access
+  if (!canAccessTool(name, tier)) {
+    return {
+      content: [{
+        type: "text",
+        text: `This tool requires ADVANCED tier ($18/mo). Your tier: ${tier.toUpperCase()}. Upgrade at https://codecontrol.ai/mcp`,
+      }],
+    };
+  }
+
+  const device = args.device as string | undefined;
+
+  // Validate device ID if provided (security: prevent shell injection)
+  if (device && !validateDeviceId(device)) {
+    return {
+      content: [{ type: "text", text: "Invalid device ID format. Device IDs should be alphanumeric with dashes, colons, or periods." }],
+    };
+  }
+
+  const android = getBackend("android");
+  const ios = getBackend("ios");
+
+  // UI tools inspect an iOS Simulator when given a udid
+  const uiPlatform: Platform = args.udid !== undefined ? "ios" : "android";
+  const uiDevice = uiPlatform === "ios" ? (args.udid as string) : device;
+  const checkUiTarget = (): void => {
+    if (uiPlatform !== "ios") return;
+    if (typeof args.udid !== "string" || !validateUdid(args.udid)) {
+      throw new Error("Invalid iOS Simulator UDID format. Must be UUID format or 'booted'.");
+    }
+    if (!ios.isAvailable()) {
+      throw new Error("iOS Simulators are only available on macOS");
+    }
+  };
+
+  // UI tools share cached dumps; snapshotId pins an earlier one
+  const loadUiSnapshot = async (): Promise<UiSnapshot> => {
+    if (args.snapshotId !== undefined) {
+      const snapshot = typeof args.snapshotId === "string" ? getUiSnapshotById(args.snapshotId) : undefined;
+      if (!snapshot) {
+        throw new Error(`UI snapshot '${args.snapshotId}' not found or expired`);
+      }
+      return snapshot;
+    }
+    checkUiTarget();
+    return (await getUiSnapshot(uiPlatform, uiDevice, { refresh: args.refresh === true })).snapshot;
+  };
+
+  // Visual regression tools capture from either platform
+  const captureScreenshotPng = async (): Promise<Buffer> => {
+    if (args.platform === "ios") {
+      const udid = args.udid as string | undefined;
+      if (udid && !validateUdid(udid)) {
+        throw new Error("Invalid iOS Simulator UDID format. Must be UUID format or 'booted'.");
+      }
+      return Buffer.from(await ios.captureScreenshot(udid), "base64");
+    }
+    return Buffer.from(await android.captureScreenshot(device), "base64");
+  };
+
+  switch (name) {
+    // === SCREENSHOTS ===
+    case "screenshot_emulator": {
+      try {
+        const options = parseScreenshotOptions(args);
+        const cropToElement = args.cropToElement;
+        if (cropToElement !== undefined && (typeof cropToElement !== "string" || cropToElement.length > MAX_SELECTOR_LENGTH)) {
+          throw new Error(`cropToElement must be a selector string of at most ${MAX_SELECTOR_LENGTH} chars`);
+        }
+
+        const base64 = await android.captureScreenshot(device);
+        if (!hasScreenshotOptions(options) && !cropToElement && args.annotate !== true) {
+          return {
+            content: [
+              { type: "text", text: "Screenshot captured successfully" },
+              { type: "image", data: base64, mimeType: "image/png" },
+            ],
+          };
+        }
+
+        // Element crops and annotations come from the UI tree
+        let snapshot: UiSnapshot | undefined;
+        if (cropToElement) {
+          snapshot = (await getUiSnapshot("android", device)).snapshot;
+          const element = findElement(snapshot.roots, { xpath: cropToElement });
+          const rect = element && parseBounds(element.bounds);
+          if (!rect) {
+            return { content: [{ type: "text", text: `No element matches cropToElement '${cropToElement}'` }] };
+          }
+          options.crop = { x: rect.left, y: rect.top, width: rect.right - rect.left, height: rect.bottom - rect.top };
+        }
+        let annotated: ReturnType<typeof clickableAnnotations> = [];
+        if (args.annotate === true) {
+          snapshot = snapshot ?? (await getUiSnapshot("android", device)).snapshot;
+          annotated = clickableAnnotations(snapshot.elements, options.crop);
+          options.annotations = annotated.map((a) => a.box);
+        }
+
+        const image = processScreenshot(Buffer.from(base64, "base64"), options);
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Screenshot captured successfully\n" + JSON.stringify({
+                width: image.width,
+                height: image.height,
+                mimeType: image.mimeType,
+                scale: image.scale,
+                region: image.region,
+                snapshotId: snapshot?.id,
+                elements: args.annotate === true
+                  ? annotated.map(({ box, element }) => ({ number: Number(box.label), ...describeElement(element) }))
+                  : undefined,
+              }, null, 2),
+            },
+            { type: "image", data: image.data.toString("base64"), mimeType: image.mimeType },
+          ],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to capture screenshot: ${error.message}` }] };
+      }
+    }
+
+    case "screenshot_ios_simulator": {
+      // Validate UDID if provided (defense in depth - also validated in captureIosScreenshot)
+      const iosUdid = args.udid as string | undefined;
+      if (iosUdid && !validateUdid(iosUdid)) {
+        return {
+          content: [{ type: "text", text: "Invalid iOS Simulator UDID format. Must be UUID format or 'booted'." }],
+        };
+      }
+
+      try {
+        const options = parseScreenshotOptions(args);
+        const base64 = await ios.captureScreenshot(iosUdid);
+        if (!hasScreenshotOptions(options)) {
+          return {
+            content: [
+              { type: "text", text: "iOS screenshot captured successfully" },
+              { type: "image", data: base64, mimeType: "image/png" },
+            ],
+          };
+        }
+
+        const image = processScreenshot(Buffer.from(base64, "base64"), options);
+        return {
+          content: [
+            {
+              type: "text",
+              text: "iOS screenshot captured successfully\n" + JSON.stringify({
+                width: image.width,
+                height: image.height,
+                mimeType: image.mimeType,
+                scale: image.scale,
+                region: image.region,
+              }, null, 2),
+            },
+            { type: "image", data: image.data.toString("base64"), mimeType: image.mimeType },
+          ],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to capture iOS screenshot: ${error.message}` }] };
+      }
+    }
+
+    // === SCREEN RECORDING ===
+    case "get_screen_recording": {
+      const platform = args.platform ?? "android";
+      const udid = args.udid as string | undefined;
+      const duration = args.duration ?? DEFAULT_RECORDING_SECONDS;
+      const output = args.output ?? "frames";
+      const frameCount = args.frameCount ?? DEFAULT_FRAME_COUNT;
+      const maxSeconds = getMaxRecordingSeconds(tier);
+      const maxFrames = getMaxRecordingFrames(tier);
+
+      if (platform !== "android" && platform !== "ios") {
+        return { content: [{ type: "text", text: "platform must be 'android' or 'ios'" }] };
+      }
+      if (udid && !validateUdid(udid)) {
+        return { content: [{ type: "text", text: "Invalid iOS Simulator UDID format. Must be UUID format or 'booted'." }] };
+      }
+      if (typeof duration !== "number" || !Number.isInteger(duration) || duration < 1 || duration > maxSeconds) {
+        return { content: [{ type: "text", text: `duration must be a whole number of seconds from 1 to ${maxSeconds} on the ${tier.toUpperCase()} tier` }] };
+      }
+      if (output !== "frames" && output !== "video") {
+        return { content: [{ type: "text", text: "output must be 'frames' or 'video'" }] };
+      }
+      if (typeof frameCount !== "number" || !Number.isInteger(frameCount) || frameCount < 1 || frameCount > maxFrames) {
+        return { content: [{ type: "text", text: `frameCount must be from 1 to ${maxFrames} on the ${tier.toUpperCase()} tier` }] };
+      }
+
+      try {
+        const deadline = Date.now() + RECORDING_CALL_BUDGET_MS;
+        const options: ScreenshotOptions = { maxDimension: FRAME_MAX_DIMENSION, format: "jpeg", ...parseScreenshotOptions(args) };
+        const videoPath = newRecordingPath();
+        try {
+          await (platform === "ios"
+            ? ios.recordScreen(duration, videoPath, udid, deadline)
+            : android.recordScreen(duration, videoPath, device, deadline));
+        } catch (error) {
+          fs.rmSync(videoPath, { force: true });
+          throw error;
+        }
+        pruneRecordings();
+
+        const recording = { path: videoPath, platform, durationSec: duration, sizeBytes: fs.statSync(videoPath).size };
+        if (output === "video") {
+          return { content: [{ type: "text", text: "Screen recording saved\n" + JSON.stringify(recording, null, 2) }] };
+        }
+
+        // Frames share what is left of the call's time budget; once it runs
+        // out, the frames extracted so far are returned
+        const frames: Array<{ atSec: number; image: ReturnType<typeof processScreenshot> }> = [];
+        for (const atSec of frameTimestamps(duration, frameCount)) {
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) break;
+          let png: Buffer;
+          try {
+            png = await extractFrame(videoPath, atSec, remaining);
+          } catch (error) {
+            // Past the deadline the timeout is ours: report what there is
+            if (Date.now() < deadline) throw error;
+            break;
+          }
+          frames.push({ atSec, image: processScreenshot(png, options) });
+        }
+        if (frames.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "Screen recording saved, but no time was left to extract frames. Record for less time or use output: \"video\".\n" + JSON.stringify(recording, null, 2),
+            }],
+          };
+        }
+
+        const note = frames.length < frameCount
+          ? `Only ${frames.length} of ${frameCount} frames were extracted in time; record for less time for more frames`
+          : undefined;
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Screen recording captured\n" + JSON.stringify({
+                ...recording,
+                note,
+                frames: frames.map(({ atSec, image }, index) => ({
+                  index,
+                  atSec,
+                  width: image.width,
+                  height: image.height,
+                  mimeType: image.mimeType,
+                })),
+              }, null, 2),
+            },
+            ...frames.map(({ image }) => ({ type: "image", data: image.data.toString("base64"), mimeType: image.mimeType })),
+          ],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to record screen: ${error.message}` }] };
+      }
+    }
+
+    // === DEVICE INFO ===
+    case "list_devices": {
+      try {
+        const devices = await android.listDevices();
+        const maxDevices = getMaxDevices(tier);
+
+        const limited = devices.slice(0, maxDevices);
+        const structured: DeviceList = { devices: limited, total: devices.length };
+
+        if (devices.length === 0) {
+          return {
+            content: [{ type: "text", text: "No devices connected. Start an emulator or connect a device." }],
+            structuredContent: { ...structured },
+          };
+        }
+
+        let result = `Connected devices (showing ${limited.length}/${devices.length}):\n`;
+        result += limited.map((d) => `  ${d.id} - ${d.status}`).join("\n");
+
+        if (devices.length > maxDevices) {
+          result += `\n\n[Upgrade to ADVANCED to see all ${devices.length} devices]`;
+        }
+
+        return { content: [{ type: "text", text: result }], structuredContent: { ...structured } };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to list devices: ${error.message}` }] };
+      }
+    }
+
+    case "list_ios_simulators": {
+      if (!ios.isAvailable()) {
+        return { content: [{ type: "text", text: "iOS Simulators are only available on macOS" }] };
+      }
+
+      try {
+        const simulators = await ios.listDevices();
+        const onlyBooted = args.onlyBooted as boolean;
+
+        const listed = simulators.filter((sim) => !onlyBooted || sim.status === "Booted");
+        const byRuntime = new Map<string, typeof simulators>();
+        for (const sim of listed) {
+          const runtime = sim.runtime || "unknown";
+          byRuntime.set(runtime, [...(byRuntime.get(runtime) || []), sim]);
+        }
+
+        let result = "iOS Simulators:\n";
+        for (const [runtime, devices] of byRuntime) {
+          result += `\n${runtime}:\n`;
+          for (const device of devices) {
+            result += `  ${device.name} (${device.id}) - ${device.status}\n`;
+          }
+        }
+
+        const structured: DeviceList = { devices: listed, total: listed.length };
+        return { content: [{ type: "text", text: result }], structuredContent: { ...structured } };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to list simulators: ${error.message}` }] };
+      }
+    }
+
+    case "get_device_info": {
+      try {
+        const properties = await android.getDeviceProperties(device);
+        // Without an explicit device adb talks to the only one attached
+        const id = device ?? (await android.listDevices()).find((d) => d.status === "device")?.id ?? "";
+        const details = parseDeviceProperties(properties, id);
+        return {
+          content: [{ type: "text", text: JSON.stringify(details, null, 2) }],
+          structuredContent: { ...details },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get device info: ${error.message}` }] };
+      }
+    }
+
+    case "get_ios_simulator_info": {
+      if (!ios.isAvailable()) {
+        return { content: [{ type: "text", text: "iOS Simulators only available on macOS" }] };
+      }
+
+      // Validate UDID if provided
+      const simUdid = args.udid as string || "booted";
+      if (simUdid !== "booted" && !validateUdid(simUdid)) {
+        return {
+          content: [{ type: "text", text: "Invalid iOS Simulator UDID format. Must be UUID format or 'booted'." }],
+        };
+      }
+
+      try {
+        const details = (await ios.getDeviceDetails(simUdid)) as SimulatorDetails;
+        return {
+          content: [{ type: "text", text: JSON.stringify(details, null, 2) }],
+          structuredContent: { ...details },
+        };
+      } catch (error: any) {
+        if (error.message === "Simulator not found") {
+          return { content: [{ type: "text", text: "Simulator not found" }] };
+        }
+        return { content: [{ type: "text", text: `Failed to get simulator info: ${error.message}` }] };
+      }
+    }
+
+    case "get_app_info": {
+      const packageName = args.packageName as string;
+
+      // Validate package name (security: prevent shell injection)
+      if (!validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+
+      const sections = (args.sections ?? PACKAGE_SECTIONS) as PackageSection[];
+      if (!Array.isArray(sections) || sections.some((s) => !PACKAGE_SECTIONS.includes(s))) {
+        return { content: [{ type: "text", text: `sections must be a list of ${PACKAGE_SECTIONS.join(", ")}` }] };
+      }
+
+      try {
+        const info = parsePackageDump(await android.getPackageDump(packageName, device), packageName, sections);
+        return {
+          content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
+          structuredContent: { ...info },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get app info: ${error.message}` }] };
+      }
+    }
+
+    // === LOGS ===
+    case "get_metro_logs": {
+      const requestedLines = (args.lines as number) || 50;
+      const maxLines = getMaxLogLines(tier);
+      // Ensure lines is a positive integer
+      const lines = Math.max(1, Math.min(Math.floor(requestedLines), maxLines));
+      const filter = args.filter as string | undefined;
+
+      // Validate filter has reasonable length (prevent DoS)
+      if (filter && filter.length > 128) {
+        return { content: [{ type: "text", text: "Filter too long (max 128 chars)" }] };
+      }
+
+      const port = CONFIG.metroPort;
+      let logs;
+      try {
+        logs = await getMetroLogs(port, { lines, filter });
+      } catch {
+        return {
+          content: [{
+            type: "text",
+            text: `Metro not responding on port ${port}. Is it running?`,
+          }],
+        };
+      }
+
+      let result = `Metro logs (port ${port}, capturing since ${new Date(logs.capturingSince).toISOString()}):\n`;
+      if (logs.entries.length > 0) {
+        result += logs.entries.map(formatMetroLogEntry).join("\n");
+      } else if (logs.newConnection) {
+        result += "[Connected to Metro - capturing bundler events and console output from now on. Call again to read them.]";
+      } else {
+        result += filter ? `No Metro logs matching "${filter}"` : "No Metro logs captured yet";
+      }
+
+      if (lines < requestedLines && logs.total > lines) {
+        result += `\n[Showing ${lines} lines, upgrade to ADVANCED for more]`;
+      }
+
+      result += `\n\n// Mobile Dev MCP by GGBoi360 - MIT License (attribution required)`;
+
+      return { content: [{ type: "text", text: result }] };
+    }
+
+    case "get_adb_logs": {
+      const requestedLines = (args.lines as number) || 50;
+      const maxLines = getMaxLogLines(tier);
+      // Ensure lines is a positive integer (security: prevent injection via negative/float values)
+      const lines = Math.max(1, Math.min(Math.floor(requestedLines), maxLines));
+      const packageName = args.packageName as string | undefined;
+      const tags = Array.isArray(args.tags) && args.tags.length > 0
+        ? (args.tags as string[])
+        : [(args.filter as string) || (packageName ? "*" : "ReactNativeJS")];
+      const level = (args.level as string) || "I";
+      const format = (args.format as string) || "text";
+
+      // Validate tags (defense in depth: tags end up in logcat filterspecs)
+      if (tags.length > 20 || !tags.every((tag) => typeof tag === "string" && validateLogFilter(tag))) {
+        return {
+          content: [{ type: "text", text: "Invalid log filter format. Filters should be alphanumeric with underscores (e.g., 'ReactNativeJS', '*')." }],
+        };
+      }
+
+      // Validate level
+      if (!validateLogLevel(level)) {
+        return {
+          content: [{ type: "text", text: "Invalid log level. Use one of: V, D, I, W, E, F." }],
+        };
+      }
+
+      if (packageName && !validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+
+      let pattern: RegExp | undefined;
+      if (args.pattern !== undefined) {
+        const source = args.pattern as string;
+        if (typeof source !== "string" || source.length > 256) {
+          return { content: [{ type: "text", text: "Pattern must be a string of at most 256 chars" }] };
+        }
+        try {
+          pattern = new RegExp(source, "i");
+        } catch (error: any) {
+          return { content: [{ type: "text", text: `Invalid pattern: ${error.message}` }] };
+        }
+      }
+
+      const since = args.since ? parseTimeBound(args.since as string) : undefined;
+      const until = args.until ? parseTimeBound(args.until as string) : undefined;
+      if (since === null || until === null) {
+        return {
+          content: [{ type: "text", text: "Invalid time bound. Use a duration like '5m' or an ISO-8601 timestamp." }],
+        };
+      }
+
+      try {
+        let pids: number[] | undefined;
+        if (packageName) {
+          pids = await android.getPids(packageName, device);
+          if (pids.length === 0) {
+            return { content: [{ type: "text", text: `${packageName} is not running (no process found)` }] };
+          }
+        }
+
+        // Filters applied in Node.js need a wider window than the requested line count
+        const filtersInNode = !!(pids || pattern || since || until);
+        const stdout = await android.readLogs({ lines: filtersInNode ? MAX_SCAN_LINES : lines, tags, level }, device);
+
+        const entries = filterLogcatEntries(parseLogcat(stdout), {
+          minLevel: level as LogLevel,
+          tags,
+          pids,
+          pattern,
+          since,
+          until,
+        }).slice(-lines);
+
+        if (format === "json") {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                count: entries.length,
+                truncated: lines < requestedLines,
+                entries: entries.map(({ raw, ...entry }) => entry),
+              }, null, 2),
+            }],
+          };
+        }
+
+        let result = entries.length > 0 ? entries.map((e) => e.raw).join("\n") : "No logs found";
+
+        if (lines < requestedLines) {
+          result += `\n\n[Showing ${lines} lines, upgrade to ADVANCED for more]`;
+        }
+
+        result += `\n\n// Mobile Dev MCP by GGBoi360 - MIT License (attribution required)`;
+
+        return { content: [{ type: "text", text: result }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get logs: ${error.message}` }] };
+      }
+    }
+
+    case "get_ios_simulator_logs": {
+      if (!ios.isAvailable()) {
+        return { content: [{ type: "text", text: "iOS Simulator logs only available on macOS" }] };
+      }
+
+      const requestedLines = (args.lines as number) || 50;
+      const maxLines = getMaxLogLines(tier);
+      // Ensure lines is a safe positive integer (security: prevent tail injection)
+      const lines = Math.max(1, Math.min(Math.floor(requestedLines), maxLines));
+
+      try {
+        const outputLines = await ios.readLogs({ lines, filter: args.filter as string | undefined }, args.udid as string | undefined);
+        return { content: [{ type: "text", text: outputLines || "No recent logs found" }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get iOS logs: ${error.message}` }] };
+      }
+    }
+
+    case "check_metro_status": {
+      const port = (args.port as number) || CONFIG.metroPort;
+
+      // Validate port (security: prevent injection via port number)
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return {
+          content: [{ type: "text", text: "Invalid port number. Port must be between 1 and 65535." }],
+        };
+      }
+
+      try {
+        const { stdout } = await runCommand("curl", ["-s", `http://localhost:${port}/status`], { timeout: 2000 });
+        return {
+          content: [{
+            type: "text",
+            text: `Metro bundler is running on port ${port}\nStatus: ${stdout}`,
+          }],
+        };
+      } catch {
+        return {
+          content: [{
+            type: "text",
+            text: `Metro bundler is NOT running on port ${port}`,
+          }],
+        };
+      }
+    }
+
+    // === LOG CAPTURE (ADVANCED) ===
+    case "start_log_capture": {
+      const platform = (args.platform as Platform) || "android";
+      if (platform !== "android" && platform !== "ios") {
+        return { content: [{ type: "text", text: "Invalid platform. Use 'android' or 'ios'." }] };
+      }
+
+      const udid = args.udid as string | undefined;
+      if (udid && !validateUdid(udid)) {
+        return {
+          content: [{ type: "text", text: "Invalid iOS Simulator UDID format. Must be UUID format or 'booted'." }],
+        };
+      }
+
+      const backend = platform === "ios" ? ios : android;
+      if (!backend.isAvailable()) {
+        return { content: [{ type: "text", text: "iOS Simulator logs only available on macOS" }] };
+      }
+
+      try {
+        const target = platform === "ios" ? udid : device;
+        const { session, reused } = startLogSession(platform, target, (args.bufferSize as number) || undefined);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              sessionId: session.id,
+              cursor: encodeCursor(session.id, session.readSeq),
+              reused,
+              platform,
+              device: target || "default",
+              bufferSize: session.capacity,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to start log capture: ${error.message}` }] };
+      }
+    }
+
+    case "get_captured_logs": {
+      const sessionId = args.sessionId as string;
+      if (!sessionId || typeof sessionId !== "string") {
+        return { content: [{ type: "text", text: "sessionId parameter is required" }] };
+      }
+
+      const requestedLines = (args.lines as number) || 50;
+      const maxLines = getMaxLogLines(tier);
+      const lines = Math.max(1, Math.min(Math.floor(requestedLines), maxLines));
+
+      try {
+        const result = readLogSession(sessionId, lines, args.cursor as string | undefined);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to read captured logs: ${error.message}` }] };
+      }
+    }
+
+    case "stop_log_capture": {
+      const sessionId = args.sessionId as string;
+      if (!sessionId || typeof sessionId !== "string") {
+        return { content: [{ type: "text", text: "sessionId parameter is required" }] };
+      }
+
+      const stopped = stopLogSession(sessionId);
+      return {
+        content: [{
+          type: "text",
+          text: stopped ? `Log capture session ${sessionId} stopped` : `Log session '${sessionId}' not found`,
+        }],
+      };
+    }
+
+    // === CRASH DETECTION (ADVANCED) ===
+    case "get_crash_reports": {
+      const packageName = args.packageName as string | undefined;
+      if (packageName && !validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+
+      const since = args.since ? parseTimeBound(args.since as string) : undefined;
+      if (since === null) {
+        return {
+          content: [{ type: "text", text: "Invalid time bound. Use a duration like '5m' or an ISO-8601 timestamp." }],
+        };
+      }
+
+      const types = Array.isArray(args.types) && args.types.length > 0 ? new Set(args.types as CrashType[]) : null;
+      const limit = Math.max(1, Math.min(Math.floor((args.limit as number) || 5), 20));
+
+      try {
+        const stdout = await android.readLogs(
+          { lines: MAX_SCAN_LINES, tags: ["*"], level: "V", buffers: ["crash", "main", "system"] },
+          device
+        );
+
+        const entries = parseLogcat(stdout).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        let reports = detectCrashes(since ? filterLogcatEntries(entries, { since }) : entries);
+
+        if (packageName) {
+          const pids = await android.getPids(packageName, device).catch(() => []);
+          reports = filterCrashesByPackage(reports, packageName, pids);
+        }
+        if (types) {
+          reports = reports.filter((r) => types.has(r.type));
+        }
+
+        const newest = reports.reverse().slice(0, limit);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              count: newest.length,
+              totalFound: reports.length,
+              reports: newest,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get crash reports: ${error.message}` }] };
+      }
+    }
+
+    // === JS SYMBOLICATION (ADVANCED) ===
+    case "get_symbolicated_stack": {
+      const packageName = args.packageName as string | undefined;
+      if (packageName && !validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+
+      const sourceMapPath = args.sourceMapPath as string | undefined;
+      if (sourceMapPath !== undefined && (typeof sourceMapPath !== "string" || sourceMapPath.length > 1024)) {
+        return { content: [{ type: "text", text: "Invalid source map path" }] };
+      }
+
+      try {
+        let stack = args.stack as string | undefined;
+        let crash: CrashReport | undefined;
+
+        if (!stack) {
+          const stdout = await android.readLogs(
+            { lines: MAX_SCAN_LINES, tags: ["*"], level: "V", buffers: ["crash", "main"] },
+            device
+          );
+          const entries = parseLogcat(stdout).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+          let reports = detectCrashes(entries).filter((r) => r.type === "js_error");
+          if (packageName) {
+            const pids = await android.getPids(packageName, device).catch(() => []);
+            reports = filterCrashesByPackage(reports, packageName, pids);
+          }
+          crash = reports[reports.length - 1];
+          if (!crash) {
+            return { content: [{ type: "text", text: "No JS errors found in device logs. Pass a stack trace to symbolicate." }] };
+          }
+          stack = [crash.summary, ...crash.details].join("\n");
+        }
+
+        const frames = parseJsStack(stack);
+        if (frames.length === 0) {
+          return { content: [{ type: "text", text: "No JS stack frames found in the given stack trace." }] };
+        }
+
+        let result: { frames: SymbolicatedFrame[]; codeFrame?: string };
+        let source: "metro" | "sourceMap";
+        try {
+          result = await symbolicateWithMetro(frames, CONFIG.metroPort);
+          source = "metro";
+        } catch (metroError: any) {
+          if (!sourceMapPath) {
+            throw new Error(`Metro symbolication failed on port ${CONFIG.metroPort} (${metroError.message}). Pass sourceMapPath to symbolicate offline.`);
+          }
+          result = { frames: symbolicateWithSourceMap(frames, loadSourceMap(path.resolve(sourceMapPath))) };
+          source = "sourceMap";
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              source,
+              error: crash ? { summary: crash.summary, timestamp: crash.timestamp, packageName: crash.packageName } : undefined,
+              frames: result.frames,
+              codeFrame: result.codeFrame,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to symbolicate stack: ${error.message}` }] };
+      }
+    }
+
+    // === UI TREE (ADVANCED) ===
+    case "get_ui_tree": {
+      try {
+        const compressed = args.compressed !== false;
+        const snapshot = await loadUiSnapshot();
+
+        if (args.hierarchical === true) {
+          const nodes = compressed ? pruneUiTree(snapshot.roots) : snapshot.roots;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                snapshotId: snapshot.id,
+                elementCount: countUiNodes(nodes),
+                nodes: nodes.map(summarizeUiNode),
+              }, null, 2),
+            }],
+          };
+        }
+
+        const elements = snapshot.elements;
+        const filtered = compressed
+          ? elements.filter((el) => el.clickable || el.text || el.contentDescription)
+          : elements;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              snapshotId: snapshot.id,
+              elementCount: filtered.length,
+              elements: filtered.map((el) => ({
+                text: el.text,
+                resourceId: el.resourceId,
+                className: el.className.split(".").pop(),
+                contentDescription: el.contentDescription,
+                bounds: el.bounds,
+                clickable: el.clickable,
+                center: el.centerX && el.centerY ? { x: el.centerX, y: el.centerY } : undefined,
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get UI tree: ${error.message}` }] };
+      }
+    }
+
+    case "find_element":
+    case "wait_for_element":
+    case "get_element_property":
+    case "assert_element": {
+      let selector: Selector;
+      try {
+        selector = parseSelectorArgs(args);
+        compileSelector(selector);
+      } catch (error: any) {
+        return { content: [{ type: "text", text: error.message }] };
+      }
+      if (isEmptySelector(selector)) {
+        return {
+          content: [{ type: "text", text: "Provide a selector string or at least one of text, resourceId, contentDescription, className or a state" }],
+        };
+      }
+
+      const returnAll = args.all === true;
+
+      if (name === "wait_for_element") {
+        try {
+          checkUiTarget();
+        } catch (error: any) {
+          return { content: [{ type: "text", text: error.message }] };
+        }
+
+        // Cap timeout at 60 seconds to prevent indefinite blocking
+        const MAX_TIMEOUT = 60000;
+        const requestedTimeout = (args.timeout as number) || 5000;
+        const timeout = Math.max(1000, Math.min(requestedTimeout, MAX_TIMEOUT));
+        const pollInterval = 500;
+        const startTime = Date.now();
+
+        while (Date.now() - startTime < timeout) {
+          try {
+            // Always a fresh dump; it also refreshes the cache for later calls
+            const { snapshot } = await getUiSnapshot(uiPlatform, uiDevice, { refresh: true });
+            const matches = findElements(snapshot.roots, selector);
+            if (matches.length > 0) {
+              return {
+                content: [{
+                  type: "text",
+                  text: JSON.stringify({
+                    found: true,
+                    snapshotId: snapshot.id,
+                    waitTime: Date.now() - startTime,
+                    ...(returnAll
+                      ? { count: matches.length, elements: matches.map(describeElement) }
+                      : { element: describeElement(matches[0]) }),
+                  }, null, 2),
+                }],
+              };
+            }
+          } catch {
+            // Ignore errors during polling
+          }
+
+          await sleep(pollInterval);
+        }
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ found: false, timeout: true, waitTime: timeout }),
+          }],
+        };
+      }
+
+      try {
+        const snapshot = await loadUiSnapshot();
+        const matches = findElements(snapshot.roots, selector);
+        const targets = returnAll ? matches : matches.slice(0, 1);
+
+        if (name === "find_element") {
+          if (matches.length === 0) {
+            return { content: [{ type: "text", text: JSON.stringify({ found: false, snapshotId: snapshot.id }) }] };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                found: true,
+                snapshotId: snapshot.id,
+                count: matches.length,
+                ...(returnAll ? { elements: targets.map(describeElement) } : { element: describeElement(targets[0]) }),
+              }, null, 2),
+            }],
+          };
+        }
+
+        if (name === "get_element_property") {
+          const property = args.property as keyof UiElement;
+          if (targets.length === 0) {
+            return { content: [{ type: "text", text: JSON.stringify({ error: "Element not found", snapshotId: snapshot.id }) }] };
+          }
+          const values = targets.map((el) => ({ [property]: el[property] }));
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(returnAll
+                ? { snapshotId: snapshot.id, count: values.length, values }
+                : { snapshotId: snapshot.id, ...values[0] }),
+            }],
+          };
+        }
+
+        // assert_element
+        const shouldExist = args.shouldExist !== false;
+        const exists = matches.length > 0;
+        const expectations: Array<[keyof UiElement, unknown]> = [
+          ["enabled", args.isEnabled],
+          ["checked", args.isChecked],
+        ];
+        const stateMismatches = targets.flatMap((el) =>
+          expectations
+            .filter(([property, expected]) => expected !== undefined && el[property] !== expected)
+            .map(([property, expected]) => ({ path: el.path, property, expected, actual: el[property] }))
+        );
+        const passed = shouldExist === exists && (!shouldExist || stateMismatches.length === 0);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              snapshotId: snapshot.id,
+              passed,
+              exists,
+              shouldExist,
+              count: matches.length,
+              stateMismatches: stateMismatches.length > 0 ? stateMismatches : undefined,
+              element: targets[0] ? { text: targets[0].text, enabled: targets[0].enabled, checked: targets[0].checked } : null,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: name === "find_element" ? `Failed to find element: ${error.message}` : `Failed: ${error.message}`,
+          }],
+        };
+      }
+    }
+
+    case "get_ui_diff": {
+      const MAX_DIFF_ENTRIES = 100;
+      const fromId = args.fromSnapshotId;
+      const toId = args.toSnapshotId;
+      if (typeof fromId !== "string" || (toId !== undefined && typeof toId !== "string")) {
+        return { content: [{ type: "text", text: "fromSnapshotId is required and snapshot IDs must be strings" }] };
+      }
+
+      try {
+        const before = getUiSnapshotById(fromId);
+        if (!before) {
+          return { content: [{ type: "text", text: `UI snapshot '${fromId}' not found or expired` }] };
+        }
+
+        let after: UiSnapshot | undefined;
+        if (toId) {
+          after = getUiSnapshotById(toId);
+          if (!after) {
+            return { content: [{ type: "text", text: `UI snapshot '${toId}' not found or expired` }] };
+          }
+        } else {
+          const target = before.platform === uiPlatform ? uiDevice : undefined;
+          after = (await getUiSnapshot(before.platform, target ?? before.device, { refresh: true })).snapshot;
+        }
+
+        const diff = diffUiTrees(before.elements, after.elements, { includeLayout: args.includeLayout === true });
+        const summary = summarizeUiDiff(diff);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              fromSnapshotId: before.id,
+              toSnapshotId: after.id,
+              changed: summary.length > 0,
+              summary: summary.slice(0, MAX_DIFF_ENTRIES),
+              added: diff.added.slice(0, MAX_DIFF_ENTRIES).map(describeElement),
+              removed: diff.removed.slice(0, MAX_DIFF_ENTRIES).map(describeElement),
+              modified: diff.modified.slice(0, MAX_DIFF_ENTRIES).map((m) => ({
+                element: describeElement(m.after),
+                changes: m.changes,
+              })),
+              unchangedCount: diff.unchangedCount,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to diff UI: ${error.message}` }] };
+      }
+    }
+
+    // === VISUAL REGRESSION (ADVANCED) ===
+    case "save_screenshot_baseline": {
+      try {
+        const png = await captureScreenshotPng();
+        const saved = saveBaseline(args.name as string, png, { overwrite: args.overwrite === true });
+        return {
+          content: [{ type: "text", text: JSON.stringify({ saved: true, ...saved }, null, 2) }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to save baseline: ${error.message}` }] };
+      }
+    }
+
+    case "compare_screenshot": {
+      const threshold = args.threshold ?? 0.1;
+      const maxDiffPercent = args.maxDiffPercent ?? 0;
+      if (typeof threshold !== "number" || threshold < 0 || threshold > 1) {
+        return { content: [{ type: "text", text: "threshold must be a number between 0 and 1" }] };
+      }
+      if (typeof maxDiffPercent !== "number" || maxDiffPercent < 0 || maxDiffPercent > 100) {
+        return { content: [{ type: "text", text: "maxDiffPercent must be a number between 0 and 100" }] };
+      }
+
+      const ignoreRegions = (args.ignoreRegions ?? []) as Region[];
+      if (!Array.isArray(ignoreRegions) || ignoreRegions.length > MAX_IGNORE_REGIONS || !ignoreRegions.every(isRegion)) {
+        return {
+          content: [{
+            type: "text",
+            text: `ignoreRegions must be an array of up to ${MAX_IGNORE_REGIONS} {x, y, width, height} objects`,
+          }],
+        };
+      }
+
+      try {
+        const baseline = decodePng(loadBaseline(args.name as string));
+        const current = decodePng(await captureScreenshotPng());
+        const result = compareImages(baseline, current, { threshold, ignoreRegions });
+        const passed = result.mismatchPercent <= maxDiffPercent;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                name: args.name,
+                passed,
+                mismatchedPixels: result.mismatchedPixels,
+                comparedPixels: result.comparedPixels,
+                mismatchPercent: result.mismatchPercent,
+                maxDiffPercent,
+                threshold,
+                width: result.width,
+                height: result.height,
+              }, null, 2),
+            },
+            { type: "image", data: encodePng(result.diff).toString("base64"), mimeType: "image/png" },
+          ],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to compare screenshot: ${error.message}` }] };
+      }
+    }
+
+    case "list_screenshot_baselines": {
+      try {
+        const baselines = listBaselines();
+        return {
+          content: [{
+            type: "text",
+            text: baselines.length > 0
+              ? JSON.stringify({ count: baselines.length, baselines }, null, 2)
+              : "No screenshot baselines saved yet. Use save_screenshot_baseline to create one.",
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to list baselines: ${error.message}` }] };
+      }
+    }
+
+    // === SCREEN ANALYSIS (ADVANCED) ===
+    case "suggest_action": {
+      const goal = args.goal as string;
+
+      // Type guard and validation
+      if (!goal || typeof goal !== "string") {
+        return { content: [{ type: "text", text: "Goal parameter is required and must be a string" }] };
+      }
+
+      // Validate goal has reasonable length (prevent DoS via long strings)
+      const MAX_GOAL_LEN = 1000;
+      if (goal.length > MAX_GOAL_LEN) {
+        return { content: [{ type: "text", text: `Goal too long (max ${MAX_GOAL_LEN} chars)` }] };
+      }
+
+      const limit = args.limit ?? DEFAULT_SUGGESTION_LIMIT;
+      if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGESTION_LIMIT) {
+        return { content: [{ type: "text", text: `limit must be an integer from 1 to ${MAX_SUGGESTION_LIMIT}` }] };
+      }
+
+      try {
+        const snapshot = await loadUiSnapshot();
+        const clickableElements = snapshot.elements.filter((el) => el.clickable);
+        const suggestions = rankElementsForGoal(snapshot.roots, goal, { limit }).map((r) => r.suggestion);
+
+        const result: ActionSuggestions = {
+          snapshotId: snapshot.id,
+          goal,
+          suggestions,
+          ...(suggestions.length === 0 && {
+            message: `Nothing on screen matches "${goal}". ${clickableElements.length} clickable elements found; use analyze_screen for details.`,
+          }),
+          clickableElementCount: clickableElements.length,
+          note: "These are SUGGESTIONS only. MobileDevMCP is read-only and does not perform actions.",
+        };
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: { ...result },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to analyze screen: ${error.message}` }] };
+      }
+    }
+
+    case "analyze_screen": {
+      try {
+        const snapshot = await loadUiSnapshot();
+        const elements = snapshot.elements;
+
+        // The keyboard state is only current for a fresh dump
+        let keyboardVisible: boolean | undefined;
+        if (args.snapshotId === undefined) {
+          keyboardVisible = await getBackend(uiPlatform).isKeyboardShown(uiDevice).catch(() => undefined);
+        }
+        const structure = analyzeScreenStructure(snapshot.roots, { keyboardVisible });
+
+        const analysis: ScreenAnalysis = {
+          snapshotId: snapshot.id,
+          screenType: structure.screenType,
+          classifications: structure.classifications,
+          screenDescription: describeScreen(structure),
+          keyboardVisible: structure.keyboardVisible,
+          formFields: structure.formFields.map((field) => ({
+            label: field.label,
+            labelSource: field.labelSource,
+            kind: field.kind,
+            element: briefElement(field.element),
+          })),
+          primaryAction: structure.primaryAction && {
+            label: structure.primaryAction.label,
+            element: briefElement(structure.primaryAction.element),
+          },
+          secondaryActions: structure.secondaryActions.map((action) => ({
+            label: action.label,
+            element: briefElement(action.element),
+          })),
+          suggestedActions: suggestActionsForScreen(structure),
+          totalElements: elements.length,
+          clickableElements: elements.filter((el) => el.clickable).length,
+          textElements: elements.filter((el) => el.text).length,
+          inputFields: elements.filter((el) => INPUT_CLASS.test(el.className)).length,
+          buttons: elements.filter((el) => el.className.includes("Button")).length,
+          visibleText: elements
+            .filter((el) => el.text)
+            .map((el) => el.text)
+            .slice(0, 20),
+          interactiveElements: elements
+            .filter((el) => el.clickable && (el.text || el.contentDescription))
+            .map((el) => ({
+              text: el.text || el.contentDescription,
+              type: el.className.split(".").pop() || el.className,
+              bounds: el.bounds,
+            }))
+            .slice(0, 15),
+        };
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(analysis, null, 2) }],
+          structuredContent: { ...analysis },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to analyze screen: ${error.message}` }] };
+      }
+    }
+
+    case "audit_accessibility": {
+      const minSeverity = (args.minSeverity ?? "info") as AuditSeverity;
+      if (!AUDIT_SEVERITIES.includes(minSeverity)) {
+        return { content: [{ type: "text", text: `minSeverity must be one of ${AUDIT_SEVERITIES.join(", ")}` }] };
+      }
+
+      try {
+        const snapshot = await loadUiSnapshot();
+        // Touch target sizes need the density; the other checks do not
+        let density: number | undefined;
+        if (snapshot.platform === "ios") {
+          // iOS bounds are in points, already density-independent
+          density = BASELINE_DENSITY;
+        } else {
+          try {
+            // The snapshot may come from another device than this call's
+            density = await android.getDisplayDensity(snapshot.device);
+          } catch {
+            density = undefined;
+          }
+        }
+
+        const audit = auditAccessibility(snapshot.roots, snapshot.platform === "ios"
+          ? { density, minTouchTarget: MIN_TOUCH_TARGET_PT, unit: "pt" }
+          : { density });
+        const issues = audit.issues.filter(
+          (issue) => AUDIT_SEVERITIES.indexOf(issue.severity) <= AUDIT_SEVERITIES.indexOf(minSeverity)
+        );
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              snapshotId: snapshot.id,
+              density: density ?? null,
+              touchTargetsChecked: density !== undefined,
+              interactiveElements: audit.interactiveElements,
+              summary: audit.summary,
+              truncated: issues.length > MAX_AUDIT_ISSUES ? true : undefined,
+              issues: issues.slice(0, MAX_AUDIT_ISSUES).map(({ rule, severity, message, element }) => ({
+                rule,
+                severity,
+                message,
+                element: briefElement(element),
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to audit accessibility: ${error.message}` }] };
+      }
+    }
+
+    case "check_color_contrast": {
+      const level = (args.level ?? "AA") as WcagLevel;
+      if (!WCAG_LEVELS.includes(level)) {
+        return { content: [{ type: "text", text: `level must be one of ${WCAG_LEVELS.join(", ")}` }] };
+      }
+
+      try {
+        checkUiTarget();
+        // The screenshot must show the same screen as the dump
+        const { snapshot } = await getUiSnapshot(uiPlatform, uiDevice, { refresh: args.refresh === true });
+        const image = decodePng(Buffer.from(await getBackend(uiPlatform).captureScreenshot(uiDevice), "base64"));
+        let density: number | undefined;
+        let scale = 1;
+        if (uiPlatform === "ios") {
+          // Bounds are in points and the screenshot in pixels
+          const screen = snapshot.roots.length > 0 ? parseBounds(snapshot.roots[0].bounds) : null;
+          if (!screen || screen.right <= 0) {
+            throw new Error("Cannot tell the screen size from the UI tree");
+          }
+          scale = image.width / screen.right;
+          density = BASELINE_DENSITY * scale;
+        } else {
+          try {
+            density = await android.getDisplayDensity(device);
+          } catch {
+            density = undefined;
+          }
+        }
+
+        const report = checkTextContrast(image, snapshot.elements, density, scale);
+        const failing = report.results.filter((r) => !r.passes[level]);
+        const listed = args.includePassing === true ? report.results : failing;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              snapshotId: snapshot.id,
+              level,
+              checked: report.results.length,
+              failing: failing.length,
+              undetermined: report.undetermined.length,
+              truncated: listed.length > MAX_CONTRAST_RESULTS ? true : undefined,
+              results: listed.slice(0, MAX_CONTRAST_RESULTS).map((r) => ({
+                text: r.element.text,
+                bounds: r.element.bounds,
+                center: { x: r.element.centerX, y: r.element.centerY },
+                foreground: toHex(r.foreground),
+                background: toHex(r.background),
+                ratio: r.ratio,
+                required: WCAG_THRESHOLDS[level][r.largeText ? "large" : "normal"],
+                largeText: r.largeText,
+                AA: r.passes.AA ? "pass" : "fail",
+                AAA: r.passes.AAA ? "pass" : "fail",
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to check color contrast: ${error.message}` }] };
+      }
+    }
+
+    case "get_performance_snapshot": {
+      const packageName = args.packageName as string;
+      if (!validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+
+      try {
+        const [pid] = await android.getPids(packageName, device);
+        if (pid === undefined) {
+          return { content: [{ type: "text", text: `${packageName} is not running (no process found)` }] };
+        }
+        const report = parsePerformanceStats(await android.getPerformanceStats(packageName, pid, device), packageName, pid);
+        return {
+          content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+          structuredContent: { ...report },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get performance snapshot: ${error.message}` }] };
+      }
+    }
+
+    case "get_performance_trend": {
+      const packageName = args.packageName as string;
+      const duration = args.duration ?? DEFAULT_SAMPLING_SECONDS;
+      const interval = args.interval ?? DEFAULT_SAMPLE_INTERVAL_SECONDS;
+      const maxSeconds = getMaxSamplingSeconds(tier);
+
+      if (!validatePackageName(packageName)) {
+        return {
+          content: [{ type: "text", text: "Invalid package name format. Package names should be like 'com.example.app'." }],
+        };
+      }
+      if (typeof duration !== "number" || !Number.isInteger(duration) || duration < 0 || duration > maxSeconds) {
+        return { content: [{ type: "text", text: `duration must be a whole number of seconds from 0 to ${maxSeconds} on the ${tier.toUpperCase()} tier` }] };
+      }
+      if (typeof interval !== "number" || !Number.isInteger(interval) || interval < MIN_SAMPLE_INTERVAL_SECONDS) {
+        return { content: [{ type: "text", text: `interval must be a whole number of seconds, at least ${MIN_SAMPLE_INTERVAL_SECONDS}` }] };
+      }
+
+      try {
+        // Stop at the deadline rather than after a fixed sample count: one
+        // sample costs a second or more, so a short interval would otherwise
+        // run well past the duration.
+        const deadline = Date.now() + duration * 1000;
+        const notes: string[] = [];
+        for (let i = 0; ; i++) {
+          const startTime = Date.now();
+          const [pid] = await android.getPids(packageName, device);
+          if (pid === undefined) {
+            if (i === 0) {
+              return { content: [{ type: "text", text: `${packageName} is not running (no process found)` }] };
+            }
+            notes.push(`${packageName} stopped running after ${i} sample(s)`);
+            break;
+          }
+
+          const report = parsePerformanceStats(await android.getPerformanceStats(packageName, pid, device), packageName, pid);
+          const { restarted } = recordPerformanceSample(device, report, getMaxPerformanceSamples(tier), {
+            reset: i === 0 && args.reset === true,
+          });
+          if (restarted) {
+            notes.push(`${packageName} restarted (pid ${pid}); the series starts over`);
+          }
+
+          const nextTime = startTime + interval * 1000;
+          if (Date.now() >= deadline || nextTime > deadline) {
+            break;
+          }
+          await sleep(Math.max(0, nextTime - Date.now()));
+        }
+
+        const trend = summarizePerformanceSeries(device, packageName)!;
+        if (notes.length > 0) {
+          trend.note = notes.join("; ");
+        }
+        return {
+          content: [{ type: "text", text: JSON.stringify(trend, null, 2) }],
+          structuredContent: { ...trend },
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get performance trend: ${error.message}` }] };
+      }
+    }
+
+    case "get_screen_text": {
+      try {
+        const snapshot = await loadUiSnapshot();
+        const elements = snapshot.elements;
+        const allText = elements
+          .filter((el) => el.text || el.contentDescription)
+          .map((el) => el.text || el.contentDescription)
+          .filter((text, index, arr) => arr.indexOf(text) === index);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              snapshotId: snapshot.id,
+              textCount: allText.length,
+              text: allText,
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get screen text: ${error.message}` }] };
+      }
+    }
+
+    // === NETWORK CAPTURE (ADVANCED) ===
+    case "start_network_capture": {
+      const port = args.port ?? DEFAULT_PROXY_PORT;
+      if (typeof port !== "number" || !Number.isInteger(port) || port < 0 || port > 65535) {
+        return { content: [{ type: "text", text: "port must be a whole number from 0 to 65535" }] };
+      }
+
+      try {
+        const { proxy, reused } = await startNetworkProxy(port, (args.bufferSize as number) || undefined);
+        const adb = device ? `adb -s ${device}` : "adb";
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              proxy: `127.0.0.1:${proxy.port}`,
+              reused,
+              bufferSize: proxy.capacity,
+              exchanges: proxy.exchanges.length,
+              // adb reverse makes the device's 127.0.0.1:<port> reach the proxy
+              setup: [
+                `${adb} reverse tcp:${proxy.port} tcp:${proxy.port}`,
+                `${adb} shell settings put global http_proxy 127.0.0.1:${proxy.port}`,
+              ],
+              teardown: [
+                `${adb} shell settings put global http_proxy :0`,
+                `${adb} reverse --remove tcp:${proxy.port}`,
+              ],
+              note: "HTTPS is tunnelled: only host, timing and byte counts are recorded. Apps pick up the proxy setting on their next connection.",
+            }, null, 2),
+          }],
+        };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to start network capture: ${error.message}` }] };
+      }
+    }
+
+    case "list_network_requests": {
+      const proxy = getNetworkProxy();
+      if (!proxy) {
+        return { content: [{ type: "text", text: "Network capture is not running. Start it with start_network_capture." }] };
+      }
+
+      const status = args.status as string | undefined;
+      if (status !== undefined && (typeof status !== "string" || !isValidStatusFilter(status))) {
+        return { content: [{ type: "text", text: "status must be a code like '404' or a class like '5xx'" }] };
+      }
+      const method = args.method as string | undefined;
+      if (method !== undefined && (typeof method !== "string" || !/^[A-Za-z]{1,16}$/.test(method))) {
+        return { content: [{ type: "text", text: "method must be an HTTP method like 'GET'" }] };
+      }
+      const limit = Math.max(1, Math.min(Math.floor((args.limit as number) || 50), MAX_EXCHANGE_BUFFER));
+
+      const matching = filterExchanges(proxy.exchanges, {
+        method,
+        filter: args.filter as string | undefined,
+        status,
+        errorsOnly: args.errorsOnly === true,
+      });
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            proxy: `127.0.0.1:${proxy.port}`,
+            recorded: proxy.exchanges.length,
+            matched: matching.length,
+            requests: matching.slice(-limit).map(summarizeExchange),
+          }, null, 2),
+        }],
+      };
+    }
+
+    case "get_network_request": {
+      const proxy = getNetworkProxy();
+      if (!proxy) {
+        return { content: [{ type: "text", text: "Network capture is not running. Start it with start_network_capture." }] };
+      }
+
+      const id = args.id;
+      if (typeof id !== "number" || !Number.isInteger(id)) {
+        return { content: [{ type: "text", text: "id parameter is required" }] };
+      }
+      const exchange = proxy.exchanges.find((e) => e.id === id);
+      if (!exchange) {
+        return { content: [{ type: "text", text: `Request ${id} not found (it may have dropped out of the buffer)` }] };
+      }
+      return { content: [{ type: "text", text: JSON.stringify(exchange, null, 2) }] };
+    }
+
+    case "stop_network_capture": {
+      const stopped = stopNetworkProxy();
+      return {
+        content: [{
+          type: "text",
+          text: stopped ? "Network capture stopped" : "Network capture is not running",
+        }],
+      };
+    }
+
+    // === LICENSE ===
+    case "get_license_status": {
+      try {
+        const status = await getLicenseStatus();
+        return { content: [{ type: "text", text: status }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to get license status: ${error.message}` }] };
+      }
+    }
+
+    case "set_license_key": {
+      try {
+        const result = await setLicenseKey(args.licenseKey as string);
+        return { content: [{ type: "text", text: result }] };
+      } catch (error: any) {
+        return { content: [{ type: "text", text: `Failed to set license key: ${error.message}` }] };
+      }
+    }
+
+    default:
+      return { content: [{ type: "text", text: `Unknown tool: ${name}` }] };
+  }
+}
@@ -1,34 +1,254 @@
 // Mobile Dev MCP - Type Definitions
 // Read-only debugging tool for mobile development
 
+import type { ScreenType, ScreenClassification, FieldKind, LabelSource } from "./screenAnalysis.js";
+import type { PackageSection } from "./packageInfo.js";
+import type { TrendMetric } from "./performanceTrend.js";
+
 export interface DeviceInfo {
   id: string;
   status: string;
-  type: "emulator" | "device";
+  type: "emulator" | "device" | "simulator";
+  name?: string;
+  runtime?: string;
+}
+
+export interface BatteryInfo {
+  /** Charge in percent */
+  level: number;
+  status: "unknown" | "charging" | "discharging" | "not charging" | "full";
+  plugged: "ac" | "usb" | "wireless" | "dock" | "none";
+  temperatureC?: number;
+}
+
+/** Android device properties from a single getprop dump (get_device_info) */
+export interface DeviceDetails extends DeviceInfo {
+  manufacturer: string;
+  model: string;
+  brand: string;
+  product: string;
+  androidVersion: string;
+  apiLevel: number | null;
+  securityPatch?: string;
+  buildFingerprint: string;
+  /** Primary ABI, e.g. "arm64-v8a" */
+  abi: string;
+  supportedAbis: string[];
+  isEmulator: boolean;
+  /** Pixels; density in dpi (the override, when one is set) */
+  screen?: { width: number; height: number; density: number | null };
+  /** BCP 47 tag, e.g. "en-US" */
+  locale?: string;
+  /** IANA zone, e.g. "Europe/Berlin" */
+  timezone?: string;
+  battery?: BatteryInfo;
+  /** The /data partition */
+  storage?: { totalBytes: number; availableBytes: number };
+  memory?: { totalBytes: number; availableBytes?: number };
+  /** versionName of com.google.android.gms, when installed */
+  playServicesVersion?: string;
+}
+
+/** iOS Simulator details from `simctl list devices` (get_ios_simulator_info) */
+export interface SimulatorDetails extends DeviceInfo {
+  /** e.g. "com.apple.CoreSimulator.SimDeviceType.iPhone-15" */
+  deviceType?: string;
+  isAvailable?: boolean;
+  dataPath?: string;
+  logPath?: string;
+}
+
+/** Parsed `dumpsys package` (get_app_info); fields outside the requested sections are omitted */
+export interface PackageInfo {
+  packageName: string;
+  /** Sections included in this result */
+  sections: PackageSection[];
+  // version
+  versionName?: string;
+  versionCode?: number;
+  minSdk?: number;
+  targetSdk?: number;
+  // install; times are device-local "YYYY-MM-DD HH:MM:SS"
+  installerPackageName?: string;
+  firstInstallTime?: string;
+  lastUpdateTime?: string;
+  dataDir?: string;
+  codePath?: string;
+  // permissions; granted/denied are runtime permissions
+  requestedPermissions?: string[];
+  grantedPermissions?: string[];
+  deniedPermissions?: string[];
+  // components with intent filters, as full class names
+  activities?: string[];
+  services?: string[];
+  receivers?: string[];
+  providers?: string[];
+  // flags
+  debuggable?: boolean;
+  flags?: string[];
+}
+
+export interface CpuStats {
+  /** Per core, like top: 200 means two busy cores */
+  percent: number;
+  userPercent: number;
+  systemPercent: number;
+  cores: number;
+  threads: number;
+  /** Length of the sample */
+  sampleMs: number;
+}
+
+/** One row of the `dumpsys meminfo` table, in KB */
+export interface MemoryCategory {
+  name: string;
+  pssKb: number;
+  privateDirtyKb?: number;
+  privateCleanKb?: number;
+  swapPssKb?: number;
+  rssKb?: number;
+  heapSizeKb?: number;
+  heapAllocKb?: number;
+  heapFreeKb?: number;
+}
+
+export interface AppMemory {
+  totalPssKb: number;
+  totalRssKb?: number;
+  totalSwapPssKb?: number;
+  /** App Summary PSS in KB: javaHeap, nativeHeap, code, stack, graphics... */
+  summary: Record<string, number>;
+  categories: MemoryCategory[];
+  /** Live objects: views, activities, appContexts, webViews... (leaked activities keep counting up) */
+  objects: Record<string, number>;
+}
+
+/** `dumpsys gfxinfo` totals since the process started */
+export interface FrameStats {
+  totalFrames: number;
+  jankyFrames: number;
+  jankyPercent: number;
+  /** Frame times in ms */
+  percentiles: { p50: number; p90: number; p95: number; p99: number };
+  /** The "Number ..." lines: missedVsync, slowUiThread, frameDeadlineMissed... */
+  counters: Record<string, number>;
+}
+
+export interface PerformanceReport {
+  packageName: string;
+  pid: number;
+  cpu?: CpuStats;
+  memory?: AppMemory;
+  frames?: FrameStats;
+}
+
+/** One point of a performance series; fields are missing when that part of the snapshot failed */
+export interface PerformanceSample {
+  /** Milliseconds since the epoch */
+  timestamp: number;
+  pid: number;
+  pssMb?: number;
+  javaHeapMb?: number;
+  nativeHeapMb?: number;
+  cpuPercent?: number;
+  /** Frames rendered since the previous sample */
+  framesRendered?: number;
+  /** Janky share of those frames */
+  jankyPercent?: number;
+  activities?: number;
+}
+
+export interface MetricTrend {
+  samples: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Least-squares growth per minute, e.g. MB per minute for memory */
+  slopePerMinute: number;
+  spikes: Array<{ timestamp: number; value: number }>;
+}
+
+export interface PerformanceTrend {
+  packageName: string;
+  pid: number;
+  sampleCount: number;
+  /** Time between the first and last sample */
+  windowSeconds: number;
+  metrics: Partial<Record<TrendMetric, MetricTrend>>;
+  samples: PerformanceSample[];
+  /** Set when the series started over, e.g. after an app restart */
+  note?: string;
+}
+
+export interface DeviceList {
+  /** Devices shown on this tier */
+  devices: DeviceInfo[];
+  /** All matching devices, including ones hidden by the tier limit */
+  total: number;
 }
 
 export interface UiElement {
   text: string;
   resourceId: string;
   className: string;
+  packageName: string;
   contentDescription: string;
   bounds: string;
+  /** Index attribute from the dump (position among siblings) */
+  index: number;
   clickable: boolean;
+  longClickable: boolean;
+  checkable: boolean;
+  checked: boolean;
   enabled: boolean;
+  focusable: boolean;
   focused: boolean;
-  selected: boolean;
-  checked: boolean;
   scrollable: boolean;
-  // Computed properties
+  selected: boolean;
+  password: boolean;
+  /** 0 for top-level nodes */
+  depth: number;
+  /** Child positions from the root, e.g. [0, 2, 1] */
+  path: number[];
   centerX?: number;
   centerY?: number;
 }
 
+/**
+ * Just enough of a UiElement to recognise and locate it in a report
+ */
+export interface ElementRef {
+  text?: string;
+  contentDescription?: string;
+  resourceId?: string;
+  className: string;
+  bounds: string;
+  path: number[];
+}
+
 export interface ScreenAnalysis {
-  elements: UiElement[];
-  textContent: string[];
-  suggestedActions: SuggestedAction[];
+  snapshotId: string;
+  /** Most likely type, or "unknown" */
+  screenType: ScreenType | "unknown";
+  /** Every type with some evidence, most confident first */
+  classifications: ScreenClassification[];
+  /** One line, e.g. 'Login screen with 2 form fields (Email, Password); primary action "Sign in"' */
   screenDescription: string;
+  keyboardVisible: boolean;
+  formFields: Array<{ label: string; labelSource: LabelSource; kind: FieldKind; element: ElementRef }>;
+  primaryAction?: { label: string; element: ElementRef };
+  secondaryActions: Array<{ label: string; element: ElementRef }>;
+  /** Likely next steps without a goal; see suggest_action for goal-driven suggestions */
+  suggestedActions: SuggestedAction[];
+  totalElements: number;
+  clickableElements: number;
+  textElements: number;
+  inputFields: number;
+  buttons: number;
+  /** First 20 texts on screen */
+  visibleText: string[];
+  /** First 15 labelled clickable elements */
+  interactiveElements: Array<{ text: string; type: string; bounds: string }>;
 }
 
 export interface SuggestedAction {
@@ -41,6 +261,19 @@ export interface SuggestedAction {
     bounds?: string;
   };
   reasoning: string;
+  /** 0-1, how well the target matches the goal */
+  confidence?: number;
+}
+
+export interface ActionSuggestions {
+  snapshotId: string;
+  goal: string;
+  /** Best match first */
+  suggestions: SuggestedAction[];
+  /** Set when nothing on screen matches the goal */
+  message?: string;
+  clickableElementCount: number;
+  note: string;
 }
 
 export interface LicenseTier {
@@ -53,6 +286,21 @@ export interface LicenseTier {
 export interface TierLimits {
   maxLogLines: number;
   maxDevices: number;
+  /**
+   * Longest screen recording, in seconds. Frame extraction only gets what is
+   * left of RECORDING_CALL_BUDGET_MS, so long recordings return fewer frames.
+   */
+  maxRecordingSeconds: number;
+  /** Most key frames returned from one recording */
+  maxRecordingFrames: number;
+  /**
+   * Longest performance sampling window per call, in seconds. Kept well under
+   * the 60 s default MCP request timeout, since each sample adds about a second
+   * of CPU sampling plus the dumpsys calls.
+   */
+  maxSamplingSeconds: number;
+  /** Most performance samples kept per device and package */
+  maxPerformanceSamples: number;
 }
 
 // Simplified 2-tier system: Free and Advanced
@@ -60,14 +308,22 @@ export const TIER_LIMITS: Record<string, TierLimits> = {
   free: {
     maxLogLines: 50,
     maxDevices: 1,
+    maxRecordingSeconds: 10,
+    maxRecordingFrames: 3,
+    maxSamplingSeconds: 20,
+    maxPerformanceSamples: 20,
   },
   advanced: {
     maxLogLines: 200,
     maxDevices: 3,
+    maxRecordingSeconds: 45,
+    maxRecordingFrames: 10,
+    maxSamplingSeconds: 45,
+    maxPerformanceSamples: 240,
   },
 };
 
-// Tool categories for mobile-dev-mcp (21 tools total)
+// Tool categories for mobile-dev-mcp (39 tools total)
 
 // Free Tier - 8 Android-only read-only tools
 export const FREE_TOOLS = [
@@ -81,8 +337,8 @@ export const FREE_TOOLS = [
   "get_license_status",
 ];
 
-// Advanced Tier ($18/mo) - Free + 13 additional tools (21 total)
-// Includes: iOS support, UI inspection, screen analysis
+// Advanced Tier ($18/mo) - Free + 31 additional tools (39 total)
+// Includes: iOS support, log capture, UI inspection, screen analysis, network capture
 export const ADVANCED_TOOLS = [
   ...FREE_TOOLS,
   // iOS Support (4 tools) - Advanced only
@@ -90,16 +346,42 @@ export const ADVANCED_TOOLS = [
   "list_ios_simulators",
   "get_ios_simulator_info",
   "get_ios_simulator_logs",
-  // UI Inspection (5 tools) - Android
+  // Screen Recording (1 tool) - Android + iOS
+  "get_screen_recording",
+  // Log Capture (3 tools) - Android + iOS
+  "start_log_capture",
+  "get_captured_logs",
+  "stop_log_capture",
+  // Crash Detection (1 tool) - Android
+  "get_crash_reports",
+  // JS Symbolication (1 tool) - React Native
+  "get_symbolicated_stack",
+  // UI Inspection (6 tools) - Android + iOS
   "get_ui_tree",
   "find_element",
   "wait_for_element",
   "get_element_property",
   "assert_element",
-  // Screen Analysis (3 tools) - Android
+  "get_ui_diff",
+  // Visual Regression (3 tools) - Android + iOS
+  "save_screenshot_baseline",
+  "compare_screenshot",
+  "list_screenshot_baselines",
+  // Screen Analysis (3 tools) - Android + iOS
   "suggest_action",
   "analyze_screen",
   "get_screen_text",
+  // Accessibility (2 tools) - Android + iOS
+  "audit_accessibility",
+  "check_color_contrast",
+  // Performance (2 tools) - Android
+  "get_performance_snapshot",
+  "get_performance_trend",
+  // Network Capture (4 tools) - Android
+  "start_network_capture",
+  "list_network_requests",
+  "get_network_request",
+  "stop_network_capture",
   // License (1 tool)
   "set_license_key",
 ];
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { parseUiTree } from "./utils.js";
+import { diffUiTrees, summarizeUiDiff } from "./uiDiff.js";
+
+const node = (attrs: string, children = "") =>
+  children ? `<node ${attrs}>${children}</node>` : `<node ${attrs} />`;
+
+const BEFORE = `<hierarchy>${node(`class="android.widget.FrameLayout" bounds="[0,0][1080,2400]"`, [
+  node(`text="Email" resource-id="app:id/email" class="android.widget.EditText" clickable="true" enabled="true" bounds="[60,400][1020,520]"`),
+  node(`text="Submit" resource-id="app:id/submit" class="android.widget.Button" clickable="true" enabled="true" bounds="[60,700][1020,820]"`),
+  node(`text="Loading" class="android.widget.TextView" bounds="[60,900][1020,960]"`),
+].join(""))}</hierarchy>`;
+
+const AFTER = `<hierarchy>${node(`class="android.widget.FrameLayout" bounds="[0,0][1080,2400]"`, [
+  node(`text="Invalid email" resource-id="app:id/error" class="android.widget.TextView" bounds="[60,300][1020,360]"`),
+  node(`text="Email" resource-id="app:id/email" class="android.widget.EditText" clickable="true" enabled="true" bounds="[60,400][1020,520]"`),
+  node(`text="Submit" resource-id="app:id/submit" class="android.widget.Button" clickable="true" enabled="false" bounds="[60,760][1020,880]"`),
+  node(`class="android.widget.LinearLayout" bounds="[0,0][10,10]"`),
+].join(""))}</hierarchy>`;
+
+describe("diffUiTrees()", () => {
+  const diff = diffUiTrees(parseUiTree(BEFORE), parseUiTree(AFTER));
+
+  it("should match elements by resource-id even when their path shifts", () => {
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].after.resourceId).toBe("app:id/submit");
+    expect(diff.modified[0].changes).toEqual([
+      { property: "enabled", before: true, after: false },
+      { property: "bounds", before: "[60,700][1020,820]", after: "[60,760][1020,880]" },
+    ]);
+  });
+
+  it("should report added and removed elements", () => {
+    expect(diff.added.map((el) => el.resourceId)).toEqual(["app:id/error"]);
+    expect(diff.removed.map((el) => el.text)).toEqual(["Loading"]);
+    expect(diff.unchangedCount).toBe(2);
+  });
+
+  it("should hide anonymous layout containers unless asked", () => {
+    const full = diffUiTrees(parseUiTree(BEFORE), parseUiTree(AFTER), { includeLayout: true });
+    expect(full.added.map((el) => el.className)).toContain("android.widget.LinearLayout");
+  });
+
+  it("should match id-less elements by path and class", () => {
+    const before = parseUiTree(`<hierarchy>${node(`text="3 items" class="android.widget.TextView"`)}</hierarchy>`);
+    const after = parseUiTree(`<hierarchy>${node(`text="4 items" class="android.widget.TextView"`)}</hierarchy>`);
+    expect(diffUiTrees(before, after).modified[0].changes).toEqual([
+      { property: "text", before: "3 items", after: "4 items" },
+    ]);
+  });
+
+  it("should number repeated resource-ids in document order", () => {
+    const row = (text: string) => node(`text="${text}" resource-id="app:id/row" class="android.widget.TextView"`);
+    const before = parseUiTree(`<hierarchy>${row("A")}${row("B")}</hierarchy>`);
+    const after = parseUiTree(`<hierarchy>${row("A")}${row("C")}</hierarchy>`);
+    const rows = diffUiTrees(before, after);
+    expect(rows.modified).toHaveLength(1);
+    expect(rows.modified[0].changes[0]).toEqual({ property: "text", before: "B", after: "C" });
+  });
+
+  it("should summarize changes in plain language", () => {
+    expect(summarizeUiDiff(diff)).toEqual([
+      `TextView "Invalid email" (error) appeared`,
+      `TextView "Loading" disappeared`,
+      `Button "Submit" (submit) became disabled, moved from [60,700][1020,820] to [60,760][1020,880]`,
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+// Mobile Dev MCP - UI Tree Diffing
+// Compares two flat UI trees (e.g. snapshots before and after an action).
+// Elements are matched by resource-id first, then by tree path and class.
+
+import { UiElement } from "./types.js";
+
+// Properties compared on matched elements
+export const DIFF_PROPERTIES = [
+  "text",
+  "contentDescription",
+  "enabled",
+  "checked",
+  "selected",
+  "focused",
+  "bounds",
+] as const;
+
+export type DiffProperty = typeof DIFF_PROPERTIES[number];
+
+export interface PropertyChange {
+  property: DiffProperty;
+  before: string | boolean;
+  after: string | boolean;
+}
+
+export interface ModifiedElement {
+  before: UiElement;
+  after: UiElement;
+  changes: PropertyChange[];
+}
+
+export interface UiDiff {
+  added: UiElement[];
+  removed: UiElement[];
+  modified: ModifiedElement[];
+  unchangedCount: number;
+}
+
+export interface UiDiffOptions {
+  /** Also report plain layout containers (no id, text or interactivity) */
+  includeLayout?: boolean;
+}
+
+function pathKey(el: UiElement): string {
+  return `${el.path.join("/")}|${el.className}`;
+}
+
+/**
+ * Elements that carry meaning for a reader; anonymous layout containers
+ * come and go with every re-layout and are just noise.
+ */
+function isMeaningful(el: UiElement): boolean {
+  return !!(el.resourceId || el.text || el.contentDescription || el.clickable || el.checkable || el.scrollable);
+}
+
+/**
+ * Key by resource-id; repeated ids (list rows) are numbered in document order
+ */
+function resourceIdKeys(elements: UiElement[]): Map<string, UiElement> {
+  const counts = new Map<string, number>();
+  const keyed = new Map<string, UiElement>();
+  for (const el of elements) {
+    if (!el.resourceId) continue;
+    const occurrence = counts.get(el.resourceId) ?? 0;
+    counts.set(el.resourceId, occurrence + 1);
+    keyed.set(`${el.resourceId}#${occurrence}`, el);
+  }
+  return keyed;
+}
+
+export function diffUiTrees(before: UiElement[], after: UiElement[], options: UiDiffOptions = {}): UiDiff {
+  const pairs: Array<[UiElement, UiElement]> = [];
+  const matchedBefore = new Set<UiElement>();
+  const matchedAfter = new Set<UiElement>();
+
+  // 1. Same resource-id (and occurrence)
+  const afterById = resourceIdKeys(after);
+  for (const [key, el] of resourceIdKeys(before)) {
+    const match = afterById.get(key);
+    if (match) {
+      pairs.push([el, match]);
+      matchedBefore.add(el);
+      matchedAfter.add(match);
+    }
+  }
+
+  // 2. Same position in the tree and same class
+  const afterByPath = new Map<string, UiElement>();
+  for (const el of after) {
+    if (!matchedAfter.has(el)) afterByPath.set(pathKey(el), el);
+  }
+  for (const el of before) {
+    if (matchedBefore.has(el)) continue;
+    const match = afterByPath.get(pathKey(el));
+    // Elements with different ids are different elements even at the same spot
+    if (match && match.resourceId === el.resourceId) {
+      pairs.push([el, match]);
+      matchedBefore.add(el);
+      matchedAfter.add(match);
+      afterByPath.delete(pathKey(el));
+    }
+  }
+
+  const relevant = (el: UiElement) => options.includeLayout === true || isMeaningful(el);
+  const modified: ModifiedElement[] = [];
+  let unchangedCount = 0;
+
+  for (const [a, b] of pairs) {
+    const changes: PropertyChange[] = [];
+    for (const property of DIFF_PROPERTIES) {
+      if (a[property] !== b[property]) {
+        changes.push({ property, before: a[property], after: b[property] });
+      }
+    }
+    if (changes.length > 0 && (relevant(a) || relevant(b))) {
+      modified.push({ before: a, after: b, changes });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  return {
+    added: after.filter((el) => !matchedAfter.has(el) && relevant(el)),
+    removed: before.filter((el) => !matchedBefore.has(el) && relevant(el)),
+    modified,
+    unchangedCount,
+  };
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+export function describeUiElement(el: UiElement): string {
+  const type = el.className.split(".").pop() || "element";
+  const label = el.text || el.contentDescription;
+  const id = el.resourceId ? ` (${el.resourceId.split("/").pop()})` : "";
+  return label ? `${type} "${label}"${id}` : `${type}${id}`;
+}
+
+function describeChange(change: PropertyChange): string {
+  const { property, before, after } = change;
+  switch (property) {
+    case "enabled":
+      return after ? "became enabled" : "became disabled";
+    case "checked":
+      return after ? "became checked" : "became unchecked";
+    case "selected":
+      return after ? "became selected" : "was deselected";
+    case "focused":
+      return after ? "gained focus" : "lost focus";
+    case "bounds":
+      return `moved from ${before} to ${after}`;
+    default:
+      return `${property} changed from "${before}" to "${after}"`;
+  }
+}
+
+/**
+ * One plain-language line per change, e.g. `Button "Submit" (submit) became disabled`
+ */
+export function summarizeUiDiff(diff: UiDiff): string[] {
+  return [
+    ...diff.added.map((el) => `${describeUiElement(el)} appeared`),
+    ...diff.removed.map((el) => `${describeUiElement(el)} disappeared`),
+    ...diff.modified.map((m) =>
+      `${describeUiElement(m.before)} ${m.changes.map(describeChange).join(", ")}`),
+  ];
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createFakeBackend, setBackend, getBackend } from "./backend.js";
+import {
+  getUiSnapshot,
+  getUiSnapshotById,
+  clearUiSnapshots,
+  UI_SNAPSHOT_TTL_MS,
+  UI_SNAPSHOT_RETENTION_MS,
+  MAX_UI_SNAPSHOTS,
+} from "./uiSnapshots.js";
+
+const SCREEN_A = `<hierarchy><node text="A" class="android.widget.TextView" bounds="[0,0][10,10]" /></hierarchy>`;
+const SCREEN_B = `<hierarchy><node text="B" class="android.widget.TextView" bounds="[0,0][10,10]" /></hierarchy>`;
+
+describe("UI snapshot cache", () => {
+  beforeEach(() => {
+    setBackend("android", createFakeBackend("android", {
+      devices: [
+        { id: "emulator-5554", status: "device", type: "emulator" },
+        { id: "emulator-5556", status: "device", type: "emulator" },
+      ],
+      uiHierarchy: [SCREEN_A, SCREEN_B],
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setBackend("android", null);
+    clearUiSnapshots();
+  });
+
+  it("should reuse the latest dump within the TTL", async () => {
+    const dumps = vi.spyOn(getBackend("android"), "dumpUiHierarchy");
+
+    const first = await getUiSnapshot("android");
+    const second = await getUiSnapshot("android");
+
+    expect(first.cached).toBe(false);
+    expect(second).toEqual({ snapshot: first.snapshot, cached: true });
+    expect(second.snapshot.elements[0].text).toBe("A");
+    expect(dumps).toHaveBeenCalledTimes(1);
+  });
+
+  it("should dump again after the TTL or on refresh", async () => {
+    vi.useFakeTimers();
+    const first = await getUiSnapshot("android");
+
+    vi.advanceTimersByTime(UI_SNAPSHOT_TTL_MS + 1);
+    const expired = await getUiSnapshot("android");
+    expect(expired.cached).toBe(false);
+    expect(expired.snapshot.elements[0].text).toBe("B");
+
+    const refreshed = await getUiSnapshot("android", undefined, { refresh: true });
+    expect(refreshed.cached).toBe(false);
+    expect(refreshed.snapshot.id).not.toBe(first.snapshot.id);
+  });
+
+  it("should share one dump between concurrent callers", async () => {
+    const dumps = vi.spyOn(getBackend("android"), "dumpUiHierarchy");
+
+    const [a, b] = await Promise.all([
+      getUiSnapshot("android", undefined, { refresh: true }),
+      getUiSnapshot("android", undefined, { refresh: true }),
+    ]);
+
+    expect(a.snapshot).toBe(b.snapshot);
+    expect(dumps).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cache per device", async () => {
+    const first = await getUiSnapshot("android", "emulator-5554");
+    const other = await getUiSnapshot("android", "emulator-5556");
+
+    expect(other.cached).toBe(false);
+    expect(other.snapshot.device).toBe("emulator-5556");
+    expect(other.snapshot.id).not.toBe(first.snapshot.id);
+  });
+
+  it("should keep snapshots by id until retention or capacity runs out", async () => {
+    vi.useFakeTimers();
+    const { snapshot } = await getUiSnapshot("android");
+    expect(getUiSnapshotById(snapshot.id)).toBe(snapshot);
+
+    for (let i = 0; i < MAX_UI_SNAPSHOTS; i++) {
+      await getUiSnapshot("android", undefined, { refresh: true });
+    }
+    expect(getUiSnapshotById(snapshot.id)).toBeUndefined();
+
+    const { snapshot: recent } = await getUiSnapshot("android", undefined, { refresh: true });
+    vi.advanceTimersByTime(UI_SNAPSHOT_RETENTION_MS + 1);
+    expect(getUiSnapshotById(recent.id)).toBeUndefined();
+  });
+});
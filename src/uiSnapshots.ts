@@ -0,0 +1,109 @@
+// Mobile Dev MCP - UI Snapshot Cache
+// A uiautomator (or idb) dump takes 1-3 seconds. Parsed dumps are cached per device for
+// a short TTL so consecutive inspections of the same screen share one dump,
+// and kept for a few minutes under a snapshot id callers can reference.
+
+import * as crypto from "crypto";
+import { getBackend, Platform } from "./backend.js";
+import { UiElement } from "./types.js";
+import { parseUiHierarchy, flattenUiTree, UiNode } from "./uiTree.js";
+import { parseIosHierarchy } from "./iosHierarchy.js";
+
+// Implicit reuse window: long enough for a burst of tool calls on one screen
+export const UI_SNAPSHOT_TTL_MS = 2000;
+// Snapshots referenced by id stay available this long
+export const UI_SNAPSHOT_RETENTION_MS = 5 * 60 * 1000;
+export const MAX_UI_SNAPSHOTS = 20;
+
+export interface UiSnapshot {
+  id: string;
+  platform: Platform;
+  device?: string;
+  capturedAt: number;
+  roots: UiNode[];
+  /** Flat list in document order */
+  elements: UiElement[];
+}
+
+export interface UiSnapshotOptions {
+  /** Always take a new dump */
+  refresh?: boolean;
+  /** Reuse the latest snapshot only if it is younger than this (default: UI_SNAPSHOT_TTL_MS) */
+  maxAgeMs?: number;
+}
+
+// Retained snapshots by id, oldest first
+const snapshots = new Map<string, UiSnapshot>();
+// Latest snapshot per device
+const latest = new Map<string, UiSnapshot>();
+// Dumps in progress per device, shared by concurrent callers
+const pending = new Map<string, Promise<UiSnapshot>>();
+
+function deviceKey(platform: Platform, device?: string): string {
+  return `${platform}:${device || "default"}`;
+}
+
+function pruneSnapshots(now: number): void {
+  for (const [id, snapshot] of snapshots) {
+    if (snapshots.size > MAX_UI_SNAPSHOTS || now - snapshot.capturedAt > UI_SNAPSHOT_RETENTION_MS) {
+      snapshots.delete(id);
+    }
+  }
+}
+
+async function captureSnapshot(platform: Platform, device?: string): Promise<UiSnapshot> {
+  const dump = await getBackend(platform).dumpUiHierarchy(device);
+  const roots = platform === "ios" ? parseIosHierarchy(dump) : parseUiHierarchy(dump);
+  const snapshot: UiSnapshot = {
+    id: crypto.randomBytes(6).toString("hex"),
+    platform,
+    device,
+    capturedAt: Date.now(),
+    roots,
+    elements: flattenUiTree(roots),
+  };
+
+  snapshots.set(snapshot.id, snapshot);
+  latest.set(deviceKey(platform, device), snapshot);
+  pruneSnapshots(snapshot.capturedAt);
+  return snapshot;
+}
+
+/**
+ * Latest snapshot for a device, dumping the UI only when the cached one is
+ * older than the TTL (or `refresh` is set).
+ */
+export async function getUiSnapshot(
+  platform: Platform,
+  device?: string,
+  options: UiSnapshotOptions = {}
+): Promise<{ snapshot: UiSnapshot; cached: boolean }> {
+  const key = deviceKey(platform, device);
+  const maxAgeMs = options.maxAgeMs ?? UI_SNAPSHOT_TTL_MS;
+
+  const cached = latest.get(key);
+  if (!options.refresh && cached && Date.now() - cached.capturedAt <= maxAgeMs) {
+    return { snapshot: cached, cached: true };
+  }
+
+  let capture = pending.get(key);
+  if (!capture) {
+    capture = captureSnapshot(platform, device).finally(() => pending.delete(key));
+    pending.set(key, capture);
+  }
+  return { snapshot: await capture, cached: false };
+}
+
+/**
+ * A retained snapshot by id, or undefined when unknown or expired
+ */
+export function getUiSnapshotById(id: string): UiSnapshot | undefined {
+  pruneSnapshots(Date.now());
+  return snapshots.get(id);
+}
+
+export function clearUiSnapshots(): void {
+  snapshots.clear();
+  latest.clear();
+  pending.clear();
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseUiHierarchy,
+  flattenUiTree,
+  pruneUiTree,
+  countUiNodes,
+  decodeXmlEntities,
+  scanXml,
+  MAX_ELEMENTS,
+  MAX_DEPTH,
+} from "./uiTree.js";
+import { parseUiTree } from "./utils.js";
+
+const DUMP = `<?xml version='1.0' encoding='UTF-8' standalone='yes' ?>
+<hierarchy rotation="0">
+<node index="0" text="" resource-id="" class="android.widget.FrameLayout" package="com.example" content-desc="" checkable="false" checked="false" clickable="false" enabled="true" focusable="false" focused="false" scrollable="false" long-clickable="false" password="false" selected="false" bounds="[0,0][1080,2400]">
+<node index="0" text="Terms &amp; &quot;Conditions&quot;" resource-id="com.example:id/title" class="android.widget.TextView" package="com.example" content-desc="" clickable="false" enabled="true" bounds="[0,100][1080,200]" />
+<node index="1" text="" resource-id="com.example:id/form" class="android.widget.LinearLayout" package="com.example" content-desc="" clickable="false" enabled="true" bounds="[0,300][1080,900]">
+<node index="0" text="" resource-id="com.example:id/password" class="android.widget.EditText" package="com.example" content-desc="" focusable="true" password="true" clickable="true" long-clickable="true" enabled="true" bounds="[60,400][1020,520]" />
+<node index="1" text="Remember me" resource-id="com.example:id/remember" class="android.widget.CheckBox" package="com.example" content-desc="" checkable="true" checked="true" clickable="true" enabled="true" bounds="[60,600][1020,700]" />
+</node>
+</node>
+</hierarchy>
+UI hierchary dumped to: /dev/tty`;
+
+// ============================================================================
+// XML SCANNING TESTS
+// ============================================================================
+
+describe("decodeXmlEntities()", () => {
+  it("should decode named and numeric entities", () => {
+    expect(decodeXmlEntities("a &amp; b &lt;c&gt; &quot;d&quot; &apos;e&apos;")).toBe("a & b <c> \"d\" 'e'");
+    expect(decodeXmlEntities("line&#10;break &#x1F600;")).toBe("line\nbreak \u{1F600}");
+  });
+
+  it("should keep unknown references", () => {
+    expect(decodeXmlEntities("&nbsp; &#x110000;")).toBe("&nbsp; &#x110000;");
+  });
+});
+
+describe("scanXml()", () => {
+  it("should report tags and skip comments, CDATA and text", () => {
+    const events: string[] = [];
+    scanXml(`<?xml version="1.0"?><!-- <node> --><a x='1 > 0'><![CDATA[<b>]]>text<b/></a>`, {
+      onOpenTag: (name, attributes, selfClosing) => { events.push(`open ${name} ${JSON.stringify(attributes)} ${selfClosing}`); },
+      onCloseTag: (name) => { events.push(`close ${name}`); },
+    });
+    expect(events).toEqual([
+      'open a {"x":"1 > 0"} false',
+      "open b {} true",
+      "close a",
+    ]);
+  });
+
+  it("should reject malformed tags", () => {
+    const handlers = { onOpenTag: () => {}, onCloseTag: () => {} };
+    expect(() => scanXml(`<node text=unquoted />`, handlers)).toThrow("unquoted value");
+    expect(() => scanXml(`<node text="open`, handlers)).toThrow("unterminated value");
+  });
+});
+
+// ============================================================================
+// HIERARCHY TESTS
+// ============================================================================
+
+describe("parseUiHierarchy()", () => {
+  it("should build the parent/child tree with depth and paths", () => {
+    const roots = parseUiHierarchy(DUMP);
+    expect(roots).toHaveLength(1);
+    expect(roots[0].children).toHaveLength(2);
+
+    const form = roots[0].children[1];
+    expect(form.resourceId).toBe("com.example:id/form");
+    expect(form.depth).toBe(1);
+    expect(form.path).toEqual([0, 1]);
+    expect(form.children.map((c) => c.path)).toEqual([[0, 1, 0], [0, 1, 1]]);
+  });
+
+  it("should decode entities and keep the full attribute set", () => {
+    const [root] = parseUiHierarchy(DUMP);
+    expect(root.children[0].text).toBe("Terms & \"Conditions\"");
+
+    const [password, remember] = root.children[1].children;
+    expect(password).toMatchObject({
+      packageName: "com.example",
+      index: 0,
+      password: true,
+      focusable: true,
+      longClickable: true,
+      centerX: 540,
+      centerY: 460,
+    });
+    expect(remember).toMatchObject({ checkable: true, checked: true, index: 1 });
+  });
+
+  it("should reject mismatched end tags", () => {
+    expect(() => parseUiHierarchy("<hierarchy><node></hierarchy>")).toThrow("unexpected </hierarchy>");
+  });
+
+  it("should keep nodes from a truncated dump", () => {
+    const roots = parseUiHierarchy(`<hierarchy><node text="a"><node text="b" />`);
+    expect(countUiNodes(roots)).toBe(2);
+  });
+
+  it("should enforce size, element and depth limits", () => {
+    expect(() => parseUiHierarchy("x".repeat(10 * 1024 * 1024 + 1))).toThrow("maximum size");
+    expect(countUiNodes(parseUiHierarchy("<node/>".repeat(MAX_ELEMENTS + 10)))).toBe(MAX_ELEMENTS);
+    expect(() => parseUiHierarchy("<node>".repeat(MAX_DEPTH + 1))).toThrow("maximum depth");
+  });
+});
+
+describe("flattenUiTree() / pruneUiTree()", () => {
+  it("should flatten in document order without children", () => {
+    const elements = flattenUiTree(parseUiHierarchy(DUMP));
+    expect(elements.map((e) => e.path)).toEqual([[0], [0, 0], [0, 1], [0, 1, 0], [0, 1, 1]]);
+    expect(elements[0]).not.toHaveProperty("children");
+    expect(parseUiTree(DUMP)).toEqual(elements);
+  });
+
+  it("should prune to interesting nodes and their ancestors", () => {
+    const pruned = pruneUiTree(parseUiHierarchy(DUMP));
+    expect(countUiNodes(pruned)).toBe(5);
+
+    const withoutTitle = pruneUiTree(parseUiHierarchy(DUMP.replace(/Terms[^"]*"/, "\"").replace("Remember me", "")));
+    expect(withoutTitle[0].children.map((c) => c.resourceId)).toEqual(["com.example:id/form"]);
+  });
+});
@@ -0,0 +1,275 @@
+// Mobile Dev MCP - UI Hierarchy Parsing
+// Streaming parser for uiautomator XML dumps. Builds the parent/child tree
+// with depth and index paths; parseUiTree in utils.ts flattens it.
+
+import type { UiElement } from "./types.js";
+
+export interface UiNode extends UiElement {
+  children: UiNode[];
+}
+
+// Size limits to prevent DoS attacks
+export const MAX_XML_SIZE = 10 * 1024 * 1024;  // 10MB max
+export const MAX_ELEMENTS = 50000;  // Reasonable limit for UI tree
+export const MAX_DEPTH = 500;  // Keeps recursive tree walks off the stack limit
+
+export interface XmlHandlers {
+  /** Return false to stop scanning */
+  onOpenTag(name: string, attributes: Record<string, string>, selfClosing: boolean): boolean | void;
+  onCloseTag(name: string): void;
+}
+
+const NAME_REGEX = /[A-Za-z_:][\w:.-]*/y;
+const WHITESPACE_REGEX = /\s*/y;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+};
+
+/**
+ * Decode XML entities (&amp; &quot; &#10; &#x1F600; ...). Unknown or invalid
+ * references are kept as-is.
+ */
+export function decodeXmlEntities(value: string): string {
+  if (!value.includes("&")) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (reference, entity: string) => {
+    if (entity.startsWith("#")) {
+      const codePoint = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+    return NAMED_ENTITIES[entity] ?? reference;
+  });
+}
+
+function malformed(offset: number, reason: string): Error {
+  return new Error(`Malformed XML at offset ${offset}: ${reason}`);
+}
+
+function skipPast(xml: string, terminator: string, from: number): number {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) throw malformed(from, `missing '${terminator}'`);
+  return end + terminator.length;
+}
+
+function readName(xml: string, pos: number): string | null {
+  NAME_REGEX.lastIndex = pos;
+  const match = NAME_REGEX.exec(xml);
+  return match ? match[0] : null;
+}
+
+function skipWhitespace(xml: string, pos: number): number {
+  WHITESPACE_REGEX.lastIndex = pos;
+  WHITESPACE_REGEX.exec(xml);
+  return WHITESPACE_REGEX.lastIndex;
+}
+
+/**
+ * Scan a start tag at `start` ('<'). Returns the offset after it, or -1 when
+ * the handler asked to stop.
+ */
+function readStartTag(xml: string, start: number, handlers: XmlHandlers): number {
+  const name = readName(xml, start + 1);
+  if (!name) throw malformed(start, "invalid tag name");
+
+  const attributes: Record<string, string> = {};
+  let pos = start + 1 + name.length;
+
+  for (;;) {
+    pos = skipWhitespace(xml, pos);
+    if (pos >= xml.length) throw malformed(start, `unterminated <${name}> tag`);
+
+    if (xml.startsWith("/>", pos)) {
+      return handlers.onOpenTag(name, attributes, true) === false ? -1 : pos + 2;
+    }
+    if (xml[pos] === ">") {
+      return handlers.onOpenTag(name, attributes, false) === false ? -1 : pos + 1;
+    }
+
+    const attribute = readName(xml, pos);
+    if (!attribute) throw malformed(pos, `invalid attribute in <${name}>`);
+    pos = skipWhitespace(xml, pos + attribute.length);
+    if (xml[pos] !== "=") throw malformed(pos, `missing value for attribute '${attribute}'`);
+    pos = skipWhitespace(xml, pos + 1);
+
+    const quote = xml[pos];
+    if (quote !== "\"" && quote !== "'") throw malformed(pos, `unquoted value for attribute '${attribute}'`);
+    const end = xml.indexOf(quote, pos + 1);
+    if (end === -1) throw malformed(pos, `unterminated value for attribute '${attribute}'`);
+
+    attributes[attribute] = decodeXmlEntities(xml.slice(pos + 1, end));
+    pos = end + 1;
+  }
+}
+
+/**
+ * Single pass over the document reporting start and end tags. Text content,
+ * comments, CDATA, processing instructions and doctypes are skipped.
+ */
+export function scanXml(xml: string, handlers: XmlHandlers): void {
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    if (lt === -1) break;
+
+    if (xml.startsWith("<!--", lt)) {
+      pos = skipPast(xml, "-->", lt + 4);
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      pos = skipPast(xml, "]]>", lt + 9);
+    } else if (xml.startsWith("<?", lt)) {
+      pos = skipPast(xml, "?>", lt + 2);
+    } else if (xml.startsWith("<!", lt)) {
+      pos = skipPast(xml, ">", lt + 2);
+    } else if (xml[lt + 1] === "/") {
+      const end = xml.indexOf(">", lt);
+      if (end === -1) throw malformed(lt, "unterminated end tag");
+      handlers.onCloseTag(xml.slice(lt + 2, end).trim());
+      pos = end + 1;
+    } else {
+      pos = readStartTag(xml, lt, handlers);
+      if (pos === -1) return;
+    }
+  }
+}
+
+/**
+ * Parse uiautomator bounds ("[left,top][right,bottom]")
+ */
+export function parseBounds(bounds: string): { left: number; top: number; right: number; bottom: number } | null {
+  const match = bounds.match(/\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]/);
+  if (!match) return null;
+  const [, left, top, right, bottom] = match.map(Number);
+  return { left, top, right, bottom };
+}
+
+function createNode(attributes: Record<string, string>, path: number[]): UiNode {
+  const bool = (name: string) => attributes[name] === "true";
+
+  const node: UiNode = {
+    text: attributes["text"] ?? "",
+    resourceId: attributes["resource-id"] ?? "",
+    className: attributes["class"] ?? "",
+    packageName: attributes["package"] ?? "",
+    contentDescription: attributes["content-desc"] ?? "",
+    bounds: attributes["bounds"] ?? "",
+    index: attributes["index"] !== undefined ? Number(attributes["index"]) : path[path.length - 1],
+    clickable: bool("clickable"),
+    longClickable: bool("long-clickable"),
+    checkable: bool("checkable"),
+    checked: bool("checked"),
+    enabled: bool("enabled"),
+    focusable: bool("focusable"),
+    focused: bool("focused"),
+    scrollable: bool("scrollable"),
+    selected: bool("selected"),
+    password: bool("password"),
+    depth: path.length - 1,
+    path,
+    children: [],
+  };
+
+  // Parse bounds to get center coordinates
+  const rect = parseBounds(node.bounds);
+  if (rect) {
+    node.centerX = Math.floor((rect.left + rect.right) / 2);
+    node.centerY = Math.floor((rect.top + rect.bottom) / 2);
+  }
+
+  return node;
+}
+
+/**
+ * Parse a uiautomator dump into its top-level <node> elements. Parsing stops
+ * after MAX_ELEMENTS nodes; a truncated document keeps the nodes read so far.
+ */
+export function parseUiHierarchy(xmlDump: string): UiNode[] {
+  // Security: Prevent DoS from oversized XML dumps
+  if (xmlDump.length > MAX_XML_SIZE) {
+    throw new Error(`XML dump exceeds maximum size (${MAX_XML_SIZE} bytes)`);
+  }
+
+  const roots: UiNode[] = [];
+  // Open elements; non-<node> elements such as <hierarchy> carry no node
+  const open: Array<{ name: string; node: UiNode | null }> = [];
+  let count = 0;
+
+  const parentNode = (): UiNode | null => {
+    for (let i = open.length - 1; i >= 0; i--) {
+      if (open[i].node) return open[i].node;
+    }
+    return null;
+  };
+
+  scanXml(xmlDump, {
+    onOpenTag(name, attributes, selfClosing) {
+      let node: UiNode | null = null;
+
+      if (name === "node") {
+        // Security: Limit element count to prevent memory exhaustion
+        if (count >= MAX_ELEMENTS) return false;
+        count++;
+
+        const parent = parentNode();
+        const siblings = parent ? parent.children : roots;
+        node = createNode(attributes, [...(parent?.path ?? []), siblings.length]);
+        siblings.push(node);
+      }
+
+      if (!selfClosing) {
+        if (open.length >= MAX_DEPTH) {
+          throw new Error(`UI hierarchy exceeds maximum depth (${MAX_DEPTH})`);
+        }
+        open.push({ name, node });
+      }
+    },
+    onCloseTag(name) {
+      const current = open.pop();
+      if (!current || current.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+    },
+  });
+
+  return roots;
+}
+
+/**
+ * Flatten the tree in document order, without the children arrays
+ */
+export function flattenUiTree(roots: UiNode[]): UiElement[] {
+  const elements: UiElement[] = [];
+  const stack = [...roots].reverse();
+
+  while (stack.length > 0) {
+    const { children, ...element } = stack.pop()!;
+    elements.push(element);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Keep nodes that are interactive or carry text, plus the ancestors needed to
+ * reach them. Returns copies; the input tree is unchanged.
+ */
+export function pruneUiTree(roots: UiNode[]): UiNode[] {
+  const pruned: UiNode[] = [];
+  for (const node of roots) {
+    const children = pruneUiTree(node.children);
+    if (children.length > 0 || node.clickable || node.text || node.contentDescription) {
+      pruned.push({ ...node, children });
+    }
+  }
+  return pruned;
+}
+
+export function countUiNodes(roots: UiNode[]): number {
+  return roots.reduce((count, node) => count + 1 + countUiNodes(node.children), 0);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { PassThrough } from "stream";
+import { runCommand, adbArgs, onShutdown, CommandError } from "./utils.js";
+
+const NODE = process.execPath;
+
+// ============================================================================
+// PROCESS RUNNER TESTS
+// ============================================================================
+
+describe("runCommand()", () => {
+  it("should return structured output", async () => {
+    const result = await runCommand(NODE, ["-e", "process.stdout.write('hi'); process.stderr.write('warn')"]);
+    expect(result.stdout).toBe("hi");
+    expect(result.stderr).toBe("warn");
+    expect(result.exitCode).toBe(0);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should pass arguments without a shell", async () => {
+    const hostile = "$(echo pwned); rm -rf / | cat";
+    const result = await runCommand(NODE, ["-e", "process.stdout.write(process.argv[1])", hostile]);
+    expect(result.stdout).toBe(hostile);
+  });
+
+  it("should return raw bytes with buffer encoding", async () => {
+    const result = await runCommand(NODE, ["-e", "process.stdout.write(Buffer.from([0x89, 0x50, 0x4e, 0x47]))"], { encoding: "buffer" });
+    expect(Buffer.isBuffer(result.stdout)).toBe(true);
+    expect([...result.stdout]).toEqual([0x89, 0x50, 0x4e, 0x47]);
+  });
+
+  it("should reject on non-zero exit with the result attached", async () => {
+    const error = await runCommand(NODE, ["-e", "process.stderr.write('boom'); process.exit(3)"]).catch((e) => e);
+    expect(error).toBeInstanceOf(CommandError);
+    expect(error.message).toContain("boom");
+    expect(error.result.exitCode).toBe(3);
+  });
+
+  it("should resolve on non-zero exit when allowed", async () => {
+    const result = await runCommand(NODE, ["-e", "process.exit(2)"], { allowNonZeroExit: true });
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("should kill the process on timeout", async () => {
+    await expect(runCommand(NODE, ["-e", "setTimeout(() => {}, 10000)"], { timeout: 200 }))
+      .rejects.toThrow("timed out after 200ms");
+  });
+
+  it("should interrupt commands that run until stopped", async () => {
+    const script = "process.on('SIGINT', () => { process.stdout.write('saved'); process.exit(130); }); setTimeout(() => {}, 10000)";
+    const result = await runCommand(NODE, ["-e", script], { interruptAfter: 300, timeout: 5000 });
+    expect(result.stdout).toBe("saved");
+  });
+
+  it("should kill the process when output exceeds maxBuffer", async () => {
+    await expect(runCommand(NODE, ["-e", "process.stdout.write('x'.repeat(5000))"], { maxBuffer: 100 }))
+      .rejects.toThrow("exceeded maxBuffer");
+  });
+
+  it("should reject when the command does not exist", async () => {
+    await expect(runCommand("definitely-not-a-real-command-xyz", [])).rejects.toThrow("Failed to run");
+  });
+});
+
+describe("onShutdown()", () => {
+  it("should clean up and exit once when stdin closes", () => {
+    const stdin = new PassThrough();
+    const cleanup = vi.fn();
+    const exit = vi.fn();
+    const dispose = onShutdown(stdin, cleanup, exit);
+
+    stdin.emit("end");
+    stdin.emit("close");
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(0);
+    dispose();
+  });
+
+  it("should clean up on SIGTERM", () => {
+    const cleanup = vi.fn();
+    const exit = vi.fn();
+    const dispose = onShutdown(new PassThrough(), cleanup, exit);
+
+    process.emit("SIGTERM", "SIGTERM");
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(0);
+    dispose();
+  });
+
+  it("should exit even when cleanup throws", () => {
+    const exit = vi.fn();
+    const stdin = new PassThrough();
+    const dispose = onShutdown(stdin, () => { throw new Error("busy"); }, exit);
+
+    expect(() => stdin.emit("end")).toThrow("busy");
+    expect(exit).toHaveBeenCalledWith(0);
+    dispose();
+  });
+});
+
+describe("adbArgs()", () => {
+  it("should prefix the device selector", () => {
+    expect(adbArgs("emulator-5554", "shell", "wm", "size")).toEqual(["-s", "emulator-5554", "shell", "wm", "size"]);
+  });
+
+  it("should leave arguments untouched without a device", () => {
+    expect(adbArgs(undefined, "devices")).toEqual(["devices"]);
+  });
+});
@@ -1,13 +1,236 @@
 // Mobile Dev MCP - Shared Utilities
 
-import { exec, ChildProcess } from "child_process";
-import { promisify } from "util";
+import { spawn } from "child_process";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import * as crypto from "crypto";
+import type { Readable } from "stream";
+import { parseUiHierarchy, flattenUiTree } from "./uiTree.js";
+import type { UiElement } from "./types.js";
 
-export const execAsync = promisify(exec);
+// ============================================================================
+// PROCESS RUNNER
+// ============================================================================
+
+// Defaults applied to every command unless overridden
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+export const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;  // 10MB
+
+export interface CommandResult<T = string> {
+  stdout: T;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+}
+
+export interface RunOptions {
+  timeout?: number;
+  maxBuffer?: number;
+  encoding?: "utf-8" | "buffer";
+  /** Resolve instead of rejecting when the process exits non-zero */
+  allowNonZeroExit?: boolean;
+  /** Send SIGINT after this many ms, for commands that run until interrupted */
+  interruptAfter?: number;
+}
+
+export class CommandError extends Error {
+  constructor(message: string, public readonly result?: CommandResult<string | Buffer>) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+/**
+ * Run a command with an argv array (no shell involved).
+ * Output is collected up to maxBuffer; the process is killed on timeout or overflow.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunOptions & { encoding: "buffer" }
+): Promise<CommandResult<Buffer>>;
+export function runCommand(command: string, args: string[], options?: RunOptions): Promise<CommandResult<string>>;
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunOptions = {}
+): Promise<CommandResult<string | Buffer>> {
+  const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], windowsHide: true });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let stdoutSize = 0;
+    let stderrSize = 0;
+    let failure: string | null = null;
+    let interrupted = false;
+
+    const fail = (message: string) => {
+      if (failure) return;
+      failure = message;
+      child.kill("SIGKILL");
+    };
+
+    const timer = setTimeout(() => fail(`Command timed out after ${timeout}ms: ${command} ${args.join(" ")}`), timeout);
+    const interruptTimer = options.interruptAfter !== undefined
+      ? setTimeout(() => {
+          interrupted = true;
+          child.kill("SIGINT");
+        }, options.interruptAfter)
+      : undefined;
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdoutSize += chunk.length;
+      if (stdoutSize > maxBuffer) {
+        fail(`Command output exceeded maxBuffer (${maxBuffer} bytes): ${command}`);
+        return;
+      }
+      stdoutChunks.push(chunk);
+    });
+
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderrSize += chunk.length;
+      if (stderrSize > maxBuffer) {
+        fail(`Command stderr exceeded maxBuffer (${maxBuffer} bytes): ${command}`);
+        return;
+      }
+      stderrChunks.push(chunk);
+    });
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      clearTimeout(interruptTimer);
+      reject(new CommandError(`Failed to run ${command}: ${error.message}`));
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      clearTimeout(interruptTimer);
+      const stdoutBuffer = Buffer.concat(stdoutChunks);
+      const result: CommandResult<string | Buffer> = {
+        stdout: options.encoding === "buffer" ? stdoutBuffer : stdoutBuffer.toString("utf-8"),
+        stderr: Buffer.concat(stderrChunks).toString("utf-8"),
+        exitCode: code ?? -1,
+        durationMs: Date.now() - startTime,
+      };
+
+      if (failure) {
+        reject(new CommandError(failure, result));
+      } else if (result.exitCode !== 0 && !options.allowNonZeroExit && !interrupted) {
+        const detail = result.stderr.trim() || `exit code ${result.exitCode}`;
+        reject(new CommandError(`Command failed: ${command} ${args.join(" ")}: ${detail}`, result));
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+/**
+ * Handle to a long-running process whose stdout is consumed line by line
+ */
+export interface LineProcess {
+  onLine(listener: (line: string) => void): void;
+  onExit(listener: (error?: Error) => void): void;
+  stop(): void;
+}
+
+/**
+ * Spawn a long-running command (argv, no shell) and emit its stdout per line.
+ * Partial lines are held until the newline arrives.
+ */
+export function startLineProcess(command: string, args: string[]): LineProcess {
+  const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], windowsHide: true });
+  const lineListeners: Array<(line: string) => void> = [];
+  const exitListeners: Array<(error?: Error) => void> = [];
+  let pending = "";
+  let stderr = "";
+  let stopped = false;
+  let exited = false;
+
+  const emitExit = (error?: Error) => {
+    if (exited) return;
+    exited = true;
+    if (pending) {
+      lineListeners.forEach((l) => l(pending));
+      pending = "";
+    }
+    exitListeners.forEach((l) => l(error));
+  };
+
+  child.stdout.setEncoding("utf-8");
+  child.stdout.on("data", (chunk: string) => {
+    const parts = (pending + chunk).split(/\r?\n/);
+    pending = parts.pop() ?? "";
+    for (const line of parts) {
+      lineListeners.forEach((l) => l(line));
+    }
+  });
+
+  child.stderr.setEncoding("utf-8");
+  child.stderr.on("data", (chunk: string) => {
+    // Keep only the tail for error reporting
+    stderr = (stderr + chunk).slice(-2000);
+  });
+
+  child.on("error", (error) => emitExit(new Error(`Failed to run ${command}: ${error.message}`)));
+  child.on("close", (code) => {
+    if (stopped || code === 0) {
+      emitExit();
+    } else {
+      emitExit(new Error(`${command} exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+    }
+  });
+
+  return {
+    onLine: (listener) => { lineListeners.push(listener); },
+    onExit: (listener) => { exitListeners.push(listener); },
+    stop: () => {
+      if (stopped || exited) return;
+      stopped = true;
+      child.kill();
+    },
+  };
+}
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * Run `cleanup` and exit once the client goes away (stdin ends or closes) or
+ * on SIGINT/SIGTERM. Log processes, sockets and servers keep the event loop
+ * alive, so the process would otherwise outlive its client. Returns a
+ * function that removes the listeners.
+ */
+export function onShutdown(
+  input: Readable,
+  cleanup: () => void,
+  exit: (code: number) => void = (code) => process.exit(code)
+): () => void {
+  let done = false;
+  const shutdown = () => {
+    if (done) return;
+    done = true;
+    try {
+      cleanup();
+    } finally {
+      exit(0);
+    }
+  };
+
+  input.on("end", shutdown);
+  input.on("close", shutdown);
+  SHUTDOWN_SIGNALS.forEach((signal) => process.on(signal, shutdown));
+
+  return () => {
+    input.off("end", shutdown);
+    input.off("close", shutdown);
+    SHUTDOWN_SIGNALS.forEach((signal) => process.off(signal, shutdown));
+  };
+}
 
 // ============================================================================
 // INPUT VALIDATION (Security)
@@ -100,7 +323,7 @@ export function getAdbCommand(): string {
 
     for (const adbPath of windowsPaths) {
       if (fs.existsSync(adbPath)) {
-        return `"${adbPath}"`;
+        return adbPath;
       }
     }
   } else {
@@ -114,7 +337,7 @@ export function getAdbCommand(): string {
 
     for (const adbPath of unixPaths) {
       if (fs.existsSync(adbPath)) {
-        return `"${adbPath}"`;
+        return adbPath;
       }
     }
   }
@@ -124,6 +347,13 @@ export function getAdbCommand(): string {
 
 export const ADB = getAdbCommand();
 
+/**
+ * Prefix ADB arguments with the device selector when a device is given
+ */
+export function adbArgs(device: string | undefined, ...args: string[]): string[] {
+  return device ? ["-s", device, ...args] : args;
+}
+
 // ============================================================================
 // iOS SIMULATOR UTILITIES
 // ============================================================================
@@ -155,7 +385,7 @@ export const XCRUN = getXcrunCommand();
 
 export async function getDefaultDevice(): Promise<string | null> {
   try {
-    const { stdout } = await execAsync(`${ADB} devices`);
+    const { stdout } = await runCommand(ADB, ["devices"]);
     const lines = stdout.trim().split("\n").slice(1);
     const devices = lines
       .filter((line) => line.includes("device") && !line.includes("offline"))
@@ -169,7 +399,7 @@ export async function getDefaultDevice(): Promise<string | null> {
 
 export async function listConnectedDevices(): Promise<Array<{ id: string; status: string }>> {
   try {
-    const { stdout } = await execAsync(`${ADB} devices`);
+    const { stdout } = await runCommand(ADB, ["devices"]);
     const lines = stdout.trim().split("\n").slice(1);
     return lines
       .filter((line) => line.trim())
@@ -186,115 +416,12 @@ export async function listConnectedDevices(): Promise<Array<{ id: string; status
 // UI TREE PARSING
 // ============================================================================
 
-export interface UiElement {
-  text: string;
-  resourceId: string;
-  className: string;
-  contentDescription: string;
-  bounds: string;
-  clickable: boolean;
-  enabled: boolean;
-  focused: boolean;
-  selected: boolean;
-  checked: boolean;
-  scrollable: boolean;
-  centerX?: number;
-  centerY?: number;
-}
-
-// Size limits to prevent DoS attacks
-const MAX_XML_SIZE = 10 * 1024 * 1024;  // 10MB max
-const MAX_ELEMENTS = 50000;  // Reasonable limit for UI tree
-
+/**
+ * Parse a uiautomator dump into a flat list of elements in document order.
+ * Use parseUiHierarchy (uiTree.ts) for the parent/child tree.
+ */
 export function parseUiTree(xmlDump: string): UiElement[] {
-  // Security: Prevent DoS from oversized XML dumps
-  if (xmlDump.length > MAX_XML_SIZE) {
-    throw new Error(`XML dump exceeds maximum size (${MAX_XML_SIZE} bytes)`);
-  }
-
-  const elements: UiElement[] = [];
-  const nodeRegex = /<node[^>]+>/g;
-  let match;
-
-  // Precompiled regex patterns for better performance and security
-  const attrRegexes: Record<string, RegExp> = {
-    "text": /text="([^"]*)"/,
-    "resource-id": /resource-id="([^"]*)"/,
-    "class": /class="([^"]*)"/,
-    "content-desc": /content-desc="([^"]*)"/,
-    "bounds": /bounds="([^"]*)"/,
-    "clickable": /clickable="([^"]*)"/,
-    "enabled": /enabled="([^"]*)"/,
-    "focused": /focused="([^"]*)"/,
-    "selected": /selected="([^"]*)"/,
-    "checked": /checked="([^"]*)"/,
-    "scrollable": /scrollable="([^"]*)"/,
-  };
-
-  while ((match = nodeRegex.exec(xmlDump)) !== null) {
-    // Security: Limit element count to prevent memory exhaustion
-    if (elements.length >= MAX_ELEMENTS) {
-      break;
-    }
-
-    const node = match[0];
-
-    const getText = (attr: string): string => {
-      const regex = attrRegexes[attr];
-      if (!regex) return "";
-      const attrMatch = node.match(regex);
-      return attrMatch ? attrMatch[1] : "";
-    };
-
-    const getBool = (attr: string): boolean => getText(attr) === "true";
-
-    const element: UiElement = {
-      text: getText("text"),
-      resourceId: getText("resource-id"),
-      className: getText("class"),
-      contentDescription: getText("content-desc"),
-      bounds: getText("bounds"),
-      clickable: getBool("clickable"),
-      enabled: getBool("enabled"),
-      focused: getBool("focused"),
-      selected: getBool("selected"),
-      checked: getBool("checked"),
-      scrollable: getBool("scrollable"),
-    };
-
-    // Parse bounds to get center coordinates
-    const boundsMatch = element.bounds.match(/\[(\d+),(\d+)\]\[(\d+),(\d+)\]/);
-    if (boundsMatch) {
-      const [, x1, y1, x2, y2] = boundsMatch.map(Number);
-      element.centerX = Math.floor((x1 + x2) / 2);
-      element.centerY = Math.floor((y1 + y2) / 2);
-    }
-
-    elements.push(element);
-  }
-
-  return elements;
-}
-
-export function findElementInTree(
-  elements: UiElement[],
-  criteria: { text?: string; resourceId?: string; contentDescription?: string; className?: string }
-): UiElement | null {
-  for (const el of elements) {
-    if (criteria.text && el.text.toLowerCase().includes(criteria.text.toLowerCase())) {
-      return el;
-    }
-    if (criteria.resourceId && el.resourceId.includes(criteria.resourceId)) {
-      return el;
-    }
-    if (criteria.contentDescription && el.contentDescription.toLowerCase().includes(criteria.contentDescription.toLowerCase())) {
-      return el;
-    }
-    if (criteria.className && el.className.includes(criteria.className)) {
-      return el;
-    }
-  }
-  return null;
+  return flattenUiTree(parseUiHierarchy(xmlDump));
 }
 
 // ============================================================================
@@ -307,9 +434,10 @@ export async function captureAndroidScreenshot(device?: string): Promise<string>
     throw new Error("Invalid device ID format");
   }
 
-  const deviceArg = device ? `-s ${device}` : "";
-  const { stdout } = await execAsync(
-    `${ADB} ${deviceArg} exec-out screencap -p | base64`,
+  // Raw PNG bytes over exec-out; encode once in Node.js
+  const { stdout } = await runCommand(
+    ADB,
+    adbArgs(device, "exec-out", "screencap", "-p"),
     { maxBuffer: 50 * 1024 * 1024, encoding: "buffer" }
   );
   return stdout.toString("base64");
@@ -330,7 +458,7 @@ export async function captureIosScreenshot(udid?: string): Promise<string> {
   const udidArg = udid ? udid : "booted";
 
   try {
-    await execAsync(`${XCRUN} simctl io ${udidArg} screenshot "${tmpFile}"`);
+    await runCommand(XCRUN, ["simctl", "io", udidArg, "screenshot", tmpFile]);
     const data = fs.readFileSync(tmpFile);
     return data.toString("base64");
   } finally {
@@ -345,6 +473,77 @@ export async function captureIosScreenshot(udid?: string): Promise<string> {
   }
 }
 
+// ============================================================================
+// SCREEN RECORDING UTILITIES
+// ============================================================================
+
+// screenrecord stops by itself at 180 seconds
+export const MAX_SCREENRECORD_SECONDS = 180;
+
+// Longest wait for pulling a recording off the device
+const RECORDING_PULL_TIMEOUT_MS = 60000;
+
+/**
+ * Milliseconds a step may take: its own limit, cut short by `deadline`
+ * (epoch ms) when one is given
+ */
+function timeUntil(deadline: number | undefined, limit: number): number {
+  if (deadline === undefined) return limit;
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) {
+    throw new Error("No time left to finish the recording");
+  }
+  return Math.min(limit, remaining);
+}
+
+/**
+ * Record the screen with screenrecord into a local MP4 file. With a
+ * `deadline`, the pull is cut short when it passes.
+ */
+export async function captureAndroidRecording(seconds: number, outputPath: string, device?: string, deadline?: number): Promise<void> {
+  if (device && !validateDeviceId(device)) {
+    throw new Error("Invalid device ID format");
+  }
+  if (!Number.isInteger(seconds) || seconds < 1 || seconds > MAX_SCREENRECORD_SECONDS) {
+    throw new Error(`Recording duration must be 1-${MAX_SCREENRECORD_SECONDS} seconds`);
+  }
+
+  const remotePath = `/sdcard/mobiledev_${crypto.randomBytes(8).toString("hex")}.mp4`;
+  try {
+    await runCommand(
+      ADB,
+      adbArgs(device, "shell", "screenrecord", "--time-limit", String(seconds), remotePath),
+      { timeout: (seconds + 15) * 1000 }
+    );
+    await runCommand(ADB, adbArgs(device, "pull", remotePath, outputPath), { timeout: timeUntil(deadline, RECORDING_PULL_TIMEOUT_MS) });
+  } finally {
+    // Always clean up the file on the device
+    await runCommand(ADB, adbArgs(device, "shell", "rm", "-f", remotePath), { allowNonZeroExit: true }).catch(() => {});
+  }
+}
+
+/**
+ * Record a simulator's screen with simctl recordVideo, which records until
+ * interrupted
+ */
+export async function captureIosRecording(seconds: number, outputPath: string, udid?: string, deadline?: number): Promise<void> {
+  if (process.platform !== "darwin") {
+    throw new Error("iOS screen recording only available on macOS");
+  }
+  if (udid && !validateUdid(udid)) {
+    throw new Error("Invalid iOS Simulator UDID format");
+  }
+
+  await runCommand(
+    XCRUN,
+    ["simctl", "io", udid || "booted", "recordVideo", "--codec=h264", "--force", outputPath],
+    { interruptAfter: seconds * 1000, timeout: timeUntil(deadline, (seconds + 15) * 1000) }
+  );
+  if (!fs.existsSync(outputPath)) {
+    throw new Error("simctl did not produce a recording");
+  }
+}
+
 // ============================================================================
 // CONFIG UTILITIES
 // ============================================================================
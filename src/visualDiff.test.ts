@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createImage, encodePng, RgbaImage } from "./png.js";
+import { compareImages, saveBaseline, loadBaseline, listBaselines, validateBaselineName } from "./visualDiff.js";
+
+function solid(width: number, height: number, rgb: [number, number, number]): RgbaImage {
+  const image = createImage(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data.set([...rgb, 255], i * 4);
+  }
+  return image;
+}
+
+function setPixel(image: RgbaImage, x: number, y: number, rgb: [number, number, number]): void {
+  image.data.set([...rgb, 255], (y * image.width + x) * 4);
+}
+
+describe("compareImages()", () => {
+  it("should report no mismatches for identical images", () => {
+    const result = compareImages(solid(4, 4, [200, 200, 200]), solid(4, 4, [200, 200, 200]));
+    expect(result).toMatchObject({ comparedPixels: 16, mismatchedPixels: 0, mismatchPercent: 0 });
+  });
+
+  it("should count pixels over the threshold and mark them red", () => {
+    const current = solid(4, 4, [200, 200, 200]);
+    setPixel(current, 1, 1, [0, 0, 0]);
+    setPixel(current, 2, 2, [202, 200, 200]); // Below the default threshold
+
+    const result = compareImages(solid(4, 4, [200, 200, 200]), current);
+    expect(result.mismatchedPixels).toBe(1);
+    expect(result.mismatchPercent).toBe(6.25);
+    expect(Array.from(result.diff.data.subarray(20, 24))).toEqual([255, 0, 0, 255]);
+
+    expect(compareImages(solid(4, 4, [200, 200, 200]), current, { threshold: 0 }).mismatchedPixels).toBe(2);
+  });
+
+  it("should skip ignored regions", () => {
+    const current = solid(4, 4, [255, 255, 255]);
+    setPixel(current, 0, 0, [0, 0, 0]);
+    setPixel(current, 3, 3, [0, 0, 0]);
+
+    const result = compareImages(solid(4, 4, [255, 255, 255]), current, {
+      ignoreRegions: [{ x: 0, y: 0, width: 2, height: 1 }],
+    });
+    expect(result.comparedPixels).toBe(14);
+    expect(result.mismatchedPixels).toBe(1);
+  });
+
+  it("should reject images of different sizes", () => {
+    expect(() => compareImages(solid(2, 2, [0, 0, 0]), solid(2, 3, [0, 0, 0]))).toThrow("sizes differ");
+  });
+});
+
+describe("screenshot baselines", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mobile-dev-baselines-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should save, load and list baselines", () => {
+    const png = encodePng(solid(3, 2, [10, 20, 30]));
+    const saved = saveBaseline("login-screen", png, {}, dir);
+
+    expect(saved).toMatchObject({ name: "login-screen", width: 3, height: 2, sizeBytes: png.length });
+    expect(loadBaseline("login-screen", dir)).toEqual(png);
+    expect(listBaselines(dir)).toEqual([expect.objectContaining({ name: "login-screen", width: 3, height: 2 })]);
+  });
+
+  it("should refuse to overwrite unless asked", () => {
+    const png = encodePng(solid(1, 1, [0, 0, 0]));
+    saveBaseline("home", png, {}, dir);
+
+    expect(() => saveBaseline("home", png, {}, dir)).toThrow("already exists");
+    expect(() => saveBaseline("home", png, { overwrite: true }, dir)).not.toThrow();
+  });
+
+  it("should reject unsafe names and missing baselines", () => {
+    expect(validateBaselineName("../etc/passwd")).toBe(false);
+    expect(validateBaselineName("a..b")).toBe(false);
+    expect(validateBaselineName(".hidden")).toBe(false);
+    expect(validateBaselineName("checkout_v2.dark")).toBe(true);
+
+    expect(() => loadBaseline("missing", dir)).toThrow("not found");
+    expect(() => saveBaseline("bad/name", Buffer.alloc(0), {}, dir)).toThrow("Invalid baseline name");
+  });
+
+  it("should return an empty list when no baselines exist", () => {
+    expect(listBaselines(path.join(dir, "nothing-here"))).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+// Mobile Dev MCP - Visual Regression
+// Pixel comparison between screenshots and named baselines stored under
+// ~/.mobile-dev-mcp/baselines.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RgbaImage, createImage, readPngSize } from "./png.js";
+import { Region, clipRegion } from "./imageOps.js";
+
+export const BASELINE_DIR = path.join(os.homedir(), ".mobile-dev-mcp", "baselines");
+
+export const DEFAULT_PIXEL_THRESHOLD = 0.1;
+export const MAX_IGNORE_REGIONS = 50;
+
+export interface CompareOptions {
+  /** Per-pixel color distance tolerated, 0 (exact) to 1 (anything) */
+  threshold?: number;
+  /** Areas excluded from comparison (clock, animations...) */
+  ignoreRegions?: Region[];
+}
+
+export interface CompareResult {
+  width: number;
+  height: number;
+  comparedPixels: number;
+  mismatchedPixels: number;
+  /** Percentage of compared pixels that differ */
+  mismatchPercent: number;
+  /** Faded copy of the baseline with mismatches in red and ignored areas in blue */
+  diff: RgbaImage;
+}
+
+// Largest possible YIQ distance between two colors
+const MAX_YIQ_DELTA = 35215;
+
+function blendWhite(channel: number, alpha: number): number {
+  return 255 + (channel - 255) * alpha;
+}
+
+/**
+ * Perceptual color distance in YIQ space (as used by pixelmatch), with
+ * alpha blended onto white
+ */
+function colorDelta(a: Uint8Array, b: Uint8Array, offset: number): number {
+  const alphaA = a[offset + 3] / 255;
+  const alphaB = b[offset + 3] / 255;
+  const r1 = blendWhite(a[offset], alphaA);
+  const g1 = blendWhite(a[offset + 1], alphaA);
+  const b1 = blendWhite(a[offset + 2], alphaA);
+  const r2 = blendWhite(b[offset], alphaB);
+  const g2 = blendWhite(b[offset + 1], alphaB);
+  const b2 = blendWhite(b[offset + 2], alphaB);
+
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+function ignoreMask(width: number, height: number, regions: Region[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const clipped = clipRegion(region, width, height);
+    if (!clipped) continue;
+    for (let y = clipped.y; y < clipped.y + clipped.height; y++) {
+      mask.fill(1, y * width + clipped.x, y * width + clipped.x + clipped.width);
+    }
+  }
+  return mask;
+}
+
+export function compareImages(baseline: RgbaImage, current: RgbaImage, options: CompareOptions = {}): CompareResult {
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new Error(
+      `Image sizes differ: baseline is ${baseline.width}x${baseline.height}, current is ${current.width}x${current.height}`
+    );
+  }
+
+  const threshold = Math.max(0, Math.min(options.threshold ?? DEFAULT_PIXEL_THRESHOLD, 1));
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const { width, height } = baseline;
+  const mask = ignoreMask(width, height, options.ignoreRegions ?? []);
+  const diff = createImage(width, height);
+
+  let compared = 0;
+  let mismatched = 0;
+
+  for (let p = 0; p < width * height; p++) {
+    const o = p * 4;
+    const a = baseline.data;
+    // Faded grayscale background so the highlights stand out
+    const luma = blendWhite(a[o] * 0.29889531 + a[o + 1] * 0.58662247 + a[o + 2] * 0.11448223, a[o + 3] / 255);
+    const faded = Math.round(255 + (luma - 255) * 0.1);
+
+    if (mask[p]) {
+      diff.data.set([faded * 0.75, faded * 0.85, 255, 255], o);
+      continue;
+    }
+
+    compared++;
+    if (colorDelta(a, current.data, o) > maxDelta) {
+      mismatched++;
+      diff.data.set([255, 0, 0, 255], o);
+    } else {
+      diff.data.set([faded, faded, faded, 255], o);
+    }
+  }
+
+  return {
+    width,
+    height,
+    comparedPixels: compared,
+    mismatchedPixels: mismatched,
+    mismatchPercent: compared > 0 ? Math.round((mismatched / compared) * 10000) / 100 : 0,
+    diff,
+  };
+}
+
+// ============================================================================
+// BASELINES
+// ============================================================================
+
+export interface BaselineInfo {
+  name: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+  savedAt: string;
+}
+
+/**
+ * Baseline names become file names: letters, digits, dot, dash and underscore
+ */
+export function validateBaselineName(name: string): boolean {
+  return typeof name === "string" && /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,63}$/.test(name) && !name.includes("..");
+}
+
+function baselinePath(name: string, dir: string): string {
+  if (!validateBaselineName(name)) {
+    throw new Error("Invalid baseline name. Use up to 64 letters, digits, '.', '-' or '_'.");
+  }
+  return path.join(dir, `${name}.png`);
+}
+
+export function saveBaseline(
+  name: string,
+  png: Buffer,
+  options: { overwrite?: boolean } = {},
+  dir: string = BASELINE_DIR
+): BaselineInfo {
+  const file = baselinePath(name, dir);
+  const { width, height } = readPngSize(png);
+
+  if (!options.overwrite && fs.existsSync(file)) {
+    throw new Error(`Baseline '${name}' already exists. Pass overwrite: true to replace it.`);
+  }
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(file, png, { mode: 0o600 });
+
+  return { name, width, height, sizeBytes: png.length, savedAt: new Date().toISOString() };
+}
+
+export function loadBaseline(name: string, dir: string = BASELINE_DIR): Buffer {
+  const file = baselinePath(name, dir);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Baseline '${name}' not found`);
+  }
+  return fs.readFileSync(file);
+}
+
+export function listBaselines(dir: string = BASELINE_DIR): BaselineInfo[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith(".png") && validateBaselineName(file.slice(0, -4)))
+    .map((file) => {
+      const fullPath = path.join(dir, file);
+      const stats = fs.statSync(fullPath);
+      let size = { width: 0, height: 0 };
+      try {
+        // Only the header is needed for the dimensions
+        const header = Buffer.alloc(33);
+        const fd = fs.openSync(fullPath, "r");
+        try {
+          fs.readSync(fd, header, 0, 33, 0);
+        } finally {
+          fs.closeSync(fd);
+        }
+        size = readPngSize(header);
+      } catch {
+        // Unreadable file; report it without dimensions
+      }
+      return {
+        name: file.slice(0, -4),
+        ...size,
+        sizeBytes: stats.size,
+        savedAt: stats.mtime.toISOString(),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,392 @@
+// Mobile Dev MCP - WebP Encoder
+// Lossless WebP (VP8L) with the subtract-green and predictor transforms and
+// backward references to the left and upper pixels, which compresses the
+// flat areas of app screenshots well.
+
+import { RgbaImage } from "./png.js";
+import { huffmanCodeLengths, canonicalCodes } from "./huffman.js";
+
+const MAX_WEBP_DIMENSION = 16384;
+const MAX_COPY_LENGTH = 4096;
+const MIN_COPY_LENGTH = 3;
+
+// Alphabet sizes: green + length prefixes, red, blue, alpha, distance prefixes
+const ALPHABET_SIZES = [256 + 24, 256, 256, 256, 40];
+
+// Order in which code length code lengths are stored
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// Distance codes for the two neighbours we reference (see the spec's
+// distance map: code 1 is the pixel above, code 2 the pixel to the left)
+const PLANE_CODE_UP = 1;
+const PLANE_CODE_LEFT = 2;
+
+/**
+ * LSB-first bit writer
+ */
+function createBitWriter() {
+  let out = Buffer.alloc(1 << 16);
+  let length = 0;
+  let buffer = 0;
+  let count = 0;
+
+  return {
+    write(value: number, bits: number): void {
+      buffer |= value << count;
+      count += bits;
+      while (count >= 8) {
+        if (length >= out.length) {
+          const grown = Buffer.alloc(out.length * 2);
+          out.copy(grown);
+          out = grown;
+        }
+        out[length++] = buffer & 0xff;
+        buffer >>>= 8;
+        count -= 8;
+      }
+    },
+    finish(): Buffer {
+      if (count > 0) this.write(0, 8 - count);
+      return out.subarray(0, length);
+    },
+  };
+}
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+/**
+ * Prefix-code a copy length or distance: a symbol plus extra bits
+ */
+function prefixEncode(value: number): { symbol: number; extraBits: number; extra: number } {
+  const d = value - 1;
+  if (d < 4) return { symbol: d, extraBits: 0, extra: 0 };
+  const highBit = 31 - Math.clz32(d);
+  const second = (d >> (highBit - 1)) & 1;
+  const extraBits = highBit - 1;
+  return { symbol: 2 * highBit + second, extraBits, extra: d & ((1 << extraBits) - 1) };
+}
+
+interface PrefixCode {
+  lengths: Uint8Array;
+  /** Bit-reversed codes, ready for the LSB-first writer */
+  codes: Uint32Array;
+}
+
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >> i) & 1);
+  }
+  return reversed;
+}
+
+function buildPrefixCode(counts: Uint32Array, maxLength: number): PrefixCode {
+  const lengths = huffmanCodeLengths(counts, maxLength);
+  const codes = canonicalCodes(lengths);
+  for (let symbol = 0; symbol < codes.length; symbol++) {
+    codes[symbol] = reverseBits(codes[symbol], lengths[symbol]);
+  }
+  return { lengths, codes };
+}
+
+/**
+ * Write a prefix code's definition. Codes with a single symbol (or none)
+ * use the "simple" form and cost zero bits per use.
+ */
+function writePrefixCode(writer: BitWriter, counts: Uint32Array): PrefixCode {
+  const used: number[] = [];
+  for (let symbol = 0; symbol < counts.length && used.length < 2; symbol++) {
+    if (counts[symbol] > 0) used.push(symbol);
+  }
+
+  if (used.length < 2 && (used[0] ?? 0) < 256) {
+    const symbol = used[0] ?? 0;
+    writer.write(1, 1);  // simple code
+    writer.write(0, 1);  // one symbol
+    const wide = symbol > 1;
+    writer.write(wide ? 1 : 0, 1);
+    writer.write(symbol, wide ? 8 : 1);
+    return { lengths: new Uint8Array(counts.length), codes: new Uint32Array(counts.length) };
+  }
+
+  let codeCounts = counts;
+  if (used.length < 2) {
+    // A lone symbol above 255 can't use the simple form; pair it with an unused one
+    codeCounts = counts.slice();
+    codeCounts[0] = 1;
+  }
+  const code = buildPrefixCode(codeCounts, 15);
+
+  // Run-length code the lengths: 17 and 18 encode runs of zeros
+  const tokens: Array<[number, number]> = [];
+  const { lengths } = code;
+  for (let i = 0; i < lengths.length;) {
+    if (lengths[i] !== 0) {
+      tokens.push([lengths[i], 0]);
+      i++;
+      continue;
+    }
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++;
+    if (run >= 11) tokens.push([18, run - 11]);
+    else if (run >= 3) tokens.push([17, run - 3]);
+    else for (let k = 0; k < run; k++) tokens.push([0, 0]);
+    i += run;
+  }
+
+  const tokenCounts = new Uint32Array(19);
+  for (const [symbol] of tokens) tokenCounts[symbol]++;
+  if (tokenCounts.filter((count) => count > 0).length < 2) {
+    // Keep the code length code a proper two-symbol tree
+    tokenCounts[tokens[0][0] === 0 ? 1 : 0] = 1;
+  }
+  const lengthCode = buildPrefixCode(tokenCounts, 7);
+
+  let stored = CODE_LENGTH_ORDER.length;
+  while (stored > 4 && lengthCode.lengths[CODE_LENGTH_ORDER[stored - 1]] === 0) stored--;
+
+  writer.write(0, 1);  // normal code
+  writer.write(stored - 4, 4);
+  for (let i = 0; i < stored; i++) {
+    writer.write(lengthCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  writer.write(0, 1);  // code lengths cover the whole alphabet
+
+  for (const [symbol, extra] of tokens) {
+    writer.write(lengthCode.codes[symbol], lengthCode.lengths[symbol]);
+    if (symbol === 17) writer.write(extra, 3);
+    else if (symbol === 18) writer.write(extra, 7);
+  }
+
+  return code;
+}
+
+// Predictor modes tried per tile: left, top, average of left and top, and
+// clamped gradient (L + T - TL). Modes that read the top-right pixel are
+// skipped because of how that pixel wraps at the right edge.
+const PREDICTOR_MODES = [1, 2, 7, 12];
+const PREDICTOR_TILE_BITS = 5;
+
+function average2(a: number, b: number): number {
+  return (
+    (((((a >>> 24) + (b >>> 24)) >> 1) << 24) |
+      (((((a >> 16) & 0xff) + ((b >> 16) & 0xff)) >> 1) << 16) |
+      (((((a >> 8) & 0xff) + ((b >> 8) & 0xff)) >> 1) << 8) |
+      (((a & 0xff) + (b & 0xff)) >> 1)) >>> 0
+  );
+}
+
+function clampAddSubtract(a: number, b: number, c: number): number {
+  let result = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = ((a >>> shift) & 0xff) + ((b >>> shift) & 0xff) - ((c >>> shift) & 0xff);
+    result |= Math.max(0, Math.min(value, 255)) << shift;
+  }
+  return result >>> 0;
+}
+
+function predict(mode: number, pixels: Uint32Array, p: number, width: number): number {
+  const left = pixels[p - 1];
+  const top = pixels[p - width];
+  switch (mode) {
+    case 1: return left;
+    case 2: return top;
+    case 7: return average2(left, top);
+    default: return clampAddSubtract(left, top, pixels[p - width - 1]);
+  }
+}
+
+function subtractPixels(a: number, b: number): number {
+  return (
+    ((((a >>> 24) - (b >>> 24)) & 0xff) << 24 |
+      ((((a >> 16) & 0xff) - ((b >> 16) & 0xff)) & 0xff) << 16 |
+      ((((a >> 8) & 0xff) - ((b >> 8) & 0xff)) & 0xff) << 8 |
+      (((a & 0xff) - (b & 0xff)) & 0xff)) >>> 0
+  );
+}
+
+function residualCost(residual: number): number {
+  let cost = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = (residual >>> shift) & 0xff;
+    cost += value < 128 ? value : 256 - value;
+  }
+  return cost;
+}
+
+/**
+ * Predictor transform: picks the best mode per tile and returns the
+ * residuals plus the tile mode sub-image (mode in the green channel)
+ */
+function applyPredictor(pixels: Uint32Array, width: number, height: number) {
+  const tileSize = 1 << PREDICTOR_TILE_BITS;
+  const tilesX = Math.ceil(width / tileSize);
+  const tilesY = Math.ceil(height / tileSize);
+  const modes = new Uint32Array(tilesX * tilesY);
+  const residuals = new Uint32Array(pixels.length);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = tx * tileSize;
+      const y0 = ty * tileSize;
+      const x1 = Math.min(x0 + tileSize, width);
+      const y1 = Math.min(y0 + tileSize, height);
+
+      // Only interior pixels use the tile mode
+      let bestMode = PREDICTOR_MODES[0];
+      let bestCost = Infinity;
+      for (const mode of PREDICTOR_MODES) {
+        let cost = 0;
+        for (let y = Math.max(y0, 1); y < y1 && cost < bestCost; y++) {
+          for (let x = Math.max(x0, 1); x < x1; x++) {
+            const p = y * width + x;
+            cost += residualCost(subtractPixels(pixels[p], predict(mode, pixels, p, width)));
+          }
+        }
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestMode = mode;
+        }
+      }
+      modes[ty * tilesX + tx] = (0xff000000 | (bestMode << 8)) >>> 0;
+
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const p = y * width + x;
+          let prediction: number;
+          if (p === 0) prediction = 0xff000000;
+          else if (y === 0) prediction = pixels[p - 1];
+          else if (x === 0) prediction = pixels[p - width];
+          else prediction = predict(bestMode, pixels, p, width);
+          residuals[p] = subtractPixels(pixels[p], prediction);
+        }
+      }
+    }
+  }
+
+  return { residuals, modes, tilesX };
+}
+
+/**
+ * Entropy-code an image (the main image or a transform sub-image):
+ * backward references to the left and upper neighbours, then five
+ * prefix codes and the symbol stream
+ */
+function writeImageData(writer: BitWriter, pixels: Uint32Array, width: number, isMainImage: boolean): void {
+  const pixelCount = pixels.length;
+  // tokenLength 0 marks a literal pixel
+  const tokenLength = new Uint16Array(pixelCount);
+  const tokenValue = new Uint32Array(pixelCount);
+  let tokenCount = 0;
+  const counts = ALPHABET_SIZES.map((size) => new Uint32Array(size));
+
+  const matchLength = (position: number, distance: number): number => {
+    if (position < distance) return 0;
+    const limit = Math.min(MAX_COPY_LENGTH, pixelCount - position);
+    let length = 0;
+    while (length < limit && pixels[position + length] === pixels[position + length - distance]) length++;
+    return length;
+  };
+
+  for (let p = 0; p < pixelCount;) {
+    const left = matchLength(p, 1);
+    const up = width > 1 ? matchLength(p, width) : 0;
+    const length = Math.max(left, up);
+
+    if (length >= MIN_COPY_LENGTH) {
+      const planeCode = up >= left ? PLANE_CODE_UP : PLANE_CODE_LEFT;
+      tokenLength[tokenCount] = length;
+      tokenValue[tokenCount++] = planeCode;
+      counts[0][256 + prefixEncode(length).symbol]++;
+      counts[4][prefixEncode(planeCode).symbol]++;
+      p += length;
+    } else {
+      const argb = pixels[p];
+      tokenLength[tokenCount] = 0;
+      tokenValue[tokenCount++] = argb;
+      counts[0][(argb >> 8) & 0xff]++;
+      counts[1][(argb >> 16) & 0xff]++;
+      counts[2][argb & 0xff]++;
+      counts[3][argb >>> 24]++;
+      p++;
+    }
+  }
+
+  writer.write(0, 1);  // no color cache
+  if (isMainImage) writer.write(0, 1);  // single prefix code group
+
+  const [green, red, blue, alpha, distance] = counts.map((c) => writePrefixCode(writer, c));
+  const writeSymbol = (code: PrefixCode, symbol: number) => {
+    if (code.lengths[symbol] > 0) writer.write(code.codes[symbol], code.lengths[symbol]);
+  };
+
+  for (let t = 0; t < tokenCount; t++) {
+    if (tokenLength[t] === 0) {
+      const argb = tokenValue[t];
+      writeSymbol(green, (argb >> 8) & 0xff);
+      writeSymbol(red, (argb >> 16) & 0xff);
+      writeSymbol(blue, argb & 0xff);
+      writeSymbol(alpha, argb >>> 24);
+    } else {
+      const length = prefixEncode(tokenLength[t]);
+      writeSymbol(green, 256 + length.symbol);
+      if (length.extraBits > 0) writer.write(length.extra, length.extraBits);
+      const dist = prefixEncode(tokenValue[t]);
+      writeSymbol(distance, dist.symbol);
+      if (dist.extraBits > 0) writer.write(dist.extra, dist.extraBits);
+    }
+  }
+}
+
+/**
+ * Encode an RGBA image as lossless WebP
+ */
+export function encodeWebp(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  if (width > MAX_WEBP_DIMENSION || height > MAX_WEBP_DIMENSION) {
+    throw new Error(`Image too large for WebP (max ${MAX_WEBP_DIMENSION} pixels per side)`);
+  }
+
+  // Subtract-green transform, packed as ARGB
+  const pixelCount = width * height;
+  const pixels = new Uint32Array(pixelCount);
+  let hasAlpha = false;
+  for (let p = 0; p < pixelCount; p++) {
+    const r = data[p * 4];
+    const g = data[p * 4 + 1];
+    const b = data[p * 4 + 2];
+    const a = data[p * 4 + 3];
+    if (a !== 255) hasAlpha = true;
+    pixels[p] = ((a << 24) | (((r - g) & 0xff) << 16) | (g << 8) | ((b - g) & 0xff)) >>> 0;
+  }
+  const { residuals, modes, tilesX } = applyPredictor(pixels, width, height);
+
+  const writer = createBitWriter();
+  writer.write(0x2f, 8);  // VP8L signature
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(hasAlpha ? 1 : 0, 1);
+  writer.write(0, 3);     // version
+
+  // Transforms are undone in reverse order: predictor, then add green
+  writer.write(1, 1);
+  writer.write(2, 2);     // SUBTRACT_GREEN
+  writer.write(1, 1);
+  writer.write(0, 2);     // PREDICTOR
+  writer.write(PREDICTOR_TILE_BITS - 2, 3);
+  writeImageData(writer, modes, tilesX, false);
+  writer.write(0, 1);     // no more transforms
+
+  writeImageData(writer, residuals, width, true);
+
+  const vp8l = writer.finish();
+  const padding = vp8l.length % 2;
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(12 + vp8l.length + padding, 4);
+  header.write("WEBP", 8, "ascii");
+  header.write("VP8L", 12, "ascii");
+  header.writeUInt32LE(vp8l.length, 16);
+
+  return Buffer.concat([header, vp8l, Buffer.alloc(padding)]);
+}